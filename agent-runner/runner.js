@@ -2,27 +2,280 @@
  * Isolated Agent Runner
  *
  * Runs inside a Docker container. Receives all input (API key, messages,
- * system prompt) via stdin as JSON. Outputs response via stdout as JSON.
- * Secrets never touch disk or environment variables.
+ * system prompt, tool definitions) via stdin as JSON. Outputs response via
+ * stdout as JSON. Secrets never touch disk or environment variables.
  *
- * Protocol:
- *   stdin  <- JSON: { apiKey, model, maxTokens, systemPrompt, messages }
- *   stdout -> JSON: { content, inputTokens, outputTokens }
+ * Protocol (line-based):
+ *   stdin  <- first line: { models, retry, maxTokens, systemPrompt, systemVolatile?, promptCache?, messages, tools?, maxToolIterations? }
+ *   stdout -> ===AGENT_TOOL_CALL=== { id, name, input, iteration }   (one per tool_use block)
+ *   stdin  <- { type: "tool_result", id, content, isError }          (host reply, after HITL)
+ *   stdout -> JSON: { content, inputTokens, outputTokens, usageByModel, toolCalls, transcript, contextTokens } between sentinels
  *   stderr -> logs (forwarded to host)
  *
+ * Tools never execute inside the container: the host runs them through its
+ * tool registry and approval gate and sends back the result.
+ *
+ * models is the fallback chain: [{ ref, api, apiKey, baseUrl?, model }], primary
+ * first. api selects the wire protocol: "anthropic" (Messages API) or "openai"
+ * (chat completions at baseUrl, e.g. OpenAI, Ollama, vLLM). Messages are
+ * kept in the Anthropic format and translated for OpenAI-compatible servers.
+ * Transient errors (429, 529, 5xx, connection errors) are retried per
+ * retry = { maxRetries, initialDelayMs, maxDelayMs }, then the next model is tried.
+ *
  * Sentinel markers delimit the JSON output for reliable parsing.
  */
 
+const readline = require('readline');
+
 const OUTPUT_START = '===AGENT_OUTPUT_START===';
 const OUTPUT_END = '===AGENT_OUTPUT_END===';
+const TOOL_CALL_PREFIX = '===AGENT_TOOL_CALL===';
 
-async function main() {
-  // Read all of stdin
-  const chunks = [];
-  for await (const chunk of process.stdin) {
-    chunks.push(chunk);
+const rl = readline.createInterface({ input: process.stdin, terminal: false });
+
+let resolveInput;
+const inputLine = new Promise((resolve) => {
+  resolveInput = resolve;
+});
+const pendingToolCalls = new Map();
+
+rl.on('line', (line) => {
+  if (!line.trim()) return;
+
+  if (resolveInput) {
+    const resolve = resolveInput;
+    resolveInput = undefined;
+    resolve(line);
+    return;
+  }
+
+  try {
+    const msg = JSON.parse(line);
+    const pending = msg.type === 'tool_result' && pendingToolCalls.get(msg.id);
+    if (pending) {
+      pendingToolCalls.delete(msg.id);
+      pending({ content: String(msg.content ?? ''), isError: !!msg.isError });
+    }
+  } catch (err) {
+    process.stderr.write(`[agent-runner] Ignoring malformed host message: ${err.message}\n`);
+  }
+});
+
+rl.on('close', () => {
+  // Host went away - fail any outstanding tool calls
+  for (const [id, pending] of pendingToolCalls) {
+    pendingToolCalls.delete(id);
+    pending({ content: 'Host closed the connection before returning a tool result.', isError: true });
+  }
+  if (resolveInput) resolveInput('');
+});
+
+/** Ask the host to execute a tool call and wait for its result. */
+function requestToolCall(block, iteration) {
+  return new Promise((resolve) => {
+    pendingToolCalls.set(block.id, resolve);
+    const call = { id: block.id, name: block.name, input: block.input, iteration };
+    process.stdout.write(`${TOOL_CALL_PREFIX} ${JSON.stringify(call)}\n`);
+  });
+}
+
+/** Create a chat function for the configured provider API. */
+async function createChat({ api, apiKey, baseUrl }) {
+  if (api === 'openai') {
+    return (params) => openaiChat(baseUrl, apiKey, params);
+  }
+
+  const { default: Anthropic } = await import('@anthropic-ai/sdk');
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
+  return async (params) => {
+    const response = await client.messages.create(
+      params.cache
+        ? withCacheBreakpoints(params)
+        : {
+            model: params.model,
+            max_tokens: params.maxTokens,
+            system: params.system + (params.systemVolatile || ''),
+            messages: params.messages,
+            ...(params.tools && params.tools.length > 0 ? { tools: params.tools } : {}),
+          },
+    );
+    return {
+      content: response.content.filter((b) => b.type === 'text' || b.type === 'tool_use'),
+      stopReason: response.stop_reason,
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      cacheCreationTokens: response.usage.cache_creation_input_tokens || 0,
+      cacheReadTokens: response.usage.cache_read_input_tokens || 0,
+    };
+  };
+}
+
+/**
+ * Anthropic request with prompt cache breakpoints on the last tool, the
+ * stable system prompt and the last message (same as the host provider).
+ */
+function withCacheBreakpoints(params) {
+  const ephemeral = { type: 'ephemeral' };
+  const tools = (params.tools || []).map((t, i, all) => (i === all.length - 1 ? { ...t, cache_control: ephemeral } : t));
+  const system = [{ type: 'text', text: params.system, cache_control: ephemeral }];
+  if (params.systemVolatile) system.push({ type: 'text', text: params.systemVolatile });
+
+  const messages = [...params.messages];
+  const last = messages[messages.length - 1];
+  if (last) {
+    const blocks = typeof last.content === 'string' ? [{ type: 'text', text: last.content }] : [...last.content];
+    if (blocks.length > 0) blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: ephemeral };
+    messages[messages.length - 1] = { ...last, content: blocks };
+  }
+
+  return {
+    model: params.model,
+    max_tokens: params.maxTokens,
+    system,
+    messages,
+    ...(tools.length > 0 ? { tools } : {}),
+  };
+}
+
+/** Chat completions request against an OpenAI-compatible server. */
+async function openaiChat(baseUrl, apiKey, params) {
+  const messages = [{ role: 'system', content: params.system + (params.systemVolatile || '') }];
+  for (const msg of params.messages) {
+    if (typeof msg.content === 'string') {
+      messages.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+    const text = msg.content
+      .filter((b) => b.type === 'text')
+      .map((b) => b.text)
+      .join('\n');
+    if (msg.role === 'assistant') {
+      const toolCalls = msg.content
+        .filter((b) => b.type === 'tool_use')
+        .map((b) => ({ id: b.id, type: 'function', function: { name: b.name, arguments: JSON.stringify(b.input || {}) } }));
+      messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+      continue;
+    }
+    for (const b of msg.content) {
+      if (b.type === 'tool_result') {
+        const content = typeof b.content === 'string' ? b.content : JSON.stringify(b.content);
+        messages.push({ role: 'tool', tool_call_id: b.tool_use_id, content: b.is_error ? `Error: ${content}` : content });
+      }
+    }
+    if (text) messages.push({ role: 'user', content: text });
+  }
+
+  let res;
+  try {
+    res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({
+        model: params.model,
+        max_tokens: params.maxTokens,
+        messages,
+        ...(params.tools && params.tools.length > 0
+          ? {
+              tools: params.tools.map((t) => ({
+                type: 'function',
+                function: { name: t.name, description: t.description, parameters: t.input_schema },
+              })),
+            }
+          : {}),
+      }),
+    });
+  } catch (err) {
+    // Connection failures carry no status and are retryable
+    throw Object.assign(new Error(`Request failed: ${err.message}`), { status: undefined });
   }
-  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!res.ok) {
+    const error = new Error(`API error ${res.status}: ${(await res.text()).slice(0, 500)}`);
+    throw Object.assign(error, { status: res.status, retryAfter: res.headers.get('retry-after') });
+  }
+
+  const completion = await res.json();
+  const choice = (completion.choices || [])[0];
+  if (!choice) throw new Error('API returned no choices');
+
+  const content = [];
+  if (choice.message && choice.message.content) content.push({ type: 'text', text: choice.message.content });
+  const toolCalls = (choice.message && choice.message.tool_calls) || [];
+  toolCalls.forEach((call, i) => {
+    let input = {};
+    try {
+      input = JSON.parse(call.function.arguments || '{}');
+    } catch {
+      process.stderr.write(`[agent-runner] Could not parse arguments of tool call ${call.function.name}\n`);
+    }
+    content.push({ type: 'tool_use', id: call.id || `call_${Date.now()}_${i}`, name: call.function.name, input });
+  });
+
+  const usage = completion.usage || {};
+  const cachedTokens = (usage.prompt_tokens_details && usage.prompt_tokens_details.cached_tokens) || 0;
+  return {
+    content,
+    stopReason: toolCalls.length > 0 ? 'tool_use' : choice.finish_reason === 'length' ? 'max_tokens' : 'end_turn',
+    inputTokens: (usage.prompt_tokens || 0) - cachedTokens,
+    outputTokens: usage.completion_tokens || 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: cachedTokens,
+  };
+}
+
+// 408 timeout, 409 conflict, 429 rate limit, 5xx server errors, 529 overloaded
+const RETRYABLE_STATUS = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+function isRetryable(err) {
+  if (!err || !('status' in err)) return false;
+  return err.status === undefined || RETRYABLE_STATUS.has(err.status);
+}
+
+function retryDelay(retry, policy, err) {
+  const header = err.retryAfter || (err.headers && err.headers['retry-after']);
+  const seconds = Number(header);
+  if (header && !Number.isNaN(seconds)) return Math.min(seconds * 1000, policy.maxDelayMs);
+  const base = Math.min(policy.initialDelayMs * 2 ** retry, policy.maxDelayMs);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Chat through the model chain: retry transient errors with backoff,
+ * then fall back to the next model. Returns the serving model and retries.
+ */
+async function chatWithFallback(chats, policy, params) {
+  let failures = 0;
+  let lastError;
+  for (const { ref, model, chat } of chats) {
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+      try {
+        const response = await chat({ ...params, model });
+        return { ...response, modelRef: ref, retries: failures };
+      } catch (err) {
+        if (!isRetryable(err)) throw err;
+        lastError = err;
+        failures++;
+        if (attempt < policy.maxRetries) {
+          const delay = retryDelay(attempt, policy, err);
+          process.stderr.write(`[agent-runner] ${ref} failed (${err.message}), retry ${attempt + 1} in ${delay}ms\n`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        } else {
+          process.stderr.write(`[agent-runner] ${ref} failed (${err.message}), giving up on this model\n`);
+        }
+      }
+    }
+  }
+  throw lastError;
+}
+
+function writeOutput(result) {
+  // Write result between sentinel markers for reliable parsing
+  process.stdout.write(OUTPUT_START + '\n');
+  process.stdout.write(JSON.stringify(result) + '\n');
+  process.stdout.write(OUTPUT_END + '\n');
+}
+
+async function main() {
+  const raw = await inputLine;
 
   let input;
   try {
@@ -32,48 +285,114 @@ async function main() {
     process.exit(1);
   }
 
-  const { apiKey, model, maxTokens, systemPrompt, messages } = input;
+  const { models, retry, maxTokens, systemPrompt, systemVolatile, promptCache, messages, tools, maxToolIterations } =
+    input;
 
-  if (!apiKey) {
-    process.stderr.write('[agent-runner] Missing apiKey in input\n');
+  if (!Array.isArray(models) || models.length === 0) {
+    process.stderr.write('[agent-runner] Missing models in input\n');
     process.exit(1);
   }
+  for (const m of models) {
+    // OpenAI-compatible local servers (Ollama, vLLM) usually need no key
+    if (m.api === 'openai' ? !m.baseUrl : !m.apiKey) {
+      process.stderr.write(`[agent-runner] Missing ${m.api === 'openai' ? 'baseUrl' : 'apiKey'} for ${m.ref}\n`);
+      process.exit(1);
+    }
+  }
 
-  process.stderr.write(`[agent-runner] Processing ${messages.length} messages with ${model}\n`);
+  process.stderr.write(
+    `[agent-runner] Processing ${messages.length} messages with ${models[0].ref} (${(tools || []).length} tools)\n`,
+  );
 
   try {
-    const { default: Anthropic } = await import('@anthropic-ai/sdk');
-    const client = new Anthropic({ apiKey });
-
-    const response = await client.messages.create({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: maxTokens || 8192,
-      system: systemPrompt || 'You are a helpful AI assistant.',
-      messages,
-    });
+    const chats = [];
+    for (const m of models) {
+      chats.push({ ref: m.ref, model: m.model, chat: await createChat(m) });
+    }
+    const policy = retry || { maxRetries: 0, initialDelayMs: 1000, maxDelayMs: 30000 };
+    const usageByModel = new Map();
 
-    const textBlocks = response.content.filter(b => b.type === 'text');
-    const content = textBlocks.map(b => b.text).join('\n');
+    const currentMessages = [...messages];
+    const maxIterations = maxToolIterations || 25;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let toolCalls = 0;
+    let contextTokens = 0;
+    let content = '(max tool iterations reached - please try a simpler request)';
 
-    const result = {
-      content,
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
-    };
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const response = await chatWithFallback(chats, policy, {
+        maxTokens: maxTokens || 8192,
+        system: systemPrompt || 'You are a helpful AI assistant.',
+        systemVolatile,
+        messages: currentMessages,
+        tools,
+        cache: !!promptCache,
+      });
+
+      inputTokens += response.inputTokens;
+      outputTokens += response.outputTokens;
+      contextTokens = response.inputTokens + response.cacheCreationTokens + response.cacheReadTokens;
 
-    // Write result between sentinel markers for reliable parsing
-    process.stdout.write(OUTPUT_START + '\n');
-    process.stdout.write(JSON.stringify(result) + '\n');
-    process.stdout.write(OUTPUT_END + '\n');
+      const usage = usageByModel.get(response.modelRef) || {
+        model: response.modelRef,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        retries: 0,
+      };
+      usage.inputTokens += response.inputTokens;
+      usage.outputTokens += response.outputTokens;
+      usage.cacheCreationTokens += response.cacheCreationTokens;
+      usage.cacheReadTokens += response.cacheReadTokens;
+      usage.retries += response.retries;
+      usageByModel.set(response.modelRef, usage);
 
-    process.stderr.write(`[agent-runner] Done: ${response.usage.input_tokens}+${response.usage.output_tokens} tokens\n`);
+      if (response.stopReason !== 'tool_use') {
+        const textBlocks = response.content.filter((b) => b.type === 'text');
+        content = textBlocks.map((b) => b.text).join('\n') || '(no response)';
+        if (response.stopReason === 'max_tokens') {
+          content += '\n\n(Response was cut short due to length limits. Please try a shorter or simpler request.)';
+        }
+        break;
+      }
+
+      // Proxy each tool call to the host and feed the results back
+      currentMessages.push({ role: 'assistant', content: response.content });
+      const toolResults = [];
+      for (const block of response.content) {
+        if (block.type !== 'tool_use') continue;
+        toolCalls++;
+        const result = await requestToolCall(block, iteration);
+        toolResults.push({
+          type: 'tool_result',
+          tool_use_id: block.id,
+          content: result.content,
+          is_error: result.isError,
+        });
+      }
+      currentMessages.push({ role: 'user', content: toolResults });
+    }
+
+    // Tool turns are returned so the host can persist them in the conversation
+    const transcript = currentMessages.slice(messages.length);
+    writeOutput({
+      content,
+      inputTokens,
+      outputTokens,
+      usageByModel: Array.from(usageByModel.values()),
+      toolCalls,
+      transcript,
+      contextTokens,
+    });
+    process.stderr.write(`[agent-runner] Done: ${inputTokens}+${outputTokens} tokens, ${toolCalls} tool calls\n`);
+    rl.close();
   } catch (err) {
     process.stderr.write(`[agent-runner] API error: ${err.message}\n`);
 
     // Still output structured error
-    process.stdout.write(OUTPUT_START + '\n');
-    process.stdout.write(JSON.stringify({ error: err.message }) + '\n');
-    process.stdout.write(OUTPUT_END + '\n');
+    writeOutput({ error: err.message });
     process.exit(1);
   }
 }
@@ -19,4 +19,4 @@ export {
   a2aEvents,
 } from './bus';
 export { spawnSubAgent, cancelSubAgent, getSubAgentStats } from './spawner';
-export { delegateTaskTool, broadcastEventTool, queryAgentsTool, setA2AContext } from './tools';
+export { delegateTaskTool, broadcastEventTool, queryAgentsTool } from './tools';
@@ -4,18 +4,22 @@
  * When an agent uses delegate_task, this module:
  * 1. Finds or spawns an agent with the requested role
  * 2. Sets up message listeners for communication
- * 3. Runs the agent loop with the delegated task
+ * 3. Runs the agent loop with the delegated task (tool calls pass the
+ *    HITL approval gate, like those of the parent run)
  * 4. Returns results via A2A messages
  */
 
 import { v4 as uuid } from 'uuid';
-import Anthropic from '@anthropic-ai/sdk';
+import type Anthropic from '@anthropic-ai/sdk';
 import { config } from '../../config';
 import { AgentIdentity, PREDEFINED_ROLES } from './protocol';
 import { registerAgent, unregisterAgent, sendMessage, a2aEvents, getAgentsByRole } from './bus';
-import { toolRegistry } from '../tools';
+import { toolRegistry, ToolContext, ToolResult } from '../tools';
+import { checkApprovalRequired, requestApproval } from '../hitl/manager';
 import { logApiCall } from '../../db/sqlite';
-import { getGroupApiKey } from '../groups/manager';
+import { getAgentGroup, getGroupApiKey } from '../groups/manager';
+import { chatWithFallback, ModelChain, resolveFallbackModels, resolveRetryPolicy } from '../providers';
+import { computeCost, computeCacheSavings } from '../pricing';
 
 // Track running sub-agents
 const runningAgents = new Map<
@@ -38,8 +42,10 @@ export async function spawnSubAgent(params: {
   parentAgentId: string;
   conversationId: string;
   waitForResult?: boolean;
+  /** Tool context of the delegating run (repo, secrets, abort signal are inherited) */
+  parentContext?: ToolContext;
 }): Promise<string> {
-  const { role, task, context, groupId, parentAgentId, conversationId } = params;
+  const { role, task, context, groupId, parentAgentId, conversationId, parentContext } = params;
 
   // Find the role definition
   const roleConfig = PREDEFINED_ROLES.find((r) => r.id === role);
@@ -64,9 +70,21 @@ export async function spawnSubAgent(params: {
   };
 
   const abortController = new AbortController();
+  const onParentAbort = () => abortController.abort();
+  parentContext?.signal.addEventListener('abort', onParentAbort, { once: true });
   registerAgent(identity);
   runningAgents.set(agentId, { identity, abortController });
 
+  const toolContext: ToolContext = {
+    runId: parentContext?.runId,
+    conversationId,
+    groupId,
+    agentId,
+    githubRepo: parentContext?.githubRepo,
+    secrets: parentContext?.secrets ?? {},
+    signal: abortController.signal,
+  };
+
   try {
     // Build the agent's system prompt
     const baseSystemPrompt = roleConfig.systemPrompt;
@@ -74,11 +92,14 @@ export async function spawnSubAgent(params: {
       ? `${baseSystemPrompt}\n\n## Context from parent agent:\n${context}`
       : baseSystemPrompt;
 
-    // Get API key for the group
-    const apiKey = getGroupApiKey(groupId);
-
-    // Create Anthropic client
-    const client = new Anthropic({ apiKey: apiKey || config.anthropicApiKey });
+    // Sub-agents use the group's model chain and API key
+    const group = getAgentGroup(groupId);
+    const modelRef = group?.model || config.agentModel;
+    const chain: ModelChain = {
+      models: [modelRef, ...resolveFallbackModels(group)],
+      apiKey: getGroupApiKey(groupId),
+      retry: resolveRetryPolicy(group),
+    };
 
     // Build messages
     const messages: Anthropic.MessageParam[] = [{ role: 'user', content: task }];
@@ -105,6 +126,12 @@ export async function spawnSubAgent(params: {
     const MAX_SUB_ITERATIONS = 10;
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
+    let totalRetries = 0;
+    let totalCacheCreationTokens = 0;
+    let totalCacheReadTokens = 0;
+    let totalCost = 0;
+    let totalCacheSavings = 0;
+    let servedModel = modelRef;
     const currentMessages = [...messages];
 
     for (let iteration = 0; iteration < MAX_SUB_ITERATIONS; iteration++) {
@@ -112,26 +139,42 @@ export async function spawnSubAgent(params: {
         return '(sub-agent was cancelled)';
       }
 
-      const response = await client.messages.create({
-        model: config.agentModel,
-        max_tokens: config.agentMaxTokens,
-        system: systemPrompt,
-        messages: currentMessages,
-        ...(tools.length > 0 ? { tools } : {}),
-      });
+      const response = await chatWithFallback(
+        chain,
+        {
+          maxTokens: config.agentMaxTokens,
+          system: systemPrompt,
+          messages: currentMessages,
+          tools,
+          cache: config.agentPromptCache,
+        },
+        { signal: abortController.signal },
+      );
 
-      totalInputTokens += response.usage.input_tokens;
-      totalOutputTokens += response.usage.output_tokens;
+      totalInputTokens += response.usage.inputTokens;
+      totalOutputTokens += response.usage.outputTokens;
+      totalRetries += response.retries;
+      totalCacheCreationTokens += response.usage.cacheCreationTokens;
+      totalCacheReadTokens += response.usage.cacheReadTokens;
+      totalCost += computeCost(response.modelRef, response.usage);
+      totalCacheSavings += computeCacheSavings(response.modelRef, response.usage);
+      servedModel = response.modelRef;
 
-      if (response.stop_reason !== 'tool_use') {
-        const textBlocks = response.content.filter((b): b is Anthropic.TextBlock => b.type === 'text');
+      if (response.stopReason !== 'tool_use') {
+        const textBlocks = response.content.filter((b): b is Anthropic.TextBlockParam => b.type === 'text');
         const result = textBlocks.map((b) => b.text).join('\n') || '(no response)';
 
         // Log API usage
         logApiCall({
-          model: config.agentModel,
+          model: servedModel,
+          requested_model: modelRef,
+          retries: totalRetries,
           input_tokens: totalInputTokens,
           output_tokens: totalOutputTokens,
+          cache_creation_input_tokens: totalCacheCreationTokens,
+          cache_read_input_tokens: totalCacheReadTokens,
+          cost: totalCost,
+          cache_savings: totalCacheSavings,
           duration_ms: 0,
           isolated: false,
           agent_group_id: groupId,
@@ -160,7 +203,7 @@ export async function spawnSubAgent(params: {
       for (const block of response.content) {
         if (block.type === 'tool_use') {
           const toolInput = block.input as Record<string, unknown>;
-          const result = await toolRegistry.execute(block.name, toolInput);
+          const result = await executeSubAgentTool(block.name, toolInput, toolContext);
           toolResults.push({
             type: 'tool_result',
             tool_use_id: block.id,
@@ -179,12 +222,55 @@ export async function spawnSubAgent(params: {
     console.error(`[a2a] Sub-agent ${agentId} error:`, msg);
     return `Error: ${msg}`;
   } finally {
+    parentContext?.signal.removeEventListener('abort', onParentAbort);
     unregisterAgent(agentId);
     runningAgents.delete(agentId);
     a2aEvents.emit('agent:stopped', { agentId });
   }
 }
 
+/**
+ * Run a sub-agent's tool call behind the HITL approval gate. Approvals
+ * belong to the parent's run; without one, tools that need approval are
+ * refused.
+ */
+async function executeSubAgentTool(
+  name: string,
+  input: Record<string, unknown>,
+  context: ToolContext,
+): Promise<ToolResult> {
+  // Invalid input never reaches a reviewer
+  const invalid = toolRegistry.validate(name, input, context);
+  if (invalid) return invalid;
+
+  const approvalCheck = checkApprovalRequired(name, toolRegistry.get(name, context.groupId)?.riskLevel);
+  if (approvalCheck.required) {
+    if (!context.runId) {
+      return { content: `Error: ${name} requires human approval (risk: ${approvalCheck.riskLevel})`, isError: true };
+    }
+    const approval = requestApproval({
+      runId: context.runId,
+      conversationId: context.conversationId,
+      groupId: context.groupId,
+      toolName: name,
+      toolInput: input,
+      riskLevel: approvalCheck.riskLevel,
+      timeoutSeconds: approvalCheck.timeoutSeconds,
+      timeoutAction: approvalCheck.timeoutAction,
+      signal: context.signal,
+    });
+    const result = await approval.promise;
+    if (!result.approved) {
+      return {
+        content: `Tool call rejected by human reviewer: ${result.reason || 'Not approved'}. Please adjust your approach.`,
+        isError: true,
+      };
+    }
+  }
+
+  return toolRegistry.execute(name, input, context);
+}
+
 /**
  * Cancel a running sub-agent.
  */
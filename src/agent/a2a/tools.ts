@@ -7,22 +7,11 @@
  * - query_agents: Query available agents and their capabilities
  */
 
-import { AgentTool, ToolResult } from '../tools/types';
+import { AgentTool, ToolContext, ToolResult } from '../tools/types';
 import { spawnSubAgent, getSubAgentStats } from './spawner';
 import { sendMessage, getActiveAgents } from './bus';
 import { PREDEFINED_ROLES } from './protocol';
 
-// Context injected per-request (set before each agent loop iteration)
-let currentContext: {
-  groupId: string;
-  agentId: string;
-  conversationId: string;
-} = { groupId: '', agentId: 'gateway', conversationId: '' };
-
-export function setA2AContext(ctx: typeof currentContext): void {
-  currentContext = ctx;
-}
-
 export const delegateTaskTool: AgentTool = {
   name: 'delegate_task',
   description: `Delegate a sub-task to another agent with a specific role. The sub-agent will work on the task autonomously and return results. Available roles: planner (plans & coordinates), builder (code & implementation), reviewer (analysis & feedback), researcher (web research & information gathering).`,
@@ -46,12 +35,12 @@ export const delegateTaskTool: AgentTool = {
     required: ['role', 'task'],
   },
 
-  async execute(input: Record<string, unknown>): Promise<ToolResult> {
+  async execute(input: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
     const role = input.role as string;
     const task = input.task as string;
     const context = input.context as string | undefined;
 
-    if (!currentContext.groupId) {
+    if (!ctx.groupId) {
       return {
         content: 'Error: A2A context not initialized. delegate_task requires an agent group context.',
         isError: true,
@@ -63,9 +52,10 @@ export const delegateTaskTool: AgentTool = {
         role,
         task,
         context,
-        groupId: currentContext.groupId,
-        parentAgentId: currentContext.agentId,
-        conversationId: currentContext.conversationId,
+        groupId: ctx.groupId,
+        parentAgentId: ctx.agentId,
+        conversationId: ctx.conversationId,
+        parentContext: ctx,
       });
 
       return { content: `[${role} agent result]:\n\n${result}` };
@@ -95,27 +85,27 @@ export const broadcastEventTool: AgentTool = {
     required: ['event', 'data'],
   },
 
-  async execute(input: Record<string, unknown>): Promise<ToolResult> {
+  async execute(input: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
     const event = input.event as string;
     const data = input.data as string;
 
     sendMessage({
       type: 'event',
       from: {
-        id: currentContext.agentId,
+        id: ctx.agentId,
         role: 'broadcaster',
-        groupId: currentContext.groupId,
+        groupId: ctx.groupId || '',
         capabilities: [],
       },
       to: '*',
-      conversationId: currentContext.conversationId,
+      conversationId: ctx.conversationId,
       payload: {
         action: event,
         content: data,
       },
     });
 
-    const activeCount = getActiveAgents().filter((a) => a.groupId === currentContext.groupId).length;
+    const activeCount = getActiveAgents().filter((a) => a.groupId === ctx.groupId).length;
     return { content: `Event "${event}" broadcast to ${activeCount} active agent(s).` };
   },
 };
@@ -6,14 +6,24 @@
  * - Secrets passed via stdin only (never on disk or env)
  * - Configurable timeouts and concurrency limits
  * - Sentinel markers for reliable output parsing
+ *
+ * Tool use is proxied back to the host over a line-based stdio RPC so that
+ * every tool call still passes through the host's tool registry and HITL gate:
+ *   stdin  <- first line: ContainerInput JSON
+ *   stdout -> ===AGENT_TOOL_CALL=== {"id","name","input","iteration"}
+ *   stdin  <- {"type":"tool_result","id","content","isError"}
+ *   stdout -> final result (incl. tool transcript) between OUTPUT_START / OUTPUT_END
  */
 
-import { spawn } from 'child_process';
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import { EventEmitter } from 'events';
+import type Anthropic from '@anthropic-ai/sdk';
 import { getSkillsDir } from './skills/loader';
+import type { ProviderApi, RetryPolicy } from './providers';
 
 const OUTPUT_START = '===AGENT_OUTPUT_START===';
 const OUTPUT_END = '===AGENT_OUTPUT_END===';
+const TOOL_CALL_PREFIX = '===AGENT_TOOL_CALL===';
 
 const AGENT_IMAGE = 'loop-gateway-agent:latest';
 const CONTAINER_TIMEOUT_MS = parseInt(process.env.CONTAINER_TIMEOUT_MS || '600000', 10); // 10 min default
@@ -26,29 +36,80 @@ const queue: Array<{
   resolve: (result: ContainerResult) => void;
   reject: (err: Error) => void;
   input: ContainerInput;
+  onToolCall?: ContainerToolHandler;
+  signal?: AbortSignal;
 }> = [];
 
-export interface ContainerInput {
+/** One model of the fallback chain, with the connection the runner needs */
+export interface ContainerModel {
+  /** "provider:model" reference (reported back in usageByModel) */
+  ref: string;
+  /** Wire protocol of the model provider (Anthropic Messages or OpenAI chat completions) */
+  api: ProviderApi;
   apiKey: string;
+  /** Base URL for OpenAI-compatible providers */
+  baseUrl?: string;
   model: string;
+}
+
+export interface ContainerInput {
+  /** Models in order of preference (primary first) */
+  models: ContainerModel[];
+  retry: RetryPolicy;
   maxTokens: number;
   systemPrompt: string;
-  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** System text that changes per message, sent after the prompt cache breakpoint */
+  systemVolatile?: string;
+  /** Apply prompt caching to Anthropic calls */
+  promptCache?: boolean;
+  messages: Anthropic.MessageParam[];
+  /** Tool definitions offered to the model; calls are proxied to the host */
+  tools?: Anthropic.Tool[];
+  maxToolIterations?: number;
 }
 
 export interface ContainerResult {
   content: string;
   inputTokens: number;
   outputTokens: number;
+  /** Usage per serving model (the run can move to a fallback model) */
+  usageByModel: Array<{
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    retries: number;
+  }>;
+  toolCalls: number;
+  /** Intermediate tool_use / tool_result turns of the run */
+  transcript: Anthropic.MessageParam[];
+  /** Input tokens of the last API call incl. cached tokens */
+  contextTokens: number;
+}
+
+export interface ContainerToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+  iteration: number;
 }
 
+export type ContainerToolHandler = (call: ContainerToolCall) => Promise<{ content: string; isError?: boolean }>;
+
 /**
  * Run an agent invocation inside an isolated Docker container.
  * Enforces global concurrency limit with a FIFO queue.
+ * Tool calls requested inside the container are resolved via onToolCall.
+ * Aborting the signal kills the container (or drops it from the queue).
  */
-export function runInContainer(input: ContainerInput): Promise<ContainerResult> {
+export function runInContainer(
+  input: ContainerInput,
+  onToolCall?: ContainerToolHandler,
+  signal?: AbortSignal,
+): Promise<ContainerResult> {
   return new Promise((resolve, reject) => {
-    queue.push({ resolve, reject, input });
+    queue.push({ resolve, reject, input, onToolCall, signal });
     processQueue();
   });
 }
@@ -56,10 +117,14 @@ export function runInContainer(input: ContainerInput): Promise<ContainerResult>
 function processQueue() {
   while (queue.length > 0 && activeContainers < MAX_CONCURRENT_CONTAINERS) {
     const item = queue.shift()!;
+    if (item.signal?.aborted) {
+      item.reject(new Error('Container run cancelled'));
+      continue;
+    }
     activeContainers++;
     containerEvents.emit('container:start', { active: activeContainers, queued: queue.length });
 
-    executeContainer(item.input)
+    executeContainer(item.input, item.onToolCall, item.signal)
       .then(item.resolve)
       .catch(item.reject)
       .finally(() => {
@@ -70,37 +135,95 @@ function processQueue() {
   }
 }
 
-async function executeContainer(input: ContainerInput): Promise<ContainerResult> {
+async function executeContainer(
+  input: ContainerInput,
+  onToolCall?: ContainerToolHandler,
+  signal?: AbortSignal,
+): Promise<ContainerResult> {
+  const args = [
+    'run',
+    '--rm', // Auto-remove after exit
+    '-i', // Interactive (stdin)
+    '--memory=512m', // Memory limit
+    '--cpus=0.5', // CPU limit
+    '--read-only', // Read-only filesystem
+    '--tmpfs=/tmp:rw,noexec,nosuid', // Writable tmp only
+    '-v',
+    `${getSkillsDir()}:/skills:ro`, // Mount skills directory (read-only)
+    '--name',
+    `agent-run-${Date.now()}`,
+    AGENT_IMAGE,
+  ];
+
+  const child = spawn('docker', args, {
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  return runAgentProcess(child, input, onToolCall, signal);
+}
+
+/**
+ * Drive an agent-runner process over the stdio protocol: send the input,
+ * answer its tool calls via onToolCall and parse the final output. The
+ * process is killed on timeout or when the signal aborts.
+ */
+export function runAgentProcess(
+  child: ChildProcessWithoutNullStreams,
+  input: ContainerInput,
+  onToolCall?: ContainerToolHandler,
+  signal?: AbortSignal,
+): Promise<ContainerResult> {
   return new Promise((resolve, reject) => {
-    const args = [
-      'run',
-      '--rm', // Auto-remove after exit
-      '-i', // Interactive (stdin)
-      '--memory=512m', // Memory limit
-      '--cpus=0.5', // CPU limit
-      '--read-only', // Read-only filesystem
-      '--tmpfs=/tmp:rw,noexec,nosuid', // Writable tmp only
-      '-v',
-      `${getSkillsDir()}:/skills:ro`, // Mount skills directory (read-only)
-      '--name',
-      `agent-run-${Date.now()}`,
-      AGENT_IMAGE,
-    ];
-
-    const child = spawn('docker', args, {
-      stdio: ['pipe', 'pipe', 'pipe'],
+    // Pass all input via stdin - secrets never on disk.
+    // stdin stays open for tool results until the final output arrives.
+    child.stdin.on('error', (err) => {
+      process.stderr.write(`[container] stdin error: ${err.message}\n`);
     });
-
-    // Pass all input via stdin - secrets never on disk
-    const payload = JSON.stringify(input);
-    child.stdin.write(payload);
-    child.stdin.end();
+    child.stdin.write(JSON.stringify(input) + '\n');
 
     let stdout = '';
     let stderr = '';
+    let lineBuffer = '';
+
+    const handleToolCall = async (raw: string) => {
+      let call: ContainerToolCall;
+      try {
+        call = JSON.parse(raw);
+      } catch {
+        process.stderr.write(`[container] Ignoring malformed tool call: ${raw.slice(0, 200)}\n`);
+        return;
+      }
+
+      let result: { content: string; isError?: boolean };
+      try {
+        result = onToolCall
+          ? await onToolCall(call)
+          : { content: 'Tool use is not available for this run.', isError: true };
+      } catch (err) {
+        result = { content: `Tool error: ${err instanceof Error ? err.message : String(err)}`, isError: true };
+      }
+
+      if (child.stdin.writable) {
+        child.stdin.write(JSON.stringify({ type: 'tool_result', id: call.id, ...result }) + '\n');
+      }
+    };
 
     child.stdout.on('data', (data: Buffer) => {
-      stdout += data.toString();
+      const text = data.toString();
+      stdout += text;
+
+      // Scan complete lines for tool call requests
+      lineBuffer += text;
+      let newline: number;
+      while ((newline = lineBuffer.indexOf('\n')) !== -1) {
+        const line = lineBuffer.slice(0, newline).trim();
+        lineBuffer = lineBuffer.slice(newline + 1);
+
+        if (line.startsWith(TOOL_CALL_PREFIX)) {
+          void handleToolCall(line.slice(TOOL_CALL_PREFIX.length).trim());
+        } else if (line === OUTPUT_END) {
+          child.stdin.end();
+        }
+      }
     });
 
     child.stderr.on('data', (data: Buffer) => {
@@ -119,8 +242,15 @@ async function executeContainer(input: ContainerInput): Promise<ContainerResult>
       reject(new Error(`Container timed out after ${CONTAINER_TIMEOUT_MS}ms`));
     }, CONTAINER_TIMEOUT_MS);
 
+    const onAbort = () => {
+      child.kill('SIGTERM');
+      reject(new Error('Container run cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     child.on('close', (code) => {
       clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
 
       // Parse output between sentinel markers
       const startIdx = stdout.indexOf(OUTPUT_START);
@@ -145,6 +275,15 @@ async function executeContainer(input: ContainerInput): Promise<ContainerResult>
           content: result.content,
           inputTokens: result.inputTokens,
           outputTokens: result.outputTokens,
+          // Runner images built before prompt caching report no cache tokens
+          usageByModel: (result.usageByModel || []).map((u: ContainerResult['usageByModel'][number]) => ({
+            ...u,
+            cacheCreationTokens: u.cacheCreationTokens || 0,
+            cacheReadTokens: u.cacheReadTokens || 0,
+          })),
+          toolCalls: result.toolCalls || 0,
+          transcript: result.transcript || [],
+          contextTokens: result.contextTokens || result.inputTokens,
         });
       } catch (err) {
         reject(new Error(`Failed to parse container output: ${err}`));
@@ -153,6 +292,7 @@ async function executeContainer(input: ContainerInput): Promise<ContainerResult>
 
     child.on('error', (err) => {
       clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
       reject(new Error(`Failed to spawn container: ${err.message}`));
     });
   });
@@ -0,0 +1,285 @@
+/**
+ * Context Manager - Builds the conversation context for an agent run.
+ *
+ * Instead of a fixed "last N messages" window, history is kept within a
+ * token budget (per agent group):
+ * - Tool-use turns (tool_use / tool_result blocks) are persisted alongside the
+ *   plain messages, so multi-turn tool work survives across messages
+ * - When the history exceeds the budget, older turns are folded into a
+ *   rolling summary stored on the conversation and injected into the system
+ *   prompt; only the most recent turns are sent verbatim
+ * - /reset clears both the messages and the summary
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { getDb } from '../db/sqlite';
+import { config } from '../config';
+
+export interface ContextSettings {
+  /** Token budget for the verbatim history (estimated) */
+  maxTokens: number;
+  /** Always keep at least this many recent messages verbatim */
+  keepMessages: number;
+  /** Fold older turns into a rolling summary (otherwise they are dropped) */
+  summarize: boolean;
+}
+
+export interface ContextMessage {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  /** JSON-encoded content blocks for tool-use turns, null for plain text */
+  blocks: string | null;
+  tokens: number;
+}
+
+export interface ConversationContext {
+  messages: Anthropic.MessageParam[];
+  summary: string | null;
+  /** Estimated tokens of the verbatim history sent to the model */
+  historyTokens: number;
+}
+
+/** Summarizes folded turns, given the previous summary (if any) */
+export type Summarizer = (transcript: string, previousSummary: string | null) => Promise<string>;
+
+// Tool results can be huge; the text rendering (used for summaries) is capped
+const MAX_RENDERED_BLOCK_CHARS = 2000;
+
+/**
+ * Add the context columns to messages and conversations (migration-safe).
+ */
+export function initContextSchema(): void {
+  const db = getDb();
+
+  const messageColumns = db.pragma('table_info(messages)') as Array<{ name: string }>;
+  if (!messageColumns.some((c) => c.name === 'blocks')) {
+    db.exec(`ALTER TABLE messages ADD COLUMN blocks TEXT`);
+    console.log('[context] Added blocks column to messages table');
+  }
+
+  const conversationColumns = db.pragma('table_info(conversations)') as Array<{ name: string }>;
+  if (!conversationColumns.some((c) => c.name === 'summary')) {
+    db.exec(`ALTER TABLE conversations ADD COLUMN summary TEXT`);
+    db.exec(`ALTER TABLE conversations ADD COLUMN summary_until INTEGER NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE conversations ADD COLUMN context_tokens INTEGER NOT NULL DEFAULT 0`);
+    console.log('[context] Added summary columns to conversations table');
+  }
+}
+
+/**
+ * Rough token estimate (~4 characters per token).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Human-readable rendering of content blocks, stored in messages.content
+ * so the dashboard and the summarizer can read tool turns.
+ */
+export function renderBlocks(content: Anthropic.MessageParam['content']): string {
+  if (typeof content === 'string') return content;
+
+  return content
+    .map((block) => {
+      switch (block.type) {
+        case 'text':
+          return block.text;
+        case 'tool_use':
+          return `[tool_use ${block.name}] ${JSON.stringify(block.input).slice(0, MAX_RENDERED_BLOCK_CHARS)}`;
+        case 'tool_result': {
+          const text =
+            typeof block.content === 'string'
+              ? block.content
+              : (block.content || []).map((c) => (c.type === 'text' ? c.text : `(${c.type})`)).join('\n');
+          return `[tool_result${block.is_error ? ' error' : ''}] ${text.slice(0, MAX_RENDERED_BLOCK_CHARS)}`;
+        }
+        default:
+          return `(${block.type})`;
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Persist the intermediate turns of a run (assistant tool_use + user
+ * tool_result messages) so later runs see which tools were used.
+ */
+export function storeToolTurns(conversationId: string, turns: Anthropic.MessageParam[], channelType?: string): void {
+  if (turns.length === 0) return;
+
+  const insert = getDb().prepare(
+    'INSERT INTO messages (conversation_id, role, content, channel_type, blocks) VALUES (?, ?, ?, ?, ?)',
+  );
+  const insertAll = getDb().transaction(() => {
+    for (const turn of turns) {
+      const blocks = typeof turn.content === 'string' ? null : JSON.stringify(turn.content);
+      insert.run(conversationId, turn.role, renderBlocks(turn.content), channelType, blocks);
+    }
+  });
+  insertAll();
+}
+
+/**
+ * Messages of a conversation that are not yet folded into the summary.
+ */
+function getUnsummarizedMessages(conversationId: string, afterId: number): ContextMessage[] {
+  const rows = getDb()
+    .prepare('SELECT id, role, content, blocks FROM messages WHERE conversation_id = ? AND id > ? ORDER BY id ASC')
+    .all(conversationId, afterId) as Array<Omit<ContextMessage, 'tokens'>>;
+
+  return rows.map((row) => ({ ...row, tokens: estimateTokens(row.blocks ?? row.content) }));
+}
+
+function getSummaryState(conversationId: string): { summary: string | null; summaryUntil: number } {
+  const row = getDb().prepare('SELECT summary, summary_until FROM conversations WHERE id = ?').get(conversationId) as
+    { summary: string | null; summary_until: number } | undefined;
+  return { summary: row?.summary ?? null, summaryUntil: row?.summary_until ?? 0 };
+}
+
+function saveSummaryState(conversationId: string, summary: string | null, summaryUntil: number): void {
+  getDb()
+    .prepare("UPDATE conversations SET summary = ?, summary_until = ?, updated_at = datetime('now') WHERE id = ?")
+    .run(summary, summaryUntil, conversationId);
+}
+
+/**
+ * Record the actual input token count of the latest run.
+ */
+export function recordContextTokens(conversationId: string, inputTokens: number): void {
+  getDb().prepare('UPDATE conversations SET context_tokens = ? WHERE id = ?').run(inputTokens, conversationId);
+}
+
+/**
+ * Clear the rolling summary (used together with clearing messages on /reset).
+ */
+export function clearConversationContext(conversationId: string): void {
+  getDb()
+    .prepare('UPDATE conversations SET summary = NULL, summary_until = 0, context_tokens = 0 WHERE id = ?')
+    .run(conversationId);
+}
+
+/**
+ * Context statistics for /status and the API.
+ */
+export function getContextStats(conversationId: string): {
+  messages: number;
+  historyTokens: number;
+  hasSummary: boolean;
+  lastInputTokens: number;
+} {
+  const { summary, summaryUntil } = getSummaryState(conversationId);
+  const messages = getUnsummarizedMessages(conversationId, summaryUntil);
+  const row = getDb().prepare('SELECT context_tokens FROM conversations WHERE id = ?').get(conversationId) as
+    { context_tokens: number } | undefined;
+
+  return {
+    messages: messages.length,
+    historyTokens: messages.reduce((sum, m) => sum + m.tokens, 0),
+    hasSummary: !!summary,
+    lastInputTokens: row?.context_tokens ?? 0,
+  };
+}
+
+function isPlainUserMessage(message: ContextMessage): boolean {
+  if (message.role !== 'user') return false;
+  if (!message.blocks) return true;
+  const blocks = JSON.parse(message.blocks) as Array<{ type: string }>;
+  return !blocks.some((b) => b.type === 'tool_result');
+}
+
+/**
+ * Split the history into turns to fold (older) and turns to keep verbatim.
+ *
+ * Nothing is folded while the history fits the budget. Once it overflows,
+ * the kept part shrinks to half the budget (but at least keepMessages) so
+ * summarization runs once per half-budget of new history, not every message.
+ * The kept part always starts at a plain user message, so a tool_result is
+ * never separated from its tool_use.
+ */
+export function selectContextWindow(
+  messages: ContextMessage[],
+  settings: ContextSettings,
+): { keep: ContextMessage[]; fold: ContextMessage[] } {
+  const total = messages.reduce((sum, m) => sum + m.tokens, 0);
+  if (total <= settings.maxTokens) {
+    return { keep: messages, fold: [] };
+  }
+
+  const target = Math.floor(settings.maxTokens / 2);
+  let start = messages.length;
+  let kept = 0;
+  while (start > 0) {
+    const tokens = messages[start - 1]!.tokens;
+    if (messages.length - start >= settings.keepMessages && kept + tokens > target) break;
+    kept += tokens;
+    start--;
+  }
+
+  while (start < messages.length && !isPlainUserMessage(messages[start]!)) {
+    start++;
+  }
+
+  return { keep: messages.slice(start), fold: messages.slice(0, start) };
+}
+
+function toMessageParam(message: ContextMessage): Anthropic.MessageParam {
+  return {
+    role: message.role,
+    content: message.blocks ? (JSON.parse(message.blocks) as Anthropic.MessageParam['content']) : message.content,
+  };
+}
+
+/**
+ * Build the context for the next run of a conversation, folding overflowing
+ * history into the rolling summary when a summarizer is available.
+ */
+export async function buildConversationContext(
+  conversationId: string,
+  settings: ContextSettings,
+  summarize?: Summarizer,
+): Promise<ConversationContext> {
+  const state = getSummaryState(conversationId);
+  const history = getUnsummarizedMessages(conversationId, state.summaryUntil);
+  const { keep, fold } = selectContextWindow(history, settings);
+  let summary = state.summary;
+
+  if (fold.length > 0) {
+    const foldedUntil = fold[fold.length - 1]!.id;
+    if (settings.summarize && summarize) {
+      try {
+        const transcript = fold.map((m) => `${m.role}: ${m.content}`).join('\n\n');
+        summary = await summarize(transcript, summary);
+        saveSummaryState(conversationId, summary, foldedUntil);
+        console.log(`[context] Folded ${fold.length} message(s) into the summary of ${conversationId}`);
+      } catch (err) {
+        // Keep the old summary and cursor; the folded turns are only skipped for this run
+        console.warn('[context] Summarization failed, dropping older turns for this run:', err);
+      }
+    } else {
+      saveSummaryState(conversationId, summary, foldedUntil);
+    }
+  }
+
+  return {
+    messages: keep.map(toMessageParam),
+    summary,
+    historyTokens: keep.reduce((sum, m) => sum + m.tokens, 0),
+  };
+}
+
+/**
+ * Global defaults from config, overridden by non-zero group values.
+ */
+export function resolveContextSettings(overrides?: {
+  contextMaxTokens?: number;
+  contextKeepMessages?: number;
+  contextSummarize?: boolean;
+}): ContextSettings {
+  return {
+    maxTokens: overrides?.contextMaxTokens || config.agentContext.maxTokens,
+    keepMessages: overrides?.contextKeepMessages || config.agentContext.keepMessages,
+    summarize: overrides?.contextSummarize ?? config.agentContext.summarize,
+  };
+}
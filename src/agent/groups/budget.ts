@@ -0,0 +1,207 @@
+/**
+ * Group Budgets - Budget status, reset times and threshold alerts.
+ *
+ * A group has token and cost budgets per day and per month. Periods follow
+ * the usage queries (UTC calendar day / month). When usage crosses the
+ * group's budgetAlertThreshold (warning) or the budget itself (exceeded),
+ * an alert is sent once per period and level:
+ * - budget:alert event on budgetEvents (forwarded to the dashboard via WS)
+ * - a message to the group's alert channel (via getChannelAdapter)
+ * - an HTTP POST to the group's alert webhook
+ * Sent alerts are recorded in budget_alerts, so restarts do not repeat them.
+ */
+
+import { EventEmitter } from 'events';
+import { getDb } from '../../db/sqlite';
+import { config } from '../../config';
+import type { AgentGroup } from './types';
+import {
+  getAgentGroup,
+  getGroupTokenUsageToday,
+  getGroupTokenUsageMonth,
+  getGroupCostToday,
+  getGroupCostMonth,
+} from './manager';
+
+export const budgetEvents = new EventEmitter();
+
+export type BudgetPeriod = 'day' | 'month';
+export type BudgetKind = 'tokens' | 'cost';
+export type BudgetAlertLevel = 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  kind: BudgetKind;
+  period: BudgetPeriod;
+  used: number;
+  limit: number;
+  /** Usage in percent of the limit */
+  percent: number;
+  /** Start of the next period (UTC), when the usage starts from zero again */
+  resetsAt: Date;
+}
+
+export interface BudgetAlert extends BudgetStatus {
+  groupId: string;
+  groupName: string;
+  level: BudgetAlertLevel;
+  threshold: number;
+  message: string;
+}
+
+/**
+ * Start of the next budget period (UTC), matching date('now') and
+ * datetime('now', 'start of month') in the usage queries.
+ */
+export function budgetResetAt(period: BudgetPeriod, now = new Date()): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/** Identifies the current period, e.g. "2026-10-19" or "2026-10" */
+function periodKey(period: BudgetPeriod, now = new Date()): string {
+  const iso = now.toISOString();
+  return period === 'day' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+/**
+ * Human readable reset time, e.g. "2026-10-20 00:00 UTC (in 5h 12m)".
+ */
+export function formatBudgetReset(resetsAt: Date, now = new Date()): string {
+  const minutes = Math.max(0, Math.ceil((resetsAt.getTime() - now.getTime()) / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const relative = days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes % 60}m`;
+  return `${resetsAt.toISOString().slice(0, 16).replace('T', ' ')} UTC (in ${relative})`;
+}
+
+export function formatBudgetAmount(kind: BudgetKind, amount: number): string {
+  return kind === 'cost' ? `${amount.toFixed(2)} ${config.costCurrency}` : String(amount);
+}
+
+/**
+ * Usage of every configured (non-zero) budget of a group.
+ */
+export function getGroupBudgetStatus(group: AgentGroup): BudgetStatus[] {
+  const budgets: Array<{ kind: BudgetKind; period: BudgetPeriod; limit: number; usage: () => number }> = [
+    { kind: 'tokens', period: 'day', limit: group.budgetMaxTokensDay, usage: () => getGroupTokenUsageToday(group.id) },
+    {
+      kind: 'tokens',
+      period: 'month',
+      limit: group.budgetMaxTokensMonth,
+      usage: () => getGroupTokenUsageMonth(group.id),
+    },
+    { kind: 'cost', period: 'day', limit: group.budgetMaxCostDay, usage: () => getGroupCostToday(group.id) },
+    { kind: 'cost', period: 'month', limit: group.budgetMaxCostMonth, usage: () => getGroupCostMonth(group.id) },
+  ];
+
+  return budgets
+    .filter((b) => b.limit > 0)
+    .map((b) => {
+      const used = b.usage();
+      return {
+        kind: b.kind,
+        period: b.period,
+        used,
+        limit: b.limit,
+        percent: (used / b.limit) * 100,
+        resetsAt: budgetResetAt(b.period),
+      };
+    });
+}
+
+/**
+ * Send the alerts that are due for a group (threshold crossed or budget
+ * exceeded, once per period and level). Delivery failures are logged.
+ */
+export async function checkBudgetAlerts(groupId: string): Promise<BudgetAlert[]> {
+  const group = getAgentGroup(groupId);
+  if (!group) return [];
+
+  const threshold = group.budgetAlertThreshold;
+  const due: BudgetAlert[] = [];
+
+  for (const status of getGroupBudgetStatus(group)) {
+    let level: BudgetAlertLevel | null = null;
+    if (status.percent >= 100) level = 'exceeded';
+    else if (threshold > 0 && threshold < 100 && status.percent >= threshold) level = 'warning';
+    if (!level) continue;
+
+    // Record first: only the first crossing in this period sends an alert
+    const inserted = getDb()
+      .prepare(
+        `INSERT OR IGNORE INTO budget_alerts (group_id, kind, period, period_key, level, used, budget_limit)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(groupId, status.kind, status.period, periodKey(status.period), level, status.used, status.limit);
+    if (inserted.changes === 0) continue;
+
+    due.push({
+      ...status,
+      groupId,
+      groupName: group.name,
+      level,
+      threshold,
+      message: alertMessage(group, status, level),
+    });
+  }
+
+  for (const alert of due) {
+    console.warn(`[budget] ${alert.message}`);
+    budgetEvents.emit('budget:alert', alert);
+    await Promise.all([sendToChannel(group, alert), sendToWebhook(group, alert)]);
+  }
+  return due;
+}
+
+function alertMessage(group: AgentGroup, status: BudgetStatus, level: BudgetAlertLevel): string {
+  const periodLabel = status.period === 'day' ? 'Daily' : 'Monthly';
+  const usage = `${formatBudgetAmount(status.kind, status.used)} of ${formatBudgetAmount(status.kind, status.limit)}`;
+  const state =
+    level === 'exceeded'
+      ? 'exceeded, messages are blocked'
+      : `at ${Math.floor(status.percent)}% (alert threshold ${group.budgetAlertThreshold}%)`;
+  return `${periodLabel} ${status.kind} budget of group "${group.name}" ${state}: ${usage}. Resets ${formatBudgetReset(status.resetsAt)}.`;
+}
+
+async function sendToChannel(group: AgentGroup, alert: BudgetAlert): Promise<void> {
+  if (!group.budgetAlertChannelId) return;
+
+  // Import dynamically to avoid circular deps
+  const { getChannelAdapter } = await import('../../channels/manager');
+  const adapter = getChannelAdapter(group.budgetAlertChannelId);
+  if (!adapter) {
+    console.warn(`[budget] Alert channel ${group.budgetAlertChannelId} not found or not active`);
+    return;
+  }
+
+  try {
+    await adapter.sendMessage(group.budgetAlertChatId || 'default', `⚠️ Budget alert\n\n${alert.message}`);
+  } catch (err) {
+    console.error(`[budget] Failed to send alert to channel ${group.budgetAlertChannelId}:`, err);
+  }
+}
+
+async function sendToWebhook(group: AgentGroup, alert: BudgetAlert): Promise<void> {
+  if (!group.budgetAlertWebhookUrl) return;
+
+  try {
+    const response = await fetch(group.budgetAlertWebhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: 'budget_alert',
+        ...alert,
+        currency: config.costCurrency,
+        resetsAt: alert.resetsAt.toISOString(),
+        timestamp: new Date().toISOString(),
+      }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      console.error(`[budget] Alert webhook returned ${response.status}: ${response.statusText}`);
+    }
+  } catch (err) {
+    console.error(`[budget] Alert webhook failed:`, err);
+  }
+}
@@ -22,5 +22,16 @@ export {
   getAgentGroupStats,
   getGroupTokenUsageToday,
   getGroupTokenUsageMonth,
+  getGroupCostToday,
+  getGroupCostMonth,
   getGroupGithubToken,
 } from './manager';
+export type { BudgetStatus, BudgetAlert, BudgetKind, BudgetPeriod, BudgetAlertLevel } from './budget';
+export {
+  budgetEvents,
+  getGroupBudgetStatus,
+  checkBudgetAlerts,
+  budgetResetAt,
+  formatBudgetReset,
+  formatBudgetAmount,
+} from './budget';
@@ -6,6 +6,7 @@ import { v4 as uuid } from 'uuid';
 import { getDb } from '../../db/sqlite';
 import type { AgentGroup, CreateAgentGroupInput, UpdateAgentGroupInput, AgentGroupStats } from './types';
 import { encrypt, decrypt } from './encryption';
+import { parseModelRef } from '../providers';
 
 /**
  * Initialize the agent_groups table and add agent_group_id to channels.
@@ -65,9 +66,67 @@ export function initAgentGroupsSchema(): void {
     console.log('[groups] Added github_token_encrypted column to agent_groups table');
   }
 
+  // Add per-group conversation context settings
+  if (!groupColumns.some((c) => c.name === 'context_max_tokens')) {
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN context_max_tokens INTEGER NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN context_keep_messages INTEGER NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN context_summarize INTEGER NOT NULL DEFAULT 1`);
+    console.log('[groups] Added context columns to agent_groups table');
+  }
+
+  // Add per-group model fallback chain and retry policy
+  if (!groupColumns.some((c) => c.name === 'fallback_models')) {
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN fallback_models TEXT NOT NULL DEFAULT '[]'`);
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN retry_max_retries INTEGER`);
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN retry_initial_delay_ms INTEGER NOT NULL DEFAULT 0`);
+    console.log('[groups] Added fallback/retry columns to agent_groups table');
+  }
+
+  // Add per-group currency budgets
+  if (!groupColumns.some((c) => c.name === 'budget_max_cost_day')) {
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN budget_max_cost_day REAL NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN budget_max_cost_month REAL NOT NULL DEFAULT 0`);
+    console.log('[groups] Added cost budget columns to agent_groups table');
+  }
+
+  // Add budget alert destinations and the log of sent alerts (one per period and level)
+  if (!groupColumns.some((c) => c.name === 'budget_alert_channel_id')) {
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN budget_alert_channel_id TEXT NOT NULL DEFAULT ''`);
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN budget_alert_chat_id TEXT NOT NULL DEFAULT ''`);
+    db.exec(`ALTER TABLE agent_groups ADD COLUMN budget_alert_webhook_url TEXT NOT NULL DEFAULT ''`);
+    console.log('[groups] Added budget alert columns to agent_groups table');
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS budget_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      group_id TEXT NOT NULL,
+      kind TEXT NOT NULL,          -- 'tokens' | 'cost'
+      period TEXT NOT NULL,        -- 'day' | 'month'
+      period_key TEXT NOT NULL,    -- e.g. '2026-10-19' or '2026-10'
+      level TEXT NOT NULL,         -- 'warning' | 'exceeded'
+      used REAL NOT NULL DEFAULT 0,
+      budget_limit REAL NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (group_id, kind, period, period_key, level),
+      FOREIGN KEY (group_id) REFERENCES agent_groups(id) ON DELETE CASCADE
+    );
+  `);
+
   console.log('[groups] Agent groups schema initialized');
 }
 
+function validateWebhookUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid budget alert webhook URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Budget alert webhook URL must use http or https');
+  }
+}
+
 /**
  * Convert a DB row to an AgentGroup object.
  */
@@ -80,11 +139,22 @@ function rowToGroup(row: Record<string, unknown>): AgentGroup {
     apiKeyEncrypted: row.api_key_encrypted as string | null,
     model: row.model as string,
     maxTokens: row.max_tokens as number,
+    fallbackModels: JSON.parse((row.fallback_models as string) || '[]'),
+    retryMaxRetries: (row.retry_max_retries as number | null) ?? null,
+    retryInitialDelayMs: (row.retry_initial_delay_ms as number) || 0,
     githubRepo: (row.github_repo as string) || '',
     githubTokenEncrypted: row.github_token_encrypted as string | null,
     budgetMaxTokensDay: row.budget_max_tokens_day as number,
     budgetMaxTokensMonth: row.budget_max_tokens_month as number,
+    budgetMaxCostDay: (row.budget_max_cost_day as number) || 0,
+    budgetMaxCostMonth: (row.budget_max_cost_month as number) || 0,
     budgetAlertThreshold: row.budget_alert_threshold as number,
+    budgetAlertChannelId: (row.budget_alert_channel_id as string) || '',
+    budgetAlertChatId: (row.budget_alert_chat_id as string) || '',
+    budgetAlertWebhookUrl: (row.budget_alert_webhook_url as string) || '',
+    contextMaxTokens: (row.context_max_tokens as number) || 0,
+    contextKeepMessages: (row.context_keep_messages as number) || 0,
+    contextSummarize: row.context_summarize !== 0,
     skills: JSON.parse((row.skills as string) || '[]'),
     roles: JSON.parse((row.roles as string) || '[]'),
     containerMode: (row.container_mode as number) === 1,
@@ -100,6 +170,11 @@ export function createAgentGroup(input: CreateAgentGroupInput): AgentGroup {
   const id = uuid();
   const db = getDb();
 
+  // Validate "provider:model" up front (throws for unknown providers)
+  if (input.model) parseModelRef(input.model);
+  input.fallbackModels?.forEach((m) => parseModelRef(m));
+  if (input.budgetAlertWebhookUrl) validateWebhookUrl(input.budgetAlertWebhookUrl);
+
   let apiKeyEncrypted: string | null = null;
   if (input.apiKey) {
     apiKeyEncrypted = encrypt(input.apiKey);
@@ -117,8 +192,12 @@ export function createAgentGroup(input: CreateAgentGroupInput): AgentGroup {
       model, max_tokens, github_repo, github_token_encrypted,
       skills, roles,
       container_mode, max_concurrent_agents,
-      budget_max_tokens_day, budget_max_tokens_month, budget_alert_threshold
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      budget_max_tokens_day, budget_max_tokens_month, budget_alert_threshold,
+      context_max_tokens, context_keep_messages, context_summarize,
+      fallback_models, retry_max_retries, retry_initial_delay_ms,
+      budget_max_cost_day, budget_max_cost_month,
+      budget_alert_channel_id, budget_alert_chat_id, budget_alert_webhook_url
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `,
   ).run(
     id,
@@ -137,6 +216,17 @@ export function createAgentGroup(input: CreateAgentGroupInput): AgentGroup {
     input.budgetMaxTokensDay || 0,
     input.budgetMaxTokensMonth || 0,
     input.budgetAlertThreshold || 80,
+    input.contextMaxTokens || 0,
+    input.contextKeepMessages || 0,
+    input.contextSummarize === false ? 0 : 1,
+    JSON.stringify(input.fallbackModels || []),
+    input.retryMaxRetries ?? null,
+    input.retryInitialDelayMs || 0,
+    input.budgetMaxCostDay || 0,
+    input.budgetMaxCostMonth || 0,
+    input.budgetAlertChannelId || '',
+    input.budgetAlertChatId || '',
+    input.budgetAlertWebhookUrl || '',
   );
 
   return getAgentGroup(id)!;
@@ -158,6 +248,9 @@ export function getAllAgentGroups(): AgentGroup[] {
 export function updateAgentGroup(id: string, input: UpdateAgentGroupInput): AgentGroup {
   const existing = getAgentGroup(id);
   if (!existing) throw new Error(`Agent group ${id} not found`);
+  if (input.model) parseModelRef(input.model);
+  input.fallbackModels?.forEach((m) => parseModelRef(m));
+  if (input.budgetAlertWebhookUrl) validateWebhookUrl(input.budgetAlertWebhookUrl);
 
   const sets: string[] = ["updated_at = datetime('now')"];
   const values: unknown[] = [];
@@ -182,6 +275,18 @@ export function updateAgentGroup(id: string, input: UpdateAgentGroupInput): Agen
     sets.push('max_tokens = ?');
     values.push(input.maxTokens);
   }
+  if (input.fallbackModels !== undefined) {
+    sets.push('fallback_models = ?');
+    values.push(JSON.stringify(input.fallbackModels));
+  }
+  if (input.retryMaxRetries !== undefined) {
+    sets.push('retry_max_retries = ?');
+    values.push(input.retryMaxRetries);
+  }
+  if (input.retryInitialDelayMs !== undefined) {
+    sets.push('retry_initial_delay_ms = ?');
+    values.push(input.retryInitialDelayMs);
+  }
   if (input.skills !== undefined) {
     sets.push('skills = ?');
     values.push(JSON.stringify(input.skills));
@@ -206,10 +311,42 @@ export function updateAgentGroup(id: string, input: UpdateAgentGroupInput): Agen
     sets.push('budget_max_tokens_month = ?');
     values.push(input.budgetMaxTokensMonth);
   }
+  if (input.budgetMaxCostDay !== undefined) {
+    sets.push('budget_max_cost_day = ?');
+    values.push(input.budgetMaxCostDay);
+  }
+  if (input.budgetMaxCostMonth !== undefined) {
+    sets.push('budget_max_cost_month = ?');
+    values.push(input.budgetMaxCostMonth);
+  }
   if (input.budgetAlertThreshold !== undefined) {
     sets.push('budget_alert_threshold = ?');
     values.push(input.budgetAlertThreshold);
   }
+  if (input.budgetAlertChannelId !== undefined) {
+    sets.push('budget_alert_channel_id = ?');
+    values.push(input.budgetAlertChannelId);
+  }
+  if (input.budgetAlertChatId !== undefined) {
+    sets.push('budget_alert_chat_id = ?');
+    values.push(input.budgetAlertChatId);
+  }
+  if (input.budgetAlertWebhookUrl !== undefined) {
+    sets.push('budget_alert_webhook_url = ?');
+    values.push(input.budgetAlertWebhookUrl);
+  }
+  if (input.contextMaxTokens !== undefined) {
+    sets.push('context_max_tokens = ?');
+    values.push(input.contextMaxTokens);
+  }
+  if (input.contextKeepMessages !== undefined) {
+    sets.push('context_keep_messages = ?');
+    values.push(input.contextKeepMessages);
+  }
+  if (input.contextSummarize !== undefined) {
+    sets.push('context_summarize = ?');
+    values.push(input.contextSummarize ? 1 : 0);
+  }
 
   if (input.githubRepo !== undefined) {
     sets.push('github_repo = ?');
@@ -309,9 +446,37 @@ export function getGroupTokenUsageMonth(groupId: string): number {
   return row.total;
 }
 
+export function getGroupCostToday(groupId: string): number {
+  const row = getDb()
+    .prepare(
+      `
+    SELECT COALESCE(SUM(cost), 0) as total
+    FROM api_calls
+    WHERE agent_group_id = ? AND date(created_at) = date('now')
+  `,
+    )
+    .get(groupId) as { total: number };
+  return row.total;
+}
+
+export function getGroupCostMonth(groupId: string): number {
+  const row = getDb()
+    .prepare(
+      `
+    SELECT COALESCE(SUM(cost), 0) as total
+    FROM api_calls
+    WHERE agent_group_id = ? AND created_at >= datetime('now', 'start of month')
+  `,
+    )
+    .get(groupId) as { total: number };
+  return row.total;
+}
+
 export function getAgentGroupStats(groupId: string): AgentGroupStats {
   const todayTokens = getGroupTokenUsageToday(groupId);
   const monthTokens = getGroupTokenUsageMonth(groupId);
+  const todayCost = getGroupCostToday(groupId);
+  const monthCost = getGroupCostMonth(groupId);
 
   const runsRow = getDb()
     .prepare(
@@ -328,6 +493,8 @@ export function getAgentGroupStats(groupId: string): AgentGroupStats {
     groupId,
     todayTokens,
     monthTokens,
+    todayCost,
+    monthCost,
     activeAgents: 0, // TODO: track when A2A is implemented
     totalRuns: runsRow.total,
   };
@@ -349,7 +516,8 @@ export function getGroupGithubToken(groupId: string): string {
 }
 
 /**
- * Get the decrypted API key for a group, or fall back to global key.
+ * Get the decrypted API key for a group, or an empty string when the group
+ * has none (the provider then uses its global key).
  */
 export function getGroupApiKey(groupId: string): string {
   const group = getAgentGroup(groupId);
@@ -360,6 +528,6 @@ export function getGroupApiKey(groupId: string): string {
       console.error(`[groups] Failed to decrypt API key for group ${groupId}:`, err);
     }
   }
-  // Fallback to global key
-  return process.env.ANTHROPIC_API_KEY || '';
+  // Empty = fall back to the global key of the group's model provider
+  return '';
 }
@@ -3,23 +3,22 @@
  *
  * When a message comes in from a channel, the resolver determines:
  * - Which agent group (if any) is assigned to the channel
- * - What system prompt, model, API key, and skills to use
+ * - What system prompt, model (with fallbacks), API key, and skills to use
  * - Whether budget limits are exceeded
  */
 
 import { config } from '../../config';
-import {
-  getGroupForChannel,
-  getAgentGroup,
-  getGroupApiKey,
-  getGroupGithubToken,
-  getGroupTokenUsageToday,
-  getGroupTokenUsageMonth,
-} from './manager';
+import { ContextSettings, resolveContextSettings } from '../context-manager';
+import { RetryPolicy, resolveFallbackModels, resolveRetryPolicy } from '../providers';
+import { getGroupForChannel, getAgentGroup, getGroupApiKey, getGroupGithubToken } from './manager';
+import type { AgentGroup } from './types';
+import { formatBudgetAmount, formatBudgetReset, getGroupBudgetStatus } from './budget';
 
 export interface ResolvedAgentConfig {
   systemPrompt: string;
   model: string;
+  fallbackModels: string[];
+  retry: RetryPolicy;
   maxTokens: number;
   apiKey: string;
   enabledSkills?: string[];
@@ -27,6 +26,7 @@ export interface ResolvedAgentConfig {
   containerMode: boolean;
   githubRepo?: string;
   githubToken?: string;
+  context: ContextSettings;
 }
 
 /**
@@ -42,15 +42,28 @@ export function resolveAgentConfig(channelId: string, defaultSystemPrompt: strin
     return {
       systemPrompt: defaultSystemPrompt,
       model: config.agentModel,
+      fallbackModels: resolveFallbackModels(),
+      retry: resolveRetryPolicy(),
       maxTokens: config.agentMaxTokens,
-      apiKey: config.anthropicApiKey,
+      apiKey: '', // provider's global key
       containerMode: process.env.AGENT_CONTAINER_MODE === 'true',
+      context: resolveContextSettings(),
     };
   }
 
+  return resolveGroupAgentConfig(group);
+}
+
+/**
+ * The agent configuration of a group, for callers that pick the group
+ * themselves instead of going through a channel (MCP, chat completions).
+ */
+export function resolveGroupAgentConfig(group: AgentGroup): ResolvedAgentConfig {
   return {
     systemPrompt: group.systemPrompt,
     model: group.model,
+    fallbackModels: resolveFallbackModels(group),
+    retry: resolveRetryPolicy(group),
     maxTokens: group.maxTokens,
     apiKey: getGroupApiKey(group.id),
     enabledSkills: group.skills.length > 0 ? group.skills : undefined,
@@ -58,6 +71,7 @@ export function resolveAgentConfig(channelId: string, defaultSystemPrompt: strin
     containerMode: group.containerMode,
     githubRepo: group.githubRepo || undefined,
     githubToken: getGroupGithubToken(group.id) || undefined,
+    context: resolveContextSettings(group),
   };
 }
 
@@ -69,19 +83,11 @@ export function checkGroupBudget(groupId: string): string | null {
   const group = getAgentGroup(groupId);
   if (!group) return null;
 
-  if (group.budgetMaxTokensDay > 0) {
-    const todayUsage = getGroupTokenUsageToday(group.id);
-    if (todayUsage >= group.budgetMaxTokensDay) {
-      return `Daily token budget exceeded (${todayUsage}/${group.budgetMaxTokensDay})`;
-    }
-  }
-
-  if (group.budgetMaxTokensMonth > 0) {
-    const monthUsage = getGroupTokenUsageMonth(group.id);
-    if (monthUsage >= group.budgetMaxTokensMonth) {
-      return `Monthly token budget exceeded (${monthUsage}/${group.budgetMaxTokensMonth})`;
-    }
-  }
+  const exceeded = getGroupBudgetStatus(group).find((status) => status.used >= status.limit);
+  if (!exceeded) return null;
 
-  return null;
+  const periodLabel = exceeded.period === 'day' ? 'Daily' : 'Monthly';
+  const used = formatBudgetAmount(exceeded.kind, exceeded.used);
+  const limit = formatBudgetAmount(exceeded.kind, exceeded.limit);
+  return `${periodLabel} ${exceeded.kind === 'cost' ? 'cost' : 'token'} budget exceeded (${used}/${limit}). Resets ${formatBudgetReset(exceeded.resetsAt)}.`;
 }
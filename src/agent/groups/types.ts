@@ -12,6 +12,9 @@ export interface AgentGroup {
   apiKeyEncrypted?: string | null; // AES-256 encrypted, null = use global key
   model: string;
   maxTokens: number;
+  fallbackModels: string[]; // tried in order when the model keeps failing, empty = global default
+  retryMaxRetries: number | null; // retries per model on transient errors, null = global default
+  retryInitialDelayMs: number; // first backoff delay, 0 = global default
 
   // GitHub integration (for git_clone / git_commit_push tools)
   githubRepo: string; // e.g. "owner/repo"
@@ -20,7 +23,17 @@ export interface AgentGroup {
   // Budget (per group, 0 = unlimited)
   budgetMaxTokensDay: number;
   budgetMaxTokensMonth: number;
+  budgetMaxCostDay: number; // in COST_CURRENCY
+  budgetMaxCostMonth: number; // in COST_CURRENCY
   budgetAlertThreshold: number; // warn at X% (e.g. 80)
+  budgetAlertChannelId: string; // channel that receives budget alerts, '' = none
+  budgetAlertChatId: string; // chat on that channel (e.g. Telegram chat id), '' = channel default
+  budgetAlertWebhookUrl: string; // URL that receives budget alerts as JSON POST, '' = none
+
+  // Conversation context (0 = use global default)
+  contextMaxTokens: number; // token budget for verbatim history
+  contextKeepMessages: number; // always keep N recent messages verbatim
+  contextSummarize: boolean; // fold older turns into a rolling summary
 
   // Skills this group may use
   skills: string[];
@@ -50,11 +63,22 @@ export interface CreateAgentGroupInput {
   apiKey?: string; // plain text, will be encrypted before storage
   model?: string;
   maxTokens?: number;
+  fallbackModels?: string[];
+  retryMaxRetries?: number | null;
+  retryInitialDelayMs?: number;
   githubRepo?: string;
   githubToken?: string; // plain text PAT, will be encrypted before storage
   budgetMaxTokensDay?: number;
   budgetMaxTokensMonth?: number;
+  budgetMaxCostDay?: number;
+  budgetMaxCostMonth?: number;
   budgetAlertThreshold?: number;
+  budgetAlertChannelId?: string;
+  budgetAlertChatId?: string;
+  budgetAlertWebhookUrl?: string;
+  contextMaxTokens?: number;
+  contextKeepMessages?: number;
+  contextSummarize?: boolean;
   skills?: string[];
   roles?: AgentGroupRole[];
   containerMode?: boolean;
@@ -68,11 +92,22 @@ export interface UpdateAgentGroupInput {
   apiKey?: string | null; // null = clear, use global
   model?: string;
   maxTokens?: number;
+  fallbackModels?: string[];
+  retryMaxRetries?: number | null;
+  retryInitialDelayMs?: number;
   githubRepo?: string;
   githubToken?: string | null; // null = clear, string = encrypt
   budgetMaxTokensDay?: number;
   budgetMaxTokensMonth?: number;
+  budgetMaxCostDay?: number;
+  budgetMaxCostMonth?: number;
   budgetAlertThreshold?: number;
+  budgetAlertChannelId?: string;
+  budgetAlertChatId?: string;
+  budgetAlertWebhookUrl?: string;
+  contextMaxTokens?: number;
+  contextKeepMessages?: number;
+  contextSummarize?: boolean;
   skills?: string[];
   roles?: AgentGroupRole[];
   containerMode?: boolean;
@@ -83,6 +118,8 @@ export interface AgentGroupStats {
   groupId: string;
   todayTokens: number;
   monthTokens: number;
+  todayCost: number;
+  monthCost: number;
   activeAgents: number;
   totalRuns: number;
 }
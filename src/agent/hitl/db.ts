@@ -59,6 +59,12 @@ export function initHitlSchema(): void {
     );
   `);
 
+  // Gateway user who answered via the API (responded_by keeps the display name)
+  const columns = db.pragma('table_info(approval_requests)') as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === 'responded_by_user_id')) {
+    db.exec(`ALTER TABLE approval_requests ADD COLUMN responded_by_user_id INTEGER`);
+  }
+
   console.log('[hitl] Approval schema initialized');
 }
 
@@ -119,14 +125,15 @@ export function resolveApproval(
   status: 'approved' | 'rejected' | 'timeout',
   reason?: string,
   respondedBy?: string,
+  respondedByUserId?: number,
 ): void {
   getDb()
     .prepare(
       `UPDATE approval_requests
-       SET status = ?, reason = ?, responded_by = ?, responded_at = datetime('now')
+       SET status = ?, reason = ?, responded_by = ?, responded_by_user_id = ?, responded_at = datetime('now')
        WHERE id = ? AND status = 'pending'`,
     )
-    .run(status, reason || null, respondedBy || null, id);
+    .run(status, reason || null, respondedBy || null, respondedByUserId ?? null, id);
 }
 
 export function getApprovalRequest(id: string): ApprovalRequest | undefined {
@@ -192,6 +199,7 @@ function rowToApproval(row: any): ApprovalRequest {
     status: row.status as ApprovalStatus,
     reason: row.reason || undefined,
     respondedBy: row.responded_by || undefined,
+    respondedByUserId: row.responded_by_user_id ?? undefined,
     requestedAt: row.requested_at,
     respondedAt: row.responded_at || undefined,
     timeoutAt: row.timeout_at,
@@ -42,6 +42,7 @@ const pendingCallbacks = new Map<
  */
 export function checkApprovalRequired(
   toolName: string,
+  defaultRiskLevel?: RiskLevel,
 ): { required: boolean; riskLevel: RiskLevel; timeoutSeconds: number; timeoutAction: 'reject' | 'approve' } {
   // Check for explicit rule first
   const rule = getApprovalRule(toolName);
@@ -54,8 +55,8 @@ export function checkApprovalRequired(
     };
   }
 
-  // Fall back to default risk level
-  const riskLevel = DEFAULT_TOOL_RISK[toolName] || 'medium';
+  // Fall back to default risk level (built-in table, then the tool's own)
+  const riskLevel = DEFAULT_TOOL_RISK[toolName] || defaultRiskLevel || 'medium';
   const requireApproval = DEFAULT_REQUIRE_APPROVAL[riskLevel];
 
   return {
@@ -80,6 +81,8 @@ export function requestApproval(params: {
   riskLevel: RiskLevel;
   timeoutSeconds: number;
   timeoutAction: 'reject' | 'approve';
+  /** Rejects the approval when the run is cancelled while waiting */
+  signal?: AbortSignal;
 }): { approvalId: string; promise: Promise<ApprovalResponse> } {
   const approval = createApprovalRequest({
     runId: params.runId,
@@ -96,6 +99,13 @@ export function requestApproval(params: {
   approvalEvents.emit('approval:required', approval);
 
   const promise = new Promise<ApprovalResponse>((resolve) => {
+    const onAbort = () => respondToApproval(approval.id, false, 'Run cancelled');
+    // Once decided, the run's signal no longer needs to reach this approval
+    const decide = (response: ApprovalResponse) => {
+      params.signal?.removeEventListener('abort', onAbort);
+      resolve(response);
+    };
+
     const timeout = setTimeout(() => {
       pendingCallbacks.delete(approval.id);
       const action = params.timeoutAction;
@@ -107,13 +117,15 @@ export function requestApproval(params: {
         timeoutAction: action,
       });
 
-      resolve({
+      decide({
         approved: action === 'approve',
         reason: `Approval timed out after ${params.timeoutSeconds}s — auto-${action}`,
       });
     }, params.timeoutSeconds * 1000);
 
-    pendingCallbacks.set(approval.id, { resolve, timeout });
+    pendingCallbacks.set(approval.id, { resolve: decide, timeout });
+
+    params.signal?.addEventListener('abort', onAbort, { once: true });
   });
 
   return { approvalId: approval.id, promise };
@@ -121,13 +133,14 @@ export function requestApproval(params: {
 
 /**
  * Respond to a pending approval request.
- * Called from the API endpoint or channel interaction.
+ * Called from the API endpoint (with the gateway user) or channel interaction.
  */
 export function respondToApproval(
   approvalId: string,
   approved: boolean,
   reason?: string,
   respondedBy?: string,
+  respondedByUserId?: number,
 ): boolean {
   const pending = pendingCallbacks.get(approvalId);
   if (!pending) {
@@ -138,7 +151,7 @@ export function respondToApproval(
     }
     // Edge case: request exists but callback was lost (server restart)
     // Just update DB status
-    resolveApproval(approvalId, approved ? 'approved' : 'rejected', reason, respondedBy);
+    resolveApproval(approvalId, approved ? 'approved' : 'rejected', reason, respondedBy, respondedByUserId);
     return true;
   }
 
@@ -146,7 +159,7 @@ export function respondToApproval(
   pendingCallbacks.delete(approvalId);
 
   const status = approved ? 'approved' : 'rejected';
-  resolveApproval(approvalId, status, reason, respondedBy);
+  resolveApproval(approvalId, status, reason, respondedBy, respondedByUserId);
 
   // Emit resolved event
   const approval = getApprovalRequest(approvalId);
@@ -155,6 +168,7 @@ export function respondToApproval(
     status,
     reason,
     respondedBy,
+    respondedByUserId,
   });
 
   // Unblock the agent loop
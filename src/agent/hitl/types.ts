@@ -20,7 +20,10 @@ export interface ApprovalRequest {
   riskLevel: RiskLevel;
   status: ApprovalStatus;
   reason?: string;
+  /** Who answered: gateway username, or the sender when answered from a channel */
   respondedBy?: string;
+  /** Gateway user who answered (unset for channel answers and timeouts) */
+  respondedByUserId?: number;
   requestedAt: string;
   respondedAt?: string;
   timeoutAt: string;
@@ -22,7 +22,8 @@ import {
   logApiCall,
 } from '../db/sqlite';
 import { EventEmitter } from 'events';
-import Anthropic from '@anthropic-ai/sdk';
+import { chatWithFallback, resolveFallbackModels, resolveRetryPolicy } from './providers';
+import { computeCost, computeCacheSavings } from './pricing';
 
 export const loopEvents = new EventEmitter();
 
@@ -41,14 +42,6 @@ function ensureDirs() {
 // Active loop tasks
 const activeLoops = new Map<number, { cancel: () => void }>();
 
-let client: Anthropic;
-function getClient(): Anthropic {
-  if (!client) {
-    client = new Anthropic({ apiKey: config.anthropicApiKey });
-  }
-  return client;
-}
-
 /**
  * Create and start a new loop task.
  */
@@ -124,22 +117,27 @@ export function startTaskLoop(taskId: number): void {
 
         // Call the agent
         const startTime = Date.now();
-        const response = await getClient().messages.create({
-          model: config.agentModel,
-          max_tokens: config.agentMaxTokens,
+        const chain = { models: [config.agentModel, ...resolveFallbackModels()], retry: resolveRetryPolicy() };
+        const response = await chatWithFallback(chain, {
+          maxTokens: config.agentMaxTokens,
           system: `You are an autonomous agent executing a loop task. Each iteration builds on the previous output. Be thorough and indicate when the task is COMPLETE by including the word "TASK_COMPLETE" in your response.`,
           messages: [{ role: 'user', content: contextMessage }],
         });
 
         const durationMs = Date.now() - startTime;
-        const textBlocks = response.content.filter((b) => b.type === 'text');
-        const output = textBlocks.map((b) => b.text).join('\n');
+        const output = response.content.flatMap((b) => (b.type === 'text' ? [b.text] : [])).join('\n');
 
         // Log API call
         logApiCall({
-          model: config.agentModel,
-          input_tokens: response.usage.input_tokens,
-          output_tokens: response.usage.output_tokens,
+          model: response.modelRef,
+          requested_model: config.agentModel,
+          retries: response.retries,
+          input_tokens: response.usage.inputTokens,
+          output_tokens: response.usage.outputTokens,
+          cache_creation_input_tokens: response.usage.cacheCreationTokens,
+          cache_read_input_tokens: response.usage.cacheReadTokens,
+          cost: computeCost(response.modelRef, response.usage),
+          cache_savings: computeCacheSavings(response.modelRef, response.usage),
           duration_ms: durationMs,
           isolated: false,
         });
@@ -154,8 +152,8 @@ export function startTaskLoop(taskId: number): void {
         loopEvents.emit('task:output', {
           taskId,
           iteration,
-          inputTokens: response.usage.input_tokens,
-          outputTokens: response.usage.output_tokens,
+          inputTokens: response.usage.inputTokens,
+          outputTokens: response.usage.outputTokens,
           outputPreview: output.slice(0, 200),
         });
 
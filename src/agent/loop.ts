@@ -1,15 +1,31 @@
 import Anthropic from '@anthropic-ai/sdk';
 import * as fs from 'fs';
 import { config } from '../config';
-import { getConversationMessages, addMessage, createAgentRun, updateAgentRun, logApiCall } from '../db/sqlite';
-import { runInContainer, checkContainerRuntime, ContainerInput } from './container-runner';
-import { toolRegistry } from './tools';
+import { addMessage, createAgentRun, updateAgentRun, logApiCall } from '../db/sqlite';
+import { runInContainer, checkContainerRuntime, ContainerInput, ContainerToolHandler } from './container-runner';
+import { toolRegistry, ToolContext } from './tools';
 import { EventEmitter } from 'events';
 import { ResolvedAgentConfig } from './groups/resolver';
-import { setA2AContext } from './a2a';
+import { checkBudgetAlerts } from './groups/budget';
 import { checkApprovalRequired, requestApproval } from './hitl';
-import { setGitContext } from './tools/git-repo';
 import { buildTimeAwarenessContext } from './time-awareness';
+import {
+  buildConversationContext,
+  recordContextTokens,
+  resolveContextSettings,
+  storeToolTurns,
+  Summarizer,
+} from './context-manager';
+import { recordModelTurn, recordToolCall } from './run-trace';
+import { computeCost, computeCacheSavings } from './pricing';
+import {
+  getProviderConnection,
+  parseModelRef,
+  chatWithFallback,
+  resolveFallbackModels,
+  resolveRetryPolicy,
+  ModelChain,
+} from './providers';
 
 export const agentEvents = new EventEmitter();
 
@@ -30,24 +46,45 @@ export function getSystemPrompt(): string {
   return systemPrompt;
 }
 
-// Cache of Anthropic clients keyed by API key
-const clientCache = new Map<string, Anthropic>();
+/**
+ * Progress events emitted while a run is in flight (streaming mode).
+ * Mirrored on agentEvents as run:delta / tool:call / tool:result.
+ */
+export type AgentStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; tool: string; iteration: number }
+  | { type: 'tool_result'; tool: string; iteration: number; isError: boolean };
+
+export interface ProcessMessageOptions {
+  /** Receives text deltas and tool progress as the agent works */
+  onStream?: (event: AgentStreamEvent) => void;
+  /** Receives the token usage per model when the run has completed */
+  onUsage?: (usage: ModelUsage[]) => void;
+}
 
-function getClient(apiKey?: string): Anthropic {
-  const key = apiKey || config.anthropicApiKey;
-  let cached = clientCache.get(key);
-  if (!cached) {
-    cached = new Anthropic({ apiKey: key });
-    clientCache.set(key, cached);
-  }
-  return cached;
+/** Token usage of a run on one model (a run can move to a fallback model) */
+export interface ModelUsage {
+  model: string;
+  /** Uncached input tokens */
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** Failed attempts (retries and fallbacks) before calls on this model succeeded */
+  retries: number;
 }
 
 interface AgentResponse {
   content: string;
   inputTokens: number;
   outputTokens: number;
+  /** Usage per serving model, in order of first use */
+  usageByModel: ModelUsage[];
   toolCalls: number;
+  /** Intermediate tool_use / tool_result turns produced during the run */
+  transcript: Anthropic.MessageParam[];
+  /** Input tokens of the last API call incl. cached tokens (the size of the full context) */
+  contextTokens: number;
 }
 
 // Maximum number of tool-use iterations per message to prevent runaway loops
@@ -77,6 +114,37 @@ export function isContainerMode(): boolean {
   return containerMode && containerAvailable;
 }
 
+/** Thrown by processMessage when the run was cancelled via cancelRun() */
+export class RunCancelledError extends Error {
+  constructor(public readonly runId: number) {
+    super(`Run ${runId} was cancelled`);
+    this.name = 'RunCancelledError';
+  }
+}
+
+// In-flight runs, so they can be cancelled from the API or a channel command
+const activeRuns = new Map<number, { controller: AbortController; conversationId: string }>();
+
+/**
+ * Cancel an in-flight run: aborts the API request, pending approvals and
+ * running tools. Returns false if the run is not active.
+ */
+export function cancelRun(runId: number): boolean {
+  const run = activeRuns.get(runId);
+  if (!run) return false;
+  run.controller.abort();
+  return true;
+}
+
+/**
+ * IDs of the runs currently in flight for a conversation.
+ */
+export function getActiveRunIds(conversationId: string): number[] {
+  return Array.from(activeRuns.entries())
+    .filter(([, run]) => run.conversationId === conversationId)
+    .map(([runId]) => runId);
+}
+
 /**
  * Process a message through the agent loop:
  * 1. Load conversation history
@@ -94,6 +162,7 @@ export async function processMessage(
   sender: string,
   enabledTools?: string[],
   agentConfig?: ResolvedAgentConfig,
+  options: ProcessMessageOptions = {},
 ): Promise<string> {
   // Store user message
   const msgId = addMessage(conversationId, 'user', userMessage, channelType, sender);
@@ -101,79 +170,111 @@ export async function processMessage(
 
   agentEvents.emit('run:start', { runId, conversationId, channelType, groupId: agentConfig?.groupId });
 
+  const abortController = new AbortController();
+  activeRuns.set(runId, { controller: abortController, conversationId });
+
+  // Determine effective settings (group config or global defaults)
+  const effectiveModel = agentConfig?.model || config.agentModel;
+  // Usage of finished model turns, filled in as they complete, so a
+  // cancelled run is still accounted for (direct mode)
+  const runUsage = new Map<string, ModelUsage>();
+  let startTime = Date.now();
+
   try {
     updateAgentRun(runId, { status: 'running' });
 
-    // Build conversation context
-    const history = getConversationMessages(conversationId, 20);
-    const messages: Anthropic.MessageParam[] = history.map((m) => ({
-      role: m.role as 'user' | 'assistant',
-      content: m.content,
-    }));
-
-    // Determine effective settings (group config or global defaults)
-    const effectiveModel = agentConfig?.model || config.agentModel;
+    const modelChain: ModelChain = {
+      models: [effectiveModel, ...(agentConfig?.fallbackModels ?? resolveFallbackModels())],
+      apiKey: agentConfig?.apiKey || '',
+      retry: agentConfig?.retry ?? resolveRetryPolicy(),
+    };
     const effectiveMaxTokens = agentConfig?.maxTokens || config.agentMaxTokens;
     const baseSystemPrompt = agentConfig?.systemPrompt || systemPrompt;
-    const effectiveSystemPrompt = baseSystemPrompt + buildTimeAwarenessContext();
-    const effectiveApiKey = agentConfig?.apiKey || config.anthropicApiKey;
+
+    // Build conversation context (token-budgeted history + rolling summary)
+    const context = await buildConversationContext(
+      conversationId,
+      agentConfig?.context ?? resolveContextSettings(),
+      createSummarizer(modelChain, conversationId, agentConfig?.groupId),
+    );
+    const messages = context.messages;
+    const summaryContext = context.summary
+      ? `\n\n## Summary of earlier conversation\n${context.summary}`
+      : '';
+    // The time context changes with every message, so it follows the cached part of the prompt
+    const effectiveSystemPrompt = baseSystemPrompt + summaryContext;
+    const volatileSystemPrompt = buildTimeAwarenessContext();
     const effectiveTools = agentConfig?.enabledSkills || enabledTools;
     const useContainer = agentConfig?.containerMode ?? isContainerMode();
 
-    // Set A2A context so delegate_task and other A2A tools work correctly
-    setA2AContext({
-      groupId: agentConfig?.groupId || '',
-      agentId: `agent-${runId}`,
+    // Per-run tool context: A2A identity, group repo/credentials, abort signal
+    const toolContext: ToolContext = {
+      runId,
       conversationId,
-    });
-
-    // Set Git context so git_clone can resolve repo/token from group config
-    setGitContext({
+      groupId: agentConfig?.groupId,
+      agentId: `agent-${runId}`,
       githubRepo: agentConfig?.githubRepo,
-      githubToken: agentConfig?.githubToken,
-    });
+      secrets: { githubToken: agentConfig?.githubToken },
+      signal: abortController.signal,
+    };
 
     // Call Claude - either via container or directly
     let response: AgentResponse;
-    const startTime = Date.now();
+    startTime = Date.now();
 
     if (useContainer && containerAvailable) {
       response = await callAgentContainer(
         messages,
+        effectiveTools,
+        toolContext,
         effectiveSystemPrompt,
-        effectiveModel,
+        volatileSystemPrompt,
+        modelChain,
         effectiveMaxTokens,
-        effectiveApiKey,
+        options.onStream,
       );
     } else {
       response = await callAgentDirect(
         messages,
         effectiveTools,
-        runId,
-        conversationId,
-        agentConfig?.groupId,
+        toolContext,
         effectiveSystemPrompt,
-        effectiveModel,
+        volatileSystemPrompt,
+        modelChain,
+        runUsage,
         effectiveMaxTokens,
-        effectiveApiKey,
+        options.onStream,
       );
     }
 
     const durationMs = Date.now() - startTime;
 
-    // Log API call for usage tracking
-    logApiCall({
-      conversation_id: conversationId,
-      model: effectiveModel,
-      input_tokens: response.inputTokens,
-      output_tokens: response.outputTokens,
-      duration_ms: durationMs,
+    // Log API calls for usage tracking (one row per model that served the run)
+    const usageByModel =
+      response.usageByModel.length > 0
+        ? response.usageByModel
+        : [
+            {
+              model: effectiveModel,
+              inputTokens: response.inputTokens,
+              outputTokens: response.outputTokens,
+              cacheCreationTokens: 0,
+              cacheReadTokens: 0,
+              retries: 0,
+            },
+          ];
+    logRunUsage(usageByModel, {
+      conversationId,
+      requestedModel: effectiveModel,
+      durationMs,
       isolated: useContainer && containerAvailable,
-      agent_group_id: agentConfig?.groupId,
+      groupId: agentConfig?.groupId,
     });
 
-    // Store assistant response
+    // Store tool turns and the assistant response
+    storeToolTurns(conversationId, response.transcript, channelType);
     addMessage(conversationId, 'assistant', response.content, channelType);
+    recordContextTokens(conversationId, response.contextTokens);
 
     updateAgentRun(runId, {
       status: 'completed',
@@ -192,64 +293,221 @@ export async function processMessage(
       durationMs,
       containerMode: useContainer,
     });
+    options.onUsage?.(usageByModel);
 
     return response.content;
   } catch (err) {
+    if (abortController.signal.aborted) {
+      // Finished model turns were paid for: they count toward usage and budgets
+      const usage = Array.from(runUsage.values());
+      logRunUsage(usage, {
+        conversationId,
+        requestedModel: effectiveModel,
+        durationMs: Date.now() - startTime,
+        isolated: false,
+        groupId: agentConfig?.groupId,
+      });
+      updateAgentRun(runId, {
+        status: 'cancelled',
+        input_tokens: usage.reduce((sum, u) => sum + u.inputTokens, 0),
+        output_tokens: usage.reduce((sum, u) => sum + u.outputTokens, 0),
+      });
+      agentEvents.emit('run:cancelled', { runId, conversationId, groupId: agentConfig?.groupId });
+      console.log(`[agent] Run ${runId} cancelled`);
+      throw new RunCancelledError(runId);
+    }
     const errorMsg = err instanceof Error ? err.message : String(err);
     updateAgentRun(runId, { status: 'error', error: errorMsg });
     agentEvents.emit('run:error', { runId, conversationId, error: errorMsg });
     console.error('[agent] Error processing message:', errorMsg);
     throw err;
+  } finally {
+    activeRuns.delete(runId);
+  }
+}
+
+/**
+ * Log the API usage of a run, one row per model that served it, and check
+ * the group's budget alerts.
+ */
+function logRunUsage(
+  usageByModel: ModelUsage[],
+  run: { conversationId: string; requestedModel: string; durationMs: number; isolated: boolean; groupId?: string },
+): void {
+  if (usageByModel.length === 0) return;
+  for (const usage of usageByModel) {
+    logApiCall({
+      conversation_id: run.conversationId,
+      model: usage.model,
+      requested_model: run.requestedModel,
+      retries: usage.retries,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      cache_creation_input_tokens: usage.cacheCreationTokens,
+      cache_read_input_tokens: usage.cacheReadTokens,
+      cost: computeCost(usage.model, usage),
+      cache_savings: computeCacheSavings(usage.model, usage),
+      duration_ms: run.durationMs,
+      isolated: run.isolated,
+      agent_group_id: run.groupId,
+    });
+  }
+  if (run.groupId) {
+    checkBudgetAlerts(run.groupId).catch((err) => console.error('[agent] Budget alert check failed:', err));
   }
 }
 
+const SUMMARY_PROMPT =
+  'You maintain a running summary of a conversation between a user and an AI assistant. ' +
+  'Merge the previous summary (if any) with the new transcript into one concise summary. ' +
+  'Keep facts, decisions, open tasks, user preferences, and which tools were used with what outcome. ' +
+  'Reply with the summary only.';
+
+/**
+ * Create the summarizer used by the context manager to fold older turns.
+ * Uses the run's model chain; usage is logged like any other call.
+ */
+function createSummarizer(chain: ModelChain, conversationId: string, groupId?: string): Summarizer {
+  return async (transcript, previousSummary) => {
+    const startTime = Date.now();
+    const response = await chatWithFallback(chain, {
+      maxTokens: 2048,
+      system: SUMMARY_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `${previousSummary ? `Previous summary:\n${previousSummary}\n\n` : ''}New transcript:\n${transcript}`,
+        },
+      ],
+    });
+
+    logApiCall({
+      conversation_id: conversationId,
+      model: response.modelRef,
+      requested_model: chain.models[0],
+      retries: response.retries,
+      input_tokens: response.usage.inputTokens,
+      output_tokens: response.usage.outputTokens,
+      cache_creation_input_tokens: response.usage.cacheCreationTokens,
+      cache_read_input_tokens: response.usage.cacheReadTokens,
+      cost: computeCost(response.modelRef, response.usage),
+      cache_savings: computeCacheSavings(response.modelRef, response.usage),
+      duration_ms: Date.now() - startTime,
+      isolated: false,
+      agent_group_id: groupId,
+    });
+
+    const summary = response.content
+      .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+      .map((b) => b.text)
+      .join('\n')
+      .trim();
+    if (!summary) throw new Error('Empty summary');
+    return summary;
+  };
+}
+
 /**
  * Direct API call with agentic tool-use loop.
  * Calls Claude, executes any tool_use requests, feeds results back,
  * and repeats until Claude produces a final text response.
+ * In streaming mode, text deltas are emitted as run:delta while generating.
+ * Each call goes through the model chain (retry with backoff, then fallback).
+ * With prompt caching, tools, the stable system prompt and the history so far
+ * are cached, so later iterations only pay full price for the new turns.
+ * Usage is added to `usageByModel` after every turn, so the caller still
+ * has it when the run is cancelled.
  */
 async function callAgentDirect(
   messages: Anthropic.MessageParam[],
-  enabledTools?: string[],
-  runId?: number,
-  conversationId?: string,
-  groupId?: string,
-  overrideSystemPrompt?: string,
-  overrideModel?: string,
+  enabledTools: string[] | undefined,
+  toolContext: ToolContext,
+  overrideSystemPrompt: string | undefined,
+  systemVolatile: string,
+  chain: ModelChain,
+  usageByModel: Map<string, ModelUsage>,
   overrideMaxTokens?: number,
-  overrideApiKey?: string,
+  onStream?: (event: AgentStreamEvent) => void,
 ): Promise<AgentResponse> {
-  const tools = toolRegistry.getToolDefinitions(enabledTools);
+  const tools = toolRegistry.getToolDefinitions(enabledTools, toolContext.groupId);
   const currentMessages = [...messages];
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
   let totalToolCalls = 0;
+  let lastInputTokens = 0;
 
-  const model = overrideModel || config.agentModel;
   const maxTokens = overrideMaxTokens || config.agentMaxTokens;
   const sysPrompt = overrideSystemPrompt || systemPrompt;
-  const client = getClient(overrideApiKey);
 
   for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
-    const response = await client.messages.create({
-      model,
-      max_tokens: maxTokens,
-      system: sysPrompt,
-      messages: currentMessages,
-      ...(tools.length > 0 ? { tools } : {}),
-    });
-
-    totalInputTokens += response.usage.input_tokens;
-    totalOutputTokens += response.usage.output_tokens;
+    toolContext.signal.throwIfAborted();
+
+    const turnStartedAt = new Date();
+    const response = await chatWithFallback(
+      chain,
+      { maxTokens, system: sysPrompt, systemVolatile, messages: currentMessages, tools, cache: config.agentPromptCache },
+      {
+        signal: toolContext.signal,
+        onText: config.agentStreaming
+          ? (text) => {
+              agentEvents.emit('run:delta', {
+                runId: toolContext.runId,
+                conversationId: toolContext.conversationId,
+                iteration,
+                text,
+              });
+              onStream?.({ type: 'text', text });
+            }
+          : undefined,
+      },
+    );
+
+    totalInputTokens += response.usage.inputTokens;
+    totalOutputTokens += response.usage.outputTokens;
+    lastInputTokens =
+      response.usage.inputTokens + response.usage.cacheCreationTokens + response.usage.cacheReadTokens;
+
+    const usage = usageByModel.get(response.modelRef) ?? {
+      model: response.modelRef,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      retries: 0,
+    };
+    usage.inputTokens += response.usage.inputTokens;
+    usage.outputTokens += response.usage.outputTokens;
+    usage.cacheCreationTokens += response.usage.cacheCreationTokens;
+    usage.cacheReadTokens += response.usage.cacheReadTokens;
+    usage.retries += response.retries;
+    usageByModel.set(response.modelRef, usage);
+
+    const textBlocks = response.content.filter((b): b is Anthropic.TextBlockParam => b.type === 'text');
+    const toolUseBlocks = response.content.filter((b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use');
+
+    if (toolContext.runId) {
+      recordModelTurn({
+        runId: toolContext.runId,
+        iteration,
+        model: response.modelRef,
+        retries: response.retries,
+        stopReason: response.stopReason,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        durationMs: Date.now() - turnStartedAt.getTime(),
+        text: textBlocks.map((b) => b.text).join('\n'),
+        toolUses: toolUseBlocks.map((b) => b.name),
+        startedAt: turnStartedAt,
+      });
+    }
 
     // If no tool use, extract text and return
-    if (response.stop_reason !== 'tool_use') {
-      const textBlocks = response.content.filter((b): b is Anthropic.TextBlock => b.type === 'text');
+    if (response.stopReason !== 'tool_use') {
       let content = textBlocks.map((b) => b.text).join('\n');
 
       // If we hit the token limit mid-generation, the response is truncated.
       // Log a warning so we can diagnose, and append a note for the user.
-      if (response.stop_reason === 'max_tokens') {
+      if (response.stopReason === 'max_tokens') {
         console.warn(`[agent] Response truncated at max_tokens (${maxTokens}) on iteration ${iteration}, tool calls so far: ${totalToolCalls}`);
         content += '\n\n(Response was cut short due to length limits. Please try a shorter or simpler request.)';
       }
@@ -258,7 +516,10 @@ async function callAgentDirect(
         content: content || '(no response)',
         inputTokens: totalInputTokens,
         outputTokens: totalOutputTokens,
+        usageByModel: Array.from(usageByModel.values()),
         toolCalls: totalToolCalls,
+        transcript: currentMessages.slice(messages.length),
+        contextTokens: lastInputTokens,
       };
     }
 
@@ -267,83 +528,20 @@ async function callAgentDirect(
 
     const toolResultBlocks: Anthropic.ToolResultBlockParam[] = [];
 
-    for (const block of response.content) {
-      if (block.type === 'tool_use') {
-        totalToolCalls++;
-        const toolInput = block.input as Record<string, unknown>;
-
-        console.log(`[agent] Tool call #${totalToolCalls}: ${block.name}(${JSON.stringify(toolInput).slice(0, 200)})`);
-        agentEvents.emit('tool:call', {
-          runId,
-          iteration,
-          tool: block.name,
-          input: toolInput,
-        });
-
-        // --- HITL Approval Gate ---
-        const approvalCheck = checkApprovalRequired(block.name);
-        if (approvalCheck.required && runId) {
-          console.log(`[agent] Approval required for ${block.name} (risk: ${approvalCheck.riskLevel})`);
-          agentEvents.emit('tool:approval_required', {
-            runId,
-            iteration,
-            tool: block.name,
-            input: toolInput,
-            riskLevel: approvalCheck.riskLevel,
-          });
-
-          const { promise: approvalPromise } = requestApproval({
-            runId,
-            conversationId: conversationId || '',
-            groupId,
-            toolName: block.name,
-            toolInput,
-            riskLevel: approvalCheck.riskLevel,
-            timeoutSeconds: approvalCheck.timeoutSeconds,
-            timeoutAction: approvalCheck.timeoutAction,
-          });
-          const approvalResult = await approvalPromise;
-
-          if (!approvalResult.approved) {
-            console.log(`[agent] Tool ${block.name} rejected: ${approvalResult.reason || 'no reason'}`);
-            agentEvents.emit('tool:approval_rejected', {
-              runId,
-              iteration,
-              tool: block.name,
-              reason: approvalResult.reason,
-            });
-
-            toolResultBlocks.push({
-              type: 'tool_result',
-              tool_use_id: block.id,
-              content: `Tool call rejected by human reviewer: ${approvalResult.reason || 'Not approved'}. Please adjust your approach or ask the user for guidance.`,
-              is_error: true,
-            });
-            continue;
-          }
-
-          console.log(`[agent] Tool ${block.name} approved by ${approvalResult.respondedBy || 'reviewer'}`);
-        }
-        // --- End HITL Approval Gate ---
-
-        const result = await toolRegistry.execute(block.name, toolInput);
-
-        console.log(`[agent] Tool result: ${result.isError ? 'ERROR' : 'OK'} (${result.content.length} chars)${result.isError ? ' — ' + result.content.slice(0, 500) : ''}`);
-        agentEvents.emit('tool:result', {
-          runId,
-          iteration,
-          tool: block.name,
-          isError: result.isError || false,
-          contentLength: result.content.length,
-        });
-
-        toolResultBlocks.push({
-          type: 'tool_result',
-          tool_use_id: block.id,
-          content: result.content,
-          is_error: result.isError,
-        });
-      }
+    for (const block of toolUseBlocks) {
+      totalToolCalls++;
+      const result = await executeToolCall(block, {
+        toolContext,
+        iteration,
+        callNumber: totalToolCalls,
+        onStream,
+      });
+      toolResultBlocks.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: result.content,
+        is_error: result.isError,
+      });
     }
 
     // Feed tool results back to Claude
@@ -355,36 +553,200 @@ async function callAgentDirect(
     content: '(max tool iterations reached - please try a simpler request)',
     inputTokens: totalInputTokens,
     outputTokens: totalOutputTokens,
+    usageByModel: Array.from(usageByModel.values()),
     toolCalls: totalToolCalls,
+    transcript: currentMessages.slice(messages.length),
+    contextTokens: lastInputTokens,
   };
 }
 
+interface ToolCallContext {
+  toolContext: ToolContext;
+  iteration: number;
+  /** Running count of tool calls in this run (for logging) */
+  callNumber: number;
+  onStream?: (event: AgentStreamEvent) => void;
+}
+
+/**
+ * Execute a single tool_use block requested by the model.
+ * Emits tool events, passes the HITL approval gate and runs the tool.
+ * Shared by the direct loop and the container tool-call proxy.
+ */
+async function executeToolCall(
+  block: { name: string; input: unknown },
+  ctx: ToolCallContext,
+): Promise<{ content: string; isError?: boolean }> {
+  const { toolContext, iteration, onStream } = ctx;
+  const { runId, conversationId, groupId } = toolContext;
+  const toolInput = block.input as Record<string, unknown>;
+  const startedAt = new Date();
+  let approvalId: string | undefined;
+
+  console.log(`[agent] Tool call #${ctx.callNumber}: ${block.name}(${JSON.stringify(toolInput).slice(0, 200)})`);
+  agentEvents.emit('tool:call', {
+    runId,
+    conversationId,
+    iteration,
+    tool: block.name,
+    input: toolInput,
+  });
+  onStream?.({ type: 'tool_call', tool: block.name, iteration });
+
+  // Invalid input never reaches a reviewer: the model gets the violations back to fix the call
+  const invalid = toolRegistry.validate(block.name, toolInput, toolContext);
+
+  // --- HITL Approval Gate ---
+  const approvalCheck = checkApprovalRequired(block.name, toolRegistry.get(block.name, groupId)?.riskLevel);
+  if (approvalCheck.required && runId && !invalid) {
+    console.log(`[agent] Approval required for ${block.name} (risk: ${approvalCheck.riskLevel})`);
+    agentEvents.emit('tool:approval_required', {
+      runId,
+      iteration,
+      tool: block.name,
+      input: toolInput,
+      riskLevel: approvalCheck.riskLevel,
+    });
+
+    const approval = requestApproval({
+      runId,
+      conversationId,
+      groupId,
+      toolName: block.name,
+      toolInput,
+      riskLevel: approvalCheck.riskLevel,
+      timeoutSeconds: approvalCheck.timeoutSeconds,
+      timeoutAction: approvalCheck.timeoutAction,
+      signal: toolContext.signal,
+    });
+    approvalId = approval.approvalId;
+    const approvalResult = await approval.promise;
+
+    if (!approvalResult.approved) {
+      console.log(`[agent] Tool ${block.name} rejected: ${approvalResult.reason || 'no reason'}`);
+      agentEvents.emit('tool:approval_rejected', {
+        runId,
+        iteration,
+        tool: block.name,
+        reason: approvalResult.reason,
+      });
+
+      const rejection = {
+        content: `Tool call rejected by human reviewer: ${approvalResult.reason || 'Not approved'}. Please adjust your approach or ask the user for guidance.`,
+        isError: true,
+      };
+      traceToolCall(block.name, toolInput, rejection, ctx, startedAt, approvalId);
+      return rejection;
+    }
+
+    console.log(`[agent] Tool ${block.name} approved by ${approvalResult.respondedBy || 'reviewer'}`);
+  }
+  // --- End HITL Approval Gate ---
+
+  const result = invalid ?? (await toolRegistry.execute(block.name, toolInput, toolContext));
+
+  console.log(`[agent] Tool result: ${result.isError ? 'ERROR' : 'OK'} (${result.content.length} chars)${result.isError ? ' — ' + result.content.slice(0, 500) : ''}`);
+  agentEvents.emit('tool:result', {
+    runId,
+    conversationId,
+    iteration,
+    tool: block.name,
+    isError: result.isError || false,
+    contentLength: result.content.length,
+  });
+  onStream?.({ type: 'tool_result', tool: block.name, iteration, isError: result.isError || false });
+  traceToolCall(block.name, toolInput, result, ctx, startedAt, approvalId);
+
+  return result;
+}
+
+/**
+ * Persist a finished tool call to the run trace (runs only, not sub-agents).
+ */
+function traceToolCall(
+  toolName: string,
+  input: Record<string, unknown>,
+  result: { content: string; isError?: boolean },
+  ctx: ToolCallContext,
+  startedAt: Date,
+  approvalId?: string,
+): void {
+  const { runId } = ctx.toolContext;
+  if (!runId) return;
+
+  recordToolCall({
+    runId,
+    iteration: ctx.iteration,
+    toolName,
+    input,
+    output: result.content,
+    isError: result.isError || false,
+    durationMs: Date.now() - startedAt.getTime(),
+    approvalId,
+    startedAt,
+  });
+}
+
 /**
  * Containerized API call (nanoclaw pattern).
  * Passes API key via stdin, runs in isolated Docker container.
- * Note: Tool use is not supported in container mode.
+ * The tool-use loop runs inside the container; each tool call is proxied
+ * back to the host and executed here, behind the HITL approval gate.
  */
 async function callAgentContainer(
   messages: Anthropic.MessageParam[],
-  overrideSystemPrompt?: string,
-  overrideModel?: string,
+  enabledTools: string[] | undefined,
+  toolContext: ToolContext,
+  overrideSystemPrompt: string | undefined,
+  systemVolatile: string,
+  chain: ModelChain,
   overrideMaxTokens?: number,
-  overrideApiKey?: string,
+  onStream?: (event: AgentStreamEvent) => void,
 ): Promise<AgentResponse> {
-  // Container mode only supports simple text messages (no tool blocks)
-  const simpleMessages = messages.map((m) => ({
-    role: m.role,
-    content: typeof m.content === 'string' ? m.content : '(tool interaction)',
-  }));
+  const tools = toolRegistry.getToolDefinitions(enabledTools, toolContext.groupId);
+  const primaryProvider = parseModelRef(chain.models[0]!).provider;
+  const models = chain.models.map((ref) => {
+    const { provider, model } = parseModelRef(ref);
+    // The group's key belongs to the primary provider (same rule as chatWithFallback)
+    const connection = getProviderConnection(provider, provider === primaryProvider ? chain.apiKey : undefined);
+    return {
+      ref,
+      api: connection.api,
+      apiKey: connection.apiKey,
+      ...(connection.baseUrl ? { baseUrl: connection.baseUrl } : {}),
+      model,
+    };
+  });
 
   const input: ContainerInput = {
-    apiKey: overrideApiKey || config.anthropicApiKey,
-    model: overrideModel || config.agentModel,
+    models,
+    retry: chain.retry,
     maxTokens: overrideMaxTokens || config.agentMaxTokens,
     systemPrompt: overrideSystemPrompt || systemPrompt,
-    messages: simpleMessages,
+    systemVolatile,
+    promptCache: config.agentPromptCache,
+    messages,
+    ...(tools.length > 0 ? { tools } : {}),
+    maxToolIterations: MAX_TOOL_ITERATIONS,
   };
 
-  const result = await runInContainer(input);
-  return { ...result, toolCalls: 0 };
+  return runInContainer(input, createContainerToolHandler(toolContext, onStream), toolContext.signal);
+}
+
+/**
+ * Host side of the container tool-call protocol: every call requested by
+ * the runner passes the HITL approval gate and runs through the registry.
+ */
+export function createContainerToolHandler(
+  toolContext: ToolContext,
+  onStream?: (event: AgentStreamEvent) => void,
+): ContainerToolHandler {
+  let callNumber = 0;
+  return (call) =>
+    executeToolCall(call, {
+      toolContext,
+      iteration: call.iteration,
+      callNumber: ++callNumber,
+      onStream,
+    });
 }
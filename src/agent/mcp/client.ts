@@ -0,0 +1,395 @@
+/**
+ * MCP Client - Minimal Model Context Protocol client (JSON-RPC 2.0).
+ *
+ * Transports:
+ *   - stdio: the server runs as a child process, one JSON message per line.
+ *     It gets PATH and HOME plus its configured env, none of the gateway's
+ *     own variables (API keys, tokens).
+ *   - http: streamable HTTP. Every message is POSTed to the endpoint; replies
+ *     come back as JSON or as an SSE stream. The session id of the
+ *     initialize response is sent with all later requests.
+ *
+ * Only the client side of tools is implemented: initialize, tools/list,
+ * tools/call, ping and the tools/list_changed notification.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import * as readline from 'readline';
+import type { ToolResult } from '../tools/types';
+import type { McpServerConfig, McpToolInfo } from './types';
+
+const PROTOCOL_VERSION = '2025-03-26';
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const CLIENT_INFO = { name: 'loop-gateway', version: '1.0.0' };
+const MAX_STDERR_CHARS = 2000;
+const CLOSE_GRACE_MS = 2000;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface ContentPart {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  resource?: { uri: string; text?: string };
+}
+
+interface CallToolResult {
+  content?: ContentPart[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface ConnectionHandlers {
+  onMessage(message: JsonRpcMessage): void;
+  onClose(reason: string): void;
+}
+
+interface Connection {
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type McpClientOptions = Pick<
+  McpServerConfig,
+  'name' | 'transport' | 'command' | 'args' | 'env' | 'url' | 'headers' | 'timeoutMs'
+>;
+
+class StdioConnection implements Connection {
+  private child: ChildProcess;
+  private stderr = '';
+  private exited: Promise<void>;
+
+  constructor(options: McpClientOptions, handlers: ConnectionHandlers) {
+    this.child = spawn(options.command, options.args, {
+      env: { PATH: process.env.PATH || '', HOME: process.env.HOME || '', ...options.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    readline.createInterface({ input: this.child.stdout! }).on('line', (line) => {
+      if (!line.trim()) return;
+      try {
+        handlers.onMessage(JSON.parse(line));
+      } catch {
+        console.warn(`[mcp] ${options.name}: ignoring non-JSON output: ${line.slice(0, 200)}`);
+      }
+    });
+    this.child.stderr!.on('data', (chunk: Buffer) => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-MAX_STDERR_CHARS);
+    });
+
+    this.exited = new Promise((resolve) => {
+      this.child.on('error', (err) => {
+        handlers.onClose(`failed to start: ${err.message}`);
+        resolve();
+      });
+      this.child.on('exit', (code, signal) => {
+        const stderr = this.stderr.trim();
+        handlers.onClose(`exited with ${signal ?? `code ${code}`}${stderr ? `: ${stderr.split('\n').pop()}` : ''}`);
+        resolve();
+      });
+    });
+  }
+
+  send(message: JsonRpcMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const stdin = this.child.stdin;
+      if (!stdin || stdin.destroyed) {
+        reject(new Error('server process is not running'));
+        return;
+      }
+      stdin.write(JSON.stringify(message) + '\n', (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.child.exitCode !== null || this.child.signalCode !== null) return;
+    // Servers exit when stdin closes; kill the ones that do not
+    this.child.stdin?.end();
+    const timer = setTimeout(() => this.child.kill('SIGKILL'), CLOSE_GRACE_MS);
+    await this.exited;
+    clearTimeout(timer);
+  }
+}
+
+class HttpConnection implements Connection {
+  private sessionId?: string;
+  private controller = new AbortController();
+  /** Negotiated version, sent as MCP-Protocol-Version after initialization */
+  protocolVersion?: string;
+
+  constructor(
+    private options: McpClientOptions,
+    private handlers: ConnectionHandlers,
+  ) {}
+
+  private requestHeaders(): Record<string, string> {
+    return {
+      ...this.options.headers,
+      ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+      ...(this.protocolVersion && { 'MCP-Protocol-Version': this.protocolVersion }),
+    };
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const res = await fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        ...this.requestHeaders(),
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+      signal: this.controller.signal,
+    });
+    const sessionId = res.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    if (res.status === 404 && this.sessionId && message.method !== 'initialize') {
+      this.handlers.onClose('session expired');
+      throw new Error('MCP session expired');
+    }
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+    }
+    if (res.status === 202 || !res.body) return;
+
+    const type = res.headers.get('content-type') || '';
+    if (type.includes('text/event-stream')) {
+      // Replies arrive as events; keep reading without blocking the sender
+      this.readEvents(res.body).catch((err) => {
+        if (!this.controller.signal.aborted) console.warn(`[mcp] ${this.options.name}: event stream failed:`, err);
+      });
+    } else if (type.includes('application/json')) {
+      const body = await res.json();
+      for (const msg of Array.isArray(body) ? body : [body]) this.handlers.onMessage(msg);
+    } else {
+      await res.body.cancel();
+    }
+  }
+
+  private async readEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n?/g, '\n');
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const data = event
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        if (data) this.handlers.onMessage(JSON.parse(data));
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.controller.abort();
+    if (!this.sessionId) return;
+    // Tell the server the session is over (best effort)
+    await fetch(this.options.url, {
+      method: 'DELETE',
+      headers: this.requestHeaders(),
+      signal: AbortSignal.timeout(CLOSE_GRACE_MS),
+    }).catch(() => {});
+  }
+}
+
+function formatContent(part: ContentPart): string {
+  switch (part?.type) {
+    case 'text':
+      return String(part.text ?? '');
+    case 'image':
+    case 'audio':
+      return `[${part.type}: ${part.mimeType || 'unknown type'}, ${Math.floor(((part.data || '').length * 3) / 4)} bytes]`;
+    case 'resource':
+      return part.resource?.text ?? `[resource: ${part.resource?.uri}]`;
+    case 'resource_link':
+      return `[resource: ${part.uri}]`;
+    default:
+      return JSON.stringify(part);
+  }
+}
+
+/**
+ * Convert a tools/call result to a tool result for the model.
+ */
+function toToolResult(result: CallToolResult | undefined): ToolResult {
+  const parts: string[] = Array.isArray(result?.content) ? result.content.map(formatContent) : [];
+  if (parts.length === 0 && result?.structuredContent !== undefined) {
+    parts.push(JSON.stringify(result.structuredContent));
+  }
+  return { content: parts.join('\n') || '(no output)', ...(result?.isError === true && { isError: true }) };
+}
+
+/**
+ * Connection to one MCP server. Emits 'tools_changed' when the server's
+ * tool list changes and 'close' (with the reason) when the connection ends.
+ */
+export class McpClient extends EventEmitter {
+  private connection?: Connection;
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    { resolve: (result: unknown) => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> }
+  >();
+  private closed = false;
+  serverInfo?: { name: string; version: string };
+
+  constructor(private options: McpClientOptions) {
+    super();
+  }
+
+  /**
+   * Start the server (stdio) or session (http) and run the initialize handshake.
+   */
+  async connect(): Promise<void> {
+    const handlers: ConnectionHandlers = {
+      onMessage: (message) => this.handleMessage(message),
+      onClose: (reason) => this.handleClose(reason),
+    };
+    const connection =
+      this.options.transport === 'stdio'
+        ? new StdioConnection(this.options, handlers)
+        : new HttpConnection(this.options, handlers);
+    this.connection = connection;
+
+    const result = await this.request<{ protocolVersion: string; serverInfo?: { name: string; version: string } }>(
+      'initialize',
+      {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO,
+      },
+    );
+    if (!result || !SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      await this.close();
+      throw new Error(`Unsupported MCP protocol version: ${result?.protocolVersion}`);
+    }
+    if (connection instanceof HttpConnection) connection.protocolVersion = result.protocolVersion;
+    this.serverInfo = result.serverInfo;
+    await connection.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+  }
+
+  /**
+   * All tools of the server (follows pagination).
+   */
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request<{ tools?: McpToolInfo[]; nextCursor?: string }>(
+        'tools/list',
+        cursor ? { cursor } : {},
+      );
+      tools.push(...(result?.tools || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool. Aborting the signal cancels the request on the server.
+   */
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<ToolResult> {
+    const result = await this.request<CallToolResult>('tools/call', { name, arguments: args }, signal);
+    return toToolResult(result);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    await this.connection?.close();
+    this.handleClose('closed');
+  }
+
+  private request<T>(method: string, params: unknown, signal?: AbortSignal): Promise<T | undefined> {
+    if (this.closed || !this.connection) {
+      return Promise.reject(new Error(`MCP server ${this.options.name} is not connected`));
+    }
+    if (signal?.aborted) return Promise.reject(new Error('Request aborted'));
+    const id = this.nextId++;
+    const connection = this.connection;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.settle(id, new Error('Request aborted'));
+        connection
+          .send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: id, reason: 'aborted' } })
+          .catch(() => {});
+      };
+      const timer = setTimeout(
+        () => this.settle(id, new Error(`MCP request ${method} timed out after ${this.options.timeoutMs}ms`)),
+        this.options.timeoutMs,
+      );
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as T | undefined);
+        },
+        reject: (err) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(err);
+        },
+        timer,
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      connection.send({ jsonrpc: '2.0', id, method, params }).catch((err) => {
+        this.settle(id, err instanceof Error ? err : new Error(String(err)));
+      });
+    });
+  }
+
+  private settle(id: number, error: Error | undefined, result?: unknown): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    if (error) entry.reject(error);
+    else entry.resolve(result);
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (message.method === undefined) {
+      if (typeof message.id !== 'number') return;
+      const error = message.error ? new Error(`MCP error ${message.error.code}: ${message.error.message}`) : undefined;
+      this.settle(message.id, error, message.result);
+      return;
+    }
+
+    if (message.method === 'notifications/tools/list_changed') {
+      this.emit('tools_changed');
+      return;
+    }
+    // Requests from the server: answer pings, decline everything else (sampling, roots, ...)
+    if (message.id === undefined || message.id === null) return;
+    const reply: JsonRpcMessage =
+      message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+    this.connection?.send(reply).catch(() => {});
+  }
+
+  private handleClose(reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, new Error(`MCP server ${this.options.name} ${reason}`));
+    }
+    this.emit('close', reason);
+  }
+}
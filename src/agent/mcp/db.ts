@@ -0,0 +1,248 @@
+/**
+ * MCP Server Configuration - Persistence of the MCP servers of agent groups.
+ *
+ * Tables:
+ *   - mcp_servers: One row per server and group. Environment variables and
+ *     headers often hold credentials, so they are stored AES-encrypted.
+ */
+
+import * as path from 'path';
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../../db/sqlite';
+import { config } from '../../config';
+import { encrypt, decrypt } from '../groups/encryption';
+import type { RiskLevel } from '../hitl/types';
+import { McpServerConfig, McpServerInput, McpTransport } from './types';
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,23}$/;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+const MAX_TIMEOUT_MS = 10 * 60_000;
+
+interface McpServerRow {
+  id: string;
+  group_id: string;
+  name: string;
+  transport: McpTransport;
+  command: string;
+  args: string;
+  url: string;
+  secrets_encrypted: string | null;
+  risk_level: RiskLevel;
+  timeout_ms: number;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Initialize the MCP server schema. Safe to call multiple times.
+ */
+export function initMcpSchema(): void {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS mcp_servers (
+      id TEXT PRIMARY KEY,
+      group_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      transport TEXT NOT NULL,
+      command TEXT NOT NULL DEFAULT '',
+      args TEXT NOT NULL DEFAULT '[]',
+      url TEXT NOT NULL DEFAULT '',
+      secrets_encrypted TEXT,  -- JSON { env, headers }, AES-256-GCM
+      risk_level TEXT NOT NULL DEFAULT 'medium',
+      timeout_ms INTEGER NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (group_id, name),
+      FOREIGN KEY (group_id) REFERENCES agent_groups(id) ON DELETE CASCADE
+    );
+  `);
+  console.log('[mcp] MCP server schema initialized');
+}
+
+function checkStringMap(value: unknown, field: string, namePattern: RegExp): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${field} must be an object of name to string value`);
+  }
+  for (const [name, v] of Object.entries(value)) {
+    if (!namePattern.test(name)) throw new Error(`Invalid ${field} name: ${name}`);
+    if (typeof v !== 'string') throw new Error(`${field}.${name} must be a string`);
+  }
+  return value as Record<string, string>;
+}
+
+/**
+ * Check a complete server definition. Throws with a message for the API.
+ */
+function validateServer(server: Omit<McpServerConfig, 'id' | 'groupId' | 'createdAt' | 'updatedAt'>): void {
+  if (typeof server.name !== 'string' || !NAME_PATTERN.test(server.name)) {
+    throw new Error('name must be 1-24 lowercase letters, digits, "-" or "_"');
+  }
+  if (server.transport === 'stdio') {
+    if (typeof server.command !== 'string' || !server.command.trim()) {
+      throw new Error('command is required for the stdio transport');
+    }
+    const allowed = config.mcp.stdioCommands;
+    if (allowed.length > 0 && !allowed.includes(server.command) && !allowed.includes(path.basename(server.command))) {
+      throw new Error(`command ${server.command} is not allowed (MCP_STDIO_COMMANDS: ${allowed.join(', ')})`);
+    }
+    if (!Array.isArray(server.args) || server.args.some((a) => typeof a !== 'string')) {
+      throw new Error('args must be an array of strings');
+    }
+    checkStringMap(server.env, 'env', ENV_NAME_PATTERN);
+  } else if (server.transport === 'http') {
+    let url: URL;
+    try {
+      url = new URL(server.url);
+    } catch {
+      throw new Error('url must be a valid http(s) URL for the http transport');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('url must be a valid http(s) URL for the http transport');
+    }
+    checkStringMap(server.headers, 'headers', HEADER_NAME_PATTERN);
+  } else {
+    throw new Error('transport must be "stdio" or "http"');
+  }
+  if (!RISK_LEVELS.includes(server.riskLevel)) {
+    throw new Error(`riskLevel must be one of ${RISK_LEVELS.join(', ')}`);
+  }
+  if (!Number.isInteger(server.timeoutMs) || server.timeoutMs < 1000 || server.timeoutMs > MAX_TIMEOUT_MS) {
+    throw new Error(`timeoutMs must be an integer between 1000 and ${MAX_TIMEOUT_MS}`);
+  }
+}
+
+export function getMcpServers(groupId?: string): McpServerConfig[] {
+  const rows = (
+    groupId
+      ? getDb().prepare('SELECT * FROM mcp_servers WHERE group_id = ? ORDER BY name').all(groupId)
+      : getDb().prepare('SELECT * FROM mcp_servers ORDER BY group_id, name').all()
+  ) as McpServerRow[];
+  return rows.map(rowToServer);
+}
+
+export function getMcpServer(groupId: string, name: string): McpServerConfig | undefined {
+  const row = getDb().prepare('SELECT * FROM mcp_servers WHERE group_id = ? AND name = ?').get(groupId, name) as
+    McpServerRow | undefined;
+  return row ? rowToServer(row) : undefined;
+}
+
+export function createMcpServer(groupId: string, input: McpServerInput): McpServerConfig {
+  const server = {
+    name: input.name,
+    transport: input.transport,
+    command: input.command ?? '',
+    args: input.args ?? [],
+    env: input.env ?? {},
+    url: input.url ?? '',
+    headers: input.headers ?? {},
+    riskLevel: input.riskLevel ?? 'medium',
+    timeoutMs: input.timeoutMs ?? config.mcp.timeoutMs,
+    enabled: input.enabled ?? true,
+  };
+  validateServer(server);
+  if (getMcpServer(groupId, server.name)) {
+    throw new Error(`MCP server ${server.name} already exists in this group`);
+  }
+
+  const id = uuid();
+  getDb()
+    .prepare(
+      `INSERT INTO mcp_servers (id, group_id, name, transport, command, args, url, secrets_encrypted, risk_level, timeout_ms, enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      id,
+      groupId,
+      server.name,
+      server.transport,
+      server.command,
+      JSON.stringify(server.args),
+      server.url,
+      encrypt(JSON.stringify({ env: server.env, headers: server.headers })),
+      server.riskLevel,
+      server.timeoutMs,
+      server.enabled ? 1 : 0,
+    );
+  return getMcpServer(groupId, server.name)!;
+}
+
+/**
+ * Update a server. Omitted fields keep their value; env and headers are
+ * replaced as a whole when given.
+ */
+export function updateMcpServer(
+  groupId: string,
+  name: string,
+  changes: Partial<Omit<McpServerInput, 'name'>>,
+): McpServerConfig | undefined {
+  const existing = getMcpServer(groupId, name);
+  if (!existing) return undefined;
+  const server = {
+    name,
+    transport: changes.transport ?? existing.transport,
+    command: changes.command ?? existing.command,
+    args: changes.args ?? existing.args,
+    env: changes.env ?? existing.env,
+    url: changes.url ?? existing.url,
+    headers: changes.headers ?? existing.headers,
+    riskLevel: changes.riskLevel ?? existing.riskLevel,
+    timeoutMs: changes.timeoutMs ?? existing.timeoutMs,
+    enabled: changes.enabled ?? existing.enabled,
+  };
+  validateServer(server);
+
+  getDb()
+    .prepare(
+      `UPDATE mcp_servers
+       SET transport = ?, command = ?, args = ?, url = ?, secrets_encrypted = ?, risk_level = ?, timeout_ms = ?,
+           enabled = ?, updated_at = datetime('now')
+       WHERE id = ?`,
+    )
+    .run(
+      server.transport,
+      server.command,
+      JSON.stringify(server.args),
+      server.url,
+      encrypt(JSON.stringify({ env: server.env, headers: server.headers })),
+      server.riskLevel,
+      server.timeoutMs,
+      server.enabled ? 1 : 0,
+      existing.id,
+    );
+  return getMcpServer(groupId, name);
+}
+
+export function deleteMcpServer(groupId: string, name: string): boolean {
+  const result = getDb().prepare('DELETE FROM mcp_servers WHERE group_id = ? AND name = ?').run(groupId, name);
+  return result.changes > 0;
+}
+
+function rowToServer(row: McpServerRow): McpServerConfig {
+  let secrets: { env?: Record<string, string>; headers?: Record<string, string> } = {};
+  if (row.secrets_encrypted) {
+    try {
+      secrets = JSON.parse(decrypt(row.secrets_encrypted));
+    } catch (err) {
+      console.error(`[mcp] Failed to decrypt env/headers of MCP server ${row.name}:`, err);
+    }
+  }
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    name: row.name,
+    transport: row.transport,
+    command: row.command,
+    args: JSON.parse(row.args || '[]'),
+    env: secrets.env || {},
+    url: row.url,
+    headers: secrets.headers || {},
+    riskLevel: row.risk_level,
+    timeoutMs: row.timeout_ms,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
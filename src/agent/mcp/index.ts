@@ -0,0 +1,19 @@
+export { initMcpSchema, getMcpServers, getMcpServer, createMcpServer, updateMcpServer, deleteMcpServer } from './db';
+export {
+  mcpToolName,
+  getMcpServerInfo,
+  connectMcpServer,
+  disconnectMcpServer,
+  disconnectGroupMcpServers,
+  startMcpServers,
+  stopMcpServers,
+} from './manager';
+export { McpClient } from './client';
+export type {
+  McpTransport,
+  McpServerConfig,
+  McpServerInput,
+  McpServerInfo,
+  McpServerState,
+  McpToolInfo,
+} from './types';
@@ -0,0 +1,175 @@
+/**
+ * MCP Manager - Connections to the MCP servers of agent groups.
+ *
+ * Each enabled server is connected at startup and whenever its config
+ * changes. Its tools are registered in the tool registry for the owning
+ * group only, named mcp__<server>__<tool>, and go through the same input
+ * validation and HITL approval gate as built-in tools. When the server
+ * reports a changed tool list, the tools are registered again. A server
+ * that disconnects keeps its error until it is reconnected via the API.
+ */
+
+import { createHash } from 'crypto';
+import { toolRegistry } from '../tools/registry';
+import type { AgentTool } from '../tools/types';
+import { McpClient } from './client';
+import { getMcpServers } from './db';
+import { McpServerConfig, McpServerInfo, McpServerState } from './types';
+
+// Anthropic and OpenAI tool names: ^[a-zA-Z0-9_-]{1,64}$
+const MAX_TOOL_NAME_LENGTH = 64;
+
+interface ServerConnection {
+  config: McpServerConfig;
+  client?: McpClient;
+  state: McpServerState;
+  error?: string;
+  /** Registered tool name → tool name on the server */
+  tools: Map<string, string>;
+  connectedAt?: string;
+}
+
+/** Connections by server ID */
+const connections = new Map<string, ServerConnection>();
+
+/**
+ * Registry name of a server's tool. Characters other tool APIs reject
+ * become "_"; names that get too long are shortened with a hash suffix.
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  const name = `mcp__${serverName}__${toolName.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+  if (name.length <= MAX_TOOL_NAME_LENGTH) return name;
+  const hash = createHash('sha256').update(toolName).digest('hex').slice(0, 8);
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - 9)}_${hash}`;
+}
+
+function unregisterTools(conn: ServerConnection): void {
+  for (const name of conn.tools.keys()) toolRegistry.unregisterForGroup(conn.config.groupId, name);
+  conn.tools.clear();
+}
+
+async function registerTools(conn: ServerConnection, client: McpClient): Promise<void> {
+  const { config } = conn;
+  const tools = await client.listTools();
+  if (conn.client !== client) return;
+
+  unregisterTools(conn);
+  for (const tool of tools) {
+    const name = mcpToolName(config.name, tool.name);
+    const agentTool: AgentTool = {
+      name,
+      description: tool.description || `Tool ${tool.name} of the MCP server ${config.name}`,
+      inputSchema: { type: 'object', ...tool.inputSchema },
+      riskLevel: config.riskLevel,
+      execute: (input, ctx) => client.callTool(tool.name, input, ctx.signal),
+    };
+    toolRegistry.registerForGroup(config.groupId, agentTool);
+    conn.tools.set(name, tool.name);
+  }
+  console.log(`[mcp] ${config.name} (group ${config.groupId}): ${tools.length} tool(s)`);
+}
+
+/**
+ * Status of a configured server, with env and header values left out.
+ */
+export function getMcpServerInfo(server: McpServerConfig): McpServerInfo {
+  const { env, headers, ...rest } = server;
+  const conn = connections.get(server.id);
+  const error = conn ? conn.error : server.enabled ? 'Not connected' : undefined;
+  return {
+    ...rest,
+    envKeys: Object.keys(env),
+    headerNames: Object.keys(headers),
+    state: conn?.state ?? (server.enabled ? 'error' : 'disabled'),
+    ...(error && { error }),
+    tools: conn ? [...conn.tools.keys()] : [],
+    ...(conn?.connectedAt && { connectedAt: conn.connectedAt }),
+  };
+}
+
+/**
+ * Close the connection of a server and unregister its tools.
+ */
+export async function disconnectMcpServer(serverId: string): Promise<void> {
+  const conn = connections.get(serverId);
+  if (!conn) return;
+  connections.delete(serverId);
+  unregisterTools(conn);
+  const client = conn.client;
+  conn.client = undefined;
+  await client?.close();
+}
+
+/**
+ * (Re)connect a server and register its tools. Connection errors are kept
+ * in the server status instead of being thrown.
+ */
+export async function connectMcpServer(server: McpServerConfig): Promise<McpServerInfo> {
+  await disconnectMcpServer(server.id);
+  const conn: ServerConnection = { config: server, state: 'disabled', tools: new Map() };
+  connections.set(server.id, conn);
+  if (!server.enabled) return getMcpServerInfo(server);
+
+  const client = new McpClient(server);
+  conn.client = client;
+  conn.state = 'connecting';
+  client.on('close', (reason: string) => {
+    if (conn.client !== client) return;
+    console.warn(`[mcp] ${server.name} (group ${server.groupId}) disconnected: ${reason}`);
+    unregisterTools(conn);
+    conn.client = undefined;
+    conn.state = 'error';
+    conn.error = `Disconnected: ${reason}`;
+  });
+  client.on('tools_changed', () => {
+    registerTools(conn, client).catch((err) => {
+      console.error(`[mcp] Failed to refresh the tools of ${server.name}:`, err instanceof Error ? err.message : err);
+    });
+  });
+
+  try {
+    await client.connect();
+    await registerTools(conn, client);
+    if (conn.client === client) {
+      conn.state = 'connected';
+      conn.connectedAt = new Date().toISOString();
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[mcp] Failed to connect ${server.name} (group ${server.groupId}):`, msg);
+    if (conn.client === client) {
+      unregisterTools(conn);
+      conn.client = undefined;
+      conn.state = 'error';
+      conn.error = msg;
+    }
+    await client.close();
+  }
+  return getMcpServerInfo(server);
+}
+
+/**
+ * Disconnect all servers of a group (when the group is deleted).
+ */
+export async function disconnectGroupMcpServers(groupId: string): Promise<void> {
+  const ids = [...connections.values()].filter((c) => c.config.groupId === groupId).map((c) => c.config.id);
+  await Promise.all(ids.map(disconnectMcpServer));
+}
+
+/**
+ * Connect all configured servers. Call this once at startup.
+ */
+export async function startMcpServers(): Promise<void> {
+  const servers = getMcpServers();
+  if (servers.length === 0) return;
+  const results = await Promise.all(servers.map(connectMcpServer));
+  const connected = results.filter((r) => r.state === 'connected').length;
+  console.log(`[mcp] ${connected}/${servers.length} MCP server(s) connected`);
+}
+
+/**
+ * Disconnect all servers (stops stdio server processes).
+ */
+export async function stopMcpServers(): Promise<void> {
+  await Promise.all([...connections.keys()].map(disconnectMcpServer));
+}
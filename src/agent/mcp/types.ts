@@ -0,0 +1,65 @@
+/**
+ * MCP Types - Configured MCP servers of agent groups and their live status.
+ */
+
+import type { RiskLevel } from '../hitl/types';
+
+export type McpTransport = 'stdio' | 'http';
+
+/** A configured MCP server, as stored (env and headers decrypted) */
+export interface McpServerConfig {
+  id: string;
+  groupId: string;
+  /** Short name, part of the tool names: mcp__<name>__<tool> */
+  name: string;
+  transport: McpTransport;
+  /** stdio: command and arguments of the server process */
+  command: string;
+  args: string[];
+  /** stdio: extra environment variables of the server process */
+  env: Record<string, string>;
+  /** http: streamable HTTP endpoint, e.g. https://mcp.example.com/mcp */
+  url: string;
+  /** http: extra request headers, e.g. Authorization */
+  headers: Record<string, string>;
+  /** Risk level of the server's tools when no approval rule names them */
+  riskLevel: RiskLevel;
+  /** Timeout of a single request (connect, list, call) */
+  timeoutMs: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface McpServerInput {
+  name: string;
+  transport: McpTransport;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  riskLevel?: RiskLevel;
+  timeoutMs?: number;
+  enabled?: boolean;
+}
+
+export type McpServerState = 'connecting' | 'connected' | 'error' | 'disabled';
+
+/** A configured server as returned by the API: secret values are replaced by their names */
+export interface McpServerInfo extends Omit<McpServerConfig, 'env' | 'headers'> {
+  envKeys: string[];
+  headerNames: string[];
+  state: McpServerState;
+  error?: string;
+  /** Namespaced names of the registered tools */
+  tools: string[];
+  connectedAt?: string;
+}
+
+/** A tool as listed by an MCP server (tools/list) */
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
@@ -0,0 +1,295 @@
+/**
+ * Pricing - Model price table and per-call cost accounting.
+ *
+ * Prices are per million tokens in the configured currency (COST_CURRENCY)
+ * and cover input, output, cache write and cache read tokens. A price entry
+ * applies to every model reference it is a prefix of, the longest match
+ * wins: "claude-sonnet-4" prices "claude-sonnet-4-20250514", "ollama:"
+ * prices every local Ollama model.
+ *
+ * The cost of each call is computed when it is logged and stored in
+ * api_calls.cost, so later price changes do not rewrite history. The same
+ * goes for api_calls.cache_savings, the cost saved by prompt caching.
+ */
+
+import { getDb } from '../db/sqlite';
+import { config } from '../config';
+
+export interface ModelPrice {
+  /** Model reference or prefix, e.g. "claude-opus-4" or "openai:gpt-4o" */
+  model: string;
+  inputPerMTok: number;
+  outputPerMTok: number;
+  cacheWritePerMTok: number;
+  cacheReadPerMTok: number;
+  updatedAt: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+}
+
+export interface SpendRow {
+  key: string | null;
+  name: string | null;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+  cacheSavings: number;
+}
+
+interface ModelPriceRow {
+  model: string;
+  input_per_mtok: number;
+  output_per_mtok: number;
+  cache_write_per_mtok: number;
+  cache_read_per_mtok: number;
+  updated_at: string;
+}
+
+// Default prices in USD per million tokens (seeded once, editable via the API)
+const DEFAULT_PRICES: Array<Omit<ModelPrice, 'updatedAt'>> = [
+  { model: 'claude-opus-4', inputPerMTok: 15, outputPerMTok: 75, cacheWritePerMTok: 18.75, cacheReadPerMTok: 1.5 },
+  { model: 'claude-sonnet-4', inputPerMTok: 3, outputPerMTok: 15, cacheWritePerMTok: 3.75, cacheReadPerMTok: 0.3 },
+  { model: 'claude-3-7-sonnet', inputPerMTok: 3, outputPerMTok: 15, cacheWritePerMTok: 3.75, cacheReadPerMTok: 0.3 },
+  { model: 'claude-3-5-sonnet', inputPerMTok: 3, outputPerMTok: 15, cacheWritePerMTok: 3.75, cacheReadPerMTok: 0.3 },
+  { model: 'claude-haiku-4', inputPerMTok: 1, outputPerMTok: 5, cacheWritePerMTok: 1.25, cacheReadPerMTok: 0.1 },
+  { model: 'claude-3-5-haiku', inputPerMTok: 0.8, outputPerMTok: 4, cacheWritePerMTok: 1, cacheReadPerMTok: 0.08 },
+  { model: 'openai:gpt-4o', inputPerMTok: 2.5, outputPerMTok: 10, cacheWritePerMTok: 2.5, cacheReadPerMTok: 1.25 },
+  {
+    model: 'openai:gpt-4o-mini',
+    inputPerMTok: 0.15,
+    outputPerMTok: 0.6,
+    cacheWritePerMTok: 0.15,
+    cacheReadPerMTok: 0.075,
+  },
+  { model: 'ollama:', inputPerMTok: 0, outputPerMTok: 0, cacheWritePerMTok: 0, cacheReadPerMTok: 0 },
+];
+
+// Models without a price entry, warned about once per process
+const unpricedModels = new Set<string>();
+
+/**
+ * Initialize the price table, seed default prices and add the cost column
+ * to api_calls. Safe to call multiple times.
+ */
+export function initPricingSchema(): void {
+  const db = getDb();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS model_prices (
+      model TEXT PRIMARY KEY,
+      input_per_mtok REAL NOT NULL DEFAULT 0,
+      output_per_mtok REAL NOT NULL DEFAULT 0,
+      cache_write_per_mtok REAL NOT NULL DEFAULT 0,
+      cache_read_per_mtok REAL NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+
+  const count = (db.prepare('SELECT COUNT(*) as n FROM model_prices').get() as { n: number }).n;
+  if (count === 0) {
+    for (const price of DEFAULT_PRICES) setModelPrice(price);
+    console.log(`[pricing] Seeded ${DEFAULT_PRICES.length} default model prices`);
+  }
+
+  const columns = db.pragma('table_info(api_calls)') as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === 'cost')) {
+    db.exec(`ALTER TABLE api_calls ADD COLUMN cost REAL NOT NULL DEFAULT 0`);
+    const backfilled = backfillCosts();
+    console.log(`[pricing] Added cost column to api_calls (backfilled ${backfilled} calls)`);
+  }
+  if (!columns.some((c) => c.name === 'cache_savings')) {
+    db.exec(`ALTER TABLE api_calls ADD COLUMN cache_savings REAL NOT NULL DEFAULT 0`);
+    console.log('[pricing] Added cache_savings column to api_calls');
+  }
+
+  console.log(`[pricing] Pricing schema initialized (currency: ${config.costCurrency})`);
+}
+
+/**
+ * Price the calls logged before costs were stored (token counts only).
+ */
+function backfillCosts(): number {
+  const db = getDb();
+  const rows = db.prepare('SELECT id, model, input_tokens, output_tokens FROM api_calls').all() as Array<{
+    id: number;
+    model: string;
+    input_tokens: number;
+    output_tokens: number;
+  }>;
+  const update = db.prepare('UPDATE api_calls SET cost = ? WHERE id = ?');
+  db.transaction(() => {
+    for (const row of rows) {
+      update.run(computeCost(row.model, { inputTokens: row.input_tokens, outputTokens: row.output_tokens }), row.id);
+    }
+  })();
+  return rows.length;
+}
+
+function rowToPrice(row: ModelPriceRow): ModelPrice {
+  return {
+    model: row.model,
+    inputPerMTok: row.input_per_mtok,
+    outputPerMTok: row.output_per_mtok,
+    cacheWritePerMTok: row.cache_write_per_mtok,
+    cacheReadPerMTok: row.cache_read_per_mtok,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getModelPrices(): ModelPrice[] {
+  return (getDb().prepare('SELECT * FROM model_prices ORDER BY model ASC').all() as ModelPriceRow[]).map(rowToPrice);
+}
+
+/**
+ * Create or replace a price entry. Prices must be non-negative numbers.
+ */
+export function setModelPrice(price: {
+  model: string;
+  inputPerMTok: number;
+  outputPerMTok: number;
+  cacheWritePerMTok?: number;
+  cacheReadPerMTok?: number;
+}): ModelPrice {
+  if (!price.model) throw new Error('model is required');
+  const values = [price.inputPerMTok, price.outputPerMTok, price.cacheWritePerMTok ?? 0, price.cacheReadPerMTok ?? 0];
+  if (values.some((v) => typeof v !== 'number' || !Number.isFinite(v) || v < 0)) {
+    throw new Error('Prices must be non-negative numbers (per million tokens)');
+  }
+
+  getDb()
+    .prepare(
+      `INSERT INTO model_prices (model, input_per_mtok, output_per_mtok, cache_write_per_mtok, cache_read_per_mtok, updated_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(model) DO UPDATE SET
+         input_per_mtok = excluded.input_per_mtok,
+         output_per_mtok = excluded.output_per_mtok,
+         cache_write_per_mtok = excluded.cache_write_per_mtok,
+         cache_read_per_mtok = excluded.cache_read_per_mtok,
+         updated_at = datetime('now')`,
+    )
+    .run(price.model, ...values);
+  unpricedModels.clear();
+
+  return rowToPrice(getDb().prepare('SELECT * FROM model_prices WHERE model = ?').get(price.model) as ModelPriceRow);
+}
+
+export function deleteModelPrice(model: string): boolean {
+  return getDb().prepare('DELETE FROM model_prices WHERE model = ?').run(model).changes > 0;
+}
+
+/**
+ * Find the price entry for a model reference (exact match or longest prefix).
+ * Plain Anthropic models also match entries written as "anthropic:<model>".
+ */
+export function findModelPrice(modelRef: string): ModelPrice | undefined {
+  const candidates = modelRef.startsWith('anthropic:')
+    ? [modelRef, modelRef.slice(10)]
+    : [modelRef, `anthropic:${modelRef}`];
+  let best: ModelPrice | undefined;
+  for (const price of getModelPrices()) {
+    if (!candidates.some((c) => c.startsWith(price.model))) continue;
+    if (!best || price.model.length > best.model.length) best = price;
+  }
+  return best;
+}
+
+/**
+ * Cost of a call in the configured currency. Unknown models cost 0 (and are
+ * logged once) so that usage is still recorded.
+ */
+export function computeCost(modelRef: string, usage: TokenUsage): number {
+  const price = findModelPrice(modelRef);
+  if (!price) {
+    if (!unpricedModels.has(modelRef)) {
+      unpricedModels.add(modelRef);
+      console.warn(`[pricing] No price for model ${modelRef}, cost recorded as 0 (add one via PUT /api/prices)`);
+    }
+    return 0;
+  }
+
+  const cost =
+    usage.inputTokens * price.inputPerMTok +
+    usage.outputTokens * price.outputPerMTok +
+    (usage.cacheCreationTokens || 0) * price.cacheWritePerMTok +
+    (usage.cacheReadTokens || 0) * price.cacheReadPerMTok;
+  return cost / 1_000_000;
+}
+
+/**
+ * Cost saved by prompt caching compared to sending all input uncached:
+ * cache reads are cheaper than input, cache writes cost extra.
+ */
+export function computeCacheSavings(modelRef: string, usage: TokenUsage): number {
+  const price = findModelPrice(modelRef);
+  if (!price) return 0;
+
+  const savings =
+    (usage.cacheReadTokens || 0) * (price.inputPerMTok - price.cacheReadPerMTok) -
+    (usage.cacheCreationTokens || 0) * (price.cacheWritePerMTok - price.inputPerMTok);
+  return savings / 1_000_000;
+}
+
+/**
+ * Spend and prompt cache savings per agent group, channel and model.
+ * `days` limits the window (0 = all time).
+ */
+export function getSpendBreakdown(days = 0): {
+  currency: string;
+  byGroup: SpendRow[];
+  byChannel: SpendRow[];
+  byModel: SpendRow[];
+} {
+  const db = getDb();
+  const where = days > 0 ? `WHERE a.created_at >= datetime('now', '-${Math.floor(days)} days')` : '';
+  const totals = `
+      COUNT(*) as calls,
+      COALESCE(SUM(a.input_tokens), 0) as inputTokens,
+      COALESCE(SUM(a.output_tokens), 0) as outputTokens,
+      COALESCE(SUM(a.cache_creation_input_tokens), 0) as cacheCreationTokens,
+      COALESCE(SUM(a.cache_read_input_tokens), 0) as cacheReadTokens,
+      COALESCE(SUM(a.cost), 0) as cost,
+      COALESCE(SUM(a.cache_savings), 0) as cacheSavings`;
+
+  const byGroup = db
+    .prepare(
+      `SELECT a.agent_group_id as key, g.name as name, ${totals}
+       FROM api_calls a
+       LEFT JOIN agent_groups g ON g.id = a.agent_group_id
+       ${where}
+       GROUP BY a.agent_group_id
+       ORDER BY cost DESC`,
+    )
+    .all() as SpendRow[];
+
+  const byChannel = db
+    .prepare(
+      `SELECT c.channel_id as key, ch.name as name, ${totals}
+       FROM api_calls a
+       LEFT JOIN conversations c ON c.id = a.conversation_id
+       LEFT JOIN channels ch ON ch.id = c.channel_id
+       ${where}
+       GROUP BY c.channel_id
+       ORDER BY cost DESC`,
+    )
+    .all() as SpendRow[];
+
+  const byModel = db
+    .prepare(
+      `SELECT a.model as key, a.model as name, ${totals}
+       FROM api_calls a
+       ${where}
+       GROUP BY a.model
+       ORDER BY cost DESC`,
+    )
+    .all() as SpendRow[];
+
+  return { currency: config.costCurrency, byGroup, byChannel, byModel };
+}
@@ -0,0 +1,117 @@
+/**
+ * Anthropic Provider - Messages API via @anthropic-ai/sdk.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ChatOptions,
+  ChatRequest,
+  ChatResponse,
+  ChatStopReason,
+  LLMProvider,
+  ProviderError,
+  parseRetryAfter,
+} from './types';
+
+const STOP_REASONS: ChatStopReason[] = ['end_turn', 'tool_use', 'max_tokens', 'stop_sequence'];
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly api = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    // Retries are handled by the gateway's retry policy (providers/fallback.ts)
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+
+  async chat(request: ChatRequest, options: ChatOptions = {}): Promise<ChatResponse> {
+    const params: Anthropic.MessageCreateParamsNonStreaming = request.cache
+      ? withCacheBreakpoints(request)
+      : {
+          model: request.model,
+          max_tokens: request.maxTokens,
+          system: request.system + (request.systemVolatile ?? ''),
+          messages: request.messages,
+          ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+        };
+
+    let message: Anthropic.Message;
+    try {
+      if (options.onText) {
+        const stream = this.client.messages.stream(params, { signal: options.signal });
+        stream.on('text', options.onText);
+        message = await stream.finalMessage();
+      } else {
+        message = await this.client.messages.create(params, { signal: options.signal });
+      }
+    } catch (err) {
+      if (err instanceof Anthropic.APIError && !(err instanceof Anthropic.APIUserAbortError)) {
+        const retryAfter = err.headers ? parseRetryAfter(err.headers['retry-after']) : undefined;
+        throw new ProviderError(err.message, this.name, err.status, retryAfter, { cause: err });
+      }
+      throw err;
+    }
+
+    const content: ChatResponse['content'] = [];
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        content.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use') {
+        content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
+      }
+    }
+
+    const stopReason = message.stop_reason;
+    return {
+      content,
+      stopReason: stopReason && STOP_REASONS.includes(stopReason) ? stopReason : stopReason ? 'end_turn' : null,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+        cacheCreationTokens: message.usage.cache_creation_input_tokens ?? 0,
+        cacheReadTokens: message.usage.cache_read_input_tokens ?? 0,
+      },
+    };
+  }
+}
+
+const EPHEMERAL: Anthropic.CacheControlEphemeral = { type: 'ephemeral' };
+
+/**
+ * Build request params with prompt cache breakpoints. The cached prefix is
+ * tools -> system prompt -> history, so there are up to three breakpoints:
+ * - the last tool (tool definitions rarely change)
+ * - the stable system prompt (the volatile part follows uncached)
+ * - the last message, so the next iteration of the tool loop (and the next
+ *   message of the conversation) reads the history so far from the cache
+ * The request's messages are not modified.
+ */
+function withCacheBreakpoints(request: ChatRequest): Anthropic.MessageCreateParamsNonStreaming {
+  const tools = request.tools?.map((tool, i, all) =>
+    i === all.length - 1 ? { ...tool, cache_control: EPHEMERAL } : tool,
+  );
+
+  const system: Anthropic.TextBlockParam[] = [{ type: 'text', text: request.system, cache_control: EPHEMERAL }];
+  if (request.systemVolatile) system.push({ type: 'text', text: request.systemVolatile });
+
+  const messages = [...request.messages];
+  const last = messages[messages.length - 1];
+  if (last) {
+    const blocks: Anthropic.ContentBlockParam[] =
+      typeof last.content === 'string' ? [{ type: 'text', text: last.content }] : [...last.content];
+    const lastBlock = blocks[blocks.length - 1];
+    if (lastBlock && lastBlock.type !== 'thinking' && lastBlock.type !== 'redacted_thinking') {
+      blocks[blocks.length - 1] = { ...lastBlock, cache_control: EPHEMERAL };
+    }
+    messages[messages.length - 1] = { ...last, content: blocks };
+  }
+
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    system,
+    messages,
+    ...(tools && tools.length > 0 ? { tools } : {}),
+  };
+}
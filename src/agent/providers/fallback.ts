@@ -0,0 +1,148 @@
+/**
+ * Model Fallback Chain - Retry with backoff, then fall back to the next model.
+ *
+ * Transient failures (rate limits, overload, 5xx, connection errors) are
+ * retried on the same model with exponential backoff (honoring Retry-After).
+ * When the retries are exhausted, the next model of the chain is tried.
+ * Other errors (bad request, authentication) are thrown immediately.
+ */
+
+import { config } from '../../config';
+import { parseModelRef, resolveModel } from './registry';
+import { ChatOptions, ChatRequest, ChatResponse, ProviderError } from './types';
+
+export interface RetryPolicy {
+  /** Retries per model after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry, doubled on every further retry */
+  initialDelayMs: number;
+  /** Upper bound for a single delay (also caps Retry-After) */
+  maxDelayMs: number;
+}
+
+export interface ModelChain {
+  /** Model references in order of preference (primary first) */
+  models: string[];
+  /** API key for models of the primary model's provider (empty = global key) */
+  apiKey?: string;
+  retry: RetryPolicy;
+}
+
+export interface ChainResponse extends ChatResponse {
+  /** Model reference that served the call */
+  modelRef: string;
+  /** Failed attempts before the call succeeded (across all models) */
+  retries: number;
+}
+
+/**
+ * Resolve the retry policy from group overrides and global defaults.
+ */
+export function resolveRetryPolicy(overrides?: {
+  retryMaxRetries?: number | null;
+  retryInitialDelayMs?: number;
+}): RetryPolicy {
+  return {
+    maxRetries: overrides?.retryMaxRetries ?? config.agentRetry.maxRetries,
+    initialDelayMs: overrides?.retryInitialDelayMs || config.agentRetry.initialDelayMs,
+    maxDelayMs: config.agentRetry.maxDelayMs,
+  };
+}
+
+/**
+ * Resolve the fallback models from a group override or the global default.
+ */
+export function resolveFallbackModels(overrides?: { fallbackModels?: string[] }): string[] {
+  return overrides?.fallbackModels && overrides.fallbackModels.length > 0
+    ? overrides.fallbackModels
+    : config.agentFallbackModels;
+}
+
+// 408 timeout, 409 conflict, 429 rate limit, 5xx server errors, 529 overloaded
+const RETRYABLE_STATUS = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Whether an error is transient and worth retrying or falling back on.
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (!(err instanceof ProviderError)) return false;
+  return err.status === undefined || RETRYABLE_STATUS.has(err.status);
+}
+
+/**
+ * Delay before retry number `retry` (0-based), with +-20% jitter.
+ */
+export function retryDelay(policy: RetryPolicy, retry: number, err?: unknown): number {
+  if (err instanceof ProviderError && err.retryAfterMs !== undefined) {
+    return Math.min(err.retryAfterMs, policy.maxDelayMs);
+  }
+  const base = Math.min(policy.initialDelayMs * 2 ** retry, policy.maxDelayMs);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a chat request through the model chain.
+ * A streamed attempt that already emitted text is not retried, since the
+ * deltas cannot be taken back; its error is thrown as-is.
+ */
+export async function chatWithFallback(
+  chain: ModelChain,
+  request: Omit<ChatRequest, 'model'>,
+  options: ChatOptions = {},
+): Promise<ChainResponse> {
+  const primaryProvider = parseModelRef(chain.models[0]!).provider;
+  let failures = 0;
+  let lastError: unknown;
+
+  for (const modelRef of chain.models) {
+    const { provider: providerName } = parseModelRef(modelRef);
+    // The group's key belongs to the primary provider; others use their global key
+    const apiKey = providerName === primaryProvider ? chain.apiKey : undefined;
+    const { provider, model } = resolveModel(modelRef, apiKey);
+
+    for (let attempt = 0; attempt <= chain.retry.maxRetries; attempt++) {
+      let streamed = false;
+      const onText = options.onText
+        ? (delta: string) => {
+            streamed = true;
+            options.onText!(delta);
+          }
+        : undefined;
+
+      try {
+        const response = await provider.chat({ ...request, model }, { signal: options.signal, onText });
+        return { ...response, modelRef, retries: failures };
+      } catch (err) {
+        if (options.signal?.aborted || streamed || !isRetryableError(err)) throw err;
+        lastError = err;
+        failures++;
+
+        const message = err instanceof Error ? err.message : String(err);
+        if (attempt < chain.retry.maxRetries) {
+          const delay = retryDelay(chain.retry, attempt, err);
+          console.warn(`[providers] ${modelRef} failed (${message}), retry ${attempt + 1} in ${delay}ms`);
+          await sleep(delay, options.signal);
+        } else {
+          console.warn(`[providers] ${modelRef} failed (${message}), giving up on this model`);
+        }
+      }
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,26 @@
+/**
+ * LLM Providers - Model backends behind a common chat interface.
+ *
+ * - registry.ts: "provider:model" parsing and provider instances
+ * - anthropic.ts / openai.ts: backend implementations
+ * - fallback.ts: retry with backoff and model fallback chains
+ */
+
+export { parseModelRef, getProvider, getProviderConnection, resolveModel } from './registry';
+export type { ModelRef } from './registry';
+export { chatWithFallback, isRetryableError, retryDelay, resolveRetryPolicy, resolveFallbackModels } from './fallback';
+export type { RetryPolicy, ModelChain, ChainResponse } from './fallback';
+export { AnthropicProvider } from './anthropic';
+export { OpenAICompatibleProvider } from './openai';
+export { ProviderError, PROVIDER_NAMES } from './types';
+export type {
+  LLMProvider,
+  ProviderName,
+  ProviderApi,
+  ProviderConnection,
+  ChatRequest,
+  ChatResponse,
+  ChatUsage,
+  ChatOptions,
+  ChatStopReason,
+} from './types';
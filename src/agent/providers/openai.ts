@@ -0,0 +1,297 @@
+/**
+ * OpenAI-compatible Provider - Chat Completions API over fetch.
+ *
+ * Works with OpenAI and any server exposing /v1/chat/completions
+ * (Ollama, vLLM, LM Studio, llama.cpp server, ...). Requests and responses
+ * are translated from/to the Anthropic Messages format used internally:
+ * - tool_use blocks <-> assistant tool_calls
+ * - tool_result blocks <-> role "tool" messages
+ */
+
+import { randomUUID } from 'crypto';
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  ChatOptions,
+  ChatRequest,
+  ChatResponse,
+  ChatStopReason,
+  LLMProvider,
+  ProviderError,
+  ProviderName,
+  parseRetryAfter,
+} from './types';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAICompletion {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  /** Automatic prompt caching (OpenAI): cached part of prompt_tokens */
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface OpenAIChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly api = 'openai' as const;
+
+  constructor(
+    readonly name: ProviderName,
+    readonly baseUrl: string,
+    private readonly apiKey: string,
+  ) {}
+
+  async chat(request: ChatRequest, options: ChatOptions = {}): Promise<ChatResponse> {
+    const stream = !!options.onText;
+    const body = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: toOpenAIMessages(request.system + (request.systemVolatile ?? ''), request.messages),
+      ...(request.tools && request.tools.length > 0
+        ? {
+            tools: request.tools.map((t) => ({
+              type: 'function',
+              function: { name: t.name, description: t.description, parameters: t.input_schema },
+            })),
+          }
+        : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: options.signal,
+      });
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new ProviderError(`${this.name} request failed: ${msg}`, this.name, undefined, undefined, { cause: err });
+    }
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new ProviderError(
+        `${this.name} API error ${res.status}: ${text.slice(0, 500)}`,
+        this.name,
+        res.status,
+        parseRetryAfter(res.headers.get('retry-after')),
+      );
+    }
+
+    if (stream && res.body) {
+      return this.readStream(res.body, options.onText!);
+    }
+
+    const completion = (await res.json()) as OpenAICompletion;
+    const choice = completion.choices?.[0];
+    if (!choice) {
+      throw new ProviderError(`${this.name} API returned no choices`, this.name);
+    }
+
+    return buildResponse(
+      choice.message?.content || '',
+      choice.message?.tool_calls || [],
+      choice.finish_reason ?? null,
+      completion.usage,
+    );
+  }
+
+  /**
+   * Read a server-sent event stream of chat completion chunks, forwarding
+   * text deltas and accumulating tool call fragments by index.
+   */
+  private async readStream(body: ReadableStream<Uint8Array>, onText: (delta: string) => void): Promise<ChatResponse> {
+    const decoder = new TextDecoder();
+    const toolCalls: OpenAIToolCall[] = [];
+    let text = '';
+    let finishReason: string | null = null;
+    let usage: OpenAICompletion['usage'];
+    let buffer = '';
+
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') continue;
+
+        let parsed: OpenAIChunk;
+        try {
+          parsed = JSON.parse(payload) as OpenAIChunk;
+        } catch {
+          continue;
+        }
+
+        if (parsed.usage) usage = parsed.usage;
+        const choice = parsed.choices?.[0];
+        if (!choice) continue;
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+
+        const delta = choice.delta;
+        if (delta?.content) {
+          text += delta.content;
+          onText(delta.content);
+        }
+        for (const fragment of delta?.tool_calls || []) {
+          const call = (toolCalls[fragment.index] ??= {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' },
+          });
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+      }
+    }
+
+    return buildResponse(
+      text,
+      toolCalls.filter((c) => c !== undefined),
+      finishReason,
+      usage,
+    );
+  }
+}
+
+function buildResponse(
+  text: string,
+  toolCalls: OpenAIToolCall[],
+  finishReason: string | null,
+  usage: OpenAIUsage | undefined,
+): ChatResponse {
+  const content: ChatResponse['content'] = [];
+  if (text) content.push({ type: 'text', text });
+
+  for (const call of toolCalls) {
+    let input: unknown = {};
+    if (call.function.arguments) {
+      try {
+        input = JSON.parse(call.function.arguments);
+      } catch {
+        console.warn(`[providers] Could not parse arguments of tool call ${call.function.name}`);
+      }
+    }
+    content.push({
+      type: 'tool_use',
+      id: call.id || `call_${randomUUID()}`,
+      name: call.function.name,
+      input,
+    });
+  }
+
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    content,
+    stopReason: mapFinishReason(finishReason, toolCalls.length > 0),
+    usage: {
+      inputTokens: (usage?.prompt_tokens ?? 0) - cachedTokens,
+      outputTokens: usage?.completion_tokens ?? 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: cachedTokens,
+    },
+  };
+}
+
+function mapFinishReason(reason: string | null, hasToolCalls: boolean): ChatStopReason | null {
+  // Some servers (e.g. Ollama) report "stop" even when tool calls were made
+  if (hasToolCalls) return 'tool_use';
+  switch (reason) {
+    case 'length':
+      return 'max_tokens';
+    case null:
+      return null;
+    default:
+      return 'end_turn';
+  }
+}
+
+function toolResultText(block: Anthropic.ToolResultBlockParam): string {
+  const text =
+    typeof block.content === 'string'
+      ? block.content
+      : (block.content || []).map((c) => (c.type === 'text' ? c.text : `(${c.type})`)).join('\n');
+  return block.is_error ? `Error: ${text}` : text;
+}
+
+/**
+ * Translate Anthropic-format messages to chat completion messages.
+ */
+function toOpenAIMessages(system: string, messages: Anthropic.MessageParam[]): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [{ role: 'system', content: system }];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      out.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const text = message.content
+      .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+      .map((b) => b.text)
+      .join('\n');
+
+    if (message.role === 'assistant') {
+      const toolCalls: OpenAIToolCall[] = message.content
+        .filter((b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use')
+        .map((b) => ({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      out.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // Tool results answer the preceding assistant tool_calls and must come first
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        out.push({ role: 'tool', tool_call_id: block.tool_use_id, content: toolResultText(block) });
+      }
+    }
+    if (text) out.push({ role: 'user', content: text });
+  }
+
+  return out;
+}
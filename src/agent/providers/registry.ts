@@ -0,0 +1,89 @@
+/**
+ * Provider Registry - Resolve "provider:model" references to a backend.
+ *
+ * Model references:
+ *   claude-sonnet-4-20250514           -> anthropic (no prefix = Anthropic)
+ *   anthropic:claude-sonnet-4-20250514 -> anthropic
+ *   openai:gpt-4o                      -> OpenAI (or any OPENAI_BASE_URL server)
+ *   ollama:llama3.1:8b                 -> local Ollama (OpenAI-compatible API)
+ *
+ * An empty API key means "use the provider's global key from config".
+ */
+
+import { config } from '../../config';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai';
+import { LLMProvider, PROVIDER_NAMES, ProviderConnection, ProviderName } from './types';
+
+export interface ModelRef {
+  provider: ProviderName;
+  model: string;
+}
+
+// Cache of provider instances keyed by provider + API key
+const providerCache = new Map<string, LLMProvider>();
+
+/**
+ * Split a model reference into provider and model name.
+ * Throws for an unknown provider prefix or a missing model name.
+ */
+export function parseModelRef(ref: string): ModelRef {
+  const separator = ref.indexOf(':');
+  if (separator === -1) {
+    return { provider: 'anthropic', model: ref };
+  }
+
+  const provider = ref.slice(0, separator) as ProviderName;
+  const model = ref.slice(separator + 1);
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown LLM provider "${provider}" (expected one of: ${PROVIDER_NAMES.join(', ')})`);
+  }
+  if (!model) {
+    throw new Error(`Missing model name in "${ref}"`);
+  }
+  return { provider, model };
+}
+
+/**
+ * Connection settings for a provider, falling back to the global config.
+ */
+export function getProviderConnection(provider: ProviderName, apiKey?: string): ProviderConnection {
+  switch (provider) {
+    case 'anthropic':
+      return { api: 'anthropic', apiKey: apiKey || config.anthropicApiKey };
+    case 'openai':
+      return {
+        api: 'openai',
+        apiKey: apiKey || config.providers.openai.apiKey,
+        baseUrl: config.providers.openai.baseUrl,
+      };
+    case 'ollama':
+      return {
+        api: 'openai',
+        apiKey: apiKey || config.providers.ollama.apiKey,
+        baseUrl: config.providers.ollama.baseUrl,
+      };
+  }
+}
+
+export function getProvider(name: ProviderName, apiKey?: string): LLMProvider {
+  const connection = getProviderConnection(name, apiKey);
+  const cacheKey = `${name}:${connection.apiKey}`;
+  let provider = providerCache.get(cacheKey);
+  if (!provider) {
+    provider =
+      connection.api === 'anthropic'
+        ? new AnthropicProvider(connection.apiKey)
+        : new OpenAICompatibleProvider(name, connection.baseUrl!, connection.apiKey);
+    providerCache.set(cacheKey, provider);
+  }
+  return provider;
+}
+
+/**
+ * Resolve a model reference to its provider instance and bare model name.
+ */
+export function resolveModel(ref: string, apiKey?: string): { provider: LLMProvider; model: string } {
+  const { provider, model } = parseModelRef(ref);
+  return { provider: getProvider(provider, apiKey), model };
+}
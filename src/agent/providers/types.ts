@@ -0,0 +1,96 @@
+/**
+ * LLM Provider Types - Common interface for model backends.
+ *
+ * The Anthropic Messages format (content blocks, tool_use / tool_result)
+ * is the canonical format inside the gateway. Providers with a different
+ * wire format translate requests and responses at their boundary, so the
+ * agent loop, context manager and tool registry stay provider-agnostic.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+export type ProviderName = 'anthropic' | 'openai' | 'ollama';
+
+export const PROVIDER_NAMES: ProviderName[] = ['anthropic', 'openai', 'ollama'];
+
+/** Wire protocol spoken by a provider (also selects the container runner path) */
+export type ProviderApi = 'anthropic' | 'openai';
+
+export interface ChatRequest {
+  model: string;
+  maxTokens: number;
+  system: string;
+  /** System text that changes between calls (e.g. the current time), sent after the cached prefix */
+  systemVolatile?: string;
+  messages: Anthropic.MessageParam[];
+  tools?: Anthropic.Tool[];
+  /** Mark tools, system prompt and message history for prompt caching (Anthropic) */
+  cache?: boolean;
+}
+
+export interface ChatUsage {
+  /** Uncached input tokens */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens written to the prompt cache */
+  cacheCreationTokens: number;
+  /** Input tokens read from the prompt cache */
+  cacheReadTokens: number;
+}
+
+export type ChatStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence';
+
+export interface ChatResponse {
+  /** Text and tool_use blocks, ready to be appended as an assistant turn */
+  content: Array<Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam>;
+  stopReason: ChatStopReason | null;
+  usage: ChatUsage;
+}
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  /** When set, the provider streams and forwards text deltas as they arrive */
+  onText?: (delta: string) => void;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly api: ProviderApi;
+  chat(request: ChatRequest, options?: ChatOptions): Promise<ChatResponse>;
+}
+
+/** Connection settings for a provider (used by the container runner) */
+export interface ProviderConnection {
+  api: ProviderApi;
+  apiKey: string;
+  baseUrl?: string;
+}
+
+/**
+ * Thrown for failed provider requests (HTTP errors, connection failures,
+ * malformed responses). status is undefined for connection failures.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderName,
+    public readonly status?: number,
+    /** Server-requested delay before retrying (Retry-After header) */
+    public readonly retryAfterMs?: number,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,267 @@
+/**
+ * Run Trace - Persistent record of what happened during an agent run.
+ *
+ * Tables:
+ *   - model_turns: One row per model response inside a run (direct mode)
+ *   - tool_calls: One row per tool call, including rejected ones
+ *
+ * Together with the HITL approval requests they form the run timeline
+ * served by GET /api/runs/:id. Tool input is stored with secret fields
+ * (tokens, passwords, auth headers) redacted, since the timeline is
+ * readable by every role with read access.
+ */
+
+import { getDb, getAgentRun, AgentRunRow } from '../db/sqlite';
+import { redactSecrets } from '../gateway/audit';
+import { getApprovalsByRun, ApprovalRequest } from './hitl';
+
+// Tool output can be large (web pages, script output); only the head is kept
+const MAX_TRACE_OUTPUT_CHARS = 4000;
+const MAX_TRACE_TEXT_CHARS = 2000;
+
+export interface ModelTurnRecord {
+  id: number;
+  runId: number;
+  iteration: number;
+  /** Model that served the turn (a fallback model if the primary failed) */
+  model: string;
+  /** Failed attempts before this turn succeeded */
+  retries: number;
+  stopReason: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+  /** Text the model produced in this turn (truncated) */
+  text: string;
+  /** Names of the tools the model asked for in this turn */
+  toolUses: string[];
+  startedAt: string;
+}
+
+export interface ToolCallRecord {
+  id: number;
+  runId: number;
+  iteration: number;
+  toolName: string;
+  /** Tool input with secret fields redacted */
+  input: unknown;
+  /** Tool result (truncated to MAX_TRACE_OUTPUT_CHARS) */
+  output: string;
+  outputLength: number;
+  isError: boolean;
+  durationMs: number;
+  approvalId: string | null;
+  startedAt: string;
+}
+
+interface ModelTurnRow {
+  id: number;
+  run_id: number;
+  iteration: number;
+  model: string;
+  retries: number | null;
+  stop_reason: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  duration_ms: number;
+  text: string;
+  tool_uses: string;
+  started_at: string;
+}
+
+interface ToolCallRow {
+  id: number;
+  run_id: number;
+  iteration: number;
+  tool_name: string;
+  input: string;
+  output: string;
+  output_length: number;
+  is_error: number;
+  duration_ms: number;
+  approval_id: string | null;
+  started_at: string;
+}
+
+export type RunTimelineEvent =
+  | ({ type: 'model_turn'; at: string } & ModelTurnRecord)
+  | ({ type: 'tool_call'; at: string } & ToolCallRecord)
+  | ({ type: 'approval'; at: string } & ApprovalRequest);
+
+export interface RunTimeline {
+  run: AgentRunRow;
+  timeline: RunTimelineEvent[];
+}
+
+/**
+ * Initialize the trace schema. Safe to call multiple times.
+ */
+export function initRunTraceSchema(): void {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS model_turns (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      iteration INTEGER NOT NULL DEFAULT 0,
+      model TEXT NOT NULL,
+      retries INTEGER NOT NULL DEFAULT 0,
+      stop_reason TEXT,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      text TEXT NOT NULL DEFAULT '',
+      tool_uses TEXT NOT NULL DEFAULT '[]',
+      started_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES agent_runs(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_model_turns_run ON model_turns(run_id);
+
+    CREATE TABLE IF NOT EXISTS tool_calls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      iteration INTEGER NOT NULL DEFAULT 0,
+      tool_name TEXT NOT NULL,
+      input TEXT NOT NULL DEFAULT '{}',
+      output TEXT NOT NULL DEFAULT '',
+      output_length INTEGER NOT NULL DEFAULT 0,
+      is_error INTEGER NOT NULL DEFAULT 0,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      approval_id TEXT,
+      started_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES agent_runs(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_tool_calls_run ON tool_calls(run_id);
+    CREATE INDEX IF NOT EXISTS idx_tool_calls_tool ON tool_calls(tool_name);
+  `);
+
+  const turnColumns = getDb().pragma('table_info(model_turns)') as Array<{ name: string }>;
+  if (!turnColumns.some((c) => c.name === 'retries')) {
+    getDb().exec(`ALTER TABLE model_turns ADD COLUMN retries INTEGER NOT NULL DEFAULT 0`);
+  }
+
+  console.log('[trace] Run trace schema initialized');
+}
+
+export function recordModelTurn(turn: {
+  runId: number;
+  iteration: number;
+  model: string;
+  retries?: number;
+  stopReason: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+  text: string;
+  toolUses: string[];
+  startedAt: Date;
+}): void {
+  getDb()
+    .prepare(
+      `INSERT INTO model_turns (run_id, iteration, model, retries, stop_reason, input_tokens, output_tokens, duration_ms, text, tool_uses, started_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      turn.runId,
+      turn.iteration,
+      turn.model,
+      turn.retries || 0,
+      turn.stopReason,
+      turn.inputTokens,
+      turn.outputTokens,
+      turn.durationMs,
+      turn.text.slice(0, MAX_TRACE_TEXT_CHARS),
+      JSON.stringify(turn.toolUses),
+      turn.startedAt.toISOString(),
+    );
+}
+
+export function recordToolCall(call: {
+  runId: number;
+  iteration: number;
+  toolName: string;
+  input: unknown;
+  output: string;
+  isError: boolean;
+  durationMs: number;
+  approvalId?: string;
+  startedAt: Date;
+}): void {
+  getDb()
+    .prepare(
+      `INSERT INTO tool_calls (run_id, iteration, tool_name, input, output, output_length, is_error, duration_ms, approval_id, started_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      call.runId,
+      call.iteration,
+      call.toolName,
+      JSON.stringify(redactSecrets(call.input ?? {})),
+      call.output.slice(0, MAX_TRACE_OUTPUT_CHARS),
+      call.output.length,
+      call.isError ? 1 : 0,
+      call.durationMs,
+      call.approvalId || null,
+      call.startedAt.toISOString(),
+    );
+}
+
+export function getModelTurnsByRun(runId: number): ModelTurnRecord[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM model_turns WHERE run_id = ? ORDER BY id ASC')
+    .all(runId) as ModelTurnRow[];
+  return rows.map((row) => ({
+    id: row.id,
+    runId: row.run_id,
+    iteration: row.iteration,
+    model: row.model,
+    retries: row.retries || 0,
+    stopReason: row.stop_reason,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    durationMs: row.duration_ms,
+    text: row.text,
+    toolUses: JSON.parse(row.tool_uses),
+    startedAt: row.started_at,
+  }));
+}
+
+export function getToolCallsByRun(runId: number): ToolCallRecord[] {
+  const rows = getDb().prepare('SELECT * FROM tool_calls WHERE run_id = ? ORDER BY id ASC').all(runId) as ToolCallRow[];
+  return rows.map((row) => ({
+    id: row.id,
+    runId: row.run_id,
+    iteration: row.iteration,
+    toolName: row.tool_name,
+    // Also covers rows recorded before inputs were redacted
+    input: redactSecrets(JSON.parse(row.input)),
+    output: row.output,
+    outputLength: row.output_length,
+    isError: row.is_error === 1,
+    durationMs: row.duration_ms,
+    approvalId: row.approval_id,
+    startedAt: row.started_at,
+  }));
+}
+
+// On equal timestamps, a turn precedes the tool calls it requested, and a
+// tool call precedes the approval it waited for
+const EVENT_ORDER: Record<RunTimelineEvent['type'], number> = { model_turn: 0, tool_call: 1, approval: 2 };
+
+/**
+ * Full timeline of a run: model turns, tool calls and approvals in order.
+ * Returns undefined if the run does not exist.
+ */
+export function getRunTimeline(runId: number): RunTimeline | undefined {
+  const run = getAgentRun(runId);
+  if (!run) return undefined;
+
+  const timeline: RunTimelineEvent[] = [
+    ...getModelTurnsByRun(runId).map((t) => ({ type: 'model_turn' as const, at: t.startedAt, ...t })),
+    ...getToolCallsByRun(runId).map((c) => ({ type: 'tool_call' as const, at: c.startedAt, ...c })),
+    ...getApprovalsByRun(runId).map((a) => ({ type: 'approval' as const, at: a.requestedAt, ...a })),
+  ];
+  timeline.sort((a, b) => a.at.localeCompare(b.at) || EVENT_ORDER[a.type] - EVENT_ORDER[b.type]);
+
+  return { run, timeline };
+}
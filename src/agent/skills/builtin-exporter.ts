@@ -4,12 +4,14 @@
  * This writes skill.json files for web_browse, run_script, http_request into
  * /data/skills/ so they show up in the skill listing and can be toggled.
  * The actual execution still uses the native TypeScript tools (handler.js is a stub).
+ * A manifest is rewritten when the gateway ships a newer version of it.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { config } from '../../config';
 import { SkillManifest } from './schema';
+import { compareVersions } from './package';
 
 const SKILLS_DIR = path.join(config.dataDir, 'skills');
 
@@ -154,7 +156,7 @@ const BUILTIN_SKILLS: SkillManifest[] = [
     name: 'capcut_api',
     description:
       'Create and edit CapCut/JianYing video drafts programmatically via a local CapCutAPI server. Supports creating drafts, adding video/audio/image tracks, styled text, SRT subtitles, effects, stickers, and keyframe animations. Workflow: create_draft → add media → save_draft → open in CapCut.',
-    version: '1.0.0',
+    version: '1.1.0',
     inputSchema: {
       type: 'object',
       properties: {
@@ -177,6 +179,10 @@ const BUILTIN_SKILLS: SkillManifest[] = [
       },
       required: ['action'],
     },
+    config: {
+      apiHost: { type: 'string', description: 'CapCutAPI server, e.g. http://localhost (default: CAPCUT_API_HOST)' },
+      apiPort: { type: 'number', description: 'CapCutAPI server port (default: CAPCUT_API_PORT or 9001)' },
+    },
     handler: './handler.js',
     containerCompatible: false,
   },
@@ -190,6 +196,14 @@ module.exports = {
 };
 `;
 
+function exportedVersion(skillDir: string): string {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(skillDir, 'skill.json'), 'utf-8')).version || '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
+
 /**
  * Export built-in tools as skill manifests to /data/skills/.
  * Idempotent - only writes if the skill directory doesn't exist yet.
@@ -208,6 +222,9 @@ export function exportBuiltinSkills(): void {
       fs.writeFileSync(path.join(skillDir, 'skill.json'), JSON.stringify(skill, null, 2));
       fs.writeFileSync(path.join(skillDir, 'handler.js'), BUILTIN_HANDLER_STUB);
       console.log(`[skills] Exported built-in skill: ${skill.name}`);
+    } else if (compareVersions(exportedVersion(skillDir), skill.version) < 0) {
+      fs.writeFileSync(path.join(skillDir, 'skill.json'), JSON.stringify(skill, null, 2));
+      console.log(`[skills] Updated built-in skill: ${skill.name}@${skill.version}`);
     }
   }
 }
@@ -0,0 +1,190 @@
+/**
+ * Skill Config - Per-group settings of skills (API keys, base URLs, ...).
+ *
+ * A manifest declares its settings, secret ones marked as such:
+ *
+ *   "config": {
+ *     "apiKey": { "type": "string", "secret": true, "required": true },
+ *     "baseUrl": { "type": "string", "default": "https://api.example.com" }
+ *   }
+ *
+ * Values are set per agent group and stored AES-encrypted (groups/encryption.ts).
+ * The handler receives them as ctx.config on every call; they are never part
+ * of the tool input, so the model does not see them. Secret values are never
+ * returned by the API.
+ */
+
+import { getDb } from '../../db/sqlite';
+import { encrypt, decrypt } from '../groups/encryption';
+import type { AgentTool, ToolResult } from '../tools/types';
+import { SkillConfigField, SkillConfigValue, SkillManifest } from './schema';
+
+const FIELD_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+const FIELD_TYPES = ['string', 'number', 'boolean'];
+
+/** A setting as shown by the API: secret values are replaced by `set` */
+export interface SkillConfigEntry {
+  name: string;
+  type: SkillConfigField['type'];
+  description?: string;
+  secret: boolean;
+  required: boolean;
+  /** Whether the group has a value (defaults do not count) */
+  set: boolean;
+  /** Current value or default, for non-secret settings only */
+  value?: SkillConfigValue;
+}
+
+export function initSkillConfigSchema(): void {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS skill_configs (
+      group_id TEXT NOT NULL,
+      skill_name TEXT NOT NULL,
+      values_encrypted TEXT NOT NULL,  -- JSON of all values, AES-256-GCM
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (group_id, skill_name),
+      FOREIGN KEY (group_id) REFERENCES agent_groups(id) ON DELETE CASCADE
+    );
+  `);
+  console.log('[skills] Skill config schema initialized');
+}
+
+/**
+ * Describe what is wrong with a manifest's config declaration, or return
+ * undefined if it is valid (or absent).
+ */
+export function configSchemaError(manifest: Partial<SkillManifest>): string | undefined {
+  const { config } = manifest;
+  if (config === undefined) return undefined;
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'config must be an object of setting name to definition';
+  }
+  for (const [name, field] of Object.entries(config)) {
+    if (!FIELD_NAME_PATTERN.test(name)) return `Invalid config setting name: ${name}`;
+    if (!field || typeof field !== 'object' || !FIELD_TYPES.includes(field.type)) {
+      return `config.${name}.type must be one of ${FIELD_TYPES.join(', ')}`;
+    }
+    if (field.default !== undefined) {
+      if (field.secret) return `config.${name} is secret and cannot have a default`;
+      if (typeof field.default !== field.type) return `config.${name}.default must be a ${field.type}`;
+    }
+  }
+  return undefined;
+}
+
+function readValues(groupId: string, skillName: string): Record<string, SkillConfigValue> {
+  const row = getDb()
+    .prepare('SELECT values_encrypted FROM skill_configs WHERE group_id = ? AND skill_name = ?')
+    .get(groupId, skillName) as { values_encrypted: string } | undefined;
+  if (!row) return {};
+  try {
+    return JSON.parse(decrypt(row.values_encrypted));
+  } catch (err) {
+    console.error(`[skills] Failed to decrypt config of ${skillName} for group ${groupId}:`, err);
+    return {};
+  }
+}
+
+/**
+ * Settings of a skill for a group, with secret values masked.
+ */
+export function getSkillConfig(groupId: string, manifest: SkillManifest): SkillConfigEntry[] {
+  const values = readValues(groupId, manifest.name);
+  return Object.entries(manifest.config || {}).map(([name, field]) => {
+    const value = values[name] ?? field.default;
+    return {
+      name,
+      type: field.type,
+      ...(field.description && { description: field.description }),
+      secret: !!field.secret,
+      required: !!field.required,
+      set: values[name] !== undefined,
+      ...(!field.secret && value !== undefined && { value }),
+    };
+  });
+}
+
+/**
+ * Set settings of a skill for a group. Only the given settings change,
+ * null removes a value.
+ */
+export function setSkillConfig(
+  groupId: string,
+  manifest: SkillManifest,
+  changes: Record<string, unknown>,
+): SkillConfigEntry[] {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    throw new Error('values must be an object of setting name to value');
+  }
+  const fields = manifest.config || {};
+  const values = readValues(groupId, manifest.name);
+  for (const [name, value] of Object.entries(changes)) {
+    const field = fields[name];
+    if (!field) throw new Error(`Skill ${manifest.name} has no config setting "${name}"`);
+    if (value === null) {
+      delete values[name];
+    } else if (typeof value !== field.type) {
+      throw new Error(`${name} must be a ${field.type}`);
+    } else {
+      values[name] = value as SkillConfigValue;
+    }
+  }
+
+  const db = getDb();
+  if (Object.keys(values).length === 0) {
+    db.prepare('DELETE FROM skill_configs WHERE group_id = ? AND skill_name = ?').run(groupId, manifest.name);
+  } else {
+    db.prepare(
+      `
+      INSERT INTO skill_configs (group_id, skill_name, values_encrypted) VALUES (?, ?, ?)
+      ON CONFLICT (group_id, skill_name)
+      DO UPDATE SET values_encrypted = excluded.values_encrypted, updated_at = datetime('now')
+    `,
+    ).run(groupId, manifest.name, encrypt(JSON.stringify(values)));
+  }
+  return getSkillConfig(groupId, manifest);
+}
+
+/**
+ * Remove the settings of a skill in all groups (when the skill is deleted).
+ */
+export function deleteSkillConfig(skillName: string): void {
+  getDb().prepare('DELETE FROM skill_configs WHERE skill_name = ?').run(skillName);
+}
+
+/**
+ * Decrypted settings of a skill for a group, defaults filled in. Runs
+ * outside a group only get the defaults.
+ */
+export function resolveSkillConfig(
+  manifest: SkillManifest,
+  groupId?: string,
+): { values: Record<string, SkillConfigValue>; missing: string[] } {
+  const stored = groupId && manifest.config ? readValues(groupId, manifest.name) : {};
+  const values: Record<string, SkillConfigValue> = {};
+  const missing: string[] = [];
+  for (const [name, field] of Object.entries(manifest.config || {})) {
+    const value = stored[name] ?? field.default;
+    if (value !== undefined) values[name] = value;
+    else if (field.required) missing.push(name);
+  }
+  return { values, missing };
+}
+
+/**
+ * Wrap a tool's execute function so it receives the skill's settings for
+ * the calling group as ctx.config, and fails if required ones are missing.
+ */
+export function withSkillConfig(manifest: SkillManifest, execute: AgentTool['execute']): AgentTool['execute'] {
+  return (input, ctx) => {
+    const { values, missing } = resolveSkillConfig(manifest, ctx.groupId);
+    if (missing.length > 0) {
+      const result: ToolResult = {
+        content: `Error: Skill ${manifest.name} is not configured for this agent group (missing: ${missing.join(', ')})`,
+        isError: true,
+      };
+      return Promise.resolve(result);
+    }
+    return execute(input, { ...ctx, config: values });
+  };
+}
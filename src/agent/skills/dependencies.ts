@@ -0,0 +1,201 @@
+/**
+ * Skill Dependencies - npm packages in a per-skill node_modules.
+ *
+ * A manifest lists its npm packages with exact versions, transitive ones
+ * included (the tree is installed flat and never resolved against a
+ * registry):
+ *
+ *   "dependencies": { "dayjs": "1.11.13" }
+ *
+ * Tarballs come from the local cache (SKILL_NPM_CACHE_DIR, "npm pack"
+ * file names). Missing ones are downloaded from SKILL_NPM_REGISTRY, if set,
+ * after checking the registry's integrity hash. skill-lock.json pins the
+ * SHA-512 of every tarball: it is shipped in the skill package or written on
+ * the first install, and checked on every later one. npm then installs the
+ * tarballs offline, without lifecycle scripts and without the gateway's
+ * environment, into the skill directory's own node_modules.
+ */
+
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { config } from '../../config';
+import { SkillDependencyStatus, SkillManifest } from './schema';
+
+const execFileAsync = promisify(execFile);
+
+export const SKILL_LOCK_FILE = 'skill-lock.json';
+
+const NPM_TIMEOUT_MS = 5 * 60 * 1000;
+const DOWNLOAD_TIMEOUT_MS = 60000;
+
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+const EXACT_VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+interface SkillLock {
+  lockfileVersion: 1;
+  /** "name@version" -> SRI hash of the tarball */
+  packages: Record<string, string>;
+}
+
+/**
+ * Describe what is wrong with a manifest's dependencies, or return
+ * undefined if they are valid (or absent).
+ */
+export function dependencySettingsError(manifest: Partial<SkillManifest>): string | undefined {
+  const { dependencies } = manifest;
+  if (dependencies === undefined) return undefined;
+  if (!dependencies || typeof dependencies !== 'object' || Array.isArray(dependencies)) {
+    return 'dependencies must be an object of package name to version';
+  }
+  for (const [name, version] of Object.entries(dependencies)) {
+    if (!PACKAGE_NAME_PATTERN.test(name)) return `Invalid npm package name: ${name}`;
+    if (typeof version !== 'string' || !EXACT_VERSION_PATTERN.test(version)) {
+      return `dependencies.${name} must be an exact version (e.g. 1.2.3), not a range`;
+    }
+  }
+  return undefined;
+}
+
+export function hasDependencies(manifest: SkillManifest): boolean {
+  return Object.keys(manifest.dependencies || {}).length > 0;
+}
+
+/** File name of a package tarball as written by "npm pack" */
+function tarballName(name: string, version: string): string {
+  return `${name.replace(/^@/, '').replace('/', '-')}-${version}.tgz`;
+}
+
+function integrityOf(data: Buffer): string {
+  return `sha512-${crypto.createHash('sha512').update(data).digest('base64')}`;
+}
+
+/**
+ * Path of a package tarball in the cache, downloaded from the registry if
+ * it is missing and a registry is configured.
+ */
+async function ensureTarball(name: string, version: string): Promise<string> {
+  const { cacheDir, registry } = config.skillDependencies;
+  const file = path.join(cacheDir, tarballName(name, version));
+  if (fs.existsSync(file)) return file;
+  if (!registry) {
+    throw new Error(`${name}@${version} is not in the package cache (${file}) and no registry is configured`);
+  }
+
+  const metaRes = await fetch(`${registry}/${name.replace('/', '%2f')}/${version}`, {
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  if (!metaRes.ok) throw new Error(`Registry lookup of ${name}@${version} failed (${metaRes.status})`);
+  const dist = ((await metaRes.json()) as { dist?: { tarball?: string; integrity?: string } }).dist;
+  if (!dist?.tarball || !dist.integrity?.startsWith('sha512-')) {
+    throw new Error(`Registry has no tarball with a SHA-512 integrity for ${name}@${version}`);
+  }
+
+  const res = await fetch(dist.tarball, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Download of ${name}@${version} failed (${res.status})`);
+  const data = Buffer.from(await res.arrayBuffer());
+  if (integrityOf(data) !== dist.integrity)
+    throw new Error(`Integrity check failed for download of ${name}@${version}`);
+
+  fs.mkdirSync(cacheDir, { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, file);
+  console.log(`[skills] Cached ${name}@${version} from ${registry}`);
+  return file;
+}
+
+/** Last npm error lines of a failed npm run */
+function npmError(err: unknown): string {
+  const stderr = String((err as { stderr?: string }).stderr || '');
+  const lines = stderr.split('\n').filter((l) => /^npm (error|ERR!)/.test(l));
+  return lines.length > 0 ? lines.slice(0, 4).join(' ') : (err as Error).message;
+}
+
+/**
+ * Install a skill's dependencies into <skillDir>/node_modules. Never throws:
+ * failures are returned as status. `updateLock` re-pins the tarballs in
+ * skill-lock.json (for intended dependency changes).
+ */
+export async function installSkillDependencies(
+  skillDir: string,
+  manifest: SkillManifest,
+  options: { updateLock?: boolean } = {},
+): Promise<SkillDependencyStatus> {
+  const dependencies = manifest.dependencies || {};
+  const updatedAt = new Date().toISOString();
+  try {
+    const settingsError = dependencySettingsError(manifest);
+    if (settingsError) throw new Error(settingsError);
+
+    const lockPath = path.join(skillDir, SKILL_LOCK_FILE);
+    const existing: SkillLock | undefined =
+      !options.updateLock && fs.existsSync(lockPath) ? JSON.parse(fs.readFileSync(lockPath, 'utf-8')) : undefined;
+    const lock: SkillLock = { lockfileVersion: 1, packages: {} };
+    const specs: Record<string, string> = {};
+
+    for (const [name, version] of Object.entries(dependencies)) {
+      const file = await ensureTarball(name, version);
+      const integrity = integrityOf(fs.readFileSync(file));
+      const key = `${name}@${version}`;
+      if (existing) {
+        if (!existing.packages?.[key]) throw new Error(`${key} is not pinned in ${SKILL_LOCK_FILE}`);
+        if (existing.packages[key] !== integrity) throw new Error(`Integrity mismatch for ${key} (${SKILL_LOCK_FILE})`);
+      }
+      lock.packages[key] = integrity;
+      specs[name] = `file:${file}`;
+    }
+    if (!existing) fs.writeFileSync(lockPath, JSON.stringify(lock, null, 2) + '\n');
+
+    // npm reads the dependencies from package.json, other fields (e.g. "type") are kept
+    const packageJsonPath = path.join(skillDir, 'package.json');
+    const packageJson = fs.existsSync(packageJsonPath) ? JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')) : {};
+    fs.writeFileSync(
+      packageJsonPath,
+      JSON.stringify(
+        {
+          name: `skill-${manifest.name}`,
+          version: manifest.version,
+          private: true,
+          ...packageJson,
+          dependencies: specs,
+        },
+        null,
+        2,
+      ),
+    );
+
+    fs.rmSync(path.join(skillDir, 'node_modules'), { recursive: true, force: true });
+    await execFileAsync(
+      'npm',
+      [
+        'install',
+        '--offline',
+        '--ignore-scripts',
+        '--no-package-lock',
+        '--no-audit',
+        '--no-fund',
+        '--omit=dev',
+        '--cache',
+        path.join(os.tmpdir(), 'loop-gateway-npm-cache'),
+      ],
+      {
+        cwd: skillDir,
+        env: { PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin', HOME: os.tmpdir() },
+        timeout: NPM_TIMEOUT_MS,
+      },
+    ).catch((err) => {
+      throw new Error(`npm install failed: ${npmError(err)}`);
+    });
+
+    console.log(`[skills] Installed ${Object.keys(dependencies).length} dependencies for ${manifest.name}`);
+    return { status: 'installed', packages: Object.keys(dependencies).length, updatedAt };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    console.warn(`[skills] Dependencies of ${manifest.name} failed: ${error}`);
+    return { status: 'failed', error, packages: Object.keys(dependencies).length, updatedAt };
+  }
+}
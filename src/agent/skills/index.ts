@@ -5,7 +5,18 @@
  * Built-in tools are exported as skills, and custom skills can be uploaded.
  */
 
-export type { SkillManifest, SkillDefinition, SkillRegistry } from './schema';
+export type {
+  SkillManifest,
+  SkillDefinition,
+  SkillRegistry,
+  SkillRegistryEntry,
+  SkillVersionInfo,
+  SkillDependencyStatus,
+  SkillCapabilities,
+  SkillLimits,
+  SkillConfigField,
+  SkillConfigValue,
+} from './schema';
 export {
   ensureSkillsDir,
   scanSkills,
@@ -16,7 +27,24 @@ export {
   deleteSkill,
   installSkill,
   updateSkill,
+  installSkillPackage,
+  listSkillVersions,
+  rollbackSkill,
+  deleteSkillVersion,
+  reinstallSkillDependencies,
+  getSkillManifest,
+  getSkillDefinition,
   getSkillsDir,
 } from './loader';
+export type { SkillConfigEntry } from './config';
+export { initSkillConfigSchema, getSkillConfig, setSkillConfig } from './config';
+export type {
+  SkillTestOptions,
+  SkillTestResult,
+  SkillFixture,
+  SkillFixtureResult,
+  SkillFixtureReport,
+} from './testing';
+export { testSkill, runSkillFixtures, runAllSkillFixtures } from './testing';
 export { exportBuiltinSkills } from './builtin-exporter';
 export { startSkillWatcher, stopSkillWatcher, skillWatcherEvents } from './watcher';
@@ -3,21 +3,47 @@
  *
  * Reads skill.json manifests, validates them, and converts to AgentTools
  * that can be registered in the existing ToolRegistry.
+ *
+ * Built-in skills live flat in /data/skills/<name>/. Custom skills keep
+ * their versions side by side in /data/skills/<name>/<version>/; the
+ * registry records which version is active and which was active before
+ * (for rollback).
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SkillManifest, SkillDefinition, SkillRegistry } from './schema';
-import { AgentTool, ToolResult } from '../tools/types';
+import { SkillManifest, SkillDefinition, SkillRegistry, SkillVersionInfo, SkillDependencyStatus } from './schema';
+import { createSandboxedHandler, sandboxSettingsError } from './sandbox';
+import { installSkillDependencies, dependencySettingsError, hasDependencies } from './dependencies';
+import { configSchemaError, deleteSkillConfig, withSkillConfig } from './config';
+import { readSkillPackage, compareVersions, isValidSkillName, isValidSkillVersion } from './package';
+import { AgentTool } from '../tools/types';
 import { toolRegistry } from '../tools/registry';
 import { config } from '../../config';
 
 const SKILLS_DIR = path.join(config.dataDir, 'skills');
 const REGISTRY_FILE = path.join(SKILLS_DIR, '_registry.json');
 
+const BUILTIN_SKILL_NAMES = [
+  'web_browse',
+  'run_script',
+  'http_request',
+  'git_clone',
+  'git_read_file',
+  'git_write_file',
+  'git_commit_push',
+  'capcut_api',
+];
+
 // Cache of loaded skill definitions
 const loadedSkills = new Map<string, SkillDefinition>();
 
+// Tools registered from skills (re-registered when a skill changes version)
+const skillTools = new Set<string>();
+
+// Native built-in tools, before they were wrapped to receive their skill config
+const nativeTools = new Map<string, AgentTool>();
+
 /**
  * Ensure the skills directory and registry file exist.
  */
@@ -55,7 +81,7 @@ function writeRegistry(registry: SkillRegistry): void {
 /**
  * Validate a skill.json manifest.
  */
-function validateManifest(manifest: unknown, dirName: string): manifest is SkillManifest {
+function validateManifest(manifest: unknown, skillName: string, dirName = skillName): manifest is SkillManifest {
   const m = manifest as Record<string, unknown>;
   if (!m || typeof m !== 'object') {
     console.warn(`[skills] Invalid manifest in ${dirName}: not an object`);
@@ -65,6 +91,11 @@ function validateManifest(manifest: unknown, dirName: string): manifest is Skill
     console.warn(`[skills] Invalid manifest in ${dirName}: missing name`);
     return false;
   }
+  // The directory decides whether a skill is built-in, so a manifest cannot claim another skill's name
+  if (m.name !== skillName) {
+    console.warn(`[skills] Invalid manifest in ${dirName}: name ${m.name} does not match the skill directory`);
+    return false;
+  }
   if (typeof m.description !== 'string') {
     console.warn(`[skills] Invalid manifest in ${dirName}: missing description`);
     return false;
@@ -77,20 +108,20 @@ function validateManifest(manifest: unknown, dirName: string): manifest is Skill
     console.warn(`[skills] Invalid manifest in ${dirName}: missing inputSchema`);
     return false;
   }
+  const settingsError = sandboxSettingsError(m) ?? dependencySettingsError(m) ?? configSchemaError(m);
+  if (settingsError) {
+    console.warn(`[skills] Invalid manifest in ${dirName}: ${settingsError}`);
+    return false;
+  }
   return true;
 }
 
 /**
- * Load a handler.js file and return an execute function.
- * For built-in skills, we use require(). For custom skills, we'll add sandbox later.
+ * Load a built-in skill's handler.js into the gateway process and return
+ * its execute function. Custom skills run in the sandbox instead.
  */
-function loadHandler(
-  handlerPath: string,
-  _sandbox: boolean,
-): ((input: Record<string, unknown>) => Promise<ToolResult>) | null {
+function loadHandler(handlerPath: string): AgentTool['execute'] | null {
   try {
-    // For now, all handlers are loaded via require/import
-    // Custom skill sandboxing (isolated-vm) will be added in a later phase
     const handler = require(handlerPath);
     if (typeof handler.execute === 'function') {
       return handler.execute;
@@ -109,6 +140,29 @@ function loadHandler(
   }
 }
 
+/**
+ * Installed versions of a versioned skill, oldest first.
+ */
+function getInstalledVersions(skillRoot: string): string[] {
+  if (!fs.existsSync(skillRoot)) return [];
+  return fs
+    .readdirSync(skillRoot)
+    .filter((v) => !v.startsWith('.') && fs.existsSync(path.join(skillRoot, v, 'skill.json')))
+    .sort(compareVersions);
+}
+
+/**
+ * Directory with the skill's active skill.json: the skill directory itself
+ * (flat layout) or the active version, falling back to the newest one.
+ */
+function resolveActiveDir(name: string, skillRoot: string, registry: SkillRegistry): string | undefined {
+  if (fs.existsSync(path.join(skillRoot, 'skill.json'))) return skillRoot;
+  const versions = getInstalledVersions(skillRoot);
+  const active = registry.skills[name]?.activeVersion;
+  const version = active && versions.includes(active) ? active : versions[versions.length - 1];
+  return version ? path.join(skillRoot, version) : undefined;
+}
+
 /**
  * Scan /data/skills/ and load all valid skill manifests.
  * Returns the list of loaded SkillDefinitions.
@@ -133,11 +187,12 @@ export function scanSkills(): SkillDefinition[] {
     const stat = fs.statSync(skillDir);
     if (!stat.isDirectory()) continue;
 
-    const manifestPath = path.join(skillDir, 'skill.json');
-    if (!fs.existsSync(manifestPath)) {
+    const activeDir = resolveActiveDir(entry, skillDir, registry);
+    if (!activeDir) {
       console.warn(`[skills] Skipping ${entry}: no skill.json`);
       continue;
     }
+    const manifestPath = path.join(activeDir, 'skill.json');
 
     try {
       const manifestData = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
@@ -148,8 +203,8 @@ export function scanSkills(): SkillDefinition[] {
 
       skills.push({
         manifest,
-        dirPath: skillDir,
-        builtIn: manifest.name === 'web_browse' || manifest.name === 'run_script' || manifest.name === 'http_request' || manifest.name === 'git_clone' || manifest.name === 'git_read_file' || manifest.name === 'git_write_file' || manifest.name === 'git_commit_push' || manifest.name === 'capcut_api',
+        dirPath: activeDir,
+        builtIn: BUILTIN_SKILL_NAMES.includes(entry),
         enabled: isEnabled,
       });
     } catch (err) {
@@ -160,12 +215,34 @@ export function scanSkills(): SkillDefinition[] {
   return skills;
 }
 
+/**
+ * Custom skills always run sandboxed, built-in skills only if their manifest asks for it.
+ */
+export function isSandboxed(skill: SkillDefinition): boolean {
+  return !skill.builtIn || skill.manifest.sandbox === true;
+}
+
+/**
+ * Result of the last dependency installation of the skill's active version.
+ */
+function getDependencyStatus(skill: SkillDefinition, registry: SkillRegistry): SkillDependencyStatus | undefined {
+  return registry.skills[skill.manifest.name]?.versions?.[skill.manifest.version]?.dependencies;
+}
+
+function recordDependencyStatus(name: string, version: string, dependencies: SkillDependencyStatus): void {
+  const registry = readRegistry();
+  const entry = (registry.skills[name] ??= { enabled: true });
+  entry.versions = { ...entry.versions, [version]: { ...entry.versions?.[version], dependencies } };
+  writeRegistry(registry);
+}
+
 /**
  * Load all skills from /data/skills/ and register them in the ToolRegistry.
  * This is called at startup after built-in tools are exported.
  */
 export function loadAndRegisterSkills(): number {
   const skills = scanSkills();
+  const registry = readRegistry();
   let registered = 0;
 
   for (const skill of skills) {
@@ -173,6 +250,10 @@ export function loadAndRegisterSkills(): number {
       console.log(`[skills] Skipping disabled skill: ${skill.manifest.name}`);
       continue;
     }
+    if (getDependencyStatus(skill, registry)?.status === 'failed') {
+      console.warn(`[skills] Skipping ${skill.manifest.name}: its dependencies failed to install`);
+      continue;
+    }
 
     const handlerPath = path.resolve(skill.dirPath, skill.manifest.handler);
     if (!fs.existsSync(handlerPath)) {
@@ -180,19 +261,29 @@ export function loadAndRegisterSkills(): number {
       continue;
     }
 
-    const execute = loadHandler(handlerPath, skill.manifest.sandbox === true);
+    const execute = isSandboxed(skill) ? createSandboxedHandler(skill) : loadHandler(handlerPath);
     if (!execute) continue;
 
-    // Only register if not already registered (built-in tools take precedence)
-    if (!toolRegistry.get(skill.manifest.name)) {
+    // Built-in tools take precedence, skill tools are replaced on reload
+    if (!toolRegistry.get(skill.manifest.name) || skillTools.has(skill.manifest.name)) {
       const tool: AgentTool = {
         name: skill.manifest.name,
         description: skill.manifest.description,
         inputSchema: skill.manifest.inputSchema as AgentTool['inputSchema'],
-        execute,
+        // Skill handlers get the run context and their own config, but never the group's credentials
+        execute: withSkillConfig(skill.manifest, (input, ctx) => execute(input, { ...ctx, secrets: {} })),
       };
       toolRegistry.register(tool);
+      skillTools.add(tool.name);
       registered++;
+    } else if (skill.builtIn && skill.manifest.config) {
+      // Native built-in tools receive their config like skills
+      const native = nativeTools.get(skill.manifest.name) ?? toolRegistry.get(skill.manifest.name)!;
+      nativeTools.set(native.name, native);
+      toolRegistry.register({
+        ...native,
+        execute: withSkillConfig(skill.manifest, (input, ctx) => native.execute(input, ctx)),
+      });
     }
 
     loadedSkills.set(skill.manifest.name, skill);
@@ -209,6 +300,32 @@ export function getSkillDefinitions(): SkillDefinition[] {
   return Array.from(loadedSkills.values());
 }
 
+/**
+ * Definition of an installed skill, loaded or not: its active version, or
+ * another installed one (e.g. staged with activate=false).
+ */
+export function getSkillDefinition(name: string, version?: string): SkillDefinition | undefined {
+  const skill = scanSkills().find((s) => s.manifest.name === name);
+  if (!skill || version === undefined || version === skill.manifest.version) return skill;
+  if (!isValidSkillVersion(version)) return undefined;
+
+  const dirPath = path.join(SKILLS_DIR, name, version);
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(dirPath, 'skill.json'), 'utf-8'));
+    if (!validateManifest(manifest, name, `${name}/${version}`)) return undefined;
+    return { ...skill, manifest, dirPath };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Manifest of an installed skill (active version), loaded or not.
+ */
+export function getSkillManifest(name: string): SkillManifest | undefined {
+  return getSkillDefinition(name)?.manifest;
+}
+
 /**
  * Get all skills including unloaded ones (for API listing).
  */
@@ -219,16 +336,30 @@ export function getAllSkills(): Array<{
   builtIn: boolean;
   enabled: boolean;
   containerCompatible: boolean;
+  sandboxed: boolean;
+  /** "error" when the skill cannot be loaded, see error */
+  status: 'ready' | 'error';
+  error?: string;
+  dependencies?: SkillDependencyStatus;
 }> {
   const skills = scanSkills();
-  return skills.map((s) => ({
-    name: s.manifest.name,
-    description: s.manifest.description,
-    version: s.manifest.version || '1.0.0',
-    builtIn: s.builtIn,
-    enabled: s.enabled,
-    containerCompatible: s.manifest.containerCompatible || false,
-  }));
+  const registry = readRegistry();
+  return skills.map((s) => {
+    const dependencies = getDependencyStatus(s, registry);
+    const failed = dependencies?.status === 'failed';
+    return {
+      name: s.manifest.name,
+      description: s.manifest.description,
+      version: s.manifest.version || '1.0.0',
+      builtIn: s.builtIn,
+      enabled: s.enabled,
+      containerCompatible: s.manifest.containerCompatible || false,
+      sandboxed: isSandboxed(s),
+      status: failed ? 'error' : 'ready',
+      ...(failed && { error: `Dependency installation failed: ${dependencies.error}` }),
+      ...(dependencies && { dependencies }),
+    };
+  });
 }
 
 /**
@@ -255,39 +386,261 @@ export function deleteSkill(name: string): boolean {
     throw new Error(`Cannot delete built-in skill: ${name}`);
   }
 
-  // Remove directory
-  fs.rmSync(skill.dirPath, { recursive: true, force: true });
+  // Remove directory (with all versions)
+  fs.rmSync(path.join(SKILLS_DIR, path.relative(SKILLS_DIR, skill.dirPath).split(path.sep)[0]!), {
+    recursive: true,
+    force: true,
+  });
 
   // Remove from registry
   const registry = readRegistry();
   delete registry.skills[name];
   writeRegistry(registry);
 
+  deleteSkillConfig(name);
   loadedSkills.delete(name);
   return true;
 }
 
 /**
- * Install a new skill from a manifest + handler content.
+ * Install a new skill from a manifest + handler content, with its npm
+ * dependencies. Returns the dependency status if it has any.
  */
-export function installSkill(manifest: SkillManifest, handlerContent: string): void {
+export async function installSkill(
+  manifest: SkillManifest,
+  handlerContent: string,
+): Promise<SkillDependencyStatus | undefined> {
   ensureSkillsDir();
 
-  const skillDir = path.join(SKILLS_DIR, manifest.name);
-  if (fs.existsSync(skillDir)) {
-    throw new Error(`Skill ${manifest.name} already exists. Delete it first or use update.`);
+  if (!isValidSkillName(manifest.name)) throw new Error('name must match [a-zA-Z0-9_-]{1,64}');
+  if (BUILTIN_SKILL_NAMES.includes(manifest.name)) throw new Error(`Cannot replace built-in skill: ${manifest.name}`);
+  if (!isValidSkillVersion(manifest.version)) throw new Error('version must be a semantic version (1.2.3)');
+  const settingsError =
+    sandboxSettingsError(manifest) ?? dependencySettingsError(manifest) ?? configSchemaError(manifest);
+  if (settingsError) throw new Error(settingsError);
+
+  const skillRoot = path.join(SKILLS_DIR, manifest.name);
+  if (fs.existsSync(skillRoot)) {
+    throw new Error(`Skill ${manifest.name} already exists. Delete it first, use update or upload a package.`);
   }
 
+  const skillDir = path.join(skillRoot, manifest.version);
   fs.mkdirSync(skillDir, { recursive: true });
   fs.writeFileSync(path.join(skillDir, 'skill.json'), JSON.stringify(manifest, null, 2));
   fs.writeFileSync(path.join(skillDir, 'handler.js'), handlerContent);
+  const dependencies = hasDependencies(manifest) ? await installSkillDependencies(skillDir, manifest) : undefined;
 
   // Add to registry as enabled
   const registry = readRegistry();
-  registry.skills[manifest.name] = { enabled: true };
+  registry.skills[manifest.name] = {
+    enabled: true,
+    activeVersion: manifest.version,
+    versions: { [manifest.version]: { installedAt: new Date().toISOString(), source: 'api', dependencies } },
+  };
   writeRegistry(registry);
 
-  console.log(`[skills] Installed skill: ${manifest.name}`);
+  console.log(`[skills] Installed skill: ${manifest.name}@${manifest.version}`);
+  loadAndRegisterSkills();
+  return dependencies;
+}
+
+/**
+ * Move a custom skill from the flat layout (<name>/skill.json, installed
+ * before versioning) into <name>/<version>/ so new versions can sit next to it.
+ */
+function migrateFlatSkill(name: string): void {
+  const skillRoot = path.join(SKILLS_DIR, name);
+  const manifestPath = path.join(skillRoot, 'skill.json');
+  if (!fs.existsSync(manifestPath)) return;
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as SkillManifest;
+  const version = isValidSkillVersion(manifest.version) ? manifest.version : '0.0.0';
+  const staging = path.join(SKILLS_DIR, `.migrate-${name}`);
+  fs.renameSync(skillRoot, staging);
+  fs.mkdirSync(skillRoot);
+  fs.renameSync(staging, path.join(skillRoot, version));
+
+  const registry = readRegistry();
+  const entry = (registry.skills[name] ??= { enabled: true });
+  const { dependencies } = entry.versions?.[manifest.version] ?? {};
+  entry.activeVersion = version;
+  entry.versions = {
+    ...entry.versions,
+    [version]: { installedAt: new Date().toISOString(), source: 'api', ...(dependencies && { dependencies }) },
+  };
+  writeRegistry(registry);
+  console.log(`[skills] Moved ${name} to versioned layout (${version})`);
+}
+
+/**
+ * Install a skill package (.tar, .tar.gz or .zip, see package.ts) as a new
+ * version of the skill, with its npm dependencies. The new version becomes
+ * active unless `activate: false` is passed or its dependencies fail to
+ * install (the first version of a skill always does).
+ */
+export async function installSkillPackage(
+  archive: Buffer,
+  options: { activate?: boolean } = {},
+): Promise<{
+  name: string;
+  version: string;
+  sha256: string;
+  activeVersion: string;
+  previousVersion?: string;
+  dependencies?: SkillDependencyStatus;
+}> {
+  const { manifest, files, sha256 } = readSkillPackage(archive);
+  const { name, version } = manifest;
+  if (BUILTIN_SKILL_NAMES.includes(name)) throw new Error(`Cannot replace built-in skill: ${name}`);
+
+  ensureSkillsDir();
+  migrateFlatSkill(name);
+
+  const skillRoot = path.join(SKILLS_DIR, name);
+  const versionDir = path.join(skillRoot, version);
+  if (fs.existsSync(versionDir)) throw new Error(`Version ${version} of skill ${name} is already installed`);
+
+  // Unpack (and install dependencies) next to the target and rename, so a
+  // half-written version is never loaded
+  const staging = path.join(skillRoot, `.staging-${version}-${Date.now()}`);
+  let dependencies: SkillDependencyStatus | undefined;
+  try {
+    for (const [file, data] of files) {
+      fs.mkdirSync(path.dirname(path.join(staging, file)), { recursive: true });
+      fs.writeFileSync(path.join(staging, file), data);
+    }
+    fs.writeFileSync(path.join(staging, 'skill.json'), JSON.stringify(manifest, null, 2));
+    if (hasDependencies(manifest)) dependencies = await installSkillDependencies(staging, manifest);
+    fs.renameSync(staging, versionDir);
+  } catch (err) {
+    fs.rmSync(staging, { recursive: true, force: true });
+    throw err;
+  }
+
+  const registry = readRegistry();
+  const entry = (registry.skills[name] ??= { enabled: true });
+  entry.versions = {
+    ...entry.versions,
+    [version]: { installedAt: new Date().toISOString(), sha256, source: 'package', dependencies },
+  };
+  const activate = options.activate !== false && dependencies?.status !== 'failed';
+  if (activate || !entry.activeVersion) {
+    if (entry.activeVersion) entry.previousVersion = entry.activeVersion;
+    entry.activeVersion = version;
+  }
+  writeRegistry(registry);
+
+  console.log(`[skills] Installed package ${name}@${version} (active: ${entry.activeVersion})`);
+  loadAndRegisterSkills();
+  return {
+    name,
+    version,
+    sha256,
+    activeVersion: entry.activeVersion,
+    previousVersion: entry.previousVersion,
+    dependencies,
+  };
+}
+
+/**
+ * Reinstall the npm dependencies of a skill's active version, e.g. after
+ * adding missing tarballs to the cache. `updateLock` re-pins the tarballs
+ * after an intended change of the dependency list.
+ */
+export async function reinstallSkillDependencies(
+  name: string,
+  options: { updateLock?: boolean } = {},
+): Promise<SkillDependencyStatus> {
+  const skill = scanSkills().find((s) => s.manifest.name === name);
+  if (!skill) throw new Error(`Skill ${name} not found`);
+  if (skill.builtIn) throw new Error(`Built-in skill ${name} has no dependencies`);
+
+  const dependencies = await installSkillDependencies(skill.dirPath, skill.manifest, options);
+  recordDependencyStatus(name, skill.manifest.version, dependencies);
+  loadAndRegisterSkills();
+  return dependencies;
+}
+
+/**
+ * Installed versions of a skill, newest first. Undefined if the skill does
+ * not exist. Built-in and not yet migrated skills have a single version.
+ */
+export function listSkillVersions(
+  name: string,
+): Array<SkillVersionInfo & { version: string; description: string; active: boolean }> | undefined {
+  const skill = scanSkills().find((s) => s.manifest.name === name);
+  if (!skill) return undefined;
+  const skillRoot = path.join(SKILLS_DIR, name);
+  if (skill.dirPath === skillRoot) {
+    return [{ version: skill.manifest.version, description: skill.manifest.description, active: true }];
+  }
+
+  const entry = readRegistry().skills[name];
+  return getInstalledVersions(skillRoot)
+    .reverse()
+    .map((version) => {
+      const manifest = JSON.parse(fs.readFileSync(path.join(skillRoot, version, 'skill.json'), 'utf-8'));
+      return {
+        version,
+        description: manifest.description,
+        active: path.join(skillRoot, version) === skill.dirPath,
+        ...entry?.versions?.[version],
+      };
+    });
+}
+
+/**
+ * Activate another installed version of a skill, by default the one that
+ * was active before the current one.
+ */
+export function rollbackSkill(
+  name: string,
+  version?: string,
+): { name: string; activeVersion: string; previousVersion: string } {
+  const skill = scanSkills().find((s) => s.manifest.name === name);
+  const skillRoot = path.join(SKILLS_DIR, name);
+  if (!skill) throw new Error(`Skill ${name} not found`);
+  if (skill.dirPath === skillRoot) throw new Error(`Skill ${name} has no other versions`);
+
+  const registry = readRegistry();
+  const entry = (registry.skills[name] ??= { enabled: true });
+  const current = path.basename(skill.dirPath);
+  const target = version || entry.previousVersion;
+  if (!target) throw new Error(`Skill ${name} has no previous version, pass the version to roll back to`);
+  if (!getInstalledVersions(skillRoot).includes(target)) {
+    throw new Error(`Version ${target} of skill ${name} is not installed`);
+  }
+  if (target === current) throw new Error(`Version ${target} of skill ${name} is already active`);
+
+  entry.previousVersion = current;
+  entry.activeVersion = target;
+  writeRegistry(registry);
+
+  console.log(`[skills] Switched ${name} from ${current} to ${target}`);
+  loadAndRegisterSkills();
+  return { name, activeVersion: target, previousVersion: current };
+}
+
+/**
+ * Remove an inactive version of a skill.
+ */
+export function deleteSkillVersion(name: string, version: string): void {
+  const skillRoot = path.join(SKILLS_DIR, name);
+  if (!isValidSkillName(name) || !getInstalledVersions(skillRoot).includes(version)) {
+    throw new Error(`Version ${version} of skill ${name} is not installed`);
+  }
+  const registry = readRegistry();
+  if (resolveActiveDir(name, skillRoot, registry) === path.join(skillRoot, version)) {
+    throw new Error(`Version ${version} is active. Roll back to another version first.`);
+  }
+
+  fs.rmSync(path.join(skillRoot, version), { recursive: true, force: true });
+  const entry = registry.skills[name];
+  if (entry) {
+    delete entry.versions?.[version];
+    if (entry.previousVersion === version) delete entry.previousVersion;
+    writeRegistry(registry);
+  }
 }
 
 /**
@@ -298,20 +651,25 @@ export function updateSkill(
   updates: { manifest?: Partial<SkillManifest>; handlerContent?: string },
 ): void {
   const skill = loadedSkills.get(name);
-  if (!skill) {
-    // Try to find it on disk
-    const skillDir = path.join(SKILLS_DIR, name);
-    if (!fs.existsSync(skillDir)) {
-      throw new Error(`Skill ${name} not found`);
-    }
+  // Not loaded yet: try to find it on disk
+  const skillDir = skill?.dirPath || resolveActiveDir(name, path.join(SKILLS_DIR, name), readRegistry());
+  if (!skillDir) {
+    throw new Error(`Skill ${name} not found`);
   }
 
-  const skillDir = skill?.dirPath || path.join(SKILLS_DIR, name);
-
   if (updates.manifest) {
     const manifestPath = path.join(skillDir, 'skill.json');
     const existing = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
     const merged = { ...existing, ...updates.manifest };
+    if (merged.name !== existing.name) throw new Error('The name of a skill cannot be changed');
+    if (merged.sandbox !== existing.sandbox && !BUILTIN_SKILL_NAMES.includes(name)) {
+      throw new Error('Custom skills always run sandboxed');
+    }
+    if (merged.version !== existing.version && skillDir !== path.join(SKILLS_DIR, name)) {
+      throw new Error('Upload a skill package to publish a new version');
+    }
+    const settingsError = sandboxSettingsError(merged) ?? dependencySettingsError(merged) ?? configSchemaError(merged);
+    if (settingsError) throw new Error(settingsError);
     fs.writeFileSync(manifestPath, JSON.stringify(merged, null, 2));
   }
 
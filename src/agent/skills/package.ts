@@ -0,0 +1,253 @@
+/**
+ * Skill Packages - Read and verify packaged skills (.tar, .tar.gz/.tgz, .zip).
+ *
+ * A package contains the skill directory: skill.json, the handler, any
+ * assets, and a checksums.sha256 file in `sha256sum` format listing every
+ * other file. Files may sit at the archive root or inside a single
+ * top-level directory. Links, absolute paths and ".." are rejected, and
+ * the unpacked size is capped.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { SkillManifest } from './schema';
+import { sandboxSettingsError } from './sandbox';
+import { dependencySettingsError } from './dependencies';
+import { configSchemaError } from './config';
+
+export const CHECKSUM_FILE = 'checksums.sha256';
+
+const MAX_UNPACKED_BYTES = 50 * 1024 * 1024;
+const MAX_FILES = 2000;
+
+// Names become tool names, versions become directory names
+const NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export interface SkillPackage {
+  manifest: SkillManifest;
+  /** Relative path -> content, without the checksum file */
+  files: Map<string, Buffer>;
+  /** SHA-256 of the archive itself */
+  sha256: string;
+}
+
+export function isValidSkillName(name: unknown): name is string {
+  return typeof name === 'string' && NAME_PATTERN.test(name);
+}
+
+export function isValidSkillVersion(version: unknown): version is string {
+  return typeof version === 'string' && VERSION_PATTERN.test(version);
+}
+
+/**
+ * Compare two semantic versions (pre-releases sort before the release).
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (v: string) => {
+    const [core = '', pre] = v.split('+')[0]!.split(/-(.*)/s);
+    return { parts: core.split('.').map((n) => parseInt(n, 10) || 0), pre };
+  };
+  const va = parse(a);
+  const vb = parse(b);
+  for (let i = 0; i < Math.max(va.parts.length, vb.parts.length); i++) {
+    const diff = (va.parts[i] ?? 0) - (vb.parts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  if (va.pre === vb.pre) return 0;
+  if (va.pre === undefined) return 1;
+  if (vb.pre === undefined) return -1;
+  return va.pre.localeCompare(vb.pre, undefined, { numeric: true });
+}
+
+function normalizeEntryPath(name: string): string | undefined {
+  const clean = name.replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!clean || clean === '.') return undefined;
+  if (clean.includes('\\') || path.posix.isAbsolute(clean) || clean.split('/').some((p) => p === '..' || p === '')) {
+    throw new Error(`Invalid path in package: ${name}`);
+  }
+  return clean;
+}
+
+function addFile(files: Map<string, Buffer>, name: string, data: Buffer, total: { bytes: number }): void {
+  const entry = normalizeEntryPath(name);
+  if (!entry) return;
+  total.bytes += data.length;
+  if (total.bytes > MAX_UNPACKED_BYTES)
+    throw new Error(`Package exceeds ${MAX_UNPACKED_BYTES / 1024 / 1024} MB unpacked`);
+  if (files.size >= MAX_FILES) throw new Error(`Package has more than ${MAX_FILES} files`);
+  if (files.has(entry)) throw new Error(`Duplicate path in package: ${entry}`);
+  files.set(entry, data);
+}
+
+function readTar(buf: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const total = { bytes: 0 };
+  const field = (header: Buffer, start: number, length: number) =>
+    header
+      .subarray(start, start + length)
+      .toString('utf-8')
+      .replace(/\0.*$/s, '');
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= buf.length) {
+    const header = buf.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+    const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+    const type = field(header, 156, 1) || '0';
+    // POSIX ustar splits long names into prefix + name (GNU tar uses "ustar  " and L entries)
+    const prefix = header.subarray(257, 263).toString() === 'ustar\0' ? field(header, 345, 155) : '';
+    const name = longName ?? (prefix ? `${prefix}/${field(header, 0, 100)}` : field(header, 0, 100));
+    const data = buf.subarray(offset + 512, offset + 512 + size);
+    if (data.length < size) throw new Error('Truncated tar archive');
+    offset += 512 + Math.ceil(size / 512) * 512;
+    longName = undefined;
+
+    if (type === 'L') {
+      // GNU long name for the next entry
+      longName = data.toString('utf-8').replace(/\0.*$/s, '');
+    } else if (type === 'x') {
+      // PAX extended header, only the path is of interest
+      const match = /\d+ path=([^\n]*)\n/.exec(data.toString('utf-8'));
+      if (match) longName = match[1];
+    } else if (type === '0' || type === '7') {
+      addFile(files, name, Buffer.from(data), total);
+    } else if (type !== '5' && type !== 'g') {
+      throw new Error(`Unsupported entry in package (links are not allowed): ${name}`);
+    }
+  }
+  return files;
+}
+
+function readZip(buf: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const total = { bytes: 0 };
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Invalid zip archive');
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) throw new Error('Zip64 archives are not supported');
+
+  for (let i = 0; i < count; i++) {
+    if (buf.readUInt32LE(offset) !== 0x02014b50) throw new Error('Invalid zip central directory');
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const size = buf.readUInt32LE(offset + 24);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const mode = buf.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if ((mode & 0o170000) === 0o120000)
+      throw new Error(`Unsupported entry in package (links are not allowed): ${name}`);
+    if (size > MAX_UNPACKED_BYTES) throw new Error(`Package exceeds ${MAX_UNPACKED_BYTES / 1024 / 1024} MB unpacked`);
+
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const raw = buf.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    if (method === 0) data = Buffer.from(raw);
+    else if (method === 8) data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+    else throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    if (data.length !== size) throw new Error(`Corrupt zip entry: ${name}`);
+    addFile(files, name, data, total);
+  }
+  return files;
+}
+
+/**
+ * Unpack an archive (format detected from its content) into memory.
+ */
+export function extractArchive(archive: Buffer): Map<string, Buffer> {
+  if (archive.length >= 4 && archive.readUInt32LE(0) === 0x04034b50) return readZip(archive);
+  if (archive.length >= 2 && archive[0] === 0x1f && archive[1] === 0x8b) {
+    return readTar(zlib.gunzipSync(archive, { maxOutputLength: MAX_UNPACKED_BYTES + 1024 * 1024 }));
+  }
+  if (archive.length >= 263 && archive.subarray(257, 262).toString() === 'ustar') return readTar(archive);
+  throw new Error('Unsupported package format (expected .tar, .tar.gz or .zip)');
+}
+
+/**
+ * Strip a single top-level directory ("my-skill/skill.json" -> "skill.json").
+ */
+function stripTopLevelDir(files: Map<string, Buffer>): Map<string, Buffer> {
+  if (files.has('skill.json')) return files;
+  const roots = new Set([...files.keys()].map((f) => f.split('/')[0]));
+  const [root] = roots;
+  if (roots.size !== 1 || !files.has(`${root}/skill.json`)) return files;
+  return new Map([...files].map(([name, data]) => [name.slice(root!.length + 1), data]));
+}
+
+/**
+ * Check every file against checksums.sha256. Unlisted and missing files fail.
+ */
+function verifyChecksums(files: Map<string, Buffer>): void {
+  const list = files.get(CHECKSUM_FILE);
+  if (!list) throw new Error(`Package has no ${CHECKSUM_FILE}`);
+  files.delete(CHECKSUM_FILE);
+
+  const expected = new Map<string, string>();
+  for (const line of list.toString('utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    const match = /^([0-9a-f]{64}) [ *](.+)$/i.exec(line.trim());
+    if (!match) throw new Error(`Invalid line in ${CHECKSUM_FILE}: ${line.trim()}`);
+    expected.set(normalizeEntryPath(match[2]!) ?? '', match[1]!.toLowerCase());
+  }
+
+  for (const [name, data] of files) {
+    const hash = expected.get(name);
+    if (!hash) throw new Error(`${name} is not listed in ${CHECKSUM_FILE}`);
+    if (crypto.createHash('sha256').update(data).digest('hex') !== hash) {
+      throw new Error(`Checksum mismatch for ${name}`);
+    }
+  }
+  for (const name of expected.keys()) {
+    if (!files.has(name)) throw new Error(`${name} is listed in ${CHECKSUM_FILE} but missing`);
+  }
+}
+
+/**
+ * Unpack and verify a skill package. Throws with a reason if the package
+ * is malformed, fails its checksums or has an invalid manifest.
+ */
+export function readSkillPackage(archive: Buffer): SkillPackage {
+  const files = stripTopLevelDir(extractArchive(archive));
+  verifyChecksums(files);
+
+  const manifestFile = files.get('skill.json');
+  if (!manifestFile) throw new Error('Package has no skill.json');
+  let manifest: SkillManifest;
+  try {
+    manifest = JSON.parse(manifestFile.toString('utf-8'));
+  } catch {
+    throw new Error('skill.json is not valid JSON');
+  }
+
+  if (!isValidSkillName(manifest.name)) throw new Error('skill.json: name must match [a-zA-Z0-9_-]{1,64}');
+  if (!isValidSkillVersion(manifest.version)) throw new Error('skill.json: version must be a semantic version (1.2.3)');
+  if (typeof manifest.description !== 'string') throw new Error('skill.json: description is required');
+  if (!manifest.inputSchema || typeof manifest.inputSchema !== 'object') {
+    throw new Error('skill.json: inputSchema is required');
+  }
+  manifest.handler = manifest.handler || './handler.js';
+  manifest.containerCompatible = manifest.containerCompatible ?? false;
+  const handler = normalizeEntryPath(manifest.handler);
+  if (!handler || !files.has(handler)) throw new Error(`Handler ${manifest.handler} is not in the package`);
+  const settingsError =
+    sandboxSettingsError(manifest) ?? dependencySettingsError(manifest) ?? configSchemaError(manifest);
+  if (settingsError) throw new Error(`skill.json: ${settingsError}`);
+
+  return { manifest, files, sha256: crypto.createHash('sha256').update(archive).digest('hex') };
+}
@@ -0,0 +1,331 @@
+/**
+ * Skill Sandbox - Runs custom skill handlers outside the gateway process.
+ *
+ * Every call starts a fresh Node.js child process that:
+ * - gets no environment variables from the gateway (no API keys, no tokens)
+ * - runs under Node's permission model: file access is limited to the skill
+ *   directory plus the paths in `capabilities.fs`, child processes, worker
+ *   threads and native addons are blocked
+ * - may only open network connections to the hosts in `capabilities.network`;
+ *   names are resolved by the sandbox, and may only resolve to loopback,
+ *   private or link-local addresses when those are listed as IP addresses
+ *   (or the name is localhost)
+ * - has a heap limit (`limits.memoryMb`) and is killed after `limits.timeoutMs`
+ *
+ * Input, run context and result travel over the IPC channel as JSON.
+ */
+
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { SkillDefinition, SkillManifest } from './schema';
+import { AgentTool, ToolContext, ToolResult } from '../tools/types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MEMORY_MB = 128;
+const MAX_MEMORY_MB = 2048;
+// Keep the end of stderr for crash reports
+const MAX_STDERR_LENGTH = 4000;
+// Console output kept for test runs
+const MAX_LOG_LINES = 200;
+const MAX_LOG_LINE_LENGTH = 1000;
+
+interface NetworkRule {
+  host: string;
+  port?: number;
+}
+
+/**
+ * Child process entry point (passed via -e, so it runs the same in dev and
+ * in the compiled build). Installs the network guard before the handler is
+ * loaded; the original connect functions are only reachable in this closure.
+ */
+const RUNNER_SOURCE = `
+'use strict';
+const net = require('net');
+const dgram = require('dgram');
+const dnsLookup = require('dns').lookup;
+
+// Addresses a host name may only resolve to when they are allowed as IP addresses
+const internal = new net.BlockList();
+for (const [prefix, bits] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]]) {
+  internal.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+  internal.addSubnet(prefix, bits, 'ipv6');
+}
+
+function isInternal(address) {
+  const mapped = /^::ffff:(\\d+\\.\\d+\\.\\d+\\.\\d+)$/i.exec(address);
+  if (mapped) return internal.check(mapped[1], 'ipv4');
+  return internal.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+function isLoopback(address) {
+  return address === '::1' || /^(::ffff:)?127\\./i.test(address);
+}
+
+function denied(target) {
+  const err = new Error('Network access to ' + target + ' is not allowed for this skill (capabilities.network)');
+  err.code = 'ERR_SKILL_NETWORK_DENIED';
+  return err;
+}
+
+function installNetworkGuard(rules) {
+  const allowed = (host, port) => {
+    const h = String(host || 'localhost').toLowerCase().replace(/^\\[|\\]$/g, '');
+    return rules.some((r) =>
+      (r.host.startsWith('*.') ? h.endsWith(r.host.slice(1)) : h === r.host) &&
+      (r.port === undefined || r.port === Number(port)));
+  };
+  // Resolves with the original dns.lookup and checks every address, so
+  // an allowed name cannot be pointed at the gateway or the internal network
+  const guardedLookup = (port) => (hostname, options, callback) => {
+    if (typeof options === 'function') {
+      callback = options;
+      options = {};
+    }
+    dnsLookup(hostname, options, (err, address, family) => {
+      if (err) return callback(err);
+      const addresses = Array.isArray(address) ? address : [{ address, family }];
+      const isLocalhost = String(hostname).toLowerCase() === 'localhost';
+      const blocked = addresses.find((a) =>
+        isInternal(a.address) && !allowed(a.address, port) && !(isLocalhost && isLoopback(a.address)));
+      if (blocked) return callback(denied(hostname + ' (' + blocked.address + ')'));
+      callback(null, address, family);
+    });
+  };
+  const connect = net.Socket.prototype.connect;
+  // tls.connect() and http.Agent connections go through here as well
+  net.Socket.prototype.connect = function (...args) {
+    // net.connect() passes its normalized [options, callback] array
+    const normalized = Array.isArray(args[0]) ? args[0] : undefined;
+    const first = normalized ? normalized[0] : args[0];
+    let options;
+    if (first && typeof first === 'object') options = first;
+    else if (typeof first === 'string' && Number.isNaN(Number(first))) options = { path: first };
+    else options = { port: first, host: typeof args[1] === 'string' ? args[1] : undefined };
+
+    const target = options.path ? 'socket ' + options.path : (options.host || 'localhost') + ':' + options.port;
+    if (options.path || !allowed(options.host, options.port)) {
+      const err = denied(target);
+      process.nextTick(() => this.destroy(err));
+      return this;
+    }
+    // A caller-supplied lookup is replaced: it could map an allowed name to any address
+    const guarded = { ...options, lookup: guardedLookup(options.port) };
+    const callback = normalized ? normalized[1] : args.find((a) => typeof a === 'function');
+    return callback ? connect.call(this, guarded, callback) : connect.call(this, guarded);
+  };
+  dgram.Socket.prototype.bind = function () {
+    throw denied('UDP');
+  };
+  dgram.Socket.prototype.connect = dgram.Socket.prototype.bind;
+}
+
+function resolveExecute(mod) {
+  if (typeof mod.execute === 'function') return mod.execute;
+  if (mod.default && typeof mod.default.execute === 'function') return mod.default.execute;
+  if (typeof mod === 'function') return mod;
+  throw new Error('Handler has no execute export');
+}
+
+process.once('message', async (msg) => {
+  let reply;
+  try {
+    installNetworkGuard(msg.network);
+    const execute = resolveExecute(require(msg.handlerPath));
+    const signal = new AbortController().signal;
+    const result = await execute(msg.input, { ...msg.context, secrets: {}, signal });
+    reply = { ok: true, result: result === undefined ? null : result };
+  } catch (err) {
+    reply = { ok: false, error: err && err.message ? err.message : String(err) };
+  }
+  try {
+    process.send(reply, () => process.exit(0));
+  } catch (err) {
+    process.send({ ok: false, error: 'Result is not serializable: ' + err.message }, () => process.exit(0));
+  }
+});
+`;
+
+function parseNetworkRule(entry: string): NetworkRule {
+  const match = /^(\[[0-9a-f:.]+\]|[a-z0-9*][a-z0-9.*-]*)(?::(\d{1,5}))?$/i.exec(entry.trim());
+  if (!match || (match[1]!.includes('*') && !/^\*\.[^*]+$/.test(match[1]!))) {
+    throw new Error(`Invalid network capability "${entry}" (expected host, *.domain or host:port)`);
+  }
+  return {
+    host: match[1]!.toLowerCase().replace(/^\[|\]$/g, ''),
+    ...(match[2] && { port: Number(match[2]) }),
+  };
+}
+
+/**
+ * Describe what is wrong with a manifest's capabilities and limits, or
+ * return undefined if they are valid (or absent).
+ */
+export function sandboxSettingsError(manifest: Partial<SkillManifest>): string | undefined {
+  const { capabilities, limits } = manifest;
+  const isStringArray = (v: unknown) => v === undefined || (Array.isArray(v) && v.every((s) => typeof s === 'string'));
+
+  if (capabilities !== undefined) {
+    if (!capabilities || typeof capabilities !== 'object') return 'capabilities must be an object';
+    if (!isStringArray(capabilities.network)) return 'capabilities.network must be an array of hosts';
+    try {
+      (capabilities.network || []).forEach(parseNetworkRule);
+    } catch (err) {
+      return (err as Error).message;
+    }
+    if (capabilities.fs !== undefined) {
+      if (!capabilities.fs || typeof capabilities.fs !== 'object') return 'capabilities.fs must be an object';
+      if (!isStringArray(capabilities.fs.read) || !isStringArray(capabilities.fs.write)) {
+        return 'capabilities.fs.read and capabilities.fs.write must be arrays of paths';
+      }
+    }
+  }
+  if (limits !== undefined) {
+    if (!limits || typeof limits !== 'object') return 'limits must be an object';
+    const { timeoutMs, memoryMb } = limits;
+    if (timeoutMs !== undefined && !(Number.isInteger(timeoutMs) && timeoutMs > 0 && timeoutMs <= MAX_TIMEOUT_MS)) {
+      return `limits.timeoutMs must be a whole number between 1 and ${MAX_TIMEOUT_MS}`;
+    }
+    if (memoryMb !== undefined && !(Number.isInteger(memoryMb) && memoryMb >= 16 && memoryMb <= MAX_MEMORY_MB)) {
+      return `limits.memoryMb must be a whole number between 16 and ${MAX_MEMORY_MB}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Handlers may return a ToolResult, a string, or any JSON value (sent to
+ * the model as JSON).
+ */
+function toToolResult(value: unknown): ToolResult {
+  if (typeof value === 'string') return { content: value };
+  if (value && typeof value === 'object' && typeof (value as ToolResult).content === 'string') {
+    const { content, isError } = value as ToolResult;
+    return { content, ...(isError && { isError: true }) };
+  }
+  return { content: JSON.stringify(value) };
+}
+
+/**
+ * Run a skill handler once in a sandboxed child process. Test runs can
+ * shorten the timeout and collect the handler's console output in `logs`.
+ */
+export function runSandboxed(
+  skill: SkillDefinition,
+  input: Record<string, unknown>,
+  ctx: ToolContext,
+  options: { timeoutMs?: number; logs?: string[] } = {},
+): Promise<ToolResult> {
+  const { manifest, dirPath } = skill;
+  const settingsError = sandboxSettingsError(manifest);
+  if (settingsError) {
+    return Promise.resolve({
+      content: `Error: Skill ${manifest.name} is misconfigured: ${settingsError}`,
+      isError: true,
+    });
+  }
+
+  const timeoutMs = Math.min(options.timeoutMs ?? manifest.limits?.timeoutMs ?? DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+  const memoryMb = manifest.limits?.memoryMb ?? DEFAULT_MEMORY_MB;
+  const resolvePaths = (paths: string[] = []) => paths.map((p) => path.resolve(dirPath, p));
+  const readPaths = [dirPath, ...resolvePaths(manifest.capabilities?.fs?.read)];
+  const writePaths = resolvePaths(manifest.capabilities?.fs?.write);
+
+  const args = [
+    '--experimental-permission',
+    // Write access implies read access
+    ...[...readPaths, ...writePaths].map((p) => `--allow-fs-read=${p}`),
+    ...writePaths.map((p) => `--allow-fs-write=${p}`),
+    `--max-old-space-size=${memoryMb}`,
+    '--no-warnings',
+    '-e',
+    RUNNER_SOURCE,
+  ];
+
+  return new Promise((resolve) => {
+    if (ctx.signal.aborted) {
+      resolve({ content: 'Error: Run was cancelled', isError: true });
+      return;
+    }
+
+    const child = spawn(process.execPath, args, {
+      cwd: dirPath,
+      env: { NODE_ENV: process.env.NODE_ENV || 'production' },
+      stdio: ['ignore', options.logs ? 'pipe' : 'ignore', 'pipe', 'ipc'],
+    });
+
+    let stderr = '';
+    let settled = false;
+    const finish = (result: ToolResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      ctx.signal.removeEventListener('abort', onAbort);
+      if (child.exitCode === null) child.kill('SIGKILL');
+      resolve(result);
+    };
+    const onAbort = () => finish({ content: 'Error: Run was cancelled', isError: true });
+
+    const timer = setTimeout(
+      () => finish({ content: `Error: Skill ${manifest.name} timed out after ${timeoutMs}ms`, isError: true }),
+      timeoutMs,
+    );
+    ctx.signal.addEventListener('abort', onAbort, { once: true });
+
+    const collectLogs = (chunk: Buffer) => {
+      for (const line of chunk.toString().split('\n')) {
+        if (line && options.logs && options.logs.length < MAX_LOG_LINES) {
+          options.logs.push(line.slice(0, MAX_LOG_LINE_LENGTH));
+        }
+      }
+    };
+    child.stdout?.on('data', collectLogs);
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+      collectLogs(chunk);
+    });
+
+    child.on('message', (msg: { ok: boolean; result?: unknown; error?: string }) => {
+      finish(msg.ok ? toToolResult(msg.result) : { content: `Error: ${msg.error}`, isError: true });
+    });
+
+    child.on('error', (err) => finish({ content: `Error: Failed to start sandbox: ${err.message}`, isError: true }));
+
+    // 'close' fires after the IPC channel is drained, so a result sent right before exit is not lost
+    child.on('close', (code, signal) => {
+      if (/heap out of memory|Allocation failed/i.test(stderr)) {
+        finish({ content: `Error: Skill ${manifest.name} exceeded its memory limit of ${memoryMb} MB`, isError: true });
+        return;
+      }
+      const detail = stderr.trim().split('\n').slice(-5).join('\n');
+      finish({
+        content: `Error: Skill ${manifest.name} exited (${signal || `code ${code}`}) without a result${detail ? `:\n${detail}` : ''}`,
+        isError: true,
+      });
+    });
+
+    child.send({
+      handlerPath: path.resolve(dirPath, manifest.handler),
+      input,
+      context: {
+        runId: ctx.runId,
+        conversationId: ctx.conversationId,
+        groupId: ctx.groupId,
+        agentId: ctx.agentId,
+        config: ctx.config ?? {},
+      },
+      network: (manifest.capabilities?.network || []).map(parseNetworkRule),
+    });
+  });
+}
+
+/**
+ * Tool execute function that runs the skill's handler in the sandbox.
+ */
+export function createSandboxedHandler(skill: SkillDefinition): AgentTool['execute'] {
+  return (input, ctx) => runSandboxed(skill, input, ctx);
+}
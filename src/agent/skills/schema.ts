@@ -24,7 +24,44 @@ export interface SkillManifest {
   };
   handler: string; // relative path to handler.js (e.g. "./handler.js")
   containerCompatible: boolean;
-  sandbox?: boolean; // if true, handler runs in isolated-vm (for custom skills)
+  sandbox?: boolean; // if true, handler runs in a sandboxed child process (always for custom skills)
+  capabilities?: SkillCapabilities; // what a sandboxed handler may access
+  limits?: SkillLimits;
+  dependencies?: Record<string, string>; // npm package -> exact version, see dependencies.ts
+  config?: Record<string, SkillConfigField>; // per-group settings, see config.ts
+}
+
+export type SkillConfigValue = string | number | boolean;
+
+/**
+ * A setting the handler receives as ctx.config, set per agent group.
+ */
+export interface SkillConfigField {
+  type: 'string' | 'number' | 'boolean';
+  description?: string;
+  /** Stored encrypted and never returned by the API (no default allowed) */
+  secret?: boolean;
+  /** Calls fail while a required setting has no value */
+  required?: boolean;
+  default?: SkillConfigValue;
+}
+
+/**
+ * Runtime allowlist of a sandboxed handler. Everything not listed is denied.
+ */
+export interface SkillCapabilities {
+  /** Hosts the handler may connect to: "api.example.com", "*.example.com", "example.com:8443" */
+  network?: string[];
+  /** Paths the handler may read or write, relative paths resolve against the skill directory */
+  fs?: {
+    read?: string[];
+    write?: string[];
+  };
+}
+
+export interface SkillLimits {
+  timeoutMs?: number; // per call, default 30000
+  memoryMb?: number; // heap limit, default 128
 }
 
 export interface SkillDefinition {
@@ -36,5 +73,26 @@ export interface SkillDefinition {
 
 export interface SkillRegistry {
   version: number;
-  skills: Record<string, { enabled: boolean }>;
+  skills: Record<string, SkillRegistryEntry>;
+}
+
+export interface SkillRegistryEntry {
+  enabled: boolean;
+  activeVersion?: string; // versioned skills: directory under /data/skills/<name>/
+  previousVersion?: string; // version active before the current one (rollback target)
+  versions?: Record<string, SkillVersionInfo>;
+}
+
+export interface SkillVersionInfo {
+  installedAt?: string;
+  sha256?: string; // of the package archive
+  source?: 'package' | 'api';
+  dependencies?: SkillDependencyStatus;
+}
+
+export interface SkillDependencyStatus {
+  status: 'installed' | 'failed';
+  error?: string;
+  packages: number;
+  updatedAt: string;
 }
@@ -0,0 +1,279 @@
+/**
+ * Skill Testing - Run a skill without a model, against one input or its fixtures.
+ *
+ * Fixtures live in the skill directory as tests/*.json. A file holds one
+ * case or an array of them:
+ *
+ *   {
+ *     "name": "greets by name",
+ *     "input": { "who": "Ada" },
+ *     "expect": { "contains": "Hello Ada" }
+ *   }
+ *
+ * Expectations (all optional, all must hold): `isError` (default false),
+ * `equals`, `contains` (string or list), `matches` (regex) and `json` (the
+ * output parsed as JSON contains these fields/values). `timeoutMs` limits a case.
+ *
+ * Inputs are validated against the manifest's inputSchema first. Custom
+ * skills run in the sandbox like real calls, with the group's skill config
+ * if a group is given, and their console output is returned as logs.
+ * Built-in tools that need human approval (see hitl) are not run: a dry run
+ * has no reviewer to ask.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SkillDefinition } from './schema';
+import { getSkillDefinition, isSandboxed, scanSkills } from './loader';
+import { runSandboxed } from './sandbox';
+import { withSkillConfig } from './config';
+import { toolRegistry, createToolContext } from '../tools/registry';
+import { checkApprovalRequired } from '../hitl/manager';
+import { validateInput, SchemaViolation } from '../tools/validation';
+import { ToolResult } from '../tools/types';
+
+const DEFAULT_TEST_TIMEOUT_MS = 30000;
+const FIXTURES_DIR = 'tests';
+
+export interface SkillTestOptions {
+  /** Installed version to test instead of the active one */
+  version?: string;
+  /** Agent group whose skill config is used */
+  groupId?: string;
+  timeoutMs?: number;
+}
+
+export interface SkillTestResult {
+  /** False if the input was invalid or the handler returned an error */
+  ok: boolean;
+  output: string;
+  isError: boolean;
+  durationMs: number;
+  logs: string[];
+  /** Input schema violations (the handler was not run) */
+  violations?: SchemaViolation[];
+}
+
+export interface SkillFixture {
+  name?: string;
+  input: Record<string, unknown>;
+  expect?: {
+    isError?: boolean;
+    equals?: string;
+    contains?: string | string[];
+    matches?: string;
+    json?: unknown;
+  };
+  timeoutMs?: number;
+}
+
+export interface SkillFixtureResult {
+  file: string;
+  name: string;
+  passed: boolean;
+  /** Why the case failed, one entry per unmet expectation */
+  failures: string[];
+  result?: SkillTestResult;
+}
+
+export interface SkillFixtureReport {
+  skill: string;
+  version: string;
+  passed: number;
+  failed: number;
+  results: SkillFixtureResult[];
+}
+
+function findSkill(name: string, version?: string): SkillDefinition {
+  const skill = getSkillDefinition(name, version);
+  if (!skill) throw new Error(version ? `Version ${version} of skill ${name} not found` : `Skill ${name} not found`);
+  return skill;
+}
+
+async function execute(
+  skill: SkillDefinition,
+  input: Record<string, unknown>,
+  options: SkillTestOptions,
+  logs: string[],
+): Promise<ToolResult> {
+  const timeoutMs = options.timeoutMs ?? skill.manifest.limits?.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS;
+  const ctx = createToolContext({ conversationId: `skill-test-${skill.manifest.name}`, groupId: options.groupId });
+
+  if (isSandboxed(skill)) {
+    const run = withSkillConfig(skill.manifest, (i, c) => runSandboxed(skill, i, c, { timeoutMs, logs }));
+    return run(input, ctx);
+  }
+
+  // Built-in skills run their native tool (which applies the skill config itself)
+  const tool = toolRegistry.get(skill.manifest.name);
+  if (!tool) {
+    return { content: `Error: Built-in tool ${skill.manifest.name} is not registered`, isError: true };
+  }
+  const approval = checkApprovalRequired(tool.name, tool.riskLevel);
+  if (approval.required) {
+    return {
+      content: `Error: ${tool.name} requires human approval (risk: ${approval.riskLevel}) and cannot run in a test`,
+      isError: true,
+    };
+  }
+  const signal = AbortSignal.timeout(timeoutMs);
+  const result = await toolRegistry.execute(skill.manifest.name, input, { ...ctx, signal });
+  if (signal.aborted) {
+    return { content: `Error: Skill ${skill.manifest.name} timed out after ${timeoutMs}ms`, isError: true };
+  }
+  return result;
+}
+
+async function runTest(skill: SkillDefinition, input: unknown, options: SkillTestOptions): Promise<SkillTestResult> {
+  const violations = validateInput(skill.manifest.inputSchema, input);
+  if (violations.length > 0) {
+    return { ok: false, output: '', isError: true, durationMs: 0, logs: [], violations };
+  }
+
+  const logs: string[] = [];
+  const start = Date.now();
+  const result = await execute(skill, input as Record<string, unknown>, options, logs);
+  return {
+    ok: !result.isError,
+    output: result.content,
+    isError: !!result.isError,
+    durationMs: Date.now() - start,
+    logs,
+  };
+}
+
+/**
+ * Run a skill once with the given input (a dry run: no model, no conversation).
+ */
+export async function testSkill(
+  name: string,
+  input: unknown,
+  options: SkillTestOptions = {},
+): Promise<SkillTestResult> {
+  return runTest(findSkill(name, options.version), input, options);
+}
+
+/** Whether `actual` contains everything in `expected` (objects recursively, arrays and values exactly) */
+function jsonContains(actual: unknown, expected: unknown): boolean {
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    return Object.entries(expected).every(([k, v]) => jsonContains((actual as Record<string, unknown>)[k], v));
+  }
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+function checkExpectations(fixture: SkillFixture, result: SkillTestResult): string[] {
+  if (result.violations) {
+    return result.violations.map((v) => `Invalid input${v.path ? ` at ${v.path}` : ''}: ${v.message}`);
+  }
+  const expect = fixture.expect || {};
+  const failures: string[] = [];
+  const wantError = expect.isError ?? false;
+  if (result.isError !== wantError) {
+    failures.push(wantError ? 'Expected an error result' : `Handler returned an error: ${result.output}`);
+  }
+  if (expect.equals !== undefined && result.output !== expect.equals) {
+    failures.push(`Expected output ${JSON.stringify(expect.equals)}`);
+  }
+  const contains = typeof expect.contains === 'string' ? [expect.contains] : expect.contains || [];
+  for (const text of contains) {
+    if (!result.output.includes(text)) failures.push(`Expected output to contain ${JSON.stringify(text)}`);
+  }
+  if (expect.matches !== undefined) {
+    let pattern: RegExp | undefined;
+    try {
+      pattern = new RegExp(expect.matches);
+    } catch (err) {
+      failures.push(`Invalid matches pattern: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (pattern && !pattern.test(result.output)) {
+      failures.push(`Expected output to match /${expect.matches}/`);
+    }
+  }
+  if (expect.json !== undefined) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(result.output);
+    } catch {
+      failures.push('Expected JSON output');
+    }
+    if (parsed !== undefined && !jsonContains(parsed, expect.json)) {
+      failures.push(`Expected JSON output to contain ${JSON.stringify(expect.json)}`);
+    }
+  }
+  return failures;
+}
+
+/**
+ * Read tests/*.json of a skill directory. Unreadable files become cases
+ * that fail with the reason.
+ */
+function readFixtures(dirPath: string): Array<{ file: string; name: string; fixture?: SkillFixture; error?: string }> {
+  const dir = path.join(dirPath, FIXTURES_DIR);
+  if (!fs.existsSync(dir)) return [];
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .sort();
+  const cases: Array<{ file: string; name: string; fixture?: SkillFixture; error?: string }> = [];
+  for (const file of files) {
+    try {
+      const data = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+      const fixtures: unknown[] = Array.isArray(data) ? data : [data];
+      fixtures.forEach((fixture, i) => {
+        const name = fixtures.length > 1 ? `${file}#${i + 1}` : file;
+        if (!fixture || typeof fixture !== 'object' || !('input' in fixture)) {
+          cases.push({ file, name, error: 'Fixture has no input' });
+        } else {
+          const named = fixture as SkillFixture;
+          cases.push({ file, name: named.name || name, fixture: named });
+        }
+      });
+    } catch (err) {
+      cases.push({
+        file,
+        name: file,
+        error: `Invalid fixture file: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+  }
+  return cases;
+}
+
+/**
+ * Run all fixtures of a skill, one after another.
+ */
+export async function runSkillFixtures(name: string, options: SkillTestOptions = {}): Promise<SkillFixtureReport> {
+  const skill = findSkill(name, options.version);
+  const results: SkillFixtureResult[] = [];
+
+  for (const { file, name: caseName, fixture, error } of readFixtures(skill.dirPath)) {
+    if (!fixture) {
+      results.push({ file, name: caseName, passed: false, failures: [error!] });
+      continue;
+    }
+    const result = await runTest(skill, fixture.input, {
+      ...options,
+      timeoutMs: fixture.timeoutMs ?? options.timeoutMs,
+    });
+    const failures = checkExpectations(fixture, result);
+    results.push({ file, name: caseName, passed: failures.length === 0, failures, result });
+  }
+
+  const passed = results.filter((r) => r.passed).length;
+  return { skill: name, version: skill.manifest.version, passed, failed: results.length - passed, results };
+}
+
+/**
+ * Run the fixtures of every installed skill that has some.
+ */
+export async function runAllSkillFixtures(
+  options: Omit<SkillTestOptions, 'version'> = {},
+): Promise<SkillFixtureReport[]> {
+  const reports: SkillFixtureReport[] = [];
+  for (const skill of scanSkills()) {
+    if (!fs.existsSync(path.join(skill.dirPath, FIXTURES_DIR))) continue;
+    reports.push(await runSkillFixtures(skill.manifest.name, options));
+  }
+  return reports;
+}
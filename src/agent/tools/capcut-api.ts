@@ -7,24 +7,28 @@
  * Workflow: create_draft → add media/text/effects → save_draft → open in CapCut
  */
 
-import { AgentTool, ToolResult } from './types';
+import { AgentTool, ToolContext, ToolResult } from './types';
 
 const DEFAULT_TIMEOUT_MS = 60000;
 const MAX_RESPONSE_LENGTH = 30000;
 
-function getBaseUrl(): string {
-  const host = process.env.CAPCUT_API_HOST || 'http://localhost';
-  const port = process.env.CAPCUT_API_PORT || '9001';
+/**
+ * Server of the calling group (skill config), falling back to the env.
+ */
+function getBaseUrl(ctx: ToolContext): string {
+  const host = ctx.config?.apiHost || process.env.CAPCUT_API_HOST || 'http://localhost';
+  const port = ctx.config?.apiPort || process.env.CAPCUT_API_PORT || '9001';
   return `${host}:${port}`;
 }
 
 async function capcutRequest(
   endpoint: string,
   method: 'GET' | 'POST',
+  ctx: ToolContext,
   body?: Record<string, unknown>,
   timeoutMs?: number,
 ): Promise<ToolResult> {
-  const url = `${getBaseUrl()}${endpoint}`;
+  const url = `${getBaseUrl(ctx)}${endpoint}`;
   const timeout = timeoutMs || DEFAULT_TIMEOUT_MS;
 
   try {
@@ -73,7 +77,7 @@ async function capcutRequest(
     }
     if (msg.includes('ECONNREFUSED') || msg.includes('fetch failed')) {
       return {
-        content: `Cannot connect to CapCut API at ${getBaseUrl()}. Ensure the CapCutAPI server is running (python capcut_server.py).`,
+        content: `Cannot connect to CapCut API at ${getBaseUrl(ctx)}. Ensure the CapCutAPI server is running (python capcut_server.py).`,
         isError: true,
       };
     }
@@ -162,7 +166,7 @@ Requires: CapCutAPI server running locally (python capcut_server.py), CapCut ins
     required: ['action'],
   },
 
-  async execute(input: Record<string, unknown>): Promise<ToolResult> {
+  async execute(input: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
     const action = input.action as string;
     const params = (input.params as Record<string, unknown>) || {};
 
@@ -175,9 +179,9 @@ Requires: CapCutAPI server running locally (python capcut_server.py), CapCut ins
     }
 
     if (endpoint.method === 'GET') {
-      return capcutRequest(endpoint.path, 'GET');
+      return capcutRequest(endpoint.path, 'GET', ctx);
     }
 
-    return capcutRequest(endpoint.path, 'POST', params);
+    return capcutRequest(endpoint.path, 'POST', ctx, params);
   },
 };
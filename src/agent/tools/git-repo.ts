@@ -13,30 +13,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
-import { AgentTool, ToolResult } from './types';
+import { AgentTool, ToolContext, ToolResult } from './types';
 import { config } from '../../config';
 
 const execFileAsync = promisify(execFile);
 
-/* ------------------------------------------------------------------ */
-/*  Git Context (set per-request by the agent loop)                    */
-/* ------------------------------------------------------------------ */
-
-interface GitContext {
-  githubRepo?: string;  // e.g. "owner/repo"
-  githubToken?: string; // decrypted PAT
-}
-
-let currentGitContext: GitContext = {};
-
-/**
- * Set the git context for the current agent run.
- * Called from the agent loop before tool execution starts.
- */
-export function setGitContext(ctx: GitContext): void {
-  currentGitContext = ctx;
-}
-
 /* ------------------------------------------------------------------ */
 /*  Workspace Manager                                                  */
 /* ------------------------------------------------------------------ */
@@ -95,13 +76,16 @@ export function cleanupStaleWorkspaces(): number {
   return cleaned;
 }
 
-function resolveToken(input: Record<string, unknown>): string {
-  return (input.github_token as string) || currentGitContext.githubToken || config.github.token;
+/**
+ * Token precedence: explicit input, then the run's group PAT, then the global token.
+ */
+function resolveToken(input: Record<string, unknown>, ctx: ToolContext): string {
+  return (input.github_token as string) || ctx.secrets.githubToken || config.github.token;
 }
 
-function resolveRepoUrl(input: Record<string, unknown>): string {
+function resolveRepoUrl(input: Record<string, unknown>, ctx: ToolContext): string {
   const explicit = input.repo_url as string | undefined;
-  const configuredRepo = currentGitContext.githubRepo;
+  const configuredRepo = ctx.githubRepo;
 
   // If agent passes an explicit URL but a repo is already configured, prefer
   // the configured repo and warn — the agent likely confused research targets
@@ -185,7 +169,7 @@ export const gitCloneTool: AgentTool = {
     required: ['branch'],
   },
 
-  async execute(input: Record<string, unknown>): Promise<ToolResult> {
+  async execute(input: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
     if (workspaces.size >= MAX_WORKSPACES) {
       cleanupStaleWorkspaces();
       if (workspaces.size >= MAX_WORKSPACES) {
@@ -193,13 +177,13 @@ export const gitCloneTool: AgentTool = {
       }
     }
 
-    const repoUrl = resolveRepoUrl(input);
+    const repoUrl = resolveRepoUrl(input, ctx);
     const branch = input.branch as string;
-    const token = resolveToken(input);
+    const token = resolveToken(input, ctx);
     const userName = (input.git_user_name as string) || 'Loop Agent';
     const userEmail = (input.git_user_email as string) || 'agent@loop-gateway.local';
 
-    console.log(`[git_clone] repoUrl=${repoUrl || '(empty)'}, branch=${branch}, hasToken=${!!token}, context.repo=${currentGitContext.githubRepo || '(none)'}, context.hasToken=${!!currentGitContext.githubToken}`);
+    console.log(`[git_clone] repoUrl=${repoUrl || '(empty)'}, branch=${branch}, hasToken=${!!token}, context.repo=${ctx.githubRepo || '(none)'}, context.hasToken=${!!ctx.secrets.githubToken}`);
 
     if (!repoUrl || !branch) {
       return { content: 'Error: repo_url and branch are required. Either pass repo_url or configure a GitHub repo on the agent group.', isError: true };
@@ -1,4 +1,4 @@
-import { AgentTool, ToolResult } from './types';
+import { AgentTool, ToolContext, ToolResult } from './types';
 
 const DEFAULT_TIMEOUT_MS = 30000;
 const MAX_RESPONSE_LENGTH = 20000;
@@ -36,7 +36,7 @@ export const httpRequestTool: AgentTool = {
     required: ['url'],
   },
 
-  async execute(input: Record<string, unknown>): Promise<ToolResult> {
+  async execute(input: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
     const url = input.url as string;
     const method = ((input.method as string) || 'GET').toUpperCase();
     const headers = (input.headers as Record<string, string>) || {};
@@ -50,7 +50,7 @@ export const httpRequestTool: AgentTool = {
       const fetchOptions: RequestInit = {
         method,
         headers,
-        signal: controller.signal,
+        signal: AbortSignal.any([controller.signal, ctx.signal]),
       };
 
       if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
@@ -111,6 +111,9 @@ export const httpRequestTool: AgentTool = {
       };
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
+      if (ctx.signal.aborted) {
+        return { content: 'Request cancelled: the run was cancelled', isError: true };
+      }
       if (msg.includes('abort')) {
         return { content: `Request timed out after ${timeoutMs}ms`, isError: true };
       }
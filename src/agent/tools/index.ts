@@ -32,5 +32,9 @@ export function registerBuiltinTools(): void {
   );
 }
 
-export { toolRegistry } from './registry';
-export type { AgentTool, ToolResult } from './types';
+export { toolRegistry, createToolContext } from './registry';
+export type { AgentTool, ToolResult, ToolContext, ToolSecrets } from './types';
+export { validateInput, formatViolations } from './validation';
+export type { SchemaViolation } from './validation';
+export { initToolUsageSchema, getToolUsage } from './usage';
+export type { ToolUsage } from './usage';
@@ -1,14 +1,39 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AgentTool, ToolResult } from './types';
+import { AgentTool, ToolContext, ToolResult } from './types';
+import { validateInput } from './validation';
+import { recordInputViolations } from './usage';
 
 class ToolRegistry {
   private tools = new Map<string, AgentTool>();
+  /** Tools offered only to runs of one agent group (e.g. from its MCP servers), by group ID */
+  private groupTools = new Map<string, Map<string, AgentTool>>();
 
   register(tool: AgentTool): void {
     this.tools.set(tool.name, tool);
     console.log(`[tools] Registered tool: ${tool.name}`);
   }
 
+  registerForGroup(groupId: string, tool: AgentTool): void {
+    let tools = this.groupTools.get(groupId);
+    if (!tools) {
+      tools = new Map();
+      this.groupTools.set(groupId, tools);
+    }
+    tools.set(tool.name, tool);
+    console.log(`[tools] Registered tool: ${tool.name} (group ${groupId})`);
+  }
+
+  unregisterForGroup(groupId: string, name: string): void {
+    const tools = this.groupTools.get(groupId);
+    if (!tools?.delete(name)) return;
+    if (tools.size === 0) this.groupTools.delete(groupId);
+    console.log(`[tools] Unregistered tool: ${name} (group ${groupId})`);
+  }
+
+  getGroupTools(groupId: string): AgentTool[] {
+    return Array.from(this.groupTools.get(groupId)?.values() ?? []);
+  }
+
   getAll(): AgentTool[] {
     return Array.from(this.tools.values());
   }
@@ -17,15 +42,22 @@ class ToolRegistry {
     return Array.from(this.tools.keys());
   }
 
-  get(name: string): AgentTool | undefined {
-    return this.tools.get(name);
+  /**
+   * Look up a tool; with a group ID, that group's own tools are included.
+   */
+  get(name: string, groupId?: string): AgentTool | undefined {
+    return (groupId && this.groupTools.get(groupId)?.get(name)) || this.tools.get(name);
   }
 
   /**
    * Get Anthropic-compatible tool definitions, optionally filtered to a set of enabled tool names.
+   * A group's own tools are always included for that group.
    */
-  getToolDefinitions(enabledTools?: string[]): Anthropic.Tool[] {
-    const tools = enabledTools ? this.getAll().filter((t) => enabledTools.includes(t.name)) : this.getAll();
+  getToolDefinitions(enabledTools?: string[], groupId?: string): Anthropic.Tool[] {
+    const tools = [
+      ...(enabledTools ? this.getAll().filter((t) => enabledTools.includes(t.name)) : this.getAll()),
+      ...(groupId ? this.getGroupTools(groupId) : []),
+    ];
 
     return tools.map((t) => ({
       name: t.name,
@@ -34,19 +66,75 @@ class ToolRegistry {
     }));
   }
 
-  async execute(name: string, input: Record<string, unknown>): Promise<ToolResult> {
-    const tool = this.tools.get(name);
+  /**
+   * Check input against the tool's inputSchema. Returns the error result
+   * for the model (listing each failing path) if it does not match, and
+   * counts the violations for the tool's usage stats.
+   */
+  validate(
+    name: string,
+    input: unknown,
+    context: Pick<ToolContext, 'runId' | 'conversationId' | 'groupId'>,
+  ): ToolResult | undefined {
+    const tool = this.get(name, context.groupId);
+    if (!tool) return undefined;
+    const violations = validateInput(tool.inputSchema, input);
+    if (violations.length === 0) return undefined;
+
+    console.warn(`[tools] Invalid input for ${name}: ${violations.length} violation(s)`);
+    recordInputViolations(name, violations, context);
+    return {
+      content: JSON.stringify({
+        error: `Invalid input for tool ${name}: the call was not executed. Fix the listed fields and call it again.`,
+        violations,
+      }),
+      isError: true,
+      violations,
+    };
+  }
+
+  /**
+   * Execute a tool with the calling run's context. Input that does not
+   * match the tool's inputSchema is rejected without running the tool.
+   */
+  async execute(name: string, input: Record<string, unknown>, context: ToolContext): Promise<ToolResult> {
+    const tool = this.get(name, context.groupId);
     if (!tool) {
       return { content: `Unknown tool: ${name}`, isError: true };
     }
+    const invalid = this.validate(name, input, context);
+    if (invalid) return invalid;
+    if (context.signal.aborted) {
+      return { content: 'Tool call aborted: the run was cancelled', isError: true };
+    }
+    // Stop waiting on tools that ignore the signal once the run is cancelled
+    let onAbort = () => {};
+    const aborted = new Promise<ToolResult>((resolve) => {
+      onAbort = () => resolve({ content: 'Tool call aborted: the run was cancelled', isError: true });
+      context.signal.addEventListener('abort', onAbort, { once: true });
+    });
     try {
-      return await tool.execute(input);
+      return await Promise.race([tool.execute(input, context), aborted]);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       console.error(`[tools] Error executing ${name}:`, msg);
       return { content: `Tool error: ${msg}`, isError: true };
+    } finally {
+      context.signal.removeEventListener('abort', onAbort);
     }
   }
 }
 
+/**
+ * Build a ToolContext, filling in defaults for callers outside an agent run.
+ */
+export function createToolContext(ctx: Partial<ToolContext> & { conversationId: string }): ToolContext {
+  return {
+    agentId: 'gateway',
+    secrets: {},
+    signal: new AbortController().signal,
+    ...ctx,
+  };
+}
+
 export const toolRegistry = new ToolRegistry();
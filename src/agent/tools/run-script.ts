@@ -1,5 +1,5 @@
 import { spawn } from 'child_process';
-import { AgentTool, ToolResult } from './types';
+import { AgentTool, ToolContext, ToolResult } from './types';
 
 const MAX_OUTPUT_LENGTH = 20000;
 const DEFAULT_TIMEOUT_MS = 30000;
@@ -26,7 +26,7 @@ export const runScriptTool: AgentTool = {
     required: ['command'],
   },
 
-  async execute(input: Record<string, unknown>): Promise<ToolResult> {
+  async execute(input: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
     const command = input.command as string;
     const timeoutMs = (input.timeout_ms as number) || DEFAULT_TIMEOUT_MS;
     const workingDir = (input.working_dir as string) || '/tmp';
@@ -36,6 +36,7 @@ export const runScriptTool: AgentTool = {
       const errChunks: Buffer[] = [];
       let totalBytes = 0;
       let killed = false;
+      let cancelled = false;
 
       // Filter out sensitive env vars
       const safeEnv: Record<string, string> = {};
@@ -80,8 +81,16 @@ export const runScriptTool: AgentTool = {
         proc.kill('SIGKILL');
       }, timeoutMs);
 
+      // Kill the process when the run is cancelled
+      const onAbort = () => {
+        cancelled = true;
+        proc.kill('SIGKILL');
+      };
+      ctx.signal.addEventListener('abort', onAbort, { once: true });
+
       proc.on('close', (code) => {
         clearTimeout(timer);
+        ctx.signal.removeEventListener('abort', onAbort);
 
         let stdout = Buffer.concat(chunks).toString('utf-8');
         let stderr = Buffer.concat(errChunks).toString('utf-8');
@@ -96,6 +105,8 @@ export const runScriptTool: AgentTool = {
         const parts: string[] = [];
         if (killed) {
           parts.push(`[TIMEOUT after ${timeoutMs}ms - process killed]`);
+        } else if (cancelled) {
+          parts.push('[CANCELLED - process killed]');
         }
         parts.push(`Exit code: ${code ?? 'unknown'}`);
         if (stdout) parts.push(`stdout:\n${stdout}`);
@@ -103,12 +114,13 @@ export const runScriptTool: AgentTool = {
 
         resolve({
           content: parts.join('\n\n'),
-          isError: killed || code !== 0,
+          isError: killed || cancelled || code !== 0,
         });
       });
 
       proc.on('error', (err) => {
         clearTimeout(timer);
+        ctx.signal.removeEventListener('abort', onAbort);
         resolve({
           content: `Failed to execute command: ${err.message}`,
           isError: true,
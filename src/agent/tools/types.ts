@@ -1,13 +1,44 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type { SchemaViolation } from './validation';
+import type { RiskLevel } from '../hitl/types';
 
 export interface ToolResult {
   content: string;
   isError?: boolean;
+  /** Set when the input did not match the inputSchema and the tool was not run */
+  violations?: SchemaViolation[];
+}
+
+/** Decrypted per-group credentials available to built-in tools */
+export interface ToolSecrets {
+  githubToken?: string;
+}
+
+/**
+ * Per-invocation execution context, created once per agent run and passed
+ * to every tool call of that run. Replaces module-level "current run" state
+ * so concurrent runs never see each other's group, repo or credentials.
+ */
+export interface ToolContext {
+  runId?: number;
+  conversationId: string;
+  groupId?: string;
+  /** A2A identity of the calling agent */
+  agentId: string;
+  /** Target repository configured on the agent group (e.g. "owner/repo") */
+  githubRepo?: string;
+  secrets: ToolSecrets;
+  /** Settings of the called skill for the group (secrets decrypted), never part of the tool input */
+  config?: Record<string, string | number | boolean>;
+  /** Aborted when the run is cancelled or times out */
+  signal: AbortSignal;
 }
 
 export interface AgentTool {
   name: string;
   description: string;
   inputSchema: Anthropic.Tool['input_schema'];
-  execute(input: Record<string, unknown>): Promise<ToolResult>;
+  /** Risk level when no approval rule names the tool (built-ins use DEFAULT_TOOL_RISK) */
+  riskLevel?: RiskLevel;
+  execute(input: Record<string, unknown>, context: ToolContext): Promise<ToolResult>;
 }
@@ -0,0 +1,122 @@
+/**
+ * Tool Usage - Per-tool call statistics, including rejected inputs.
+ *
+ * Calls, errors and durations come from the run trace (tool_calls). Input
+ * that failed the tool's inputSchema is recorded here for every caller
+ * (runs, sub-agents, skill tests), since those calls never reach the tool.
+ */
+
+import { getDb } from '../../db/sqlite';
+import type { SchemaViolation } from './validation';
+
+const MAX_STORED_VIOLATIONS = 20;
+
+export interface ToolUsage {
+  tool: string;
+  /** Tool calls of agent runs */
+  calls: number;
+  errors: number;
+  avgDurationMs: number;
+  /** Calls rejected because the input did not match the inputSchema */
+  invalidCalls: number;
+  /** Schema violations across those calls */
+  violations: number;
+  lastInvalidAt: string | null;
+}
+
+export function initToolUsageSchema(): void {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS tool_input_violations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tool_name TEXT NOT NULL,
+      run_id INTEGER,
+      conversation_id TEXT,
+      violation_count INTEGER NOT NULL,
+      violations TEXT NOT NULL DEFAULT '[]',  -- JSON, first ${MAX_STORED_VIOLATIONS} only
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_tool_input_violations_tool ON tool_input_violations(tool_name);
+  `);
+  console.log('[tools] Tool usage schema initialized');
+}
+
+/**
+ * Count a call whose input failed validation. Never throws: statistics
+ * must not break the tool call itself.
+ */
+export function recordInputViolations(
+  toolName: string,
+  violations: SchemaViolation[],
+  context: { runId?: number; conversationId?: string } = {},
+): void {
+  try {
+    getDb()
+      .prepare(
+        `INSERT INTO tool_input_violations (tool_name, run_id, conversation_id, violation_count, violations)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        toolName,
+        context.runId ?? null,
+        context.conversationId ?? null,
+        violations.length,
+        JSON.stringify(violations.slice(0, MAX_STORED_VIOLATIONS)),
+      );
+  } catch (err) {
+    console.error(`[tools] Failed to record input violations of ${toolName}:`, err);
+  }
+}
+
+/**
+ * Usage per tool, most called first. Includes tools that were only ever
+ * called with invalid input.
+ */
+export function getToolUsage(): ToolUsage[] {
+  const db = getDb();
+  const calls = db
+    .prepare(
+      `
+    SELECT tool_name, COUNT(*) as calls, SUM(is_error) as errors, AVG(duration_ms) as avg_duration_ms
+    FROM tool_calls
+    GROUP BY tool_name
+  `,
+    )
+    .all() as Array<{ tool_name: string; calls: number; errors: number; avg_duration_ms: number }>;
+  const invalid = db
+    .prepare(
+      `
+    SELECT tool_name, COUNT(*) as invalid_calls, SUM(violation_count) as violations, MAX(created_at) as last_invalid_at
+    FROM tool_input_violations
+    GROUP BY tool_name
+  `,
+    )
+    .all() as Array<{ tool_name: string; invalid_calls: number; violations: number; last_invalid_at: string }>;
+
+  const usage = new Map<string, ToolUsage>();
+  const entry = (tool: string): ToolUsage => {
+    let u = usage.get(tool);
+    if (!u) {
+      u = { tool, calls: 0, errors: 0, avgDurationMs: 0, invalidCalls: 0, violations: 0, lastInvalidAt: null };
+      usage.set(tool, u);
+    }
+    return u;
+  };
+  for (const row of calls) {
+    Object.assign(entry(row.tool_name), {
+      calls: row.calls,
+      errors: row.errors,
+      avgDurationMs: Math.round(row.avg_duration_ms),
+    });
+  }
+  for (const row of invalid) {
+    Object.assign(entry(row.tool_name), {
+      invalidCalls: row.invalid_calls,
+      violations: row.violations,
+      lastInvalidAt: row.last_invalid_at,
+    });
+  }
+  return [...usage.values()].sort(
+    (a, b) => b.calls - a.calls || b.invalidCalls - a.invalidCalls || a.tool.localeCompare(b.tool),
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * Input Validation - Checks tool input against the tool's JSON Schema.
+ *
+ * Supports the JSON Schema keywords that describe data: type, enum, const,
+ * properties, required, additionalProperties, patternProperties, items
+ * (schema or tuple), min/maxItems, uniqueItems, min/maxLength, pattern,
+ * minimum/maximum (and exclusive), multipleOf, allOf/anyOf/oneOf/not and
+ * local $refs (#/$defs/..., #/definitions/...). Annotations such as
+ * description, default and format are ignored. Broken schemas (invalid
+ * patterns, $refs that refer back to themselves) are reported as
+ * violations instead of throwing.
+ */
+
+export interface SchemaViolation {
+  /** Location of the value, e.g. "options.units" or "tags[1]" ("" = the input itself) */
+  path: string;
+  message: string;
+}
+
+interface Schema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  patternProperties?: Record<string, Schema>;
+  items?: Schema | Schema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  allOf?: Schema[];
+  anyOf?: Schema[];
+  oneOf?: Schema[];
+  not?: Schema;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/** Deep equality of JSON values (object key order does not matter) */
+function equal(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeOf(a) !== typeOf(b) || typeof a !== 'object' || a === null) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((v, i) => equal(v, other[i]));
+  }
+  const ka = Object.keys(a);
+  const kb = Object.keys(b as object);
+  return (
+    ka.length === kb.length &&
+    ka.every((k) => equal((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]))
+  );
+}
+
+// Compiled schema patterns (null: not a valid regular expression)
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a schema pattern once. JSON Schema patterns are ECMA-262 regexes,
+ * but many schemas escape characters the "u" flag rejects (e.g. [\w-.]),
+ * so those are compiled without it.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  let re = patternCache.get(pattern);
+  if (re !== undefined) return re;
+  try {
+    re = new RegExp(pattern, 'u');
+  } catch {
+    try {
+      re = new RegExp(pattern);
+    } catch {
+      re = null;
+    }
+  }
+  patternCache.set(pattern, re);
+  return re;
+}
+
+function resolveRef(root: Schema, ref: string): Schema | undefined {
+  const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref);
+  if (!match) return undefined;
+  const defs = (root as Record<string, unknown>)[match[1]!] as Record<string, Schema> | undefined;
+  return defs?.[decodeURIComponent(match[2]!).replace(/~1/g, '/').replace(/~0/g, '~')];
+}
+
+/**
+ * Check value against schema, adding violations to out. refs holds the $refs
+ * already followed for this value: following one again without descending
+ * into the value would never end.
+ */
+function check(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  root: Schema,
+  out: SchemaViolation[],
+  refs: ReadonlySet<string> = new Set(),
+): void {
+  if (!schema || typeof schema !== 'object') return;
+
+  if (schema.$ref !== undefined) {
+    const target = resolveRef(root, schema.$ref);
+    if (!target) out.push({ path, message: `schema reference ${schema.$ref} cannot be resolved` });
+    else if (refs.has(schema.$ref)) out.push({ path, message: `schema reference ${schema.$ref} refers to itself` });
+    else check(target, value, path, root, out, new Set(refs).add(schema.$ref));
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      out.push({ path, message: `must be ${types.join(' or ')}, got ${typeOf(value)}` });
+      // Further keywords would only repeat the type mismatch
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((e) => equal(e, value))) {
+    out.push({ path, message: `must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(', ')}` });
+  }
+  if (schema.const !== undefined && !equal(schema.const, value)) {
+    out.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      out.push({ path, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      out.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+    }
+    if (schema.pattern !== undefined) {
+      const re = compilePattern(schema.pattern);
+      if (!re) out.push({ path, message: `schema pattern ${schema.pattern} is not a valid regular expression` });
+      else if (!re.test(value)) out.push({ path, message: `must match the pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      out.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      out.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      out.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      out.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+      out.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) out.push({ path: childPath(path, key), message: 'is required' });
+    }
+    const patterns: Array<readonly [RegExp, Schema]> = [];
+    for (const [pattern, s] of Object.entries(schema.patternProperties || {})) {
+      const re = compilePattern(pattern);
+      if (re) patterns.push([re, s]);
+      else out.push({ path, message: `schema pattern ${pattern} is not a valid regular expression` });
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      if (v === undefined) continue;
+      const propSchema = schema.properties?.[key];
+      const matching = patterns.filter(([re]) => re.test(key));
+      if (propSchema) check(propSchema, v, childPath(path, key), root, out);
+      for (const [, s] of matching) check(s, v, childPath(path, key), root, out);
+      if (propSchema || matching.length > 0 || schema.additionalProperties === undefined) continue;
+      if (schema.additionalProperties === false) {
+        out.push({ path: childPath(path, key), message: 'is not an allowed property' });
+      } else if (schema.additionalProperties !== true) {
+        check(schema.additionalProperties, v, childPath(path, key), root, out);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((s, i) => {
+        if (i < value.length) check(s, value[i], `${path}[${i}]`, root, out);
+      });
+    } else if (schema.items) {
+      value.forEach((item, i) => check(schema.items as Schema, item, `${path}[${i}]`, root, out));
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      out.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      out.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.uniqueItems && value.some((v, i) => value.findIndex((w) => equal(v, w)) !== i)) {
+      out.push({ path, message: 'must not contain duplicate items' });
+    }
+  }
+
+  for (const sub of schema.allOf || []) check(sub, value, path, root, out, refs);
+  const matching = (subs: Schema[]) => subs.filter((s) => validateAt(s, value, path, root, refs).length === 0).length;
+  if (schema.anyOf && matching(schema.anyOf) === 0) {
+    out.push({ path, message: 'must match at least one of the allowed schemas (anyOf)' });
+  }
+  if (schema.oneOf && matching(schema.oneOf) !== 1) {
+    out.push({ path, message: 'must match exactly one of the allowed schemas (oneOf)' });
+  }
+  if (schema.not && validateAt(schema.not, value, path, root, refs).length === 0) {
+    out.push({ path, message: 'must not match the excluded schema (not)' });
+  }
+}
+
+function validateAt(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  root: Schema,
+  refs?: ReadonlySet<string>,
+): SchemaViolation[] {
+  const out: SchemaViolation[] = [];
+  check(schema, value, path, root, out, refs);
+  return out;
+}
+
+/**
+ * Validate a value against a JSON Schema. Returns all violations, empty if valid.
+ */
+export function validateInput(schema: unknown, value: unknown): SchemaViolation[] {
+  return validateAt(schema as Schema, value, '', schema as Schema);
+}
+
+/**
+ * One-line summary of violations, e.g. "city: is required; days: must be integer, got string".
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map((v) => (v.path ? `${v.path}: ${v.message}` : v.message)).join('; ');
+}
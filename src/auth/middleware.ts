@@ -2,6 +2,9 @@
  * Authentication & Rate Limiting Middleware
  *
  * - Session-based auth with secure tokens
+ * - Long-lived API tokens for machine access (see tokens.ts)
+ * - Optional OIDC single sign-on (see oidc.ts)
+ * - TOTP two-factor authentication as second login step (see two-factor.ts)
  * - Password hashing via Node.js built-in crypto (no bcrypt dependency)
  * - Rate limiting per IP via SQLite
  * - Setup flow: first user becomes admin
@@ -11,6 +14,7 @@ import { Request, Response, NextFunction } from 'express';
 import * as crypto from 'crypto';
 import {
   getUserByUsername,
+  getUserById,
   createUser,
   getUserCount,
   createSession,
@@ -19,6 +23,11 @@ import {
   cleanExpiredSessions,
   checkRateLimit,
 } from '../db/sqlite';
+import { config } from '../config';
+import { AuthUser, Permission, isRole, getUserPermissions } from './permissions';
+import { isApiToken, authenticateApiToken } from './tokens';
+import { isOidcEnabled } from './oidc';
+import { isTwoFactorEnabled, createLoginChallenge, needsTwoFactorEnrollment } from './two-factor';
 
 // --- Password hashing (scrypt, no external deps) ---
 
@@ -41,16 +50,25 @@ function generateSessionId(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
-export function login(username: string, password: string): { token: string; expiresAt: string } | null {
+export function createUserSession(userId: number): { token: string; expiresAt: string } {
+  const token = generateSessionId();
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(); // 24h
+  createSession(token, userId, expiresAt);
+  return { token, expiresAt };
+}
+
+/** A session, or a challenge for the second factor (see completeTwoFactorLogin) */
+export type LoginResult = { token: string; expiresAt: string } | { twoFactorRequired: true; challenge: string };
+
+export function login(username: string, password: string): LoginResult | null {
   const user = getUserByUsername(username);
   if (!user) return null;
   if (!verifyPassword(password, user.password_hash)) return null;
+  // With SSO enabled, password login is break-glass for local admins only
+  if (isOidcEnabled() && config.oidc.localLogin === 'admin' && user.role !== 'admin') return null;
 
-  const token = generateSessionId();
-  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(); // 24h
-  createSession(token, user.id, expiresAt);
-
-  return { token, expiresAt };
+  if (isTwoFactorEnabled(user.id)) return { twoFactorRequired: true, challenge: createLoginChallenge(user.id) };
+  return createUserSession(user.id);
 }
 
 export function logout(token: string): void {
@@ -70,8 +88,11 @@ export function isSetupRequired(): boolean {
 
 // --- Middleware ---
 
+const PUBLIC_PATHS = ['/auth/login', '/auth/setup', '/auth/status', '/auth/oidc/login', '/auth/oidc/callback'];
+const ENROLLMENT_PATHS = ['/auth/me', '/auth/logout', '/auth/2fa'];
+
 /**
- * Auth middleware. Checks for session token in:
+ * Auth middleware. Accepts a session or API token (lgw_...) in:
  * 1. Authorization: Bearer <token>
  * 2. Cookie: session=<token>
  * 3. Query param: ?token=<token> (for WebSocket)
@@ -84,7 +105,7 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
   }
 
   // Skip auth for login/setup endpoints
-  if (req.path === '/auth/login' || req.path === '/auth/setup' || req.path === '/auth/status') {
+  if (PUBLIC_PATHS.includes(req.path)) {
     next();
     return;
   }
@@ -95,19 +116,99 @@ export function authMiddleware(req: Request, res: Response, next: NextFunction):
     return;
   }
 
+  if (isApiToken(token)) {
+    const tokenUser = authenticateApiToken(token);
+    if (!tokenUser) {
+      res.status(401).json({ error: 'Invalid, expired or revoked API token' });
+      return;
+    }
+    req.userId = tokenUser.id;
+    req.user = tokenUser;
+    next();
+    return;
+  }
+
   const session = getSession(token);
   if (!session) {
     res.status(401).json({ error: 'Invalid or expired session' });
     return;
   }
 
-  // Attach user info to request
-  (req as any).userId = session.user_id;
-  (req as any).sessionId = session.id;
+  const user = getUserById(session.user_id);
+  if (!user) {
+    res.status(401).json({ error: 'Invalid or expired session' });
+    return;
+  }
+
+  // Required 2FA not set up yet: only allow enrollment (and who am I / logout)
+  if (needsTwoFactorEnrollment(user) && !ENROLLMENT_PATHS.some((p) => req.path.startsWith(p))) {
+    res
+      .status(403)
+      .json({ error: 'Two-factor authentication must be set up first', twoFactorEnrollmentRequired: true });
+    return;
+  }
+
+  // Attach user info to request (unknown roles get the least privileges)
+  req.userId = session.user_id;
+  req.sessionId = session.id;
+  req.user = { id: user.id, username: user.username, role: isRole(user.role) ? user.role : 'viewer' };
 
   next();
 }
 
+/**
+ * The user of the API token in the Authorization header, for endpoints
+ * that accept API tokens only (/mcp, /v1). Session cookies are not
+ * accepted there, so other web pages the user visits cannot call them.
+ */
+export function getBearerTokenUser(req: Request): AuthUser | undefined {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : '';
+  return isApiToken(token) ? authenticateApiToken(token) : undefined;
+}
+
+/**
+ * Route middleware for endpoints that accept API tokens only (see
+ * getBearerTokenUser): attaches the token's user to the request like
+ * authMiddleware. Otherwise `reject` replies in the endpoint's own error
+ * format, with 401 (no valid token) or 403 (the token lacks `permission`).
+ */
+export function requireApiToken(
+  reject: (res: Response, status: 401 | 403, message: string) => void,
+  permission?: Permission,
+) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = getBearerTokenUser(req);
+    if (!user) {
+      reject(res, 401, 'A valid API token is required (Authorization: Bearer lgw_...)');
+      return;
+    }
+    if (permission && !getUserPermissions(user).includes(permission)) {
+      reject(res, 403, `Permission denied: API token lacks ${permission}`);
+      return;
+    }
+    req.userId = user.id;
+    req.user = user;
+    next();
+  };
+}
+
+/**
+ * The user of a WebSocket upgrade request, authenticated like the API
+ * (the dashboard passes its session as ?token=, scripts an API token).
+ * Users that still have to set up required 2FA get no user.
+ */
+export function getSocketUser(req: Request): AuthUser | undefined {
+  const token = extractToken(req);
+  if (!token) return undefined;
+  if (isApiToken(token)) return authenticateApiToken(token);
+
+  const session = getSession(token);
+  const user = session ? getUserById(session.user_id) : undefined;
+  if (!user || needsTwoFactorEnrollment(user)) return undefined;
+  return { id: user.id, username: user.username, role: isRole(user.role) ? user.role : 'viewer' };
+}
+
 function extractToken(req: Request): string | null {
   // Bearer token
   const authHeader = req.headers.authorization;
@@ -169,4 +270,4 @@ setInterval(
     }
   },
   60 * 60 * 1000,
-); // Every hour
+).unref(); // Every hour (does not keep the process alive)
@@ -0,0 +1,227 @@
+/**
+ * OIDC Single Sign-On - Dashboard login via an OpenID Connect provider.
+ *
+ * Authorization code flow with PKCE (S256), configured via OIDC_* env vars:
+ * 1. /api/auth/oidc/login redirects to the IdP with state, nonce and code challenge
+ * 2. /api/auth/oidc/callback exchanges the code, verifies the ID token
+ *    (JWKS signature, issuer, audience, expiry, nonce) and starts a session
+ *
+ * Users are linked by their IdP subject and created on first login. Their
+ * role follows the IdP groups on every login (OIDC_ROLE_MAPPING), except
+ * that the last admin stays admin. SSO users have no local password; local
+ * admins keep password login as break-glass.
+ */
+
+import * as crypto from 'crypto';
+import { config } from '../config';
+import { getUserByUsername, getUserByExternalId, createExternalUser, countUsersWithRole } from '../db/sqlite';
+import { createUserSession } from './middleware';
+import { updateUser } from './users';
+import { AuthUser, Role, ROLES, isRole } from './permissions';
+
+const PROVIDER = 'oidc';
+
+// Pending logins expire after 10 minutes
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+export interface OidcLoginResult {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+  /** True if the local user was created by this login */
+  created: boolean;
+}
+
+const pendingLogins = new Map<string, PendingLogin>();
+let discoveryCache: { issuer: string; discovery: OidcDiscovery } | undefined;
+let jwksCache: { uri: string; keys: Array<Record<string, unknown>> } | undefined;
+
+export function isOidcEnabled(): boolean {
+  return !!(config.oidc.issuer && config.oidc.clientId);
+}
+
+/**
+ * Map IdP groups to a gateway role: the highest mapped role wins, users
+ * without a mapped group get OIDC_DEFAULT_ROLE (undefined for "none").
+ */
+export function resolveOidcRole(groups: string[]): Role | undefined {
+  const mapped: Role[] = [];
+  for (const entry of config.oidc.roleMapping.split(',')) {
+    const [group, role] = entry.split('=').map((s) => s.trim());
+    if (group && isRole(role) && groups.includes(group)) mapped.push(role);
+  }
+  if (mapped.length > 0) return ROLES.find((r) => mapped.includes(r));
+  return isRole(config.oidc.defaultRole) ? config.oidc.defaultRole : undefined;
+}
+
+function base64url(buf: Buffer): string {
+  return buf.toString('base64url');
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(10000) });
+  const body = await res.text();
+  if (!res.ok) throw new Error(`OIDC request to ${url} failed (${res.status}): ${body.slice(0, 200)}`);
+  return JSON.parse(body) as T;
+}
+
+async function getDiscovery(): Promise<OidcDiscovery> {
+  const issuer = config.oidc.issuer;
+  if (discoveryCache?.issuer === issuer) return discoveryCache.discovery;
+
+  const discovery = await fetchJson<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`);
+  if (discovery.issuer?.replace(/\/+$/, '') !== issuer) {
+    throw new Error(`OIDC issuer mismatch: configured ${issuer}, provider reports ${discovery.issuer}`);
+  }
+  discoveryCache = { issuer, discovery };
+  return discovery;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = () => jwksCache?.keys.find((k) => (kid ? k.kid === kid : k.use !== 'enc'));
+  // Refetch on unknown key IDs (key rotation)
+  if (jwksCache?.uri !== jwksUri || !find()) {
+    const jwks = await fetchJson<{ keys?: Array<Record<string, unknown>> }>(jwksUri);
+    jwksCache = { uri: jwksUri, keys: jwks.keys || [] };
+  }
+  const jwk = find();
+  if (!jwk) throw new Error(`OIDC signing key ${kid ?? ''} not found`);
+  return crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+}
+
+/**
+ * Verify an ID token (RS256 or ES256) and return its claims.
+ */
+async function verifyIdToken(
+  idToken: string,
+  discovery: OidcDiscovery,
+  nonce: string,
+): Promise<Record<string, unknown>> {
+  const [headerPart, payloadPart, signaturePart] = idToken.split('.');
+  if (!headerPart || !payloadPart || !signaturePart) throw new Error('Malformed ID token');
+
+  const header = JSON.parse(Buffer.from(headerPart, 'base64url').toString());
+  const key = await getSigningKey(discovery.jwks_uri, header.kid);
+  const data = Buffer.from(`${headerPart}.${payloadPart}`);
+  const signature = Buffer.from(signaturePart, 'base64url');
+  let valid: boolean;
+  if (header.alg === 'RS256') {
+    valid = crypto.verify('sha256', data, key, signature);
+  } else if (header.alg === 'ES256') {
+    valid = crypto.verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } else {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+  if (!valid) throw new Error('Invalid ID token signature');
+
+  const claims = JSON.parse(Buffer.from(payloadPart, 'base64url').toString()) as Record<string, unknown>;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.iss !== discovery.issuer) throw new Error('ID token issuer mismatch');
+  if (!audiences.includes(config.oidc.clientId)) throw new Error('ID token audience mismatch');
+  if (claims.azp && claims.azp !== config.oidc.clientId) throw new Error('ID token authorized party mismatch');
+  if (typeof claims.exp !== 'number' || claims.exp < now - 60) throw new Error('ID token expired');
+  if (claims.nonce !== nonce) throw new Error('ID token nonce mismatch');
+  if (!claims.sub) throw new Error('ID token has no subject');
+  return claims;
+}
+
+/**
+ * Start a login: remember state, nonce and PKCE verifier and return the
+ * IdP authorization URL to redirect the browser to.
+ */
+export async function startOidcLogin(redirectUri: string): Promise<string> {
+  if (!isOidcEnabled()) throw new Error('OIDC login is not configured');
+  const discovery = await getDiscovery();
+
+  const now = Date.now();
+  for (const [state, pending] of pendingLogins) {
+    if (now - pending.createdAt > STATE_TTL_MS) pendingLogins.delete(state);
+  }
+
+  const state = base64url(crypto.randomBytes(16));
+  const nonce = base64url(crypto.randomBytes(16));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  pendingLogins.set(state, { codeVerifier, nonce, redirectUri, createdAt: now });
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.oidc.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', config.oidc.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', base64url(crypto.createHash('sha256').update(codeVerifier).digest()));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+/**
+ * Finish a login from the IdP callback: exchange the code, verify the ID
+ * token, create or update the local user and start a session.
+ */
+export async function completeOidcLogin(code: string, state: string): Promise<OidcLoginResult> {
+  const pending = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!pending || Date.now() - pending.createdAt > STATE_TTL_MS) throw new Error('Unknown or expired login state');
+
+  const discovery = await getDiscovery();
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirectUri,
+    client_id: config.oidc.clientId,
+    code_verifier: pending.codeVerifier,
+  });
+  if (config.oidc.clientSecret) form.set('client_secret', config.oidc.clientSecret);
+  const tokens = await fetchJson<{ id_token?: unknown }>(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form.toString(),
+  });
+  if (typeof tokens.id_token !== 'string') throw new Error('Token response contains no ID token');
+
+  const claims = await verifyIdToken(tokens.id_token, discovery, pending.nonce);
+  const rawGroups = claims[config.oidc.groupsClaim];
+  const groups: string[] = Array.isArray(rawGroups) ? rawGroups.map(String) : rawGroups ? [String(rawGroups)] : [];
+  let role = resolveOidcRole(groups);
+  if (!role) throw new Error('Your account is not in a group with access to the gateway');
+
+  const sub = String(claims.sub);
+  let user = getUserByExternalId(PROVIDER, sub);
+  const created = !user;
+  if (user) {
+    if (user.role === 'admin' && role !== 'admin' && countUsersWithRole('admin') <= 1) {
+      // The gateway must keep an admin: the last one keeps the role until another exists
+      console.warn(`[oidc] ${user.username} is the last admin, keeping the role instead of ${role}`);
+      role = 'admin';
+    } else if (user.role !== role) {
+      // Ends the user's sessions, so the new role applies immediately
+      updateUser(user.id, { role });
+    }
+  } else {
+    const username = String(claims[config.oidc.usernameClaim] || claims.email || sub);
+    if (getUserByUsername(username)) {
+      throw new Error(`Username ${username} is already taken by another account`);
+    }
+    createExternalUser(username, role, PROVIDER, sub);
+    user = getUserByExternalId(PROVIDER, sub)!;
+  }
+
+  const session = createUserSession(user.id);
+  return { ...session, user: { id: user.id, username: user.username, role }, created };
+}
@@ -0,0 +1,130 @@
+/**
+ * Role-Based Access Control
+ *
+ * Every user has one role. Roles grant permissions, and each API route
+ * requires one permission (see requirePermission in gateway/api.ts):
+ * - admin:    everything, incl. users, audit log, agent groups, skills, prices and approval rules
+ * - operator: read everything, manage channels, scheduler jobs, loop tasks and runs, message agent groups
+ * - approver: HITL only (read and answer approval requests)
+ * - viewer:   read-only
+ *
+ * API tokens act as their user, narrowed to the token's scopes.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { isSetupRequired } from './middleware';
+
+export type Role = 'admin' | 'operator' | 'approver' | 'viewer';
+
+export const ROLES: Role[] = ['admin', 'operator', 'approver', 'viewer'];
+
+export type Permission =
+  | 'read' // dashboard data: channels, runs, usage, groups, skills, scheduler, ...
+  | 'channels:manage'
+  | 'jobs:manage' // scheduler jobs, calendars, loop tasks, run cancellation
+  | 'messages:send' // run agent groups directly (MCP server, OpenAI-compatible API)
+  | 'approvals:read'
+  | 'approvals:respond'
+  | 'config:manage' // agent groups, skills, prices, approval rules
+  | 'users:manage'
+  | 'audit:read';
+
+export const PERMISSIONS: Permission[] = [
+  'read',
+  'channels:manage',
+  'jobs:manage',
+  'messages:send',
+  'approvals:read',
+  'approvals:respond',
+  'config:manage',
+  'users:manage',
+  'audit:read',
+];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'read',
+    'channels:manage',
+    'jobs:manage',
+    'messages:send',
+    'approvals:read',
+    'approvals:respond',
+    'config:manage',
+    'users:manage',
+    'audit:read',
+  ],
+  operator: ['read', 'channels:manage', 'jobs:manage', 'messages:send', 'approvals:read'],
+  approver: ['approvals:read', 'approvals:respond'],
+  viewer: ['read', 'approvals:read'],
+};
+
+/** The authenticated user of a request (attached by authMiddleware) */
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: Role;
+  /** Set when authenticated by an API token (see auth/tokens.ts) */
+  tokenId?: string;
+  /** Token scopes; permissions are limited to role ∩ scopes */
+  scopes?: Permission[];
+}
+
+// Set on the request by authMiddleware and requireApiToken
+declare module 'express-serve-static-core' {
+  interface Request {
+    userId?: number;
+    sessionId?: string;
+    user?: AuthUser;
+  }
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function getRolePermissions(role: Role): Permission[] {
+  return ROLE_PERMISSIONS[role] ?? [];
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
+
+/** Permissions a user effectively has, taking API token scopes into account */
+export function getUserPermissions(user: AuthUser): Permission[] {
+  const granted = getRolePermissions(user.role);
+  return user.scopes ? granted.filter((p) => user.scopes!.includes(p)) : granted;
+}
+
+export function getRequestUser(req: Request): AuthUser | undefined {
+  return req.user;
+}
+
+/**
+ * Route middleware: allow the request only if the user's role grants the
+ * permission. Open during setup (no users yet), like authMiddleware.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (isSetupRequired()) {
+      next();
+      return;
+    }
+
+    const user = getRequestUser(req);
+    if (!user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    if (!hasPermission(user.role, permission)) {
+      res.status(403).json({ error: `Permission denied: role ${user.role} lacks ${permission}` });
+      return;
+    }
+    if (user.scopes && !user.scopes.includes(permission)) {
+      res.status(403).json({ error: `Permission denied: API token lacks scope ${permission}` });
+      return;
+    }
+
+    next();
+  };
+}
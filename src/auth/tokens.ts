@@ -0,0 +1,139 @@
+/**
+ * API Tokens - Long-lived, named, revocable tokens for machine access.
+ *
+ * A token acts on behalf of the user who created it, limited to its scopes:
+ * a request is allowed only if both the user's role and the token's scopes
+ * grant the route's permission. Tokens are shown once on creation; only a
+ * SHA-256 hash is stored (they are random 256-bit values, so a plain hash
+ * is sufficient). Tokens are sent like session tokens (Bearer header).
+ */
+
+import * as crypto from 'crypto';
+import { v4 as uuid } from 'uuid';
+import {
+  insertApiToken,
+  getApiTokenById,
+  getActiveApiTokenByHash,
+  getApiTokens,
+  touchApiToken,
+  revokeApiToken as revokeApiTokenRow,
+  getUserById,
+  ApiTokenRow,
+} from '../db/sqlite';
+import { AuthUser, Permission, PERMISSIONS, Role, isRole, getRolePermissions } from './permissions';
+
+/** Distinguishes API tokens from session tokens */
+export const API_TOKEN_PREFIX = 'lgw_';
+
+const DEFAULT_EXPIRY_DAYS = 90;
+const MAX_EXPIRY_DAYS = 3650;
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** First characters of the token, to recognize it in lists */
+  prefix: string;
+  userId: number;
+  scopes: Permission[];
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+function rowToToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.token_prefix,
+    userId: row.user_id,
+    scopes: JSON.parse(row.scopes || '[]'),
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at || undefined,
+    revokedAt: row.revoked_at || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Create a token for a user. Scopes must be permissions the user's role has.
+ * Returns the token record and the plain token (not retrievable later).
+ */
+export function createApiToken(
+  owner: { id: number; role: Role },
+  input: { name: string; scopes: string[]; expiresInDays?: number },
+): { token: string; apiToken: ApiToken } {
+  const name = input.name?.trim();
+  if (!name) throw new Error('name is required');
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    throw new Error(`scopes must be a non-empty array of: ${PERMISSIONS.join(', ')}`);
+  }
+  const granted = getRolePermissions(owner.role);
+  for (const scope of input.scopes) {
+    if (!(PERMISSIONS as string[]).includes(scope)) throw new Error(`Unknown scope: ${scope}`);
+    if (!granted.includes(scope as Permission)) throw new Error(`Role ${owner.role} cannot grant scope ${scope}`);
+  }
+  const expiresInDays = input.expiresInDays ?? DEFAULT_EXPIRY_DAYS;
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+    throw new Error(`expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}`);
+  }
+
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const id = uuid();
+  insertApiToken({
+    id,
+    name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+    userId: owner.id,
+    scopes: [...new Set(input.scopes)],
+    expiresInDays,
+  });
+
+  return { token, apiToken: rowToToken(getApiTokenById(id)!) };
+}
+
+/**
+ * Tokens of a user, or of all users when userId is omitted.
+ */
+export function listApiTokens(userId?: number): ApiToken[] {
+  return getApiTokens(userId).map(rowToToken);
+}
+
+export function getApiToken(id: string): ApiToken | undefined {
+  const row = getApiTokenById(id);
+  return row ? rowToToken(row) : undefined;
+}
+
+export function revokeApiToken(id: string): boolean {
+  return revokeApiTokenRow(id);
+}
+
+/**
+ * Resolve a presented API token to the acting user (with the token's
+ * scopes) and record its use. Returns undefined for unknown, revoked or
+ * expired tokens, and for tokens whose user no longer exists.
+ */
+export function authenticateApiToken(token: string): AuthUser | undefined {
+  const row = getActiveApiTokenByHash(hashToken(token));
+  if (!row) return undefined;
+  const user = getUserById(row.user_id);
+  if (!user) return undefined;
+
+  touchApiToken(row.id);
+  return {
+    id: user.id,
+    username: user.username,
+    role: isRole(user.role) ? user.role : 'viewer',
+    tokenId: row.id,
+    scopes: JSON.parse(row.scopes || '[]'),
+  };
+}
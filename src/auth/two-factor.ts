@@ -0,0 +1,260 @@
+/**
+ * Two-Factor Authentication - TOTP (RFC 6238) for local dashboard accounts.
+ *
+ * - Enrollment: a new secret (stored AES-encrypted) is shown as QR code and
+ *   only becomes active once the user confirms a code from their app
+ * - Login: after the password, /auth/login returns a short-lived challenge
+ *   that is exchanged for a session with a TOTP or recovery code
+ * - Recovery codes: 10 one-time codes, stored as SHA-256 hashes
+ * - Enforcement: admins can require 2FA for all local users; until they
+ *   enroll, their sessions only reach the enrollment endpoints
+ *
+ * SSO users get their second factor from the IdP, API tokens are not affected.
+ */
+
+import * as crypto from 'crypto';
+import QRCode from 'qrcode';
+import {
+  getUserById,
+  getUserTotp,
+  updateUserTotp,
+  replaceRecoveryCodes,
+  useRecoveryCode,
+  countRecoveryCodes,
+  getSetting,
+  setSetting,
+} from '../db/sqlite';
+import { encrypt, decrypt } from '../agent/groups/encryption';
+import { createUserSession } from './middleware';
+
+const ISSUER = 'Loop Gateway';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept codes from one step before/after (clock drift)
+const WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+// Login challenges between password and second factor
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+const REQUIRED_SETTING = 'two_factor_required';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const loginChallenges = new Map<string, { userId: number; createdAt: number; attempts: number }>();
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  /** Admins require 2FA for all local users */
+  required: boolean;
+}
+
+// --- TOTP primitives ---
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** TOTP code of a base32 secret for a time step (HMAC-SHA1, 6 digits) */
+export function generateTotp(secret: string, step = Math.floor(Date.now() / 1000 / STEP_SECONDS)): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * Time step a code is valid for (within the drift window), or undefined.
+ * Steps up to lastStep were already used and are rejected (no replays).
+ */
+function matchTotp(secret: string, code: string, lastStep: number): number | undefined {
+  if (!/^\d{6}$/.test(code)) return undefined;
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - WINDOW; step <= current + WINDOW; step++) {
+    if (step <= lastStep) continue;
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+  }
+  return undefined;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(code.toLowerCase().replace(/[^a-z0-9]/g, ''))
+    .digest('hex');
+}
+
+function generateRecoveryCodes(userId: number): string[] {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+// --- Enrollment ---
+
+export function getTwoFactorStatus(userId: number): TwoFactorStatus {
+  const totp = getUserTotp(userId);
+  return {
+    enabled: totp?.totp_enabled === 1,
+    recoveryCodesLeft: countRecoveryCodes(userId),
+    required: isTwoFactorRequired(),
+  };
+}
+
+/**
+ * Start (or restart) enrollment: store a new, not yet active secret and
+ * return it with the otpauth:// URI as QR code data URL.
+ */
+export async function beginTwoFactorEnrollment(
+  userId: number,
+): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const user = getUserById(userId);
+  if (!user) throw new Error('User not found');
+  if (user.auth_provider !== 'local') throw new Error('Single sign-on users use the second factor of their IdP');
+  if (user.totp_enabled) throw new Error('Two-factor authentication is already enabled');
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  updateUserTotp(userId, { secret: encrypt(secret), lastStep: 0 });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { width: 256, margin: 2 });
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Activate 2FA with a code from the authenticator app. Returns the
+ * recovery codes (shown once).
+ */
+export function confirmTwoFactorEnrollment(userId: number, code: string): string[] {
+  const totp = getUserTotp(userId);
+  if (!totp?.totp_secret) throw new Error('Start the enrollment first');
+  if (totp.totp_enabled) throw new Error('Two-factor authentication is already enabled');
+
+  const step = matchTotp(decrypt(totp.totp_secret), String(code || '').trim(), totp.totp_last_step);
+  if (step === undefined) throw new Error('Invalid code');
+  updateUserTotp(userId, { enabled: true, lastStep: step });
+  return generateRecoveryCodes(userId);
+}
+
+export function disableTwoFactor(userId: number): void {
+  updateUserTotp(userId, { secret: null, enabled: false, lastStep: 0 });
+  replaceRecoveryCodes(userId, []);
+}
+
+export function regenerateRecoveryCodes(userId: number): string[] {
+  if (!getUserTotp(userId)?.totp_enabled) throw new Error('Two-factor authentication is not enabled');
+  return generateRecoveryCodes(userId);
+}
+
+/**
+ * Check a second factor: a TOTP code (each time step once) or an unused
+ * recovery code (consumed).
+ */
+export function verifySecondFactor(userId: number, code: string): boolean {
+  const totp = getUserTotp(userId);
+  if (!totp?.totp_enabled || !totp.totp_secret) return false;
+  const trimmed = String(code || '').trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = matchTotp(decrypt(totp.totp_secret), trimmed, totp.totp_last_step);
+    if (step === undefined) return false;
+    updateUserTotp(userId, { lastStep: step });
+    return true;
+  }
+  return useRecoveryCode(userId, hashRecoveryCode(trimmed));
+}
+
+// --- Login challenge ---
+
+export function isTwoFactorEnabled(userId: number): boolean {
+  return getUserTotp(userId)?.totp_enabled === 1;
+}
+
+/** Challenge for a user whose password was verified, exchanged in completeTwoFactorLogin */
+export function createLoginChallenge(userId: number): string {
+  const now = Date.now();
+  for (const [id, challenge] of loginChallenges) {
+    if (now - challenge.createdAt > CHALLENGE_TTL_MS) loginChallenges.delete(id);
+  }
+  const challenge = crypto.randomBytes(32).toString('hex');
+  loginChallenges.set(challenge, { userId, createdAt: now, attempts: 0 });
+  return challenge;
+}
+
+/** Thrown by completeTwoFactorLogin when the user has to sign in again */
+export class LoginExpiredError extends Error {
+  constructor() {
+    super('Login expired, please sign in again');
+    this.name = 'LoginExpiredError';
+  }
+}
+
+/**
+ * Second login step. Returns a session, or null for a wrong code. Throws
+ * LoginExpiredError when the challenge is unknown, expired or out of attempts.
+ */
+export function completeTwoFactorLogin(challenge: string, code: string): { token: string; expiresAt: string } | null {
+  const pending = loginChallenges.get(challenge);
+  if (!pending || Date.now() - pending.createdAt > CHALLENGE_TTL_MS || pending.attempts >= CHALLENGE_MAX_ATTEMPTS) {
+    loginChallenges.delete(challenge);
+    throw new LoginExpiredError();
+  }
+  pending.attempts++;
+  if (!verifySecondFactor(pending.userId, code)) return null;
+
+  loginChallenges.delete(challenge);
+  return createUserSession(pending.userId);
+}
+
+// --- Enforcement ---
+
+export function isTwoFactorRequired(): boolean {
+  return getSetting(REQUIRED_SETTING) === 'true';
+}
+
+export function setTwoFactorRequired(required: boolean): void {
+  setSetting(REQUIRED_SETTING, String(required));
+}
+
+/** Local users without 2FA while it is required can only enroll */
+export function needsTwoFactorEnrollment(user: { auth_provider: string; totp_enabled: number }): boolean {
+  return user.auth_provider === 'local' && !user.totp_enabled && isTwoFactorRequired();
+}
@@ -0,0 +1,105 @@
+/**
+ * User Management - Local gateway users and their roles.
+ *
+ * At least one admin always remains: the last admin can neither be deleted
+ * nor demoted. Changing a user's password or role ends their sessions, so
+ * the change applies immediately.
+ */
+
+import {
+  getUserByUsername,
+  getUserById,
+  getAllUsers,
+  createUser as insertUser,
+  updateUser as updateUserRow,
+  deleteUser as deleteUserRow,
+  deleteUserSessions,
+  countUsersWithRole,
+  UserRow,
+} from '../db/sqlite';
+import { hashPassword } from './middleware';
+import { Role, isRole, ROLES } from './permissions';
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  /** "local" (password) or "oidc" (single sign-on, role follows IdP groups) */
+  authProvider: string;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function rowToUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    role: isRole(row.role) ? row.role : 'viewer',
+    authProvider: row.auth_provider || 'local',
+    twoFactorEnabled: row.totp_enabled === 1,
+    createdAt: row.created_at,
+  };
+}
+
+function validateRole(role: unknown): Role {
+  if (!isRole(role)) throw new Error(`Invalid role: ${String(role)} (expected one of ${ROLES.join(', ')})`);
+  return role;
+}
+
+function validatePassword(password: unknown): string {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return password;
+}
+
+export function listUsers(): User[] {
+  return getAllUsers().map(rowToUser);
+}
+
+export function getUser(id: number): User | undefined {
+  const row = getUserById(id);
+  return row ? rowToUser(row) : undefined;
+}
+
+export function createUser(input: { username: string; password: string; role: Role }): User {
+  const username = input.username?.trim();
+  if (!username) throw new Error('username is required');
+  const password = validatePassword(input.password);
+  const role = validateRole(input.role);
+  if (getUserByUsername(username)) throw new Error(`User ${username} already exists`);
+
+  const id = insertUser(username, hashPassword(password), role);
+  return getUser(id)!;
+}
+
+/**
+ * Change a user's role and/or password. Returns undefined if the user does
+ * not exist.
+ */
+export function updateUser(id: number, input: { role?: Role; password?: string }): User | undefined {
+  const existing = getUser(id);
+  if (!existing) return undefined;
+
+  const role = input.role !== undefined ? validateRole(input.role) : undefined;
+  const password = input.password !== undefined ? validatePassword(input.password) : undefined;
+  if (password && existing.authProvider !== 'local') throw new Error('Single sign-on users have no local password');
+  if (role && role !== 'admin' && existing.role === 'admin' && countUsersWithRole('admin') <= 1) {
+    throw new Error('Cannot change the role of the last admin');
+  }
+
+  updateUserRow(id, { role, passwordHash: password ? hashPassword(password) : undefined });
+  if ((role !== undefined && role !== existing.role) || password !== undefined) deleteUserSessions(id);
+  return getUser(id);
+}
+
+export function deleteUser(id: number): boolean {
+  const existing = getUser(id);
+  if (!existing) return false;
+  if (existing.role === 'admin' && countUsersWithRole('admin') <= 1) {
+    throw new Error('Cannot delete the last admin');
+  }
+  return deleteUserRow(id);
+}
@@ -9,6 +9,20 @@ export interface IncomingMessage {
   chatTitle?: string;
 }
 
+/**
+ * Progressive reply handle returned by adapters that can edit or append to a
+ * message while the agent is still generating. The channel manager feeds it
+ * text deltas and tool progress, then calls finish() with the complete reply.
+ */
+export interface ReplyStream {
+  /** Append a text delta produced by the model */
+  append(delta: string): void;
+  /** Show transient tool progress (e.g. "Running web_browse...") */
+  status(text: string): void;
+  /** Deliver the final reply. Must leave the full text visible to the user. */
+  finish(text: string): Promise<void>;
+}
+
 /**
  * Base class for all channel adapters.
  * Emits 'message' events when incoming messages arrive.
@@ -43,6 +57,15 @@ export abstract class ChannelAdapter extends EventEmitter {
     );
   }
 
+  /**
+   * Open a progressive reply for a chat (edit/append message capability).
+   * Adapters that cannot edit or append return undefined (the default), and the
+   * manager falls back to a single sendMessage() once the run completes.
+   */
+  createReplyStream(_externalChatId: string): ReplyStream | undefined {
+    return undefined;
+  }
+
   /** Override to return channel-specific status info (e.g. QR code for WhatsApp) */
   getStatusInfo(): Record<string, unknown> {
     return {};
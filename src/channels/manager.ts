@@ -1,6 +1,6 @@
 import { v4 as uuid } from 'uuid';
 import QRCode from 'qrcode';
-import { ChannelAdapter, IncomingMessage } from './base';
+import { ChannelAdapter, IncomingMessage, ReplyStream } from './base';
 import { TelegramAdapter, TelegramConfig } from './telegram';
 import { WhatsAppAdapter } from './whatsapp';
 import { EmailAdapter, EmailConfig } from './email';
@@ -17,10 +17,12 @@ import {
   clearConversationMessages,
   countConversationMessages,
 } from '../db/sqlite';
-import { processMessage } from '../agent/loop';
+import { processMessage, cancelRun, getActiveRunIds, RunCancelledError } from '../agent/loop';
 import { resolveAgentConfig, checkGroupBudget } from '../agent/groups/resolver';
+import { checkBudgetAlerts } from '../agent/groups/budget';
 import { getSystemPrompt } from '../agent/loop';
 import { respondToApproval, approvalEvents } from '../agent/hitl';
+import { clearConversationContext, getContextStats } from '../agent/context-manager';
 import { EventEmitter } from 'events';
 
 export const channelManagerEvents = new EventEmitter();
@@ -234,6 +236,7 @@ async function startChannel(ch: ChannelRow): Promise<void> {
       if (msg.text.match(/^\/reset$/i)) {
         const convId = getOrCreateConversation(msg.channelId, msg.externalChatId, msg.chatTitle);
         const deleted = clearConversationMessages(convId);
+        clearConversationContext(convId);
         console.log(`[manager] Conversation reset by ${msg.sender}: ${deleted} message(s) cleared`);
         await adapter.sendMessage(msg.externalChatId, `Conversation reset. ${deleted} message(s) cleared.`);
         return;
@@ -242,7 +245,28 @@ async function startChannel(ch: ChannelRow): Promise<void> {
       if (msg.text.match(/^\/status$/i)) {
         const convId = getOrCreateConversation(msg.channelId, msg.externalChatId, msg.chatTitle);
         const count = countConversationMessages(convId);
-        await adapter.sendMessage(msg.externalChatId, `Conversation has ${count} message(s) in history.`);
+        const stats = getContextStats(convId);
+        const summaryNote = stats.hasSummary ? ', older turns summarized' : '';
+        await adapter.sendMessage(
+          msg.externalChatId,
+          `Conversation has ${count} message(s) in history (~${stats.historyTokens} tokens in context${summaryNote}).`,
+        );
+        return;
+      }
+
+      if (msg.text.match(/^\/stop$/i)) {
+        const convId = getOrCreateConversation(msg.channelId, msg.externalChatId, msg.chatTitle);
+        const dropped = messageQueue.get(convId)?.length || 0;
+        messageQueue.delete(convId);
+        const runIds = getActiveRunIds(convId);
+        for (const runId of runIds) cancelRun(runId);
+        console.log(`[manager] /stop by ${msg.sender}: ${runIds.length} run(s) cancelled, ${dropped} queued message(s) dropped`);
+        // A cancelled run replies "Run cancelled." itself
+        if (runIds.length === 0) {
+          await adapter.sendMessage(msg.externalChatId, 'Nothing is running right now.');
+        } else if (dropped > 0) {
+          await adapter.sendMessage(msg.externalChatId, `${dropped} queued message(s) discarded.`);
+        }
         return;
       }
       // --- End chat management commands ---
@@ -333,6 +357,7 @@ async function handleConversationMessage(
   adapter: ChannelAdapter,
   enabledTools?: string[],
 ): Promise<void> {
+  let stream: ReplyStream | undefined;
   try {
     const agentConfig = resolveAgentConfig(msg.channelId, getSystemPrompt());
 
@@ -340,11 +365,19 @@ async function handleConversationMessage(
       const budgetError = checkGroupBudget(agentConfig.groupId);
       if (budgetError) {
         console.warn(`[manager] Budget exceeded for group ${agentConfig.groupId}: ${budgetError}`);
+        // Alerts fire after each run; this catches budgets lowered below the current usage
+        checkBudgetAlerts(agentConfig.groupId).catch((err) =>
+          console.error('[manager] Budget alert check failed:', err),
+        );
         await adapter.sendMessage(msg.externalChatId, `Budget limit reached: ${budgetError}`);
         return;
       }
     }
 
+    // Progressive replies for adapters that can edit/append (Telegram, Webhook SSE)
+    const replyStream = adapter.createReplyStream(msg.externalChatId);
+    stream = replyStream;
+
     const reply = await processMessage(
       conversationId,
       msg.text,
@@ -352,8 +385,20 @@ async function handleConversationMessage(
       msg.sender,
       enabledTools,
       agentConfig,
+      {
+        onStream: replyStream
+          ? (event) => {
+              if (event.type === 'text') replyStream.append(event.text);
+              else if (event.type === 'tool_call') replyStream.status(`Running ${event.tool}...`);
+            }
+          : undefined,
+      },
     );
-    await adapter.sendMessage(msg.externalChatId, reply);
+    if (replyStream) {
+      await replyStream.finish(reply);
+    } else {
+      await adapter.sendMessage(msg.externalChatId, reply);
+    }
 
     channelManagerEvents.emit('message:reply', {
       channelId: msg.channelId,
@@ -362,12 +407,15 @@ async function handleConversationMessage(
       groupId: agentConfig.groupId,
     });
   } catch (err) {
-    console.error(`[manager] Failed to process/reply:`, err);
+    const cancelled = err instanceof RunCancelledError;
+    if (!cancelled) console.error(`[manager] Failed to process/reply:`, err);
     try {
-      await adapter.sendMessage(
-        msg.externalChatId,
-        'Sorry, an error occurred while processing your message. Please try again.',
-      );
+      const errorText = cancelled
+        ? 'Run cancelled.'
+        : 'Sorry, an error occurred while processing your message. Please try again.';
+      // Replace a partially streamed draft instead of leaving it dangling
+      if (stream) await stream.finish(errorText);
+      else await adapter.sendMessage(msg.externalChatId, errorText);
     } catch {
       // ignore send failure
     }
@@ -1,7 +1,12 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { ChannelAdapter, IncomingMessage } from './base';
+import { ChannelAdapter, IncomingMessage, ReplyStream } from './base';
 import { respondToApproval } from '../agent/hitl';
 
+// Telegram limit is 4096 chars per message; leave headroom for markup
+const MAX_MESSAGE_LENGTH = 4000;
+// Minimum delay between progressive edits (editMessageText is rate-limited)
+const STREAM_EDIT_INTERVAL_MS = 1500;
+
 export interface TelegramConfig {
   botToken: string;
   allowedUsers: string[];
@@ -202,43 +207,136 @@ export class TelegramAdapter extends ChannelAdapter {
   async sendMessage(externalChatId: string, text: string): Promise<void> {
     if (!this.bot) throw new Error('Telegram bot not connected');
 
-    const html = markdownToTelegramHtml(text);
+    for (const chunk of splitHtml(markdownToTelegramHtml(text))) {
+      await this.sendHtmlChunk(externalChatId, chunk);
+    }
+  }
 
-    // Split long messages (Telegram limit: 4096 chars)
-    const maxLen = 4000;
-    const chunks: string[] = [];
-    if (html.length <= maxLen) {
-      chunks.push(html);
-    } else {
-      // Split on double newlines to avoid breaking mid-tag
-      let current = '';
-      for (const paragraph of html.split('\n\n')) {
-        if (current.length + paragraph.length + 2 > maxLen) {
-          if (current) chunks.push(current);
-          current = paragraph;
-        } else {
-          current = current ? current + '\n\n' + paragraph : paragraph;
+  /**
+   * Progressive reply: the first text delta sends a plain-text draft message,
+   * later deltas edit it in place (throttled). finish() replaces the draft with
+   * the final HTML-formatted reply and sends any overflow as extra messages.
+   */
+  override createReplyStream(externalChatId: string): ReplyStream | undefined {
+    if (!this.bot) return undefined;
+    const bot = this.bot;
+
+    let text = '';
+    let statusLine = '';
+    let lastRendered = '';
+    let messageId: number | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let pending: Promise<void> = Promise.resolve();
+
+    const render = (): string => {
+      // Keep the tail visible once the draft outgrows a single message
+      const room = MAX_MESSAGE_LENGTH - 200;
+      const body = text.length > room ? '...' + text.slice(-room) : text;
+      return statusLine ? `${body}\n\n${statusLine}`.trim() : body;
+    };
+
+    const flush = (): void => {
+      timer = undefined;
+      const rendered = render();
+      if (!rendered || rendered === lastRendered) return;
+      lastRendered = rendered;
+      pending = pending
+        .then(async () => {
+          if (messageId === undefined) {
+            const sent = await bot.sendMessage(externalChatId, rendered);
+            messageId = sent.message_id;
+          } else {
+            await bot.editMessageText(rendered, { chat_id: externalChatId, message_id: messageId });
+          }
+        })
+        .catch((err) => {
+          console.warn(`[telegram:${this.channelId}] Stream update failed:`, err instanceof Error ? err.message : err);
+        });
+    };
+
+    const schedule = (): void => {
+      if (!timer) timer = setTimeout(flush, STREAM_EDIT_INTERVAL_MS);
+    };
+
+    return {
+      append: (delta) => {
+        if (statusLine && text) text += '\n\n';
+        statusLine = '';
+        text += delta;
+        schedule();
+      },
+      status: (line) => {
+        statusLine = `\u23f3 ${line}`;
+        schedule();
+      },
+      finish: async (reply) => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+        await pending;
+
+        if (messageId === undefined) {
+          await this.sendMessage(externalChatId, reply);
+          return;
+        }
+
+        const [first, ...rest] = splitHtml(markdownToTelegramHtml(reply));
+        await this.editHtmlChunk(externalChatId, messageId, first ?? '');
+        for (const chunk of rest) {
+          await this.sendHtmlChunk(externalChatId, chunk);
         }
+      },
+    };
+  }
+
+  private async sendHtmlChunk(externalChatId: string, chunk: string): Promise<void> {
+    try {
+      await this.bot!.sendMessage(externalChatId, chunk, { parse_mode: 'HTML' });
+    } catch (err: unknown) {
+      // If Telegram rejects the HTML (malformed tags), fall back to plain text
+      if (isParseError(err)) {
+        console.warn(`[telegram:${this.channelId}] HTML parse error, falling back to plain text`);
+        await this.bot!.sendMessage(externalChatId, chunk.replace(/<[^>]+>/g, ''));
+      } else {
+        throw err;
       }
-      if (current) chunks.push(current);
     }
+  }
 
-    for (const chunk of chunks) {
-      try {
-        await this.bot.sendMessage(externalChatId, chunk, { parse_mode: 'HTML' });
-      } catch (err: unknown) {
-        // If Telegram rejects the HTML (malformed tags), fall back to plain text
-        const isParseError =
-          err instanceof Error &&
-          err.message.includes("can't parse entities");
-        if (isParseError) {
-          console.warn(`[telegram:${this.channelId}] HTML parse error, falling back to plain text`);
-          const plain = chunk.replace(/<[^>]+>/g, '');
-          await this.bot.sendMessage(externalChatId, plain);
-        } else {
-          throw err;
-        }
+  private async editHtmlChunk(externalChatId: string, messageId: number, chunk: string): Promise<void> {
+    const target = { chat_id: externalChatId, message_id: messageId };
+    try {
+      await this.bot!.editMessageText(chunk, { ...target, parse_mode: 'HTML' });
+    } catch (err: unknown) {
+      if (isParseError(err)) {
+        await this.bot!.editMessageText(chunk.replace(/<[^>]+>/g, ''), target);
+      } else if (!(err instanceof Error && err.message.includes('message is not modified'))) {
+        throw err;
       }
     }
   }
 }
+
+function isParseError(err: unknown): boolean {
+  return err instanceof Error && err.message.includes("can't parse entities");
+}
+
+/**
+ * Split HTML into Telegram-sized chunks on paragraph boundaries
+ * to avoid breaking mid-tag.
+ */
+function splitHtml(html: string): string[] {
+  if (html.length <= MAX_MESSAGE_LENGTH) return [html];
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of html.split('\n\n')) {
+    if (current.length + paragraph.length + 2 > MAX_MESSAGE_LENGTH) {
+      if (current) chunks.push(current);
+      current = paragraph;
+    } else {
+      current = current ? current + '\n\n' + paragraph : paragraph;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -1,5 +1,5 @@
 import { timingSafeEqual } from 'crypto';
-import { ChannelAdapter, IncomingMessage } from './base';
+import { ChannelAdapter, IncomingMessage, ReplyStream } from './base';
 
 function safeCompare(a: string, b: string): boolean {
   if (a.length !== b.length) {
@@ -10,6 +10,22 @@ function safeCompare(a: string, b: string): boolean {
   return timingSafeEqual(Buffer.from(a), Buffer.from(b));
 }
 
+/** Minimal response surface used by the webhook route (satisfied by express.Response) */
+interface WebhookResponse {
+  json: (data: unknown) => void;
+  status: (code: number) => { json: (data: unknown) => void };
+  setHeader: (name: string, value: string) => void;
+  flushHeaders: () => void;
+  write: (chunk: string) => boolean;
+  end: () => void;
+  on: (event: 'close', listener: () => void) => void;
+  writableEnded: boolean;
+}
+
+function writeSse(res: WebhookResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 export interface WebhookConfig {
   /** Optional secret token for verifying inbound requests */
   secret?: string;
@@ -30,11 +46,20 @@ export interface WebhookConfig {
  *     { "channelId": "...", "chatId": "...", "text": "...", "timestamp": "..." }
  *   If no callbackUrl is configured, the response is returned synchronously
  *   in the inbound webhook response.
+ *
+ * Streaming (sync mode only):
+ *   Send "stream": true in the body (or Accept: text/event-stream) to receive
+ *   Server-Sent Events instead of a single JSON reply:
+ *     event: delta   data: { "text": "..." }       (text as it is generated)
+ *     event: status  data: { "text": "Running ..." } (tool progress)
+ *     event: done    data: { "status": "ok", "response": "..." }
  */
 export class WebhookAdapter extends ChannelAdapter {
   private readonly conf: WebhookConfig;
   /** Maps chatId → pending response resolve function (for sync mode) */
   private pendingResponses = new Map<string, (text: string) => void>();
+  /** Maps chatId → open SSE response (for sync streaming mode) */
+  private sseResponses = new Map<string, WebhookResponse>();
 
   constructor(channelId: string, conf: WebhookConfig) {
     super(channelId, 'webhook');
@@ -52,6 +77,11 @@ export class WebhookAdapter extends ChannelAdapter {
   }
 
   async disconnect(): Promise<void> {
+    for (const res of this.sseResponses.values()) {
+      writeSse(res, 'error', { error: 'Channel disconnected' });
+      res.end();
+    }
+    this.sseResponses.clear();
     this.pendingResponses.clear();
     this.setStatus('disconnected');
   }
@@ -108,16 +138,31 @@ export class WebhookAdapter extends ChannelAdapter {
     }
   }
 
+  /**
+   * Stream deltas to a sync caller that asked for Server-Sent Events.
+   * The final reply is delivered through sendMessage(), which emits `done`.
+   */
+  override createReplyStream(externalChatId: string): ReplyStream | undefined {
+    const res = this.sseResponses.get(externalChatId);
+    if (!res) return undefined;
+
+    return {
+      append: (delta) => writeSse(res, 'delta', { text: delta }),
+      status: (text) => writeSse(res, 'status', { text }),
+      finish: (text) => this.sendMessage(externalChatId, text),
+    };
+  }
+
   /**
    * Handle an incoming webhook request.
    * Called by the webhook route in server.ts.
    *
    * Expects JSON body:
-   *   { "sender": "user-id", "text": "hello", "chatId": "optional" }
+   *   { "sender": "user-id", "text": "hello", "chatId": "optional", "stream": false }
    */
   handleIncomingWebhook(
     req: { body: Record<string, unknown>; headers: Record<string, string | string[] | undefined> },
-    res: { json: (data: unknown) => void; status: (code: number) => { json: (data: unknown) => void } },
+    res: WebhookResponse,
   ): void {
     // Verify secret if configured
     if (this.conf.secret) {
@@ -158,16 +203,54 @@ export class WebhookAdapter extends ChannelAdapter {
         return;
       }
 
+      const accept = String(req.headers['accept'] || '');
+      const wantsStream = body.stream === true || accept.includes('text/event-stream');
+
       // Sync mode: wait for agent response and return it inline
       const timeout = 120_000; // 2 minutes
-      const timer = setTimeout(() => {
-        this.pendingResponses.delete(chatId);
-        res.status(504).json({ error: 'Agent response timed out' });
-      }, timeout);
+      let timer: ReturnType<typeof setTimeout>;
+      let resolve: (text: string) => void;
+
+      if (wantsStream) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+        this.sseResponses.set(chatId, res);
 
-      this.pendingResponses.set(chatId, (responseText: string) => {
+        timer = setTimeout(() => {
+          this.pendingResponses.delete(chatId);
+          this.sseResponses.delete(chatId);
+          writeSse(res, 'error', { error: 'Agent response timed out' });
+          res.end();
+        }, timeout);
+
+        resolve = (responseText: string) => {
+          clearTimeout(timer);
+          this.sseResponses.delete(chatId);
+          writeSse(res, 'done', { status: 'ok', channelId: this.channelId, chatId, response: responseText });
+          res.end();
+        };
+      } else {
+        timer = setTimeout(() => {
+          this.pendingResponses.delete(chatId);
+          res.status(504).json({ error: 'Agent response timed out' });
+        }, timeout);
+
+        resolve = (responseText: string) => {
+          clearTimeout(timer);
+          res.json({ status: 'ok', channelId: this.channelId, chatId, response: responseText });
+        };
+      }
+      this.pendingResponses.set(chatId, resolve);
+
+      // The caller went away before the reply: free the chatId and stop
+      // writing to the closed response (the reply is still stored)
+      res.on('close', () => {
+        if (res.writableEnded || this.pendingResponses.get(chatId) !== resolve) return;
         clearTimeout(timer);
-        res.json({ status: 'ok', channelId: this.channelId, chatId, response: responseText });
+        this.pendingResponses.delete(chatId);
+        this.sseResponses.delete(chatId);
       });
 
       this.emit('message', incoming);
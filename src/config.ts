@@ -18,7 +18,36 @@ export const config = {
   anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
   agentModel: process.env.AGENT_MODEL || 'claude-sonnet-4-20250514',
   agentMaxTokens: parseInt(process.env.AGENT_MAX_TOKENS || '16384', 10),
+  agentStreaming: process.env.AGENT_STREAMING !== 'false', // enabled by default
+  agentPromptCache: process.env.AGENT_PROMPT_CACHE !== 'false', // Anthropic prompt caching, enabled by default
   agentSystemPromptFile: process.env.AGENT_SYSTEM_PROMPT_FILE || '/data/system-prompt.md',
+  // Models tried in order when the primary model keeps failing (groups can override)
+  agentFallbackModels: (process.env.AGENT_FALLBACK_MODELS || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean),
+
+  // Retry policy for transient LLM errors (429, 529 overloaded, 5xx, connection errors)
+  agentRetry: {
+    maxRetries: parseInt(process.env.AGENT_RETRY_MAX || '2', 10),
+    initialDelayMs: parseInt(process.env.AGENT_RETRY_INITIAL_DELAY_MS || '1000', 10),
+    maxDelayMs: parseInt(process.env.AGENT_RETRY_MAX_DELAY_MS || '30000', 10),
+  },
+
+  // Additional LLM providers, selected per group via "provider:model"
+  providers: {
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY || '',
+      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    },
+    ollama: {
+      apiKey: process.env.OLLAMA_API_KEY || '',
+      baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1',
+    },
+  },
+
+  // Currency of the model price table and the cost budgets of agent groups
+  costCurrency: process.env.COST_CURRENCY || 'USD',
 
   dataDir: process.env.DATA_DIR || '/data',
   dbPath: process.env.DB_PATH || '/data/gateway.db',
@@ -39,6 +68,47 @@ export const config = {
     token: process.env.GITHUB_TOKEN || '',
   },
 
+  // OpenID Connect dashboard login (enabled when issuer and client ID are set)
+  oidc: {
+    issuer: (process.env.OIDC_ISSUER || '').replace(/\/+$/, ''),
+    clientId: process.env.OIDC_CLIENT_ID || '',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    redirectUri: process.env.OIDC_REDIRECT_URI || '',
+    scopes: process.env.OIDC_SCOPES || 'openid profile email groups',
+    usernameClaim: process.env.OIDC_USERNAME_CLAIM || 'preferred_username',
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+    // "idp-group=role,..." (highest mapped role wins)
+    roleMapping: process.env.OIDC_ROLE_MAPPING || '',
+    defaultRole: process.env.OIDC_DEFAULT_ROLE || 'viewer',
+    // Password login while SSO is enabled: "admin" (break-glass only) or "all"
+    localLogin: process.env.OIDC_LOCAL_LOGIN === 'all' ? 'all' : 'admin',
+  },
+
+  // npm dependencies of custom skills
+  skillDependencies: {
+    // Tarballs named like "npm pack" output (name-1.2.3.tgz), the only install source
+    cacheDir: process.env.SKILL_NPM_CACHE_DIR || `${process.env.DATA_DIR || '/data'}/skill-npm-cache`,
+    // Registry that missing tarballs are downloaded into the cache from (empty = offline)
+    registry: (process.env.SKILL_NPM_REGISTRY || '').replace(/\/+$/, ''),
+  },
+
+  mcp: {
+    // Commands stdio MCP servers may run, e.g. "npx,uvx,node" (empty = any)
+    stdioCommands: (process.env.MCP_STDIO_COMMANDS || '')
+      .split(',')
+      .map((c) => c.trim())
+      .filter(Boolean),
+    // Default timeout of a single MCP request (servers can override)
+    timeoutMs: parseInt(process.env.MCP_TIMEOUT_MS || '60000', 10),
+  },
+
+  // Conversation context window (defaults; agent groups can override)
+  agentContext: {
+    maxTokens: parseInt(process.env.AGENT_CONTEXT_MAX_TOKENS || '60000', 10),
+    keepMessages: parseInt(process.env.AGENT_CONTEXT_KEEP_MESSAGES || '10', 10),
+    summarize: process.env.AGENT_CONTEXT_SUMMARIZE !== 'false', // enabled by default
+  },
+
   timeAwareness: {
     enabled: process.env.TIME_AWARENESS_ENABLED !== 'false', // enabled by default
     timezone: resolveTimeAwarenessTimezone(process.env.TIME_AWARENESS_TIMEZONE),
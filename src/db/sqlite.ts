@@ -51,7 +51,7 @@ function initSchema(db: Database.Database) {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       conversation_id TEXT NOT NULL,
       input_message_id INTEGER,
-      status TEXT NOT NULL DEFAULT 'pending', -- 'pending' | 'running' | 'completed' | 'error'
+      status TEXT NOT NULL DEFAULT 'pending', -- 'pending' | 'running' | 'completed' | 'error' | 'cancelled'
       input_tokens INTEGER DEFAULT 0,
       output_tokens INTEGER DEFAULT 0,
       error TEXT,
@@ -112,6 +112,37 @@ function initSchema(db: Database.Database) {
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     );
 
+    -- API tokens for machine access (only the SHA-256 hash is stored)
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_prefix TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      scopes TEXT NOT NULL DEFAULT '[]',
+      expires_at TEXT NOT NULL,
+      last_used_at TEXT,
+      revoked_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    -- One-time recovery codes for two-factor authentication (SHA-256 hashes)
+    CREATE TABLE IF NOT EXISTS recovery_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    -- Gateway-wide settings changed at runtime (key/value)
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
     -- Rate limiting (Feature 4)
     CREATE TABLE IF NOT EXISTS rate_limits (
       key TEXT PRIMARY KEY,
@@ -119,6 +150,36 @@ function initSchema(db: Database.Database) {
       window_start TEXT NOT NULL DEFAULT (datetime('now'))
     );
   `);
+
+  // Record the requested model (when a fallback served the call) and retries
+  const apiCallColumns = db.pragma('table_info(api_calls)') as Array<{ name: string }>;
+  if (!apiCallColumns.some((c) => c.name === 'requested_model')) {
+    db.exec(`ALTER TABLE api_calls ADD COLUMN requested_model TEXT`);
+    db.exec(`ALTER TABLE api_calls ADD COLUMN retries INTEGER NOT NULL DEFAULT 0`);
+  }
+
+  // Prompt cache usage (input_tokens counts the uncached input only)
+  if (!apiCallColumns.some((c) => c.name === 'cache_creation_input_tokens')) {
+    db.exec(`ALTER TABLE api_calls ADD COLUMN cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE api_calls ADD COLUMN cache_read_input_tokens INTEGER NOT NULL DEFAULT 0`);
+  }
+
+  // Users signed in via OIDC: identified by the IdP subject, no local password
+  const userColumns = db.pragma('table_info(users)') as Array<{ name: string }>;
+  if (!userColumns.some((c) => c.name === 'auth_provider')) {
+    db.exec(`ALTER TABLE users ADD COLUMN auth_provider TEXT NOT NULL DEFAULT 'local'`);
+    db.exec(`ALTER TABLE users ADD COLUMN external_id TEXT`);
+  }
+  db.exec(
+    `CREATE UNIQUE INDEX IF NOT EXISTS idx_users_external ON users(auth_provider, external_id) WHERE external_id IS NOT NULL`,
+  );
+
+  // TOTP two-factor authentication (secret encrypted, last used time step against replays)
+  if (!userColumns.some((c) => c.name === 'totp_secret')) {
+    db.exec(`ALTER TABLE users ADD COLUMN totp_secret TEXT`);
+    db.exec(`ALTER TABLE users ADD COLUMN totp_enabled INTEGER NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE users ADD COLUMN totp_last_step INTEGER NOT NULL DEFAULT 0`);
+  }
 }
 
 // --- Channel CRUD ---
@@ -135,7 +196,20 @@ export interface ChannelRow {
 }
 
 export function getAllChannels(): ChannelRow[] {
-  return getDb().prepare('SELECT * FROM channels ORDER BY created_at DESC').all() as ChannelRow[];
+  return getDb()
+    .prepare("SELECT * FROM channels WHERE type != 'internal' ORDER BY created_at DESC")
+    .all() as ChannelRow[];
+}
+
+/**
+ * Channel row for conversations that do not come from a channel adapter,
+ * such as MCP clients. Internal channels are never started and are left
+ * out of the channel list.
+ */
+export function ensureInternalChannel(id: string, name: string): void {
+  getDb()
+    .prepare("INSERT OR IGNORE INTO channels (id, type, name, enabled) VALUES (?, 'internal', ?, 0)")
+    .run(id, name);
 }
 
 export function getChannel(id: string): ChannelRow | undefined {
@@ -251,7 +325,7 @@ export function updateAgentRun(
     values.push(update.status);
     if (update.status === 'running') {
       sets.push("started_at = datetime('now')");
-    } else if (update.status === 'completed' || update.status === 'error') {
+    } else if (update.status === 'completed' || update.status === 'error' || update.status === 'cancelled') {
       sets.push("completed_at = datetime('now')");
     }
   }
@@ -275,6 +349,23 @@ export function updateAgentRun(
     .run(...values);
 }
 
+export interface AgentRunRow {
+  id: number;
+  conversation_id: string;
+  input_message_id: number | null;
+  status: string;
+  input_tokens: number;
+  output_tokens: number;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export function getAgentRun(id: number): AgentRunRow | undefined {
+  return getDb().prepare('SELECT * FROM agent_runs WHERE id = ?').get(id) as AgentRunRow | undefined;
+}
+
 export function getRecentRuns(limit = 20): unknown[] {
   return getDb().prepare('SELECT * FROM agent_runs ORDER BY created_at DESC LIMIT ?').all(limit);
 }
@@ -283,54 +374,86 @@ export function getRecentRuns(limit = 20): unknown[] {
 
 export function logApiCall(call: {
   conversation_id?: string;
+  /** Model that actually served the call */
   model: string;
+  /** Model the call was made for, when a fallback model served it */
+  requested_model?: string;
+  /** Failed attempts (retries and fallbacks) before the call succeeded */
+  retries?: number;
   input_tokens: number;
   output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
   duration_ms: number;
   isolated: boolean;
   agent_group_id?: string;
+  /** Cost in the configured currency (see agent/pricing.ts) */
+  cost?: number;
+  /** Cost saved by prompt caching, negative while cache writes outweigh reads */
+  cache_savings?: number;
 }): void {
-  // Check if agent_group_id column exists (added by groups schema migration)
-  const columns = getDb().pragma('table_info(api_calls)') as Array<{ name: string }>;
-  const hasGroupColumn = columns.some((c) => c.name === 'agent_group_id');
-
-  if (hasGroupColumn && call.agent_group_id) {
-    getDb()
-      .prepare(
-        'INSERT INTO api_calls (conversation_id, model, input_tokens, output_tokens, duration_ms, isolated, agent_group_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      )
-      .run(
-        call.conversation_id || null,
-        call.model,
-        call.input_tokens,
-        call.output_tokens,
-        call.duration_ms,
-        call.isolated ? 1 : 0,
-        call.agent_group_id,
-      );
-  } else {
-    getDb()
-      .prepare(
-        'INSERT INTO api_calls (conversation_id, model, input_tokens, output_tokens, duration_ms, isolated) VALUES (?, ?, ?, ?, ?, ?)',
-      )
-      .run(
-        call.conversation_id || null,
-        call.model,
-        call.input_tokens,
-        call.output_tokens,
-        call.duration_ms,
-        call.isolated ? 1 : 0,
-      );
+  const columns = [
+    'conversation_id',
+    'model',
+    'requested_model',
+    'retries',
+    'input_tokens',
+    'output_tokens',
+    'cache_creation_input_tokens',
+    'cache_read_input_tokens',
+    'duration_ms',
+    'isolated',
+  ];
+  const values: unknown[] = [
+    call.conversation_id || null,
+    call.model,
+    call.requested_model && call.requested_model !== call.model ? call.requested_model : null,
+    call.retries || 0,
+    call.input_tokens,
+    call.output_tokens,
+    call.cache_creation_input_tokens || 0,
+    call.cache_read_input_tokens || 0,
+    call.duration_ms,
+    call.isolated ? 1 : 0,
+  ];
+
+  // agent_group_id, cost and cache_savings are added by the groups and pricing schema migrations
+  const tableColumns = getDb().pragma('table_info(api_calls)') as Array<{ name: string }>;
+  if (call.agent_group_id && tableColumns.some((c) => c.name === 'agent_group_id')) {
+    columns.push('agent_group_id');
+    values.push(call.agent_group_id);
+  }
+  if (call.cost !== undefined && tableColumns.some((c) => c.name === 'cost')) {
+    columns.push('cost');
+    values.push(call.cost);
+  }
+  if (call.cache_savings !== undefined && tableColumns.some((c) => c.name === 'cache_savings')) {
+    columns.push('cache_savings');
+    values.push(call.cache_savings);
   }
+
+  getDb()
+    .prepare(`INSERT INTO api_calls (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+    .run(...values);
 }
 
 export function getUsageSummary(): {
   total_calls: number;
   total_input_tokens: number;
   total_output_tokens: number;
-  total_cost_usd: number;
+  total_cost: number;
+  total_cache_creation_tokens: number;
+  total_cache_read_tokens: number;
+  /** Share of all input tokens read from the prompt cache (0-1) */
+  cache_hit_rate: number;
+  total_cache_savings: number;
   avg_duration_ms: number;
 } {
+  // cost and cache_savings are added by the pricing schema migration
+  const columns = getDb().pragma('table_info(api_calls)') as Array<{ name: string }>;
+  const costExpr = columns.some((c) => c.name === 'cost') ? 'COALESCE(SUM(cost), 0)' : '0';
+  const savingsExpr = columns.some((c) => c.name === 'cache_savings') ? 'COALESCE(SUM(cache_savings), 0)' : '0';
+
   const row = getDb()
     .prepare(
       `
@@ -338,19 +461,22 @@ export function getUsageSummary(): {
       COUNT(*) as total_calls,
       COALESCE(SUM(input_tokens), 0) as total_input_tokens,
       COALESCE(SUM(output_tokens), 0) as total_output_tokens,
+      ${costExpr} as total_cost,
+      COALESCE(SUM(cache_creation_input_tokens), 0) as total_cache_creation_tokens,
+      COALESCE(SUM(cache_read_input_tokens), 0) as total_cache_read_tokens,
+      ${savingsExpr} as total_cache_savings,
       COALESCE(AVG(duration_ms), 0) as avg_duration_ms
     FROM api_calls
   `,
     )
     .get() as any;
 
-  // Approximate cost: Sonnet input=$3/MTok, output=$15/MTok
-  const inputCost = (row.total_input_tokens / 1_000_000) * 3;
-  const outputCost = (row.total_output_tokens / 1_000_000) * 15;
-
+  const totalInput = row.total_input_tokens + row.total_cache_creation_tokens + row.total_cache_read_tokens;
   return {
     ...row,
-    total_cost_usd: Math.round((inputCost + outputCost) * 100) / 100,
+    total_cost: Math.round(row.total_cost * 10000) / 10000,
+    cache_hit_rate: totalInput > 0 ? Math.round((row.total_cache_read_tokens / totalInput) * 1000) / 1000 : 0,
+    total_cache_savings: Math.round(row.total_cache_savings * 10000) / 10000,
   };
 }
 
@@ -382,6 +508,10 @@ export function getUsageByModel(): Array<{
   calls: number;
   input_tokens: number;
   output_tokens: number;
+  retries: number;
+  fallback_calls: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
 }> {
   return getDb()
     .prepare(
@@ -390,7 +520,11 @@ export function getUsageByModel(): Array<{
       model,
       COUNT(*) as calls,
       SUM(input_tokens) as input_tokens,
-      SUM(output_tokens) as output_tokens
+      SUM(output_tokens) as output_tokens,
+      SUM(retries) as retries,
+      COUNT(requested_model) as fallback_calls,
+      SUM(cache_creation_input_tokens) as cache_creation_tokens,
+      SUM(cache_read_input_tokens) as cache_read_tokens
     FROM api_calls
     GROUP BY model
     ORDER BY calls DESC
@@ -482,7 +616,7 @@ export function deleteLoopTask(id: number): void {
 
 export function getUserByUsername(
   username: string,
-): { id: number; username: string; password_hash: string; role: string } | undefined {
+): { id: number; username: string; password_hash: string; role: string; auth_provider: string } | undefined {
   return getDb().prepare('SELECT * FROM users WHERE username = ?').get(username) as any;
 }
 
@@ -493,6 +627,152 @@ export function createUser(username: string, passwordHash: string, role = 'admin
   return result.lastInsertRowid as number;
 }
 
+export interface UserRow {
+  id: number;
+  username: string;
+  role: string;
+  auth_provider: string;
+  totp_enabled: number;
+  created_at: string;
+}
+
+// Columns safe to hand out (no password hash, no TOTP secret)
+const USER_COLUMNS = 'id, username, role, auth_provider, totp_enabled, created_at';
+
+export function getUserById(id: number): UserRow | undefined {
+  return getDb().prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).get(id) as UserRow | undefined;
+}
+
+export function getAllUsers(): UserRow[] {
+  return getDb().prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY username ASC`).all() as UserRow[];
+}
+
+export function getUserByExternalId(provider: string, externalId: string): UserRow | undefined {
+  return getDb()
+    .prepare(`SELECT ${USER_COLUMNS} FROM users WHERE auth_provider = ? AND external_id = ?`)
+    .get(provider, externalId) as UserRow | undefined;
+}
+
+/** Create a user of an external identity provider (cannot log in with a password) */
+export function createExternalUser(username: string, role: string, provider: string, externalId: string): number {
+  const result = getDb()
+    .prepare(`INSERT INTO users (username, password_hash, role, auth_provider, external_id) VALUES (?, '', ?, ?, ?)`)
+    .run(username, role, provider, externalId);
+  return result.lastInsertRowid as number;
+}
+
+export function updateUser(id: number, fields: { role?: string; passwordHash?: string }): void {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  if (fields.role !== undefined) {
+    sets.push('role = ?');
+    values.push(fields.role);
+  }
+  if (fields.passwordHash !== undefined) {
+    sets.push('password_hash = ?');
+    values.push(fields.passwordHash);
+  }
+  if (sets.length === 0) return;
+  getDb()
+    .prepare(`UPDATE users SET ${sets.join(', ')} WHERE id = ?`)
+    .run(...values, id);
+}
+
+export function deleteUser(id: number): boolean {
+  const db = getDb();
+  db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+  return db.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+}
+
+export function deleteUserSessions(userId: number): void {
+  getDb().prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+}
+
+export function countUsersWithRole(role: string): number {
+  const row = getDb().prepare('SELECT COUNT(*) as count FROM users WHERE role = ?').get(role) as { count: number };
+  return row.count;
+}
+
+// --- Two-factor authentication ---
+
+export interface UserTotpRow {
+  totp_secret: string | null;
+  totp_enabled: number;
+  totp_last_step: number;
+}
+
+export function getUserTotp(userId: number): UserTotpRow | undefined {
+  return getDb()
+    .prepare('SELECT totp_secret, totp_enabled, totp_last_step FROM users WHERE id = ?')
+    .get(userId) as UserTotpRow | undefined;
+}
+
+export function updateUserTotp(
+  userId: number,
+  fields: { secret?: string | null; enabled?: boolean; lastStep?: number },
+): void {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+  if (fields.secret !== undefined) {
+    sets.push('totp_secret = ?');
+    values.push(fields.secret);
+  }
+  if (fields.enabled !== undefined) {
+    sets.push('totp_enabled = ?');
+    values.push(fields.enabled ? 1 : 0);
+  }
+  if (fields.lastStep !== undefined) {
+    sets.push('totp_last_step = ?');
+    values.push(fields.lastStep);
+  }
+  if (sets.length === 0) return;
+  getDb()
+    .prepare(`UPDATE users SET ${sets.join(', ')} WHERE id = ?`)
+    .run(...values, userId);
+}
+
+export function replaceRecoveryCodes(userId: number, codeHashes: string[]): void {
+  const db = getDb();
+  const insert = db.prepare('INSERT INTO recovery_codes (user_id, code_hash) VALUES (?, ?)');
+  db.transaction(() => {
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId);
+    for (const hash of codeHashes) insert.run(userId, hash);
+  })();
+}
+
+/** Mark an unused recovery code as used. Returns false if there is none. */
+export function useRecoveryCode(userId: number, codeHash: string): boolean {
+  const result = getDb()
+    .prepare(
+      "UPDATE recovery_codes SET used_at = datetime('now') WHERE user_id = ? AND code_hash = ? AND used_at IS NULL",
+    )
+    .run(userId, codeHash);
+  return result.changes > 0;
+}
+
+export function countRecoveryCodes(userId: number): number {
+  const row = getDb()
+    .prepare('SELECT COUNT(*) as count FROM recovery_codes WHERE user_id = ? AND used_at IS NULL')
+    .get(userId) as { count: number };
+  return row.count;
+}
+
+// --- Settings ---
+
+export function getSetting(key: string): string | undefined {
+  const row = getDb().prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setSetting(key: string, value: string): void {
+  getDb()
+    .prepare(
+      `INSERT INTO settings (key, value) VALUES (?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`,
+    )
+    .run(key, value);
+}
+
 export function getUserCount(): number {
   const row = getDb().prepare('SELECT COUNT(*) as count FROM users').get() as { count: number };
   return row.count;
@@ -514,6 +794,76 @@ export function cleanExpiredSessions(): void {
   getDb().prepare("DELETE FROM sessions WHERE expires_at <= datetime('now')").run();
 }
 
+// --- API Tokens ---
+
+export interface ApiTokenRow {
+  id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  user_id: number;
+  scopes: string;
+  expires_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export function insertApiToken(token: {
+  id: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  userId: number;
+  scopes: string[];
+  expiresInDays: number;
+}): void {
+  getDb()
+    .prepare(
+      `INSERT INTO api_tokens (id, name, token_hash, token_prefix, user_id, scopes, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, datetime('now', ?))`,
+    )
+    .run(
+      token.id,
+      token.name,
+      token.tokenHash,
+      token.tokenPrefix,
+      token.userId,
+      JSON.stringify(token.scopes),
+      `+${token.expiresInDays} days`,
+    );
+}
+
+export function getApiTokenById(id: string): ApiTokenRow | undefined {
+  return getDb().prepare('SELECT * FROM api_tokens WHERE id = ?').get(id) as ApiTokenRow | undefined;
+}
+
+/** A token that is neither revoked nor expired */
+export function getActiveApiTokenByHash(tokenHash: string): ApiTokenRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM api_tokens WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > datetime('now')")
+    .get(tokenHash) as ApiTokenRow | undefined;
+}
+
+export function getApiTokens(userId?: number): ApiTokenRow[] {
+  const rows =
+    userId === undefined
+      ? getDb().prepare('SELECT * FROM api_tokens ORDER BY created_at DESC').all()
+      : getDb().prepare('SELECT * FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC').all(userId);
+  return rows as ApiTokenRow[];
+}
+
+export function touchApiToken(id: string): void {
+  getDb().prepare("UPDATE api_tokens SET last_used_at = datetime('now') WHERE id = ?").run(id);
+}
+
+export function revokeApiToken(id: string): boolean {
+  const result = getDb()
+    .prepare("UPDATE api_tokens SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL")
+    .run(id);
+  return result.changes > 0;
+}
+
 // --- Rate Limiting (Feature 4) ---
 
 export function checkRateLimit(key: string, maxRequests: number, windowSeconds: number): boolean {
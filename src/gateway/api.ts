@@ -1,6 +1,15 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
+import * as crypto from 'crypto';
+import { config } from '../config';
 import { createChannel, updateChannel, removeChannel, getChannelStatuses } from '../channels/manager';
-import { getRecentRuns, getUsageSummary, getUsageDaily, getUsageByModel, getRecentApiCalls } from '../db/sqlite';
+import {
+  getRecentRuns,
+  getUsageSummary,
+  getUsageDaily,
+  getUsageByModel,
+  getRecentApiCalls,
+  getChannel,
+} from '../db/sqlite';
 import {
   createAndStartTask,
   startTaskLoop,
@@ -11,10 +20,65 @@ import {
   getTaskOutput,
 } from '../agent/loop-mode';
 import { getContainerStats } from '../agent/container-runner';
-import { isContainerMode } from '../agent/loop';
-import { toolRegistry } from '../agent/tools';
+import { isContainerMode, cancelRun } from '../agent/loop';
+import { getRunTimeline } from '../agent/run-trace';
+import { getModelPrices, setModelPrice, deleteModelPrice, getSpendBreakdown } from '../agent/pricing';
+import { parseModelRef } from '../agent/providers';
+import { toolRegistry, getToolUsage } from '../agent/tools';
+import {
+  getMcpServers,
+  getMcpServer,
+  createMcpServer,
+  updateMcpServer,
+  deleteMcpServer,
+  getMcpServerInfo,
+  connectMcpServer,
+  disconnectMcpServer,
+  disconnectGroupMcpServers,
+} from '../agent/mcp';
 import { login, logout, setupAdmin, isSetupRequired } from '../auth/middleware';
-import { getAllSkills, toggleSkill, deleteSkill, installSkill, updateSkill } from '../agent/skills';
+import {
+  requirePermission,
+  getRequestUser,
+  getUserPermissions,
+  hasPermission,
+  isRole,
+  AuthUser,
+} from '../auth/permissions';
+import { listUsers, getUser, createUser, updateUser, deleteUser } from '../auth/users';
+import { createApiToken, listApiTokens, getApiToken, revokeApiToken } from '../auth/tokens';
+import { isOidcEnabled, startOidcLogin, completeOidcLogin } from '../auth/oidc';
+import {
+  getTwoFactorStatus,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+  completeTwoFactorLogin,
+  LoginExpiredError,
+  isTwoFactorRequired,
+  setTwoFactorRequired,
+} from '../auth/two-factor';
+import {
+  getAllSkills,
+  toggleSkill,
+  deleteSkill,
+  installSkill,
+  updateSkill,
+  installSkillPackage,
+  reinstallSkillDependencies,
+  getSkillManifest,
+  testSkill,
+  runSkillFixtures,
+  runAllSkillFixtures,
+  getSkillConfig,
+  setSkillConfig,
+  listSkillVersions,
+  rollbackSkill,
+  deleteSkillVersion,
+  getSkillDefinition,
+} from '../agent/skills';
 import {
   createAgentGroup,
   getAllAgentGroups,
@@ -39,6 +103,7 @@ import {
   getApprovalStats,
   getApprovalsByRun,
   respondToApproval,
+  getApprovalRule,
   getAllApprovalRules,
   upsertApprovalRule,
   deleteApprovalRule,
@@ -65,6 +130,52 @@ import {
   stopCalendarPoll,
   formatTriggerDescription,
 } from '../scheduler';
+import { recordAudit, getAuditLog, auditToCsv, AuditFilter } from './audit';
+
+/** Channel as stored (config parsed), for audit snapshots */
+function channelSnapshot(id: string): Record<string, unknown> | undefined {
+  const row = getChannel(id);
+  if (!row) return undefined;
+  return { name: row.name, type: row.type, enabled: row.enabled === 1, config: JSON.parse(row.config || '{}') };
+}
+
+function skillSnapshot(name: string): Record<string, unknown> | undefined {
+  return getAllSkills().find((s) => s.name === name);
+}
+
+/** Why the options of a skill test request are invalid, if they are */
+function skillTestOptionsError(options: {
+  version?: unknown;
+  groupId?: unknown;
+  timeoutMs?: unknown;
+}): string | undefined {
+  if (options.version !== undefined && typeof options.version !== 'string') return 'version must be a string';
+  if (options.groupId !== undefined && typeof options.groupId !== 'string') return 'groupId must be a string';
+  if (options.timeoutMs !== undefined && !(typeof options.timeoutMs === 'number' && options.timeoutMs > 0)) {
+    return 'timeoutMs must be a positive number';
+  }
+  return undefined;
+}
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/** Audit log filters from query parameters */
+function parseAuditFilter(query: Request['query']): AuditFilter {
+  const str = (key: string) => (typeof query[key] === 'string' && query[key] ? query[key] : undefined);
+  return {
+    userId: parseInt(str('userId') ?? '') || undefined,
+    username: str('username'),
+    action: str('action'),
+    resourceType: str('resourceType'),
+    resourceId: str('resourceId'),
+    since: str('since'),
+    until: str('until'),
+    limit: parseInt(str('limit') ?? '') || undefined,
+    offset: parseInt(str('offset') ?? '') || undefined,
+  };
+}
 
 export function createApiRouter(): Router {
   const router = Router();
@@ -72,7 +183,7 @@ export function createApiRouter(): Router {
   // ==================== Auth ====================
 
   router.get('/auth/status', (_req: Request, res: Response) => {
-    res.json({ setupRequired: isSetupRequired() });
+    res.json({ setupRequired: isSetupRequired(), oidc: isOidcEnabled(), twoFactorRequired: isTwoFactorRequired() });
   });
 
   router.post('/auth/setup', (req: Request, res: Response) => {
@@ -92,16 +203,28 @@ export function createApiRouter(): Router {
         return;
       }
       const session = login(username, password);
-      res.json({ status: 'created', token: session?.token });
+      recordAudit(req, 'auth.setup', username, { after: { username, role: 'admin' } });
+      res.json({ status: 'created', token: session && 'token' in session ? session.token : undefined });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       res.status(500).json({ error: msg });
     }
   });
 
+  // Two steps with 2FA: { username, password } -> { twoFactorRequired, challenge },
+  // then { challenge, code } (TOTP or recovery code) -> session
   router.post('/auth/login', (req: Request, res: Response) => {
     try {
-      const { username, password } = req.body;
+      const { username, password, challenge, code } = req.body;
+      if (challenge) {
+        const session = completeTwoFactorLogin(challenge, code);
+        if (!session) {
+          res.status(401).json({ error: 'Invalid code' });
+          return;
+        }
+        res.json(session);
+        return;
+      }
       if (!username || !password) {
         res.status(400).json({ error: 'username and password are required' });
         return;
@@ -111,27 +234,273 @@ export function createApiRouter(): Router {
         res.status(401).json({ error: 'Invalid credentials' });
         return;
       }
-      res.json({ token: session.token, expiresAt: session.expiresAt });
+      res.json(session);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      res.status(500).json({ error: msg });
+      res.status(err instanceof LoginExpiredError ? 401 : 500).json({ error: msg });
+    }
+  });
+
+  // --- OIDC single sign-on (the dashboard picks the session token up from the URL fragment) ---
+
+  router.get('/auth/oidc/login', async (req: Request, res: Response) => {
+    if (!isOidcEnabled()) {
+      res.status(404).json({ error: 'OIDC login is not configured' });
+      return;
+    }
+    try {
+      const redirectUri = config.oidc.redirectUri || `${req.protocol}://${req.get('host')}/api/auth/oidc/callback`;
+      res.redirect(await startOidcLogin(redirectUri));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.redirect(`/#sso_error=${encodeURIComponent(msg)}`);
+    }
+  });
+
+  router.get('/auth/oidc/callback', async (req: Request, res: Response) => {
+    try {
+      const { code, state, error, error_description } = req.query;
+      if (error) throw new Error(String(error_description || error));
+      if (typeof code !== 'string' || typeof state !== 'string') throw new Error('code and state are required');
+
+      const result = await completeOidcLogin(code, state);
+      if (result.created) {
+        req.user = result.user;
+        recordAudit(req, 'user.create', result.user.id, { after: { ...result.user, authProvider: 'oidc' } });
+      }
+      res.redirect(`/#sso_token=${encodeURIComponent(result.token)}`);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.warn(`[auth] OIDC login failed: ${msg}`);
+      res.redirect(`/#sso_error=${encodeURIComponent(msg)}`);
     }
   });
 
   router.post('/auth/logout', (req: Request, res: Response) => {
-    const sessionId = (req as any).sessionId;
+    const sessionId = req.sessionId;
     if (sessionId) logout(sessionId);
     res.json({ status: 'ok' });
   });
 
+  router.get('/auth/me', (req: Request, res: Response) => {
+    const user = getRequestUser(req);
+    if (!user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    const dbUser = getUser(user.id);
+    res.json({
+      ...user,
+      permissions: getUserPermissions(user),
+      authProvider: dbUser?.authProvider,
+      twoFactorEnabled: dbUser?.twoFactorEnabled,
+      twoFactorEnrollmentRequired:
+        !!dbUser && !dbUser.twoFactorEnabled && dbUser.authProvider === 'local' && isTwoFactorRequired(),
+    });
+  });
+
+  // --- Two-factor authentication (own account; sessions only) ---
+
+  router.get('/auth/2fa', (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    res.json(getTwoFactorStatus(user.id));
+  });
+
+  router.post('/auth/2fa/setup', async (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    try {
+      res.json(await beginTwoFactorEnrollment(user.id));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  router.post('/auth/2fa/enable', (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    try {
+      const recoveryCodes = confirmTwoFactorEnrollment(user.id, req.body.code);
+      recordAudit(req, 'user.2fa-enable', user.id);
+      res.json({ status: 'enabled', recoveryCodes });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  router.post('/auth/2fa/disable', (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    if (!verifySecondFactor(user.id, req.body.code)) {
+      res.status(400).json({ error: 'Invalid code' });
+      return;
+    }
+    disableTwoFactor(user.id);
+    recordAudit(req, 'user.2fa-disable', user.id);
+    res.json({ status: 'disabled' });
+  });
+
+  router.post('/auth/2fa/recovery-codes', (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    if (!verifySecondFactor(user.id, req.body.code)) {
+      res.status(400).json({ error: 'Invalid code' });
+      return;
+    }
+    recordAudit(req, 'user.2fa-recovery-codes', user.id);
+    res.json({ recoveryCodes: regenerateRecoveryCodes(user.id) });
+  });
+
+  router.put('/auth/2fa/policy', requirePermission('users:manage'), (req: Request, res: Response) => {
+    const { required } = req.body;
+    if (typeof required !== 'boolean') {
+      res.status(400).json({ error: 'required (boolean) is required' });
+      return;
+    }
+    const before = isTwoFactorRequired();
+    setTwoFactorRequired(required);
+    recordAudit(req, 'auth.2fa-policy', undefined, { before: { required: before }, after: { required } });
+    res.json({ required });
+  });
+
+  // ==================== Users ====================
+
+  router.get('/users', requirePermission('users:manage'), (_req: Request, res: Response) => {
+    res.json(listUsers());
+  });
+
+  router.post('/users', requirePermission('users:manage'), (req: Request, res: Response) => {
+    try {
+      const { username, password, role } = req.body;
+      if (!isRole(role)) {
+        res.status(400).json({ error: 'role must be one of admin, operator, approver, viewer' });
+        return;
+      }
+      const user = createUser({ username, password, role });
+      recordAudit(req, 'user.create', user.id, { after: user });
+      res.json(user);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  router.put('/users/:id', requirePermission('users:manage'), (req: Request, res: Response) => {
+    try {
+      const { role, password } = req.body;
+      const id = parseInt(req.params.id as string);
+      const before = getUser(id);
+      const user = updateUser(id, { role, password });
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      recordAudit(req, 'user.update', id, {
+        before,
+        after: { ...user, ...(password !== undefined && { password: 'changed' }) },
+      });
+      res.json(user);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  // Reset a user's 2FA (lost device); they enroll again on next login if 2FA is required
+  router.delete('/users/:id/2fa', requirePermission('users:manage'), (req: Request, res: Response) => {
+    const id = parseInt(req.params.id as string);
+    if (!getUser(id)) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    disableTwoFactor(id);
+    recordAudit(req, 'user.2fa-reset', id);
+    res.json({ status: 'reset' });
+  });
+
+  router.delete('/users/:id', requirePermission('users:manage'), (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (id === getRequestUser(req)?.id) {
+        res.status(400).json({ error: 'You cannot delete your own user' });
+        return;
+      }
+      const before = getUser(id);
+      if (!deleteUser(id)) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      recordAudit(req, 'user.delete', id, { before });
+      res.json({ status: 'deleted' });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  // ==================== API Tokens ====================
+
+  // Any signed-in user manages their own tokens (users:manage sees and
+  // revokes all). Tokens cannot be managed with an API token.
+  function requireSessionUser(req: Request, res: Response): AuthUser | undefined {
+    const user = getRequestUser(req);
+    if (!user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return undefined;
+    }
+    if (user.tokenId) {
+      res.status(403).json({ error: 'API tokens cannot be managed with an API token' });
+      return undefined;
+    }
+    return user;
+  }
+
+  router.get('/tokens', (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    const all = req.query.all === 'true' && hasPermission(user.role, 'users:manage');
+    res.json(listApiTokens(all ? undefined : user.id));
+  });
+
+  router.post('/tokens', (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    try {
+      const { name, scopes, expiresInDays } = req.body;
+      const { token, apiToken } = createApiToken(user, { name, scopes, expiresInDays });
+      recordAudit(req, 'token.create', apiToken.id, { after: apiToken });
+      // The plain token is only ever returned here
+      res.json({ ...apiToken, token });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  router.delete('/tokens/:id', (req: Request, res: Response) => {
+    const user = requireSessionUser(req, res);
+    if (!user) return;
+    const apiToken = getApiToken(req.params.id as string);
+    if (!apiToken || (apiToken.userId !== user.id && !hasPermission(user.role, 'users:manage'))) {
+      res.status(404).json({ error: 'Token not found' });
+      return;
+    }
+    revokeApiToken(apiToken.id);
+    recordAudit(req, 'token.revoke', apiToken.id, { before: apiToken, after: getApiToken(apiToken.id) });
+    res.json({ status: 'revoked' });
+  });
+
   // ==================== Channels ====================
 
-  router.get('/channels', (_req: Request, res: Response) => {
+  router.get('/channels', requirePermission('read'), (_req: Request, res: Response) => {
     const channels = getChannelStatuses();
     res.json(channels);
   });
 
-  router.post('/channels', async (req: Request, res: Response) => {
+  router.post('/channels', requirePermission('channels:manage'), async (req: Request, res: Response) => {
     try {
       const { type, name, config } = req.body;
       if (!type || !name) {
@@ -139,6 +508,7 @@ export function createApiRouter(): Router {
         return;
       }
       const id = await createChannel(type, name, config || {});
+      recordAudit(req, 'channel.create', id, { after: channelSnapshot(id) });
       res.json({ id, status: 'created' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -146,10 +516,13 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.put('/channels/:id', async (req: Request, res: Response) => {
+  router.put('/channels/:id', requirePermission('channels:manage'), async (req: Request, res: Response) => {
     try {
       const { name, config, enabled } = req.body;
-      await updateChannel(req.params.id as string, { name, config, enabled });
+      const id = req.params.id as string;
+      const before = channelSnapshot(id);
+      await updateChannel(id, { name, config, enabled });
+      recordAudit(req, 'channel.update', id, { before, after: channelSnapshot(id) });
       res.json({ status: 'updated' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -157,9 +530,12 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.delete('/channels/:id', async (req: Request, res: Response) => {
+  router.delete('/channels/:id', requirePermission('channels:manage'), async (req: Request, res: Response) => {
     try {
-      await removeChannel(req.params.id as string);
+      const id = req.params.id as string;
+      const before = channelSnapshot(id);
+      await removeChannel(id);
+      recordAudit(req, 'channel.delete', id, { before });
       res.json({ status: 'deleted' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -169,44 +545,108 @@ export function createApiRouter(): Router {
 
   // ==================== Agent Runs ====================
 
-  router.get('/runs', (_req: Request, res: Response) => {
+  router.get('/runs', requirePermission('read'), (_req: Request, res: Response) => {
     const runs = getRecentRuns();
     res.json(runs);
   });
 
+  router.get('/runs/:id', requirePermission('read'), (req: Request, res: Response) => {
+    const timeline = getRunTimeline(parseInt(req.params.id as string));
+    if (!timeline) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+    res.json(timeline);
+  });
+
+  router.post('/runs/:id/cancel', requirePermission('jobs:manage'), (req: Request, res: Response) => {
+    const runId = parseInt(req.params.id as string);
+    if (!cancelRun(runId)) {
+      res.status(404).json({ error: 'Run not found or not running' });
+      return;
+    }
+    recordAudit(req, 'run.cancel', runId);
+    res.json({ ok: true, runId });
+  });
+
   // ==================== Usage / Analytics ====================
 
-  router.get('/usage', (_req: Request, res: Response) => {
+  router.get('/usage', requirePermission('read'), (req: Request, res: Response) => {
     const summary = getUsageSummary();
     const containerInfo = getContainerStats();
+    // Spend window in days (0 / omitted = all time)
+    const days = parseInt(req.query.days as string) || 0;
+    const { currency, ...spend } = getSpendBreakdown(days);
     res.json({
       ...summary,
+      currency,
+      spend,
       containerMode: isContainerMode(),
       containers: containerInfo,
     });
   });
 
-  router.get('/usage/daily', (req: Request, res: Response) => {
+  router.get('/usage/daily', requirePermission('read'), (req: Request, res: Response) => {
     const days = parseInt(req.query.days as string) || 30;
     res.json(getUsageDaily(days));
   });
 
-  router.get('/usage/models', (_req: Request, res: Response) => {
+  router.get('/usage/models', requirePermission('read'), (_req: Request, res: Response) => {
     res.json(getUsageByModel());
   });
 
-  router.get('/usage/calls', (req: Request, res: Response) => {
+  router.get('/usage/tools', requirePermission('read'), (_req: Request, res: Response) => {
+    res.json(getToolUsage());
+  });
+
+  router.get('/usage/calls', requirePermission('read'), (req: Request, res: Response) => {
     const limit = parseInt(req.query.limit as string) || 50;
     res.json(getRecentApiCalls(limit));
   });
 
+  // ==================== Model Prices ====================
+
+  router.get('/prices', requirePermission('read'), (_req: Request, res: Response) => {
+    res.json(getModelPrices());
+  });
+
+  // Model references contain ":" - clients should URL-encode them
+  router.put('/prices/:model', requirePermission('config:manage'), (req: Request, res: Response) => {
+    try {
+      const { inputPerMTok, outputPerMTok, cacheWritePerMTok, cacheReadPerMTok } = req.body;
+      const before = getModelPrices().find((p) => p.model === req.params.model);
+      const price = setModelPrice({
+        model: req.params.model as string,
+        inputPerMTok,
+        outputPerMTok,
+        cacheWritePerMTok,
+        cacheReadPerMTok,
+      });
+      recordAudit(req, 'price.update', price.model, { before, after: price });
+      res.json(price);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  router.delete('/prices/:model', requirePermission('config:manage'), (req: Request, res: Response) => {
+    const before = getModelPrices().find((p) => p.model === req.params.model);
+    if (!deleteModelPrice(req.params.model as string)) {
+      res.status(404).json({ error: 'Price not found' });
+      return;
+    }
+    recordAudit(req, 'price.delete', req.params.model as string, { before });
+    res.json({ ok: true });
+  });
+
   // ==================== Loop Tasks ====================
 
-  router.get('/tasks', (_req: Request, res: Response) => {
+  router.get('/tasks', requirePermission('read'), (_req: Request, res: Response) => {
     res.json(getTasks());
   });
 
-  router.post('/tasks', (req: Request, res: Response) => {
+  router.post('/tasks', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
       const { name, prompt, maxIterations } = req.body;
       if (!name || !prompt) {
@@ -218,6 +658,7 @@ export function createApiRouter(): Router {
         promptContent: prompt,
         maxIterations: maxIterations || 10,
       });
+      recordAudit(req, 'task.create', id, { after: { name, prompt, maxIterations: maxIterations || 10 } });
       res.json({ id, status: 'started' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -225,9 +666,10 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/tasks/:id/start', (req: Request, res: Response) => {
+  router.post('/tasks/:id/start', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
       startTaskLoop(parseInt(req.params.id as string));
+      recordAudit(req, 'task.start', req.params.id as string);
       res.json({ status: 'started' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -235,9 +677,10 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/tasks/:id/stop', (req: Request, res: Response) => {
+  router.post('/tasks/:id/stop', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
       stopTask(parseInt(req.params.id as string));
+      recordAudit(req, 'task.stop', req.params.id as string);
       res.json({ status: 'stopped' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -245,7 +688,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/tasks/:id/prompt', (req: Request, res: Response) => {
+  router.get('/tasks/:id/prompt', requirePermission('read'), (req: Request, res: Response) => {
     const prompt = getTaskPrompt(parseInt(req.params.id as string));
     if (prompt === null) {
       res.status(404).json({ error: 'Task or prompt not found' });
@@ -254,14 +697,15 @@ export function createApiRouter(): Router {
     res.json({ prompt });
   });
 
-  router.get('/tasks/:id/output', (req: Request, res: Response) => {
+  router.get('/tasks/:id/output', requirePermission('read'), (req: Request, res: Response) => {
     const output = getTaskOutput(parseInt(req.params.id as string));
     res.json({ output: output || '' });
   });
 
-  router.delete('/tasks/:id', (req: Request, res: Response) => {
+  router.delete('/tasks/:id', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
       removeTask(parseInt(req.params.id as string));
+      recordAudit(req, 'task.delete', req.params.id as string);
       res.json({ status: 'deleted' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -271,7 +715,7 @@ export function createApiRouter(): Router {
 
   // ==================== Tools ====================
 
-  router.get('/tools', (_req: Request, res: Response) => {
+  router.get('/tools', requirePermission('read'), (_req: Request, res: Response) => {
     const tools = toolRegistry.getAll().map((t) => ({
       name: t.name,
       description: t.description,
@@ -281,7 +725,7 @@ export function createApiRouter(): Router {
 
   // ==================== Skills ====================
 
-  router.get('/skills', (_req: Request, res: Response) => {
+  router.get('/skills', requirePermission('read'), (_req: Request, res: Response) => {
     try {
       const skills = getAllSkills();
       res.json(skills);
@@ -291,7 +735,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/skills', (req: Request, res: Response) => {
+  router.post('/skills', requirePermission('config:manage'), async (req: Request, res: Response) => {
     try {
       const { manifest, handler } = req.body;
       if (!manifest || !handler) {
@@ -308,35 +752,55 @@ export function createApiRouter(): Router {
       manifest.containerCompatible = manifest.containerCompatible ?? false;
       manifest.sandbox = true; // custom skills are always sandboxed
 
-      installSkill(manifest, handler);
-      res.json({ status: 'installed', name: manifest.name });
+      const dependencies = await installSkill(manifest, handler);
+      recordAudit(req, 'skill.install', manifest.name, { after: { manifest, handlerSha256: sha256(handler) } });
+      if (dependencies?.status === 'failed') {
+        res.status(422).json({ error: `Dependency installation failed: ${dependencies.error}`, name: manifest.name });
+        return;
+      }
+      res.json({ status: 'installed', name: manifest.name, ...(dependencies && { dependencies }) });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       res.status(400).json({ error: msg });
     }
   });
 
-  router.put('/skills/:name', (req: Request, res: Response) => {
+  router.put('/skills/:name', requirePermission('config:manage'), async (req: Request, res: Response) => {
     try {
       const { manifest, handler } = req.body;
-      updateSkill(req.params.name as string, {
+      const name = req.params.name as string;
+      const before = skillSnapshot(name);
+      updateSkill(name, {
         manifest,
         handlerContent: handler,
       });
-      res.json({ status: 'updated' });
+      // A changed dependency list is re-pinned in the skill's lockfile
+      const dependencies =
+        manifest?.dependencies !== undefined ? await reinstallSkillDependencies(name, { updateLock: true }) : undefined;
+      recordAudit(req, 'skill.update', name, {
+        before,
+        after: { ...skillSnapshot(name), ...(handler && { handlerSha256: sha256(handler) }) },
+      });
+      if (dependencies?.status === 'failed') {
+        res.status(422).json({ error: `Dependency installation failed: ${dependencies.error}` });
+        return;
+      }
+      res.json({ status: 'updated', ...(dependencies && { dependencies }) });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       res.status(400).json({ error: msg });
     }
   });
 
-  router.delete('/skills/:name', (req: Request, res: Response) => {
+  router.delete('/skills/:name', requirePermission('config:manage'), (req: Request, res: Response) => {
     try {
+      const before = skillSnapshot(req.params.name as string);
       const deleted = deleteSkill(req.params.name as string);
       if (!deleted) {
         res.status(404).json({ error: 'Skill not found' });
         return;
       }
+      recordAudit(req, 'skill.delete', req.params.name as string, { before });
       res.json({ status: 'deleted' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -344,14 +808,19 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/skills/:name/toggle', (req: Request, res: Response) => {
+  router.post('/skills/:name/toggle', requirePermission('config:manage'), (req: Request, res: Response) => {
     try {
       const { enabled } = req.body;
       if (typeof enabled !== 'boolean') {
         res.status(400).json({ error: 'enabled (boolean) is required' });
         return;
       }
+      const before = skillSnapshot(req.params.name as string);
       toggleSkill(req.params.name as string, enabled);
+      recordAudit(req, 'skill.toggle', req.params.name as string, {
+        before,
+        after: skillSnapshot(req.params.name as string),
+      });
       res.json({ status: 'toggled', name: req.params.name, enabled });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -359,9 +828,155 @@ export function createApiRouter(): Router {
     }
   });
 
+  // Skill packages: raw archive body (.tar, .tar.gz or .zip), ?activate=false to install without switching
+  router.post(
+    '/skills/packages',
+    requirePermission('config:manage'),
+    express.raw({ type: () => true, limit: '50mb' }),
+    async (req: Request, res: Response) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          res.status(400).json({ error: 'Send the package archive as request body' });
+          return;
+        }
+        const result = await installSkillPackage(req.body, { activate: req.query.activate !== 'false' });
+        recordAudit(req, 'skill.install_package', result.name, { after: result });
+        if (result.dependencies?.status === 'failed') {
+          res.status(422).json({ error: `Dependency installation failed: ${result.dependencies.error}`, ...result });
+          return;
+        }
+        res.json({ status: 'installed', ...result });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(400).json({ error: msg });
+      }
+    },
+  );
+
+  router.get('/skills/:name/versions', requirePermission('read'), (req: Request, res: Response) => {
+    try {
+      const versions = listSkillVersions(req.params.name as string);
+      if (!versions) {
+        res.status(404).json({ error: 'Skill not found' });
+        return;
+      }
+      res.json(versions);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(500).json({ error: msg });
+    }
+  });
+
+  router.post('/skills/:name/rollback', requirePermission('config:manage'), (req: Request, res: Response) => {
+    try {
+      const name = req.params.name as string;
+      const before = skillSnapshot(name);
+      const result = rollbackSkill(name, req.body?.version);
+      recordAudit(req, 'skill.rollback', name, { before, after: skillSnapshot(name) });
+      res.json({ status: 'rolled_back', ...result });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  // Dry runs without a model: one input, the skill's tests/*.json fixtures, or those of all skills
+  router.post('/skills/tests', requirePermission('config:manage'), async (req: Request, res: Response) => {
+    try {
+      const groupId = req.body?.groupId;
+      const reports = await runAllSkillFixtures({ groupId });
+      const passed = reports.reduce((n, r) => n + r.passed, 0);
+      const failed = reports.reduce((n, r) => n + r.failed, 0);
+      recordAudit(req, 'skill.test_fixtures', undefined, { after: { groupId, passed, failed } });
+      res.json({ passed, failed, skills: reports });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(500).json({ error: msg });
+    }
+  });
+
+  router.post('/skills/:name/test', requirePermission('config:manage'), async (req: Request, res: Response) => {
+    try {
+      const { input, version, groupId, timeoutMs } = req.body || {};
+      const name = req.params.name as string;
+      const invalid = skillTestOptionsError({ version, groupId, timeoutMs });
+      if (invalid) {
+        res.status(400).json({ error: invalid });
+        return;
+      }
+      if (!getSkillDefinition(name, version)) {
+        res.status(404).json({ error: version ? `Version ${version} of skill ${name} not found` : 'Skill not found' });
+        return;
+      }
+      const result = await testSkill(name, input ?? {}, { version, groupId, timeoutMs });
+      recordAudit(req, 'skill.test', name, { after: { version, groupId, input: input ?? {}, ok: result.ok } });
+      if (result.violations) {
+        res.status(400).json({ error: 'Input does not match the inputSchema', violations: result.violations });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(500).json({ error: msg });
+    }
+  });
+
+  router.post('/skills/:name/tests', requirePermission('config:manage'), async (req: Request, res: Response) => {
+    try {
+      const { version, groupId } = req.body || {};
+      const name = req.params.name as string;
+      const invalid = skillTestOptionsError({ version, groupId });
+      if (invalid) {
+        res.status(400).json({ error: invalid });
+        return;
+      }
+      if (!getSkillDefinition(name, version)) {
+        res.status(404).json({ error: version ? `Version ${version} of skill ${name} not found` : 'Skill not found' });
+        return;
+      }
+      const report = await runSkillFixtures(name, { version, groupId });
+      recordAudit(req, 'skill.test_fixtures', name, {
+        after: { version: report.version, groupId, passed: report.passed, failed: report.failed },
+      });
+      res.json(report);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(500).json({ error: msg });
+    }
+  });
+
+  // Retry the dependency installation of the active version, e.g. after filling the package cache
+  router.post('/skills/:name/dependencies', requirePermission('config:manage'), async (req: Request, res: Response) => {
+    try {
+      const name = req.params.name as string;
+      const dependencies = await reinstallSkillDependencies(name);
+      recordAudit(req, 'skill.dependencies_install', name, { after: { name, dependencies } });
+      res.status(dependencies.status === 'failed' ? 422 : 200).json(dependencies);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  router.delete(
+    '/skills/:name/versions/:version',
+    requirePermission('config:manage'),
+    (req: Request, res: Response) => {
+      try {
+        const { name, version } = req.params as { name: string; version: string };
+        deleteSkillVersion(name, version);
+        recordAudit(req, 'skill.version_delete', name, { before: { name, version } });
+        res.json({ status: 'deleted', name, version });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(400).json({ error: msg });
+      }
+    },
+  );
+
   // ==================== Agent Groups ====================
 
-  router.get('/agent-groups', (_req: Request, res: Response) => {
+  router.get('/agent-groups', requirePermission('read'), (_req: Request, res: Response) => {
     try {
       const groups = getAllAgentGroups();
       // Strip encrypted API keys from response
@@ -379,7 +994,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/agent-groups', (req: Request, res: Response) => {
+  router.post('/agent-groups', requirePermission('config:manage'), (req: Request, res: Response) => {
     try {
       const {
         name,
@@ -388,6 +1003,9 @@ export function createApiRouter(): Router {
         apiKey,
         model,
         maxTokens,
+        fallbackModels,
+        retryMaxRetries,
+        retryInitialDelayMs,
         githubRepo,
         githubToken,
         skills,
@@ -396,7 +1014,15 @@ export function createApiRouter(): Router {
         maxConcurrentAgents,
         budgetMaxTokensDay,
         budgetMaxTokensMonth,
+        budgetMaxCostDay,
+        budgetMaxCostMonth,
         budgetAlertThreshold,
+        budgetAlertChannelId,
+        budgetAlertChatId,
+        budgetAlertWebhookUrl,
+        contextMaxTokens,
+        contextKeepMessages,
+        contextSummarize,
       } = req.body;
 
       if (!name || !systemPrompt) {
@@ -404,6 +1030,20 @@ export function createApiRouter(): Router {
         return;
       }
 
+      if (model || fallbackModels) {
+        try {
+          if (model) parseModelRef(model);
+          if (fallbackModels !== undefined && !Array.isArray(fallbackModels)) {
+            throw new Error('fallbackModels must be an array of model references');
+          }
+          (fallbackModels as string[] | undefined)?.forEach((m) => parseModelRef(m));
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          res.status(400).json({ error: msg });
+          return;
+        }
+      }
+
       const group = createAgentGroup({
         name,
         description,
@@ -411,6 +1051,9 @@ export function createApiRouter(): Router {
         apiKey,
         model,
         maxTokens,
+        fallbackModels,
+        retryMaxRetries,
+        retryInitialDelayMs,
         githubRepo,
         githubToken,
         skills,
@@ -419,8 +1062,17 @@ export function createApiRouter(): Router {
         maxConcurrentAgents,
         budgetMaxTokensDay,
         budgetMaxTokensMonth,
+        budgetMaxCostDay,
+        budgetMaxCostMonth,
         budgetAlertThreshold,
+        budgetAlertChannelId,
+        budgetAlertChatId,
+        budgetAlertWebhookUrl,
+        contextMaxTokens,
+        contextKeepMessages,
+        contextSummarize,
       });
+      recordAudit(req, 'group.create', group.id, { after: group });
 
       res.json({
         ...group,
@@ -435,7 +1087,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/agent-groups/:id', (req: Request, res: Response) => {
+  router.get('/agent-groups/:id', requirePermission('read'), (req: Request, res: Response) => {
     try {
       const group = getAgentGroup(req.params.id as string);
       if (!group) {
@@ -455,9 +1107,11 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.put('/agent-groups/:id', (req: Request, res: Response) => {
+  router.put('/agent-groups/:id', requirePermission('config:manage'), (req: Request, res: Response) => {
     try {
+      const before = getAgentGroup(req.params.id as string);
       const group = updateAgentGroup(req.params.id as string, req.body);
+      recordAudit(req, 'group.update', group.id, { before, after: group });
       res.json({
         ...group,
         apiKeyEncrypted: undefined,
@@ -471,9 +1125,12 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.delete('/agent-groups/:id', (req: Request, res: Response) => {
+  router.delete('/agent-groups/:id', requirePermission('config:manage'), async (req: Request, res: Response) => {
     try {
+      const before = getAgentGroup(req.params.id as string);
+      await disconnectGroupMcpServers(req.params.id as string);
       deleteAgentGroup(req.params.id as string);
+      recordAudit(req, 'group.delete', req.params.id as string, { before });
       res.json({ status: 'deleted' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -481,27 +1138,178 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/agent-groups/:id/assign/:channelId', (req: Request, res: Response) => {
+  router.post(
+    '/agent-groups/:id/assign/:channelId',
+    requirePermission('config:manage'),
+    (req: Request, res: Response) => {
+      try {
+        assignChannelToGroup(req.params.channelId as string, req.params.id as string);
+        recordAudit(req, 'group.assign', req.params.id as string, { after: { channelId: req.params.channelId } });
+        res.json({ status: 'assigned' });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(400).json({ error: msg });
+      }
+    },
+  );
+
+  router.post(
+    '/agent-groups/:id/unassign/:channelId',
+    requirePermission('config:manage'),
+    (req: Request, res: Response) => {
+      try {
+        unassignChannelFromGroup(req.params.channelId as string);
+        recordAudit(req, 'group.unassign', req.params.id as string, { before: { channelId: req.params.channelId } });
+        res.json({ status: 'unassigned' });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(500).json({ error: msg });
+      }
+    },
+  );
+
+  // Skill settings of a group: secret values are write-only
+  router.get('/agent-groups/:id/skills/:name/config', requirePermission('read'), (req: Request, res: Response) => {
     try {
-      assignChannelToGroup(req.params.channelId as string, req.params.id as string);
-      res.json({ status: 'assigned' });
+      const group = getAgentGroup(req.params.id as string);
+      const manifest = getSkillManifest(req.params.name as string);
+      if (!group || !manifest) {
+        res.status(404).json({ error: group ? 'Skill not found' : 'Agent group not found' });
+        return;
+      }
+      res.json(getSkillConfig(group.id, manifest));
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      res.status(400).json({ error: msg });
+      res.status(500).json({ error: msg });
     }
   });
 
-  router.post('/agent-groups/:id/unassign/:channelId', (req: Request, res: Response) => {
+  router.put(
+    '/agent-groups/:id/skills/:name/config',
+    requirePermission('config:manage'),
+    (req: Request, res: Response) => {
+      try {
+        const group = getAgentGroup(req.params.id as string);
+        const manifest = getSkillManifest(req.params.name as string);
+        if (!group || !manifest) {
+          res.status(404).json({ error: group ? 'Skill not found' : 'Agent group not found' });
+          return;
+        }
+        const before = getSkillConfig(group.id, manifest);
+        const after = setSkillConfig(group.id, manifest, req.body?.values);
+        recordAudit(req, 'group.skill_config', group.id, {
+          before: { skill: manifest.name, config: before },
+          after: { skill: manifest.name, config: after },
+        });
+        res.json(after);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(400).json({ error: msg });
+      }
+    },
+  );
+
+  // MCP servers of a group: env and header values are write-only
+  router.get('/agent-groups/:id/mcp-servers', requirePermission('read'), (req: Request, res: Response) => {
     try {
-      unassignChannelFromGroup(req.params.channelId as string);
-      res.json({ status: 'unassigned' });
+      const group = getAgentGroup(req.params.id as string);
+      if (!group) {
+        res.status(404).json({ error: 'Agent group not found' });
+        return;
+      }
+      res.json(getMcpServers(group.id).map(getMcpServerInfo));
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       res.status(500).json({ error: msg });
     }
   });
 
-  router.get('/agent-groups/:id/stats', (req: Request, res: Response) => {
+  router.post(
+    '/agent-groups/:id/mcp-servers',
+    requirePermission('config:manage'),
+    async (req: Request, res: Response) => {
+      try {
+        const group = getAgentGroup(req.params.id as string);
+        if (!group) {
+          res.status(404).json({ error: 'Agent group not found' });
+          return;
+        }
+        const server = createMcpServer(group.id, req.body || {});
+        const info = await connectMcpServer(server);
+        recordAudit(req, 'group.mcp_server_create', group.id, { after: info });
+        res.status(201).json(info);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(400).json({ error: msg });
+      }
+    },
+  );
+
+  router.put(
+    '/agent-groups/:id/mcp-servers/:name',
+    requirePermission('config:manage'),
+    async (req: Request, res: Response) => {
+      try {
+        const groupId = req.params.id as string;
+        const existing = getMcpServer(groupId, req.params.name as string);
+        if (!existing) {
+          res.status(404).json({ error: 'MCP server not found' });
+          return;
+        }
+        const before = getMcpServerInfo(existing);
+        const server = updateMcpServer(groupId, existing.name, req.body || {})!;
+        const info = await connectMcpServer(server);
+        recordAudit(req, 'group.mcp_server_update', groupId, { before, after: info });
+        res.json(info);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(400).json({ error: msg });
+      }
+    },
+  );
+
+  router.post(
+    '/agent-groups/:id/mcp-servers/:name/reconnect',
+    requirePermission('config:manage'),
+    async (req: Request, res: Response) => {
+      try {
+        const server = getMcpServer(req.params.id as string, req.params.name as string);
+        if (!server) {
+          res.status(404).json({ error: 'MCP server not found' });
+          return;
+        }
+        res.json(await connectMcpServer(server));
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(500).json({ error: msg });
+      }
+    },
+  );
+
+  router.delete(
+    '/agent-groups/:id/mcp-servers/:name',
+    requirePermission('config:manage'),
+    async (req: Request, res: Response) => {
+      try {
+        const groupId = req.params.id as string;
+        const server = getMcpServer(groupId, req.params.name as string);
+        if (!server) {
+          res.status(404).json({ error: 'MCP server not found' });
+          return;
+        }
+        const before = getMcpServerInfo(server);
+        await disconnectMcpServer(server.id);
+        deleteMcpServer(groupId, server.name);
+        recordAudit(req, 'group.mcp_server_delete', groupId, { before });
+        res.json({ status: 'deleted' });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(500).json({ error: msg });
+      }
+    },
+  );
+
+  router.get('/agent-groups/:id/stats', requirePermission('read'), (req: Request, res: Response) => {
     try {
       const stats = getAgentGroupStats(req.params.id as string);
       res.json(stats);
@@ -513,7 +1321,7 @@ export function createApiRouter(): Router {
 
   // ==================== A2A ====================
 
-  router.get('/agents', (_req: Request, res: Response) => {
+  router.get('/agents', requirePermission('read'), (_req: Request, res: Response) => {
     try {
       const agents = getActiveAgents();
       const stats = getSubAgentStats();
@@ -524,7 +1332,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/a2a/messages', (req: Request, res: Response) => {
+  router.get('/a2a/messages', requirePermission('read'), (req: Request, res: Response) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
       const messages = getRecentA2AMessages(limit);
@@ -535,7 +1343,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/a2a/conversations/:id', (req: Request, res: Response) => {
+  router.get('/a2a/conversations/:id', requirePermission('read'), (req: Request, res: Response) => {
     try {
       const messages = getA2AConversationMessages(req.params.id as string);
       res.json(messages);
@@ -547,7 +1355,7 @@ export function createApiRouter(): Router {
 
   // ==================== Scheduler ====================
 
-  router.get('/scheduler/jobs', (_req: Request, res: Response) => {
+  router.get('/scheduler/jobs', requirePermission('read'), (_req: Request, res: Response) => {
     try {
       const jobs = getAllJobs().map((j) => ({
         ...j,
@@ -560,7 +1368,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/scheduler/jobs', (req: Request, res: Response) => {
+  router.post('/scheduler/jobs', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
       const { name, description, trigger, action, output } = req.body;
       if (!name || !trigger || !action || !output) {
@@ -572,6 +1380,7 @@ export function createApiRouter(): Router {
 
       const job = createJob({ name, description, trigger, action, output });
       scheduleJob(job.id);
+      recordAudit(req, 'job.create', job.id, { after: job });
       res.json({ ...job, triggerDescription: formatTriggerDescription(job.trigger) });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -579,10 +1388,12 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.put('/scheduler/jobs/:id', (req: Request, res: Response) => {
+  router.put('/scheduler/jobs/:id', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
+      const before = getJob(req.params.id as string);
       updateJob(req.params.id as string, req.body);
       const job = getJob(req.params.id as string);
+      recordAudit(req, 'job.update', req.params.id as string, { before, after: job });
       if (job?.enabled) {
         scheduleJob(job.id);
       } else if (job) {
@@ -595,10 +1406,12 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.delete('/scheduler/jobs/:id', (req: Request, res: Response) => {
+  router.delete('/scheduler/jobs/:id', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
+      const before = getJob(req.params.id as string);
       unscheduleJob(req.params.id as string);
       deleteJob(req.params.id as string);
+      recordAudit(req, 'job.delete', req.params.id as string, { before });
       res.json({ status: 'deleted' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -606,19 +1419,24 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/scheduler/jobs/:id/toggle', (req: Request, res: Response) => {
+  router.post('/scheduler/jobs/:id/toggle', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
       const { enabled } = req.body;
       if (typeof enabled !== 'boolean') {
         res.status(400).json({ error: 'enabled (boolean) is required' });
         return;
       }
+      const before = getJob(req.params.id as string);
       updateJob(req.params.id as string, { enabled });
       if (enabled) {
         scheduleJob(req.params.id as string);
       } else {
         unscheduleJob(req.params.id as string);
       }
+      recordAudit(req, 'job.toggle', req.params.id as string, {
+        before: before && { enabled: before.enabled },
+        after: { enabled },
+      });
       res.json({ status: 'toggled', enabled });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -626,9 +1444,10 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/scheduler/jobs/:id/run', async (req: Request, res: Response) => {
+  router.post('/scheduler/jobs/:id/run', requirePermission('jobs:manage'), async (req: Request, res: Response) => {
     try {
       void executeJob(req.params.id as string);
+      recordAudit(req, 'job.run', req.params.id as string);
       res.json({ status: 'triggered' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -636,7 +1455,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/scheduler/jobs/:id/runs', (req: Request, res: Response) => {
+  router.get('/scheduler/jobs/:id/runs', requirePermission('read'), (req: Request, res: Response) => {
     try {
       const limit = parseInt(req.query.limit as string) || 20;
       const runs = getJobRuns(req.params.id as string, limit);
@@ -647,13 +1466,13 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/scheduler/stats', (_req: Request, res: Response) => {
+  router.get('/scheduler/stats', requirePermission('read'), (_req: Request, res: Response) => {
     res.json(getSchedulerStats());
   });
 
   // ==================== Calendars ====================
 
-  router.get('/scheduler/calendars', (_req: Request, res: Response) => {
+  router.get('/scheduler/calendars', requirePermission('read'), (_req: Request, res: Response) => {
     try {
       res.json(getAllCalendarSources());
     } catch (err) {
@@ -662,7 +1481,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/scheduler/calendars', (req: Request, res: Response) => {
+  router.post('/scheduler/calendars', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
       const { name, url, pollIntervalMinutes, agentGroupId } = req.body;
       if (!name || !url) {
@@ -671,6 +1490,7 @@ export function createApiRouter(): Router {
       }
       const source = createCalendarSource({ name, url, pollIntervalMinutes, agentGroupId });
       scheduleCalendarPoll(source.id, source.url, source.pollIntervalMinutes || 15);
+      recordAudit(req, 'calendar.create', source.id, { after: source });
       res.json(source);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -678,22 +1498,26 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/scheduler/calendars/:id/sync', async (req: Request, res: Response) => {
-    try {
-      const source = getAllCalendarSources().find((s) => s.id === req.params.id);
-      if (!source) {
-        res.status(404).json({ error: 'Calendar source not found' });
-        return;
+  router.post(
+    '/scheduler/calendars/:id/sync',
+    requirePermission('jobs:manage'),
+    async (req: Request, res: Response) => {
+      try {
+        const source = getAllCalendarSources().find((s) => s.id === req.params.id);
+        if (!source) {
+          res.status(404).json({ error: 'Calendar source not found' });
+          return;
+        }
+        const count = await syncCalendar(source.id, source.url);
+        res.json({ status: 'synced', eventCount: count });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        res.status(500).json({ error: msg });
       }
-      const count = await syncCalendar(source.id, source.url);
-      res.json({ status: 'synced', eventCount: count });
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      res.status(500).json({ error: msg });
-    }
-  });
+    },
+  );
 
-  router.get('/scheduler/calendars/:id/events', (req: Request, res: Response) => {
+  router.get('/scheduler/calendars/:id/events', requirePermission('read'), (req: Request, res: Response) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
       const events = getCalendarEvents(req.params.id as string, limit);
@@ -704,10 +1528,12 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.delete('/scheduler/calendars/:id', (req: Request, res: Response) => {
+  router.delete('/scheduler/calendars/:id', requirePermission('jobs:manage'), (req: Request, res: Response) => {
     try {
+      const before = getAllCalendarSources().find((s) => s.id === req.params.id);
       stopCalendarPoll(req.params.id as string);
       deleteCalendarSource(req.params.id as string);
+      recordAudit(req, 'calendar.delete', req.params.id as string, { before });
       res.json({ status: 'deleted' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -717,7 +1543,7 @@ export function createApiRouter(): Router {
 
   // ==================== HITL Approvals ====================
 
-  router.get('/approvals', (req: Request, res: Response) => {
+  router.get('/approvals', requirePermission('approvals:read'), (req: Request, res: Response) => {
     try {
       const status = req.query.status as string;
       if (status === 'pending') {
@@ -732,7 +1558,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/approvals/stats', (_req: Request, res: Response) => {
+  router.get('/approvals/stats', requirePermission('approvals:read'), (_req: Request, res: Response) => {
     try {
       const stats = getApprovalStats();
       res.json({ ...stats, pendingInMemory: getPendingCount() });
@@ -742,7 +1568,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/approvals/:id', (req: Request, res: Response) => {
+  router.get('/approvals/:id', requirePermission('approvals:read'), (req: Request, res: Response) => {
     try {
       const approval = getApprovalRequest(req.params.id as string);
       if (!approval) {
@@ -756,7 +1582,7 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.get('/approvals/run/:runId', (req: Request, res: Response) => {
+  router.get('/approvals/run/:runId', requirePermission('approvals:read'), (req: Request, res: Response) => {
     try {
       const runId = parseInt(req.params.runId as string);
       res.json(getApprovalsByRun(runId));
@@ -766,15 +1592,16 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/approvals/:id/approve', (req: Request, res: Response) => {
+  router.post('/approvals/:id/approve', requirePermission('approvals:respond'), (req: Request, res: Response) => {
     try {
       const { reason } = req.body || {};
-      const respondedBy = (req as any).sessionUser?.username || 'admin';
-      const ok = respondToApproval(req.params.id as string, true, reason, respondedBy);
+      const user = getRequestUser(req);
+      const ok = respondToApproval(req.params.id as string, true, reason, user?.username, user?.id);
       if (!ok) {
         res.status(404).json({ error: 'Approval not found or already resolved' });
         return;
       }
+      recordAudit(req, 'approval.approve', req.params.id as string, { after: { reason } });
       res.json({ status: 'approved', id: req.params.id });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -782,15 +1609,16 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/approvals/:id/reject', (req: Request, res: Response) => {
+  router.post('/approvals/:id/reject', requirePermission('approvals:respond'), (req: Request, res: Response) => {
     try {
       const { reason } = req.body || {};
-      const respondedBy = (req as any).sessionUser?.username || 'admin';
-      const ok = respondToApproval(req.params.id as string, false, reason, respondedBy);
+      const user = getRequestUser(req);
+      const ok = respondToApproval(req.params.id as string, false, reason, user?.username, user?.id);
       if (!ok) {
         res.status(404).json({ error: 'Approval not found or already resolved' });
         return;
       }
+      recordAudit(req, 'approval.reject', req.params.id as string, { after: { reason } });
       res.json({ status: 'rejected', id: req.params.id });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -800,7 +1628,7 @@ export function createApiRouter(): Router {
 
   // --- Approval Rules ---
 
-  router.get('/approval-rules', (_req: Request, res: Response) => {
+  router.get('/approval-rules', requirePermission('approvals:read'), (_req: Request, res: Response) => {
     try {
       const rules = getAllApprovalRules();
       res.json({ rules, defaults: DEFAULT_TOOL_RISK });
@@ -810,13 +1638,14 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.post('/approval-rules', (req: Request, res: Response) => {
+  router.post('/approval-rules', requirePermission('config:manage'), (req: Request, res: Response) => {
     try {
       const { toolName, riskLevel, autoApprove, requireApproval, timeoutSeconds, timeoutAction, enabled } = req.body;
       if (!toolName) {
         res.status(400).json({ error: 'toolName is required' });
         return;
       }
+      const before = getApprovalRule(toolName);
       const rule = upsertApprovalRule({
         toolName,
         riskLevel,
@@ -826,6 +1655,7 @@ export function createApiRouter(): Router {
         timeoutAction,
         enabled,
       });
+      recordAudit(req, 'approval-rule.update', toolName, { before, after: rule });
       res.json(rule);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -833,13 +1663,15 @@ export function createApiRouter(): Router {
     }
   });
 
-  router.delete('/approval-rules/:toolName', (req: Request, res: Response) => {
+  router.delete('/approval-rules/:toolName', requirePermission('config:manage'), (req: Request, res: Response) => {
     try {
+      const before = getApprovalRule(req.params.toolName as string);
       const deleted = deleteApprovalRule(req.params.toolName as string);
       if (!deleted) {
         res.status(404).json({ error: 'Rule not found' });
         return;
       }
+      recordAudit(req, 'approval-rule.delete', req.params.toolName as string, { before });
       res.json({ status: 'deleted' });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -847,6 +1679,34 @@ export function createApiRouter(): Router {
     }
   });
 
+  // ==================== Audit Log ====================
+
+  router.get('/audit', requirePermission('audit:read'), (req: Request, res: Response) => {
+    try {
+      res.json(getAuditLog(parseAuditFilter(req.query)));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(500).json({ error: msg });
+    }
+  });
+
+  router.get('/audit/export', requirePermission('audit:read'), (req: Request, res: Response) => {
+    try {
+      const filter = parseAuditFilter(req.query);
+      const entries = getAuditLog({ ...filter, limit: filter.limit ?? 10000 });
+      const format = req.query.format === 'json' ? 'json' : 'csv';
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log.${format}"`);
+      if (format === 'json') {
+        res.json(entries);
+      } else {
+        res.type('text/csv').send(auditToCsv(entries));
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      res.status(500).json({ error: msg });
+    }
+  });
+
   // ==================== Health ====================
 
   router.get('/health', (_req: Request, res: Response) => {
@@ -0,0 +1,237 @@
+/**
+ * Audit Log - Who changed what, when, and from where.
+ *
+ * Administrative writes in gateway/api.ts record an entry after they
+ * succeed: the acting user (and API token), client IP, action, target and
+ * a before/after snapshot of the target. Changed fields are computed on the
+ * raw values, so a rotated API key still shows up as a change, but secret
+ * values (passwords, API keys, tokens, encrypted fields) are redacted before
+ * anything is stored.
+ */
+
+import { Request } from 'express';
+import { getDb } from '../db/sqlite';
+import { getRequestUser } from '../auth/permissions';
+
+export interface AuditEntry {
+  id: number;
+  /** e.g. "channel.create", "group.update", "job.toggle" */
+  action: string;
+  /** The part of the action before the dot, e.g. "channel" */
+  resourceType: string;
+  resourceId?: string;
+  userId?: number;
+  username?: string;
+  /** Set when the change was made with an API token */
+  tokenId?: string;
+  ip?: string;
+  before?: unknown;
+  after?: unknown;
+  /** Top-level fields that differ between before and after */
+  changes: string[];
+  createdAt: string;
+}
+
+export interface AuditFilter {
+  userId?: number;
+  username?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  /** SQL datetime or ISO date, inclusive */
+  since?: string;
+  /** SQL datetime or ISO date, exclusive */
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface AuditRow {
+  id: number;
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  user_id: number | null;
+  username: string | null;
+  token_id: string | null;
+  ip: string | null;
+  before_json: string | null;
+  after_json: string | null;
+  changes: string;
+  created_at: string;
+}
+
+const REDACTED = '[redacted]';
+
+// Keys holding secrets. Matches "apiKey", "githubToken", "botToken",
+// "password", "imapPass", "apiKeyEncrypted", "X-Api-Key", "Cookie", ...
+// but not counters like "maxTokens".
+const SECRET_KEY_PATTERN = /password|passphrase|pass$|secret|api[_-]?key|authorization|cookie|token$|encrypted$/i;
+
+/**
+ * Initialize the audit log table. Safe to call multiple times.
+ */
+export function initAuditSchema(): void {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL,
+      resource_type TEXT NOT NULL,
+      resource_id TEXT,
+      user_id INTEGER,
+      username TEXT,
+      token_id TEXT,
+      ip TEXT,
+      before_json TEXT,
+      after_json TEXT,
+      changes TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_created ON audit_log(created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_resource ON audit_log(resource_type, resource_id);
+  `);
+  console.log('[audit] Audit log schema initialized');
+}
+
+/**
+ * Deep copy of a value with secret fields replaced by "[redacted]".
+ * Empty secrets and flags (e.g. hasApiKey: true) are kept.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, val] of Object.entries(value)) {
+    const isSecret = SECRET_KEY_PATTERN.test(key) && val !== '' && val != null && typeof val !== 'boolean';
+    result[key] = isSecret ? REDACTED : redactSecrets(val);
+  }
+  return result;
+}
+
+/**
+ * Top-level fields whose values differ between two snapshots.
+ */
+export function diffFields(before: unknown, after: unknown): string[] {
+  const a = (before && typeof before === 'object' ? before : {}) as Record<string, unknown>;
+  const b = (after && typeof after === 'object' ? after : {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((k) => JSON.stringify(a[k]) !== JSON.stringify(b[k])).sort();
+}
+
+/**
+ * Record a successful change made by the request's user. Never throws:
+ * the change has already happened, a failing audit write is only logged.
+ */
+export function recordAudit(
+  req: Request,
+  action: string,
+  resourceId?: string | number,
+  snapshots: { before?: unknown; after?: unknown } = {},
+): void {
+  try {
+    const user = getRequestUser(req);
+    const { before, after } = snapshots;
+    getDb()
+      .prepare(
+        `INSERT INTO audit_log (action, resource_type, resource_id, user_id, username, token_id, ip, before_json, after_json, changes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        action,
+        action.split('.')[0],
+        resourceId !== undefined ? String(resourceId) : null,
+        user?.id ?? null,
+        user?.username ?? null,
+        user?.tokenId ?? null,
+        req.ip || req.socket?.remoteAddress || null,
+        before !== undefined ? JSON.stringify(redactSecrets(before)) : null,
+        after !== undefined ? JSON.stringify(redactSecrets(after)) : null,
+        JSON.stringify(before !== undefined || after !== undefined ? diffFields(before, after) : []),
+      );
+  } catch (err) {
+    console.error(`[audit] Failed to record ${action}:`, err);
+  }
+}
+
+function rowToEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    action: row.action,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id || undefined,
+    userId: row.user_id ?? undefined,
+    username: row.username || undefined,
+    tokenId: row.token_id || undefined,
+    ip: row.ip || undefined,
+    before: row.before_json ? JSON.parse(row.before_json) : undefined,
+    after: row.after_json ? JSON.parse(row.after_json) : undefined,
+    changes: JSON.parse(row.changes || '[]'),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Audit entries matching the filter, newest first.
+ */
+export function getAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (filter.userId !== undefined) {
+    where.push('user_id = ?');
+    params.push(filter.userId);
+  }
+  if (filter.username) {
+    where.push('username = ?');
+    params.push(filter.username);
+  }
+  if (filter.action) {
+    where.push('action = ?');
+    params.push(filter.action);
+  }
+  if (filter.resourceType) {
+    where.push('resource_type = ?');
+    params.push(filter.resourceType);
+  }
+  if (filter.resourceId) {
+    where.push('resource_id = ?');
+    params.push(filter.resourceId);
+  }
+  // datetime() normalizes ISO input ("2026-10-01T12:00:00Z") to the stored format
+  if (filter.since) {
+    where.push('created_at >= datetime(?)');
+    params.push(filter.since);
+  }
+  if (filter.until) {
+    where.push('created_at < datetime(?)');
+    params.push(filter.until);
+  }
+
+  const sql = `SELECT * FROM audit_log ${where.length ? 'WHERE ' + where.join(' AND ') : ''}
+    ORDER BY id DESC LIMIT ? OFFSET ?`;
+  params.push(filter.limit ?? 100, filter.offset ?? 0);
+  const rows = getDb()
+    .prepare(sql)
+    .all(...params) as AuditRow[];
+  return rows.map(rowToEntry);
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV export of audit entries (snapshots as JSON columns).
+ */
+export function auditToCsv(entries: AuditEntry[]): string {
+  const header = ['id', 'createdAt', 'username', 'userId', 'tokenId', 'ip', 'action', 'resourceType', 'resourceId'];
+  const lines = [[...header, 'changes', 'before', 'after'].join(',')];
+  for (const e of entries) {
+    lines.push(
+      [...header.map((h) => e[h as keyof AuditEntry]), e.changes.join(' '), e.before, e.after].map(csvField).join(','),
+    );
+  }
+  return lines.join('\n') + '\n';
+}
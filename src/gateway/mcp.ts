@@ -0,0 +1,539 @@
+/**
+ * MCP Server - Loop Gateway as a Model Context Protocol server.
+ *
+ * MCP clients (IDE agents, desktop assistants) get tools to list agent
+ * groups, send a message to a group and get the reply, create scheduler
+ * jobs and read the approval queue. The transport is streamable HTTP at
+ * /mcp; src/mcp-stdio.ts bridges clients that only speak stdio.
+ *
+ * Every request needs an API token (Authorization: Bearer lgw_...). Each
+ * tool requires the permission of the matching API route, narrowed to the
+ * token's scopes, and tools the token cannot use are not listed. Replies
+ * are JSON, or an SSE stream when the client accepts one and asks for
+ * progress on a tools/call (each tool the agent runs is reported).
+ */
+
+import express, { Request, Response, NextFunction, Router } from 'express';
+import { v4 as uuid } from 'uuid';
+import { AuthUser, Permission, getRequestUser, getUserPermissions } from '../auth/permissions';
+import { requireApiToken } from '../auth/middleware';
+import { ensureInternalChannel, getConversation, getOrCreateConversation } from '../db/sqlite';
+import { processMessage, cancelRun, getActiveRunIds } from '../agent/loop';
+import { getAgentGroup, getAllAgentGroups } from '../agent/groups/manager';
+import { resolveGroupAgentConfig, checkGroupBudget } from '../agent/groups/resolver';
+import { getPendingApprovals, getRecentApprovals } from '../agent/hitl';
+import { validateInput, formatViolations } from '../agent/tools/validation';
+import { createJob, scheduleJob, formatTriggerDescription } from '../scheduler';
+import type { ScheduleAction, ScheduleOutput, ScheduleTrigger } from '../scheduler';
+import { recordAudit } from './audit';
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const SERVER_INFO = { name: 'loop-gateway', version: '1.0.0' };
+const SESSION_IDLE_MS = 60 * 60_000;
+
+/** Internal channel that owns the conversations of MCP clients */
+export const MCP_CHANNEL_ID = 'mcp';
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+class JsonRpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+interface McpSession {
+  id: string;
+  userId: number;
+  tokenId: string;
+  protocolVersion: string;
+  lastUsedAt: number;
+}
+
+interface ToolContext {
+  req: Request;
+  user: AuthUser;
+  /** Aborted when the client disconnects or cancels the request */
+  signal: AbortSignal;
+  /** Set when the client asked for progress notifications */
+  progress?: (message: string) => void;
+}
+
+interface GatewayTool {
+  name: string;
+  description: string;
+  permission: Permission;
+  inputSchema: Record<string, unknown>;
+  /** Called with arguments that match inputSchema */
+  run(input: unknown, ctx: ToolContext): unknown;
+}
+
+const sessions = new Map<string, McpSession>();
+
+/** In-flight tools/call requests by session and request id, for notifications/cancelled */
+const inFlight = new Map<string, AbortController>();
+
+const TIME_SCHEMA = {
+  type: 'object',
+  properties: {
+    hour: { type: 'integer', minimum: 0, maximum: 23 },
+    minute: { type: 'integer', minimum: 0, maximum: 59 },
+  },
+  required: ['hour', 'minute'],
+};
+
+const tools: GatewayTool[] = [
+  {
+    name: 'list_agent_groups',
+    description: 'List the agent groups of the gateway: id, name, description, model and enabled skills.',
+    permission: 'read',
+    inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+    run: () =>
+      getAllAgentGroups().map((g) => ({
+        id: g.id,
+        name: g.name,
+        description: g.description,
+        model: g.model,
+        skills: g.skills,
+      })),
+  },
+  {
+    name: 'send_message',
+    description:
+      'Send a message to an agent group and wait for its reply. The agent runs with the tools, skills, budget ' +
+      'and approval rules of the group; tools that need approval wait for a human. Pass the returned ' +
+      'conversationId to continue the same conversation.',
+    permission: 'messages:send',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        groupId: { type: 'string', minLength: 1, description: 'Agent group ID (see list_agent_groups)' },
+        message: { type: 'string', minLength: 1 },
+        conversationId: { type: 'string', description: 'Continue a conversation started by send_message' },
+      },
+      required: ['groupId', 'message'],
+      additionalProperties: false,
+    },
+    run: sendMessage,
+  },
+  {
+    name: 'create_scheduled_job',
+    description:
+      'Create a scheduler job that runs a prompt on an agent group on a schedule and sends the result to an ' +
+      'output (channel, webhook, file or email).',
+    permission: 'jobs:manage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        trigger: {
+          type: 'object',
+          properties: {
+            type: { enum: ['daily', 'weekly', 'monthly', 'once', 'interval', 'calendar_event'] },
+            time: TIME_SCHEMA,
+            days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: '0 = Sunday' },
+            dayOfMonth: { type: 'integer', minimum: 1, maximum: 31 },
+            timezone: { type: 'string', description: 'IANA timezone, default UTC' },
+            runAt: { type: 'string', description: 'ISO datetime (once)' },
+            intervalMinutes: { type: 'integer', minimum: 1 },
+            calendarTrigger: {
+              type: 'object',
+              properties: {
+                calendarId: { type: 'string' },
+                minutesBefore: { type: 'integer', minimum: 0 },
+                minutesAfter: { type: 'integer', minimum: 0 },
+                titleFilter: { type: 'string' },
+              },
+              required: ['calendarId'],
+            },
+          },
+          required: ['type'],
+        },
+        action: {
+          type: 'object',
+          properties: {
+            agentGroupId: { type: 'string', minLength: 1 },
+            prompt: { type: 'string', minLength: 1 },
+            contextTemplate: { type: 'string' },
+            maxIterations: { type: 'integer', minimum: 1, description: 'Default 10' },
+          },
+          required: ['agentGroupId', 'prompt'],
+        },
+        output: {
+          type: 'object',
+          properties: {
+            type: { enum: ['channel', 'webhook', 'file', 'email'] },
+            channelId: { type: 'string' },
+            chatId: { type: 'string' },
+            webhookUrl: { type: 'string' },
+            filePath: { type: 'string' },
+            emailTo: { type: 'string' },
+          },
+          required: ['type'],
+        },
+      },
+      required: ['name', 'trigger', 'action', 'output'],
+      additionalProperties: false,
+    },
+    run: createScheduledJob,
+  },
+  {
+    name: 'list_approvals',
+    description:
+      'List tool approval requests: the pending queue (oldest first) or the most recent requests in any state.',
+    permission: 'approvals:read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: { enum: ['pending', 'recent'], description: 'Default pending' },
+        limit: { type: 'integer', minimum: 1, maximum: 500, description: 'recent only, default 50' },
+      },
+      additionalProperties: false,
+    },
+    run: (input: { status?: 'pending' | 'recent'; limit?: number }) =>
+      input.status === 'recent' ? getRecentApprovals(input.limit ?? 50) : getPendingApprovals(),
+  },
+];
+
+async function sendMessage(
+  input: { groupId: string; message: string; conversationId?: string },
+  { user, signal, progress }: ToolContext,
+): Promise<{ conversationId: string; reply: string }> {
+  const group = getAgentGroup(input.groupId);
+  if (!group) throw new Error(`Agent group ${input.groupId} not found`);
+  const budgetError = checkGroupBudget(group.id);
+  if (budgetError) throw new Error(`Budget limit reached: ${budgetError}`);
+
+  // Conversations belong to the user and group that started them
+  ensureInternalChannel(MCP_CHANNEL_ID, 'MCP clients');
+  const owner = `${user.id}:${group.id}:`;
+  let conversationId: string;
+  if (input.conversationId) {
+    const conversation = getConversation(input.conversationId);
+    if (!conversation || conversation.channelId !== MCP_CHANNEL_ID || !conversation.externalId.startsWith(owner)) {
+      throw new Error(`Conversation ${input.conversationId} not found for this group`);
+    }
+    conversationId = conversation.id;
+  } else {
+    conversationId = getOrCreateConversation(MCP_CHANNEL_ID, owner + uuid(), `MCP: ${user.username} / ${group.name}`);
+  }
+
+  const cancel = () => getActiveRunIds(conversationId).forEach(cancelRun);
+  signal.addEventListener('abort', cancel);
+  try {
+    const agentConfig = resolveGroupAgentConfig(group);
+    const reply = await processMessage(conversationId, input.message, 'mcp', user.username, undefined, agentConfig, {
+      onStream: progress
+        ? (event) => {
+            if (event.type === 'tool_call') progress(`Running ${event.tool}...`);
+          }
+        : undefined,
+    });
+    return { conversationId, reply };
+  } finally {
+    signal.removeEventListener('abort', cancel);
+  }
+}
+
+function createScheduledJob(
+  input: {
+    name: string;
+    description?: string;
+    trigger: ScheduleTrigger;
+    action: ScheduleAction;
+    output: ScheduleOutput;
+  },
+  { req }: ToolContext,
+): unknown {
+  if (!getAgentGroup(input.action.agentGroupId)) {
+    throw new Error(`Agent group ${input.action.agentGroupId} not found`);
+  }
+  const trigger = { ...input.trigger, timezone: input.trigger.timezone || 'UTC' };
+  const action = { ...input.action, maxIterations: input.action.maxIterations || 10 };
+
+  const job = createJob({ name: input.name, description: input.description, trigger, action, output: input.output });
+  scheduleJob(job.id);
+  recordAudit(req, 'job.create', job.id, { after: job });
+  return { ...job, triggerDescription: formatTriggerDescription(job.trigger) };
+}
+
+function getTools(user: AuthUser): GatewayTool[] {
+  const permissions = getUserPermissions(user);
+  return tools.filter((t) => permissions.includes(t.permission));
+}
+
+async function callTool(params: unknown, ctx: ToolContext): Promise<unknown> {
+  const { name, arguments: args = {} } = (params ?? {}) as { name?: unknown; arguments?: unknown };
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) throw new JsonRpcError(-32602, `Unknown tool: ${String(name)}`);
+
+  const fail = (text: string) => ({ content: [{ type: 'text', text }], isError: true });
+  if (!getUserPermissions(ctx.user).includes(tool.permission)) {
+    return fail(`Permission denied: ${tool.name} requires ${tool.permission}`);
+  }
+  const violations = validateInput(tool.inputSchema, args);
+  if (violations.length > 0) return fail(`Invalid arguments: ${formatViolations(violations)}`);
+
+  try {
+    const result = await tool.run(args, ctx);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Handle one JSON-RPC request. Returns the result; protocol errors are
+ * thrown as JsonRpcError.
+ */
+async function dispatch(msg: JsonRpcMessage, session: McpSession | undefined, ctx: ToolContext): Promise<unknown> {
+  switch (msg.method) {
+    case 'initialize': {
+      const requested = (msg.params as { protocolVersion?: string } | undefined)?.protocolVersion;
+      return {
+        protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested ?? '')
+          ? requested
+          : SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+        instructions:
+          'Loop Gateway runs AI agents in agent groups. Use list_agent_groups to find a group, then send_message ' +
+          'to talk to it. Tool calls of the agent may wait for human approval (see list_approvals).',
+      };
+    }
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return {
+        tools: getTools(ctx.user).map((t) => ({
+          name: t.name,
+          description: t.description,
+          inputSchema: t.inputSchema,
+        })),
+      };
+    case 'tools/call': {
+      const key = `${session?.id}:${String(msg.id)}`;
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      ctx.signal.addEventListener('abort', onAbort);
+      inFlight.set(key, controller);
+      try {
+        return await callTool(msg.params, { ...ctx, signal: controller.signal });
+      } finally {
+        inFlight.delete(key);
+        ctx.signal.removeEventListener('abort', onAbort);
+      }
+    }
+    default:
+      throw new JsonRpcError(-32601, `Method not found: ${msg.method}`);
+  }
+}
+
+async function handleMessage(
+  msg: JsonRpcMessage,
+  session: McpSession | undefined,
+  ctx: ToolContext,
+): Promise<JsonRpcMessage | undefined> {
+  if (!msg || typeof msg !== 'object' || msg.jsonrpc !== '2.0') {
+    return { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid JSON-RPC message' } };
+  }
+  // Responses and notifications get no reply
+  if (msg.method === undefined || msg.id === undefined || msg.id === null) {
+    if (msg.method === 'notifications/cancelled') {
+      const requestId = (msg.params as { requestId?: unknown } | undefined)?.requestId;
+      inFlight.get(`${session?.id}:${String(requestId)}`)?.abort();
+    }
+    return undefined;
+  }
+
+  try {
+    return { jsonrpc: '2.0', id: msg.id, result: await dispatch(msg, session, ctx) };
+  } catch (err) {
+    const code = err instanceof JsonRpcError ? err.code : -32603;
+    const message = err instanceof Error ? err.message : String(err);
+    if (!(err instanceof JsonRpcError)) console.error(`[mcp-server] ${msg.method} failed:`, message);
+    return { jsonrpc: '2.0', id: msg.id, error: { code, message } };
+  }
+}
+
+function rpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', id: null, error: { code: -32000, message } });
+}
+
+/**
+ * Reject browser requests from other origins (DNS rebinding protection).
+ */
+function checkOrigin(req: Request, res: Response, next: NextFunction): void {
+  const origin = req.headers.origin;
+  if (origin) {
+    let host: string | undefined;
+    try {
+      host = new URL(origin).host;
+    } catch {
+      host = undefined;
+    }
+    if (host !== req.headers.host) {
+      rpcError(res, 403, 'Origin not allowed');
+      return;
+    }
+  }
+  next();
+}
+
+/** API token middleware replying with JSON-RPC errors */
+const requireToken = requireApiToken((res, status, message) => {
+  if (status === 401) res.setHeader('WWW-Authenticate', 'Bearer');
+  rpcError(res, status, message);
+});
+
+/**
+ * The session of a request, or undefined after replying with an error.
+ * Sessions are bound to the API token that created them.
+ */
+function getSession(req: Request, res: Response, user: AuthUser): McpSession | undefined {
+  const id = req.headers['mcp-session-id'];
+  if (typeof id !== 'string' || !id) {
+    rpcError(res, 400, 'Mcp-Session-Id header is required (send initialize first)');
+    return undefined;
+  }
+  const session = sessions.get(id);
+  const expired = session && Date.now() - session.lastUsedAt > SESSION_IDLE_MS;
+  if (expired) sessions.delete(id);
+  if (!session || expired || session.tokenId !== user.tokenId) {
+    rpcError(res, 404, 'Session not found or expired');
+    return undefined;
+  }
+  session.lastUsedAt = Date.now();
+  return session;
+}
+
+function createSession(user: AuthUser, protocolVersion: string): McpSession {
+  const now = Date.now();
+  for (const [id, s] of sessions) {
+    if (now - s.lastUsedAt > SESSION_IDLE_MS) sessions.delete(id);
+  }
+  const session = { id: uuid(), userId: user.id, tokenId: user.tokenId!, protocolVersion, lastUsedAt: now };
+  sessions.set(session.id, session);
+  return session;
+}
+
+async function handlePost(req: Request, res: Response): Promise<void> {
+  const user = getRequestUser(req)!;
+  const body: unknown = req.body;
+  const batch = Array.isArray(body);
+  const messages = (batch ? body : [body]) as JsonRpcMessage[];
+  if (messages.length === 0 || !body || typeof body !== 'object') {
+    res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    return;
+  }
+
+  const init = messages.find((m) => m?.method === 'initialize');
+  let session: McpSession | undefined;
+  if (init) {
+    if (messages.length > 1) {
+      res
+        .status(400)
+        .json({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'initialize must be sent alone' } });
+      return;
+    }
+  } else {
+    session = getSession(req, res, user);
+    if (!session) return;
+  }
+
+  // Stop agent runs when the client goes away before the reply
+  const disconnect = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) disconnect.abort();
+  });
+
+  const progressToken = messages
+    .map((m) => (m?.params as { _meta?: { progressToken?: string | number } } | undefined)?._meta?.progressToken)
+    .find((t) => t !== undefined);
+  const stream = !init && progressToken !== undefined && (req.headers.accept ?? '').includes('text/event-stream');
+  const send = (msg: JsonRpcMessage) => res.write(`event: message\ndata: ${JSON.stringify(msg)}\n\n`);
+  let step = 0;
+  const ctx: ToolContext = {
+    req,
+    user,
+    signal: disconnect.signal,
+    progress: stream
+      ? (message) =>
+          send({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken, progress: ++step, message },
+          })
+      : undefined,
+  };
+
+  if (stream) {
+    res.status(200).set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    if (session) res.setHeader('Mcp-Session-Id', session.id);
+    res.flushHeaders();
+  }
+
+  const replies = (await Promise.all(messages.map((m) => handleMessage(m, session, ctx)))).filter(
+    (r): r is JsonRpcMessage => r !== undefined,
+  );
+
+  if (init) {
+    const reply = replies[0];
+    if (reply && !reply.error) {
+      session = createSession(user, (reply.result as { protocolVersion: string }).protocolVersion);
+      res.setHeader('Mcp-Session-Id', session.id);
+    }
+  }
+
+  if (stream) {
+    replies.forEach(send);
+    res.end();
+  } else if (replies.length === 0) {
+    res.status(202).end();
+  } else {
+    res.json(batch ? replies : replies[0]);
+  }
+}
+
+/**
+ * Express router for the streamable HTTP transport, mounted at /mcp.
+ */
+export function createMcpRouter(): Router {
+  const router = express.Router();
+  router.use(checkOrigin);
+
+  router.post('/', requireToken, (req: Request, res: Response) => {
+    handlePost(req, res).catch((err) => {
+      console.error('[mcp-server] Request failed:', err);
+      if (!res.headersSent) rpcError(res, 500, err instanceof Error ? err.message : String(err));
+      else res.end();
+    });
+  });
+
+  // No server-initiated messages: there is nothing to stream on GET
+  router.get('/', (_req: Request, res: Response) => {
+    res.setHeader('Allow', 'POST, DELETE');
+    res.status(405).json({ error: 'Method not allowed' });
+  });
+
+  router.delete('/', requireToken, (req: Request, res: Response) => {
+    const session = getSession(req, res, getRequestUser(req)!);
+    if (!session) return;
+    sessions.delete(session.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,301 @@
+/**
+ * OpenAI-compatible API - Agent groups behind POST /v1/chat/completions.
+ *
+ * Tools built for the OpenAI API (SDKs, chat UIs, IDE plugins) can use the
+ * gateway by pointing their base URL at <gateway>/v1. The `model` selects
+ * an agent group (ID, or name when unique), and the request runs through
+ * the agent loop with the group's model, tools, skills, budget and HITL
+ * approval rules. Client-side tools (`tools`, `tool_choice`) are ignored:
+ * the group's own tools run on the gateway.
+ *
+ * Requests are stateless like the OpenAI API: each one gets a new
+ * conversation, seeded with the earlier messages of the request. System
+ * and developer messages are added to the group's system prompt.
+ *
+ * Auth: API tokens only (Authorization: Bearer lgw_...), with the
+ * messages:send permission (GET /v1/models: read).
+ */
+
+import express, { Request, Response, Router } from 'express';
+import { v4 as uuid } from 'uuid';
+import { requireApiToken } from '../auth/middleware';
+import { Permission, getRequestUser } from '../auth/permissions';
+import { addMessage, ensureInternalChannel, getOrCreateConversation } from '../db/sqlite';
+import { processMessage, cancelRun, getActiveRunIds, ModelUsage } from '../agent/loop';
+import { getAgentGroup, getAllAgentGroups } from '../agent/groups/manager';
+import { resolveGroupAgentConfig, checkGroupBudget } from '../agent/groups/resolver';
+import type { AgentGroup } from '../agent/groups/types';
+
+/** Internal channel that owns the conversations of OpenAI API clients */
+export const OPENAI_CHANNEL_ID = 'openai';
+
+interface ChatMessage {
+  role: string;
+  content?: string | Array<{ type: string; text?: string }> | null;
+}
+
+interface HistoryMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+interface ChatCompletionRequest {
+  model?: unknown;
+  messages?: unknown;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  n?: number;
+}
+
+/** OpenAI usage object */
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details: { cached_tokens: number };
+}
+
+/** An error in the OpenAI error format */
+class OpenAiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly type: string,
+    message: string,
+    public readonly code: string | null = null,
+  ) {
+    super(message);
+    this.name = 'OpenAiError';
+  }
+}
+
+function sendError(res: Response, err: OpenAiError): void {
+  res.status(err.status).json({ error: { message: err.message, type: err.type, param: null, code: err.code } });
+}
+
+/** API token middleware replying with OpenAI errors */
+function requireToken(permission: Permission) {
+  return requireApiToken((res, status, message) => {
+    sendError(
+      res,
+      status === 401
+        ? new OpenAiError(401, 'invalid_request_error', message, 'invalid_api_key')
+        : new OpenAiError(403, 'permission_error', message),
+    );
+  }, permission);
+}
+
+/**
+ * The group selected by `model`: a group ID, or a group name when only one
+ * group has it.
+ */
+function findGroup(model: string): AgentGroup {
+  const group = getAgentGroup(model);
+  if (group) return group;
+  const named = getAllAgentGroups().filter((g) => g.name === model);
+  if (named.length > 1) {
+    throw new OpenAiError(400, 'invalid_request_error', `Several agent groups are named ${model}, use the group ID`);
+  }
+  if (!named[0]) {
+    throw new OpenAiError(404, 'invalid_request_error', `The model ${model} does not exist`, 'model_not_found');
+  }
+  return named[0];
+}
+
+function messageText(msg: ChatMessage): string {
+  if (typeof msg.content === 'string') return msg.content;
+  if (!Array.isArray(msg.content)) return '';
+  return msg.content
+    .map((part) => {
+      if (part.type !== 'text') {
+        throw new OpenAiError(400, 'invalid_request_error', `Unsupported content part: ${part.type} (text only)`);
+      }
+      return part.text ?? '';
+    })
+    .join('\n');
+}
+
+/**
+ * Split the request messages into client instructions, earlier turns and
+ * the new user message.
+ */
+function parseMessages(messages: unknown): { instructions: string; history: HistoryMessage[]; prompt: string } {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new OpenAiError(400, 'invalid_request_error', 'messages must be a non-empty array');
+  }
+  const last = messages[messages.length - 1] as ChatMessage;
+  const prompt = last && last.role === 'user' ? messageText(last) : '';
+  if (!prompt.trim()) {
+    throw new OpenAiError(400, 'invalid_request_error', 'The last message must be a user message with text');
+  }
+
+  const instructions: string[] = [];
+  const history: HistoryMessage[] = [];
+  for (const msg of messages.slice(0, -1) as ChatMessage[]) {
+    const text = messageText(msg);
+    if (!text.trim()) continue;
+    if (msg.role === 'system' || msg.role === 'developer') instructions.push(text);
+    else if (msg.role === 'user' || msg.role === 'assistant') history.push({ role: msg.role, text });
+    // Tool messages belong to client-side tools, which are not supported
+  }
+  return { instructions: instructions.join('\n\n'), history, prompt };
+}
+
+/**
+ * OpenAI usage of a run. Prompt tokens include cached tokens, as in the
+ * OpenAI API.
+ */
+export function toChatCompletionUsage(usage: ModelUsage[]): ChatCompletionUsage {
+  const prompt = usage.reduce((sum, u) => sum + u.inputTokens + u.cacheCreationTokens + u.cacheReadTokens, 0);
+  const completion = usage.reduce((sum, u) => sum + u.outputTokens, 0);
+  const cached = usage.reduce((sum, u) => sum + u.cacheReadTokens, 0);
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion,
+    prompt_tokens_details: { cached_tokens: cached },
+  };
+}
+
+async function chatCompletions(req: Request, res: Response): Promise<void> {
+  const user = getRequestUser(req)!;
+  const body = (req.body ?? {}) as ChatCompletionRequest;
+  if (typeof body.model !== 'string' || !body.model) {
+    throw new OpenAiError(400, 'invalid_request_error', 'model is required (an agent group ID or name)');
+  }
+  if (body.n !== undefined && body.n !== 1) {
+    throw new OpenAiError(400, 'invalid_request_error', 'Only n = 1 is supported');
+  }
+  const group = findGroup(body.model);
+  const { instructions, history, prompt } = parseMessages(body.messages);
+
+  const budgetError = checkGroupBudget(group.id);
+  if (budgetError) {
+    throw new OpenAiError(429, 'insufficient_quota', `Budget limit reached: ${budgetError}`, 'budget_exceeded');
+  }
+
+  const agentConfig = resolveGroupAgentConfig(group);
+  if (instructions) agentConfig.systemPrompt += `\n\n## Instructions from the client\n${instructions}`;
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+  if (typeof maxTokens === 'number' && Number.isInteger(maxTokens) && maxTokens > 0) {
+    agentConfig.maxTokens = Math.min(agentConfig.maxTokens, maxTokens);
+  }
+
+  ensureInternalChannel(OPENAI_CHANNEL_ID, 'OpenAI API clients');
+  const conversationId = getOrCreateConversation(
+    OPENAI_CHANNEL_ID,
+    `${user.id}:${uuid()}`,
+    `API: ${user.username} / ${group.name}`,
+  );
+  for (const msg of history) {
+    addMessage(conversationId, msg.role, msg.text, 'openai', msg.role === 'user' ? user.username : undefined);
+  }
+
+  // Cancel the run when the client goes away before the reply
+  res.on('close', () => {
+    if (!res.writableEnded) getActiveRunIds(conversationId).forEach(cancelRun);
+  });
+
+  const id = `chatcmpl-${uuid()}`;
+  const created = Math.floor(Date.now() / 1000);
+  let usage: ChatCompletionUsage = toChatCompletionUsage([]);
+  const onUsage = (u: ModelUsage[]) => {
+    usage = toChatCompletionUsage(u);
+  };
+
+  if (!body.stream) {
+    const reply = await processMessage(conversationId, prompt, 'openai', user.username, undefined, agentConfig, {
+      onUsage,
+    });
+    res.json({
+      id,
+      object: 'chat.completion',
+      created,
+      model: body.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: reply }, logprobs: null, finish_reason: 'stop' }],
+      usage,
+    });
+    return;
+  }
+
+  const chunk = (choices: unknown[], extra: Record<string, unknown> = {}) =>
+    res.write(
+      `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model: body.model, choices, ...extra })}\n\n`,
+    );
+  const delta = (content: string) => chunk([{ index: 0, delta: { content }, logprobs: null, finish_reason: null }]);
+
+  res.status(200).set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  res.flushHeaders();
+  chunk([{ index: 0, delta: { role: 'assistant', content: '' }, logprobs: null, finish_reason: null }]);
+
+  // Text of every model turn is streamed. The reply is the text of the last
+  // turn (after the last tool call), so only what it adds is sent at the end.
+  let streamed = false;
+  let sinceToolCall = '';
+  let afterToolCall = false;
+  try {
+    const reply = await processMessage(conversationId, prompt, 'openai', user.username, undefined, agentConfig, {
+      onUsage,
+      onStream: (event) => {
+        if (event.type === 'tool_call') {
+          afterToolCall = true;
+          sinceToolCall = '';
+        } else if (event.type === 'text' && event.text) {
+          delta((afterToolCall && streamed ? '\n\n' : '') + event.text);
+          afterToolCall = false;
+          streamed = true;
+          sinceToolCall += event.text;
+        }
+      },
+    });
+    const rest = reply.startsWith(sinceToolCall) ? reply.slice(sinceToolCall.length) : (streamed ? '\n\n' : '') + reply;
+    if (rest) delta(rest);
+    chunk([{ index: 0, delta: {}, logprobs: null, finish_reason: 'stop' }]);
+    if (body.stream_options?.include_usage) chunk([], { usage });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.write(`data: ${JSON.stringify({ error: { message, type: 'server_error', param: null, code: null } })}\n\n`);
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+/**
+ * Express router for the OpenAI-compatible API, mounted at /v1.
+ */
+export function createOpenAiRouter(): Router {
+  const router = express.Router();
+
+  router.get('/models', requireToken('read'), (_req: Request, res: Response) => {
+    res.json({
+      object: 'list',
+      data: getAllAgentGroups().map((g) => ({
+        id: g.id,
+        object: 'model',
+        created: Math.floor(new Date(g.createdAt.replace(' ', 'T') + 'Z').getTime() / 1000) || 0,
+        owned_by: 'loop-gateway',
+        name: g.name,
+        description: g.description,
+      })),
+    });
+  });
+
+  router.post('/chat/completions', requireToken('messages:send'), (req: Request, res: Response) => {
+    chatCompletions(req, res).catch((err) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (err instanceof OpenAiError) {
+        sendError(res, err);
+        return;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[openai] Chat completion failed:', message);
+      sendError(res, new OpenAiError(500, 'server_error', message));
+    });
+  });
+
+  return router;
+}
@@ -2,17 +2,22 @@ import express from 'express';
 import expressWs from 'express-ws';
 import path from 'path';
 import { createApiRouter } from './api';
+import { createMcpRouter } from './mcp';
+import { createOpenAiRouter } from './openai';
 import { channelManagerEvents, getChannelAdapter } from '../channels/manager';
 import { MattermostAdapter } from '../channels/mattermost';
 import { WebhookAdapter } from '../channels/webhook';
 import { agentEvents } from '../agent/loop';
 import { containerEvents } from '../agent/container-runner';
 import { loopEvents } from '../agent/loop-mode';
-import { authMiddleware, rateLimitMiddleware } from '../auth/middleware';
+import { authMiddleware, rateLimitMiddleware, getSocketUser, isSetupRequired } from '../auth/middleware';
+import { Permission, PERMISSIONS, getUserPermissions } from '../auth/permissions';
+import { redactSecrets } from './audit';
 import { a2aEvents } from '../agent/a2a';
 import { schedulerEvents, calendarEvents } from '../scheduler';
 import { skillWatcherEvents } from '../agent/skills';
 import { approvalEvents, notifyApprovalRequired, notifyApprovalResolved } from '../agent/hitl';
+import { budgetEvents } from '../agent/groups';
 
 export function createServer() {
   const app = express();
@@ -47,18 +52,33 @@ export function createServer() {
   // Auth middleware for API (except health and auth endpoints)
   app.use('/api', authMiddleware);
 
+  // MCP server for IDE agents and other MCP clients (API tokens only, checked by the router)
+  app.use('/mcp', rateLimitMiddleware(120, 60));
+  app.use('/mcp', createMcpRouter());
+
+  // OpenAI-compatible API: agent groups as models (API tokens only, checked by the router)
+  app.use('/v1', rateLimitMiddleware(120, 60));
+  app.use('/v1', createOpenAiRouter());
+
   // Serve static UI files
   app.use(express.static(path.join(__dirname, '..', '..', 'ui')));
 
   // API routes
   app.use('/api', createApiRouter());
 
-  // WebSocket for live events
+  // WebSocket for live events. Clients authenticate like the API and get
+  // approval events with approvals:read, all other events with read.
   const wsApp = wsInstance.app;
-  const clients = new Set<any>();
+  const clients = new Map<any, Set<Permission>>();
 
-  wsApp.ws('/ws', (ws, _req) => {
-    clients.add(ws);
+  wsApp.ws('/ws', (ws, req) => {
+    const user = getSocketUser(req);
+    const permissions = new Set(isSetupRequired() ? PERMISSIONS : user ? getUserPermissions(user) : []);
+    if (!permissions.has('read') && !permissions.has('approvals:read')) {
+      ws.close(1008, user ? 'Permission denied' : 'Authentication required');
+      return;
+    }
+    clients.set(ws, permissions);
     console.log(`[ws] Client connected (total: ${clients.size})`);
 
     ws.on('close', () => {
@@ -69,7 +89,9 @@ export function createServer() {
 
   function broadcast(event: string, data: unknown) {
     const payload = JSON.stringify({ event, data, ts: Date.now() });
-    for (const ws of clients) {
+    const required: Permission = event.startsWith('approval:') ? 'approvals:read' : 'read';
+    for (const [ws, permissions] of clients) {
+      if (!permissions.has(required)) continue;
       try {
         if (ws.readyState === 1) {
           // OPEN
@@ -91,6 +113,10 @@ export function createServer() {
   agentEvents.on('run:start', (data) => broadcast('run:start', data));
   agentEvents.on('run:complete', (data) => broadcast('run:complete', data));
   agentEvents.on('run:error', (data) => broadcast('run:error', data));
+  agentEvents.on('run:cancelled', (data) => broadcast('run:cancelled', data));
+  agentEvents.on('run:delta', (data) => broadcast('run:delta', data));
+  agentEvents.on('tool:call', (data) => broadcast('tool:call', { ...data, input: redactSecrets(data.input) }));
+  agentEvents.on('tool:result', (data) => broadcast('tool:result', data));
 
   // Forward container events
   containerEvents.on('container:start', (data) => broadcast('container:start', data));
@@ -134,6 +160,9 @@ export function createServer() {
   });
   approvalEvents.on('approval:timeout', (data) => broadcast('approval:timeout', data));
 
+  // Forward group budget alerts
+  budgetEvents.on('budget:alert', (data) => broadcast('budget:alert', data));
+
   // Fallback: serve UI for any non-API route
   app.get('*', (_req, res) => {
     res.sendFile(path.join(__dirname, '..', '..', 'ui', 'index.html'));
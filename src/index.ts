@@ -2,9 +2,15 @@ import { config } from './config';
 import { createServer } from './gateway/server';
 import { initChannels } from './channels/manager';
 import { loadSystemPrompt, initAgentRuntime } from './agent/loop';
-import { registerBuiltinTools } from './agent/tools';
-import { exportBuiltinSkills, loadAndRegisterSkills, startSkillWatcher } from './agent/skills';
+import { registerBuiltinTools, initToolUsageSchema } from './agent/tools';
+import { exportBuiltinSkills, loadAndRegisterSkills, startSkillWatcher, initSkillConfigSchema } from './agent/skills';
 import { initAgentGroupsSchema } from './agent/groups';
+import { initMcpSchema, startMcpServers, stopMcpServers } from './agent/mcp';
+import { initContextSchema } from './agent/context-manager';
+import { initRunTraceSchema } from './agent/run-trace';
+import { initPricingSchema } from './agent/pricing';
+import { initAuditSchema } from './gateway/audit';
+import { parseModelRef } from './agent/providers';
 import { initA2ASchema } from './agent/a2a';
 import { initSchedulerSchema, startScheduler, startCalendarPolling } from './scheduler';
 import { initHitlSchema, expireStaleApprovals } from './agent/hitl';
@@ -16,7 +22,14 @@ async function main() {
   console.log('='.repeat(50));
 
   // Validate required config
-  if (!config.anthropicApiKey) {
+  let defaultProvider: string;
+  try {
+    defaultProvider = parseModelRef(config.agentModel).provider;
+  } catch (err) {
+    console.error(`[FATAL] Invalid AGENT_MODEL: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+  if (defaultProvider === 'anthropic' && !config.anthropicApiKey) {
     console.error('[FATAL] ANTHROPIC_API_KEY is not set. Set it in .env');
     process.exit(1);
   }
@@ -39,6 +52,12 @@ async function main() {
   // Initialize agent groups DB schema (migration-safe)
   initAgentGroupsSchema();
 
+  // Initialize per-group skill config (after groups: foreign key)
+  initSkillConfigSchema();
+
+  // Initialize conversation context columns (tool turns, rolling summary)
+  initContextSchema();
+
   // Initialize A2A message bus schema
   initA2ASchema();
 
@@ -48,6 +67,21 @@ async function main() {
   // Initialize HITL approval schema
   initHitlSchema();
 
+  // Initialize run trace schema (model turns, tool calls)
+  initRunTraceSchema();
+
+  // Initialize per-tool usage stats (rejected tool inputs)
+  initToolUsageSchema();
+
+  // Initialize MCP server config (after groups: foreign key)
+  initMcpSchema();
+
+  // Initialize model price table and per-call costs (after groups: api_calls.agent_group_id)
+  initPricingSchema();
+
+  // Initialize audit log of administrative changes
+  initAuditSchema();
+
   // Create HTTP/WS server
   const app = createServer();
 
@@ -63,6 +97,19 @@ async function main() {
   // Start skills hot-reload watcher
   startSkillWatcher();
 
+  // Connect the MCP servers of agent groups and register their tools (in the background)
+  startMcpServers().catch((err) => console.error('[mcp] Failed to start MCP servers:', err));
+
+  // On shutdown, stop the stdio MCP server processes so they do not outlive the gateway
+  const shutdown = (signal: NodeJS.Signals) => {
+    console.log(`[server] ${signal} received, shutting down`);
+    stopMcpServers()
+      .catch((err) => console.error('[mcp] Failed to stop MCP servers:', err))
+      .finally(() => process.exit(0));
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+
   // Periodic cleanup of stale approval requests (every 60s)
   setInterval(() => {
     const expired = expireStaleApprovals();
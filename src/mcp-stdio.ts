@@ -0,0 +1,140 @@
+/**
+ * MCP stdio entrypoint - Connects MCP clients that start their servers as a
+ * subprocess to the /mcp endpoint of a running gateway.
+ *
+ *   LOOP_GATEWAY_TOKEN=lgw_... node dist/mcp-stdio.js
+ *
+ * Agent runs, approvals and schedules live in the gateway process, so each
+ * JSON-RPC message read from stdin is forwarded over HTTP, and the replies
+ * (JSON or SSE) are written to stdout, one message per line. Logs go to
+ * stderr only.
+ *
+ * Environment:
+ *   LOOP_GATEWAY_TOKEN  API token (required)
+ *   LOOP_GATEWAY_URL    Gateway base URL (default http://localhost:$PORT, PORT default 3000)
+ */
+
+import * as readline from 'readline';
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const token = process.env.LOOP_GATEWAY_TOKEN || '';
+const baseUrl = (process.env.LOOP_GATEWAY_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, '');
+const endpoint = `${baseUrl}/mcp`;
+
+let sessionId: string | undefined;
+let protocolVersion: string | undefined;
+
+function write(msg: JsonRpcMessage): void {
+  process.stdout.write(JSON.stringify(msg) + '\n');
+}
+
+function writeError(id: JsonRpcMessage['id'], code: number, message: string): void {
+  // Notifications get no reply, not even an error
+  if (id === undefined) return;
+  write({ jsonrpc: '2.0', id, error: { code, message } });
+}
+
+function headers(): Record<string, string> {
+  return {
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream',
+    ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+    ...(protocolVersion && { 'MCP-Protocol-Version': protocolVersion }),
+  };
+}
+
+function handleReply(msg: JsonRpcMessage): void {
+  const version = (msg.result as { protocolVersion?: string } | undefined)?.protocolVersion;
+  if (version) protocolVersion = version;
+  write(msg);
+}
+
+async function readEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const flush = (event: string) => {
+    const data = event
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (data) handleReply(JSON.parse(data));
+  };
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, '\n');
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      flush(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+    }
+  }
+  if (buffer.trim()) flush(buffer);
+}
+
+async function forward(line: string): Promise<void> {
+  let msg: JsonRpcMessage;
+  try {
+    msg = JSON.parse(line);
+  } catch {
+    writeError(null, -32700, 'Parse error');
+    return;
+  }
+
+  try {
+    const res = await fetch(endpoint, { method: 'POST', headers: headers(), body: line });
+    const session = res.headers.get('mcp-session-id');
+    if (session) sessionId = session;
+
+    if (res.status === 202) return;
+    const contentType = res.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream') && res.body) {
+      await readEvents(res.body);
+      return;
+    }
+    const body = (await res.json().catch(() => undefined)) as JsonRpcMessage | JsonRpcMessage[] | undefined;
+    if (res.ok && body) {
+      (Array.isArray(body) ? body : [body]).forEach(handleReply);
+      return;
+    }
+    const reason = (body && !Array.isArray(body) && body.error?.message) || res.statusText;
+    if (res.status === 404) sessionId = undefined;
+    writeError(msg.id, -32000, `Gateway returned ${res.status}: ${reason}`);
+  } catch (err) {
+    writeError(msg.id, -32603, `Gateway not reachable at ${endpoint}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+async function main(): Promise<void> {
+  if (!token) {
+    console.error('[mcp-stdio] LOOP_GATEWAY_TOKEN is not set (create an API token in the dashboard)');
+    process.exit(1);
+  }
+
+  const pending = new Set<Promise<void>>();
+  const rl = readline.createInterface({ input: process.stdin });
+  // Requests run concurrently: a long send_message must not hold up a ping
+  rl.on('line', (line) => {
+    if (!line.trim()) return;
+    const p = forward(line).finally(() => pending.delete(p));
+    pending.add(p);
+  });
+
+  await new Promise<void>((resolve) => rl.once('close', resolve));
+  await Promise.all(pending);
+  if (sessionId) {
+    await fetch(endpoint, { method: 'DELETE', headers: headers() }).catch(() => undefined);
+  }
+}
+
+main().catch((err) => {
+  console.error('[mcp-stdio] Fatal:', err);
+  process.exit(1);
+});
@@ -13,6 +13,8 @@ import { triggerToCron, calculateNextRunTime } from './cron-builder';
 import { routeOutput } from './output-router';
 import { processMessage, getSystemPrompt } from '../agent/loop';
 import { resolveAgentConfig } from '../agent/groups/resolver';
+import { resolveContextSettings } from '../agent/context-manager';
+import { resolveFallbackModels, resolveRetryPolicy } from '../agent/providers';
 import { getOrCreateConversation } from '../db/sqlite';
 
 export const schedulerEvents = new EventEmitter();
@@ -195,10 +197,13 @@ export async function executeJob(jobId: string): Promise<void> {
       if (group) {
         agentConfig.systemPrompt = group.systemPrompt;
         agentConfig.model = group.model;
+        agentConfig.fallbackModels = resolveFallbackModels(group);
+        agentConfig.retry = resolveRetryPolicy(group);
         agentConfig.maxTokens = group.maxTokens;
         agentConfig.apiKey = getGroupApiKey(group.id);
         agentConfig.enabledSkills = group.skills.length > 0 ? group.skills : undefined;
         agentConfig.groupId = group.id;
+        agentConfig.context = resolveContextSettings(group);
       }
     }
 
@@ -0,0 +1,348 @@
+/**
+ * Auth & RBAC Tests
+ *
+ * Uses Node built-in assert + a temp SQLite DB to test:
+ * - Role permissions and the per-route guard
+ * - User management (validation, last admin protection, session reset)
+ * - API tokens (hashed storage, scopes, expiry, revocation)
+ * - Approvals recording the responding user
+ * - Audit log (secret redaction, changed fields, filters, CSV export),
+ *   including entries written by the API routes
+ * - TOTP two-factor authentication (enrollment, login step, recovery codes)
+ *
+ * Run: npx tsx tests/auth.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import express, { type Request, type Response } from 'express';
+
+// Set up temp DB before any imports that read config
+const testDbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+process.env.DB_PATH = path.join(testDbDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb, getSession } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the agent loop) import each other
+import '../src/channels/manager';
+import { createApiRouter } from '../src/gateway/api';
+import { login, authMiddleware } from '../src/auth/middleware';
+import { hasPermission, requirePermission, AuthUser } from '../src/auth/permissions';
+import { createUser, updateUser, deleteUser, listUsers } from '../src/auth/users';
+import { createApiToken, authenticateApiToken, revokeApiToken, getApiToken } from '../src/auth/tokens';
+import { initHitlSchema, createApprovalRequest, getApprovalRequest } from '../src/agent/hitl/db';
+import { respondToApproval } from '../src/agent/hitl/manager';
+import {
+  generateTotp,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  completeTwoFactorLogin,
+  setTwoFactorRequired,
+  needsTwoFactorEnrollment,
+} from '../src/auth/two-factor';
+import { initAuditSchema, recordAudit, getAuditLog, redactSecrets, auditToCsv } from '../src/gateway/audit';
+
+getDb();
+initHitlSchema();
+initAuditSchema();
+
+// The test DB may be shared between runs: use fresh usernames
+const suffix = Date.now().toString(36);
+
+// The API routes behind the auth middleware, as mounted by the gateway
+const app = express();
+app.use(express.json());
+app.use('/api', authMiddleware, createApiRouter());
+const server = app.listen(0);
+const apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+after(() => server.close());
+
+function api(method: string, route: string, body?: unknown, token?: string) {
+  return fetch(`${apiUrl}${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/** Run the guard for a user and return the HTTP status (200 = passed) */
+function guard(permission: Parameters<typeof requirePermission>[0], user?: AuthUser): number {
+  let status = 200;
+  const res = {
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+  requirePermission(permission)({ user } as unknown as Request, res, () => {});
+  return status;
+}
+
+describe('Auth: roles', () => {
+  test('grants permissions per role', () => {
+    assert.ok(hasPermission('admin', 'users:manage'));
+    assert.ok(hasPermission('operator', 'channels:manage'));
+    assert.ok(hasPermission('operator', 'jobs:manage'));
+    assert.ok(!hasPermission('operator', 'config:manage'));
+    assert.ok(!hasPermission('operator', 'approvals:respond'));
+    assert.ok(hasPermission('approver', 'approvals:respond'));
+    assert.ok(!hasPermission('approver', 'read'));
+    assert.ok(hasPermission('viewer', 'read'));
+    assert.ok(!hasPermission('viewer', 'channels:manage'));
+  });
+
+  test('route guard answers 403 for missing permissions', () => {
+    // Create a user first, so the gateway is out of setup mode
+    const admin = createUser({ username: `admin-${suffix}`, password: 'password123', role: 'admin' });
+    assert.equal(guard('users:manage', { id: admin.id, username: admin.username, role: 'admin' }), 200);
+    assert.equal(guard('read', { id: 2, username: 'v', role: 'viewer' }), 200);
+    assert.equal(guard('channels:manage', { id: 2, username: 'v', role: 'viewer' }), 403);
+    assert.equal(guard('read'), 401);
+  });
+});
+
+describe('Auth: users', () => {
+  test('validates role, password and unique usernames', () => {
+    assert.throws(
+      () => createUser({ username: `x-${suffix}`, password: 'password123', role: 'root' as never }),
+      /Invalid role/,
+    );
+    assert.throws(() => createUser({ username: `x-${suffix}`, password: 'short', role: 'viewer' }), /at least 8/);
+    createUser({ username: `dup-${suffix}`, password: 'password123', role: 'viewer' });
+    assert.throws(() => createUser({ username: `dup-${suffix}`, password: 'password123', role: 'viewer' }), /exists/);
+  });
+
+  test('keeps at least one admin', () => {
+    for (const user of listUsers().filter((u) => u.role === 'admin' && u.username !== `admin-${suffix}`)) {
+      updateUser(user.id, { role: 'viewer' });
+    }
+    const admin = listUsers().find((u) => u.username === `admin-${suffix}`)!;
+    assert.throws(() => updateUser(admin.id, { role: 'viewer' }), /last admin/);
+    assert.throws(() => deleteUser(admin.id), /last admin/);
+
+    const second = createUser({ username: `admin2-${suffix}`, password: 'password123', role: 'admin' });
+    assert.equal(updateUser(admin.id, { role: 'operator' })?.role, 'operator');
+    assert.equal(deleteUser(admin.id), true);
+    assert.equal(updateUser(second.id, {})?.role, 'admin');
+  });
+
+  test('role changes end the user sessions', () => {
+    const user = createUser({ username: `op-${suffix}`, password: 'password123', role: 'operator' });
+    const session = login(user.username, 'password123')!;
+    assert.ok(getSession(session.token));
+    updateUser(user.id, { role: 'operator' });
+    assert.ok(getSession(session.token), 'unchanged role keeps the session');
+    updateUser(user.id, { role: 'viewer' });
+    assert.equal(getSession(session.token), undefined);
+  });
+});
+
+describe('Auth: API tokens', () => {
+  test('stores only a hash and authenticates with narrowed scopes', () => {
+    const op = createUser({ username: `tok-${suffix}`, password: 'password123', role: 'operator' });
+    const { token, apiToken } = createApiToken(op, { name: 'ci', scopes: ['read', 'jobs:manage'] });
+    assert.match(token, /^lgw_/);
+    const row = getDb().prepare('SELECT * FROM api_tokens WHERE id = ?').get(apiToken.id) as Record<string, unknown>;
+    assert.ok(!Object.values(row).includes(token), 'plain token is not stored');
+    assert.equal(apiToken.lastUsedAt, undefined);
+
+    const user = authenticateApiToken(token)!;
+    assert.equal(user.id, op.id);
+    assert.equal(user.tokenId, apiToken.id);
+    assert.equal(guard('jobs:manage', user), 200);
+    assert.equal(guard('channels:manage', user), 403, 'role allows it, token scopes do not');
+    assert.ok(getApiToken(apiToken.id)?.lastUsedAt);
+    assert.equal(authenticateApiToken(token + 'x'), undefined);
+  });
+
+  test('rejects scopes beyond the role and invalid expiry', () => {
+    const viewer = createUser({ username: `tokv-${suffix}`, password: 'password123', role: 'viewer' });
+    assert.throws(() => createApiToken(viewer, { name: 'x', scopes: ['channels:manage'] }), /cannot grant/);
+    assert.throws(() => createApiToken(viewer, { name: 'x', scopes: ['root'] }), /Unknown scope/);
+    assert.throws(() => createApiToken(viewer, { name: 'x', scopes: [] }), /non-empty/);
+    assert.throws(() => createApiToken(viewer, { name: 'x', scopes: ['read'], expiresInDays: 0 }), /expiresInDays/);
+  });
+
+  test('expired and revoked tokens are rejected', () => {
+    const viewer = createUser({ username: `toke-${suffix}`, password: 'password123', role: 'viewer' });
+    const expired = createApiToken(viewer, { name: 'old', scopes: ['read'], expiresInDays: 1 });
+    getDb()
+      .prepare("UPDATE api_tokens SET expires_at = datetime('now', '-1 minute') WHERE id = ?")
+      .run(expired.apiToken.id);
+    assert.equal(authenticateApiToken(expired.token), undefined);
+
+    const revoked = createApiToken(viewer, { name: 'gone', scopes: ['read'] });
+    assert.ok(authenticateApiToken(revoked.token));
+    assert.equal(revokeApiToken(revoked.apiToken.id), true);
+    assert.equal(authenticateApiToken(revoked.token), undefined);
+    assert.equal(revokeApiToken(revoked.apiToken.id), false);
+  });
+});
+
+describe('Auth: approvals', () => {
+  test('records the responding user', () => {
+    const approver = createUser({ username: `approver-${suffix}`, password: 'password123', role: 'approver' });
+    const approval = createApprovalRequest({
+      runId: 1,
+      conversationId: 'conv-auth',
+      toolName: 'run_script',
+      toolInput: {},
+      riskLevel: 'high',
+      timeoutSeconds: 60,
+    });
+    assert.ok(respondToApproval(approval.id, true, undefined, approver.username, approver.id));
+    const stored = getApprovalRequest(approval.id)!;
+    assert.equal(stored.respondedBy, approver.username);
+    assert.equal(stored.respondedByUserId, approver.id);
+  });
+});
+
+describe('Auth: audit log', () => {
+  test('redacts secrets but keeps counters and flags', () => {
+    const redacted = redactSecrets({
+      name: 'g',
+      apiKeyEncrypted: 'abc',
+      githubToken: 'ghp_x',
+      maxTokens: 4096,
+      hasApiKey: true,
+      config: { botToken: '123:abc', password: '', allowedUsers: ['1'] },
+    });
+    assert.deepEqual(redacted, {
+      name: 'g',
+      apiKeyEncrypted: '[redacted]',
+      githubToken: '[redacted]',
+      maxTokens: 4096,
+      hasApiKey: true,
+      config: { botToken: '[redacted]', password: '', allowedUsers: ['1'] },
+    });
+  });
+
+  test('records user, IP and changed fields, filterable and exportable', () => {
+    const user: AuthUser = { id: 42, username: `auditor-${suffix}`, role: 'admin' };
+    const req = { user, ip: '10.0.0.7' } as unknown as Request;
+    const groupId = `group-${suffix}`;
+    recordAudit(req, 'group.update', groupId, {
+      before: { name: 'a', apiKeyEncrypted: 'old', model: 'x' },
+      after: { name: 'a', apiKeyEncrypted: 'new', model: 'y' },
+    });
+    recordAudit(req, 'group.delete', groupId, { before: { name: 'a' } });
+
+    const entries = getAuditLog({ resourceType: 'group', resourceId: groupId });
+    assert.equal(entries.length, 2);
+    const update = entries.find((e) => e.action === 'group.update')!;
+    assert.equal(update.username, user.username);
+    assert.equal(update.ip, '10.0.0.7');
+    assert.deepEqual(update.changes, ['apiKeyEncrypted', 'model']);
+    assert.deepEqual(update.after, { name: 'a', apiKeyEncrypted: '[redacted]', model: 'y' });
+    assert.equal(getAuditLog({ resourceId: groupId, action: 'group.delete' }).length, 1);
+    assert.equal(getAuditLog({ resourceId: groupId, since: '2999-01-01' }).length, 0);
+
+    const csv = auditToCsv(entries).split('\n');
+    assert.match(csv[0]!, /^id,createdAt,username/);
+    assert.ok(csv.some((line) => line.includes('group.update') && !line.includes('"new"')));
+  });
+
+  test('redacts mailbox passwords of email channels', async () => {
+    const admin = createUser({ username: `channel-admin-${suffix}`, password: 'password123', role: 'admin' });
+    const session = login(admin.username, 'password123');
+    assert.ok(session && 'token' in session);
+
+    // No IMAP host: the channel is stored without connecting anywhere
+    const created = await api(
+      'POST',
+      '/channels',
+      {
+        type: 'email',
+        name: 'Support inbox',
+        config: { imapUser: 'bot', imapPass: 'imap-secret', smtpPass: 'smtp-secret' },
+      },
+      session.token,
+    );
+    assert.equal(created.status, 200);
+    const { id } = await created.json();
+    assert.equal((await api('DELETE', `/channels/${id}`, undefined, session.token)).status, 200);
+
+    const entries = getAuditLog({ resourceType: 'channel', resourceId: id });
+    const create = entries.find((e) => e.action === 'channel.create')!;
+    assert.equal(create.username, admin.username);
+    assert.deepEqual((create.after as { config: unknown }).config, {
+      imapUser: 'bot',
+      imapPass: '[redacted]',
+      smtpPass: '[redacted]',
+    });
+    assert.ok(entries.every((e) => !JSON.stringify(e).includes('-secret')));
+  });
+});
+
+describe('Auth: two-factor', () => {
+  test('generates RFC 6238 codes', () => {
+    // RFC 6238 test secret "12345678901234567890" (SHA-1), T = 59s -> 94287082
+    assert.equal(generateTotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', 1), '287082');
+  });
+
+  test('enrolls and adds a second login step with one-time codes', async () => {
+    const user = createUser({ username: `totp-${suffix}`, password: 'password123', role: 'operator' });
+    const { secret, otpauthUrl, qrCode } = await beginTwoFactorEnrollment(user.id);
+    assert.match(otpauthUrl, /^otpauth:\/\/totp\//);
+    assert.match(qrCode, /^data:image\/png;base64,/);
+    const stored = getDb().prepare('SELECT totp_secret FROM users WHERE id = ?').get(user.id) as {
+      totp_secret: string;
+    };
+    assert.notEqual(stored.totp_secret, secret, 'secret is stored encrypted');
+
+    assert.throws(() => confirmTwoFactorEnrollment(user.id, '000000x'), /Invalid code/);
+    const code = generateTotp(secret);
+    const recoveryCodes = confirmTwoFactorEnrollment(user.id, code);
+    assert.equal(recoveryCodes.length, 10);
+
+    const first = login(user.username, 'password123');
+    assert.ok(first && 'challenge' in first, 'password alone gives only a challenge');
+    assert.equal(completeTwoFactorLogin(first.challenge, code), null, 'codes cannot be replayed');
+    assert.ok(completeTwoFactorLogin(first.challenge, recoveryCodes[0]!)?.token);
+
+    const second = login(user.username, 'password123');
+    assert.ok(second && 'challenge' in second);
+    assert.equal(completeTwoFactorLogin(second.challenge, recoveryCodes[0]!), null, 'recovery codes work once');
+    assert.ok(completeTwoFactorLogin(second.challenge, recoveryCodes[1]!.toUpperCase().replace('-', ''))?.token);
+    assert.throws(() => completeTwoFactorLogin(second.challenge, recoveryCodes[2]!), /expired/);
+  });
+
+  test('POST /auth/login rejects expired challenges with 401', async () => {
+    const user = createUser({ username: `totp-api-${suffix}`, password: 'password123', role: 'viewer' });
+    const { secret } = await beginTwoFactorEnrollment(user.id);
+    confirmTwoFactorEnrollment(user.id, generateTotp(secret));
+
+    const unknown = await api('POST', '/auth/login', { challenge: 'unknown', code: '123456' });
+    assert.equal(unknown.status, 401);
+    assert.match((await unknown.json()).error, /Login expired/);
+
+    const first = await api('POST', '/auth/login', { username: user.username, password: 'password123' });
+    const { challenge } = await first.json();
+    for (let i = 0; i < 5; i++) {
+      const wrong = await api('POST', '/auth/login', { challenge, code: '000000x' });
+      assert.deepEqual(await wrong.json(), { error: 'Invalid code' });
+    }
+    const exhausted = await api('POST', '/auth/login', { challenge, code: generateTotp(secret) });
+    assert.equal(exhausted.status, 401);
+    assert.match((await exhausted.json()).error, /Login expired/);
+  });
+
+  test('enforcement applies to local users without 2FA', () => {
+    setTwoFactorRequired(true);
+    try {
+      assert.ok(needsTwoFactorEnrollment({ auth_provider: 'local', totp_enabled: 0 }));
+      assert.ok(!needsTwoFactorEnrollment({ auth_provider: 'local', totp_enabled: 1 }));
+      assert.ok(!needsTwoFactorEnrollment({ auth_provider: 'oidc', totp_enabled: 0 }));
+    } finally {
+      setTwoFactorRequired(false);
+    }
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Container Tool-Call Protocol Tests
+ *
+ * Runs agent-runner/runner.js as a plain Node process (no Docker) against a
+ * stub Anthropic API server (ANTHROPIC_BASE_URL), with a temp SQLite DB, to test:
+ * - Tool calls proxied from the runner to the host and results fed back
+ * - Rejected approvals reaching the model as errors, the tool not run
+ * - Malformed or split lines on either side of the protocol
+ * - The host closing stdin while a tool call is outstanding
+ *
+ * Run: npx tsx tests/container-protocol.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after } from 'node:test';
+import http from 'node:http';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import { spawn } from 'node:child_process';
+import type { AddressInfo } from 'node:net';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'container-protocol-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb, upsertChannel, getOrCreateConversation, addMessage, createAgentRun } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the agent loop) import each other
+import '../src/channels/manager';
+import { createContainerToolHandler } from '../src/agent/loop';
+import { runAgentProcess, ContainerInput, ContainerToolCall } from '../src/agent/container-runner';
+import { initHitlSchema } from '../src/agent/hitl/db';
+import { approvalEvents, respondToApproval, upsertApprovalRule, ApprovalRequest } from '../src/agent/hitl';
+import { initRunTraceSchema } from '../src/agent/run-trace';
+import { toolRegistry, createToolContext } from '../src/agent/tools/registry';
+
+getDb();
+initHitlSchema();
+initRunTraceSchema();
+
+const RUNNER = path.join(__dirname, '..', 'agent-runner', 'runner.js');
+
+// The test DB may be shared between runs: use fresh names
+const suffix = Date.now().toString(36);
+
+// Stub Anthropic API: asks for the tool named in the prompt, then repeats its result
+const modelServer = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    const request = JSON.parse(body);
+    const last = request.messages[request.messages.length - 1];
+    const toolResult = Array.isArray(last.content)
+      ? last.content.find((b: any) => b.type === 'tool_result')
+      : undefined;
+    const content = toolResult
+      ? [{ type: 'text', text: `Tool said: ${toolResult.content}` }]
+      : [{ type: 'tool_use', id: 'call_1', name: last.content, input: { text: 'ping' } }];
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: request.model,
+        content,
+        stop_reason: toolResult ? 'end_turn' : 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 2 },
+      }),
+    );
+  });
+});
+modelServer.listen(0);
+const baseUrl = `http://127.0.0.1:${(modelServer.address() as AddressInfo).port}`;
+
+after(() => modelServer.close());
+
+/** Runner input whose prompt names the tool the stub model calls */
+function runnerInput(toolName: string): ContainerInput {
+  return {
+    models: [{ ref: 'anthropic:stub', api: 'anthropic', apiKey: 'test-key-not-real', model: 'stub' }],
+    retry: { maxRetries: 0, initialDelayMs: 10, maxDelayMs: 10 },
+    maxTokens: 100,
+    systemPrompt: 'Use the tool.',
+    messages: [{ role: 'user', content: toolName }],
+    tools: [{ name: toolName, description: 'Test tool', input_schema: { type: 'object', properties: {} } }],
+  };
+}
+
+function spawnRunner() {
+  return spawn(process.execPath, [RUNNER], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, ANTHROPIC_BASE_URL: baseUrl },
+  });
+}
+
+/** Stdout of a process until it exits */
+function readStdout(child: ReturnType<typeof spawn>): Promise<string> {
+  let stdout = '';
+  child.stdout!.on('data', (data: Buffer) => (stdout += data.toString()));
+  return new Promise((resolve) => child.on('close', () => resolve(stdout)));
+}
+
+/** The final result between the output sentinels */
+function parseOutput(stdout: string) {
+  const json = stdout.split('===AGENT_OUTPUT_START===')[1]!.split('===AGENT_OUTPUT_END===')[0]!;
+  return JSON.parse(json);
+}
+
+describe('Container protocol: host and runner', () => {
+  test('proxies tool calls to the host and feeds the results back', async () => {
+    const calls: ContainerToolCall[] = [];
+    const result = await runAgentProcess(spawnRunner(), runnerInput('echo_probe'), async (call) => {
+      calls.push(call);
+      return { content: 'pong' };
+    });
+
+    assert.deepEqual(calls, [{ id: 'call_1', name: 'echo_probe', input: { text: 'ping' }, iteration: 0 }]);
+    assert.equal(result.content, 'Tool said: pong');
+    assert.equal(result.toolCalls, 1);
+    assert.equal(result.inputTokens, 20);
+  });
+
+  test('rejected approvals reach the model as errors and the tool does not run', async () => {
+    const toolName = `guarded_probe_${suffix}`;
+    let executed = false;
+    toolRegistry.register({
+      name: toolName,
+      description: 'Needs approval',
+      inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+      async execute() {
+        executed = true;
+        return { content: 'ran' };
+      },
+    });
+    upsertApprovalRule({ toolName, riskLevel: 'high', requireApproval: true });
+
+    upsertChannel({
+      id: 'container-test',
+      type: 'webhook',
+      name: 'Container protocol tests',
+      config: '{}',
+      enabled: 0,
+    });
+    const conversationId = getOrCreateConversation('container-test', `conv-${suffix}`);
+    const runId = createAgentRun(conversationId, addMessage(conversationId, 'user', toolName));
+    const onRequired = (approval: ApprovalRequest) => {
+      if (approval.runId !== runId) return;
+      setImmediate(() => respondToApproval(approval.id, false, 'Not today', 'tester'));
+    };
+    approvalEvents.on('approval:required', onRequired);
+
+    try {
+      const handler = createContainerToolHandler(createToolContext({ runId, conversationId }));
+      const result = await runAgentProcess(spawnRunner(), runnerInput(toolName), handler);
+
+      assert.equal(executed, false);
+      assert.match(result.content, /^Tool said: Tool call rejected by human reviewer: Not today/);
+    } finally {
+      approvalEvents.off('approval:required', onRequired);
+    }
+  });
+
+  test('host skips malformed tool call lines and joins lines split across chunks', async () => {
+    // A fake runner: a malformed call, noise, then a call written in two chunks
+    const fakeRunner = `
+      let lines = 0;
+      process.stdin.on('data', (data) => {
+        for (const line of String(data).split('\\n').filter(Boolean)) {
+          if (++lines === 1) {
+            process.stdout.write('===AGENT_TOOL_CALL=== {not json\\nnoise\\n===AGENT_TOOL_CALL=== {"id":"c1",');
+            setTimeout(() => process.stdout.write('"name":"probe","input":{},"iteration":2}\\n'), 20);
+          } else {
+            const result = JSON.parse(line);
+            const output = { content: result.id + ':' + result.content, inputTokens: 1, outputTokens: 1 };
+            process.stdout.write('===AGENT_OUTPUT_START===\\n' + JSON.stringify(output) + '\\n===AGENT_OUTPUT_END===\\n');
+          }
+        }
+      });`;
+    const child = spawn(process.execPath, ['-e', fakeRunner], { stdio: ['pipe', 'pipe', 'pipe'] });
+    const calls: ContainerToolCall[] = [];
+    const result = await runAgentProcess(child, runnerInput('probe'), async (call) => {
+      calls.push(call);
+      return { content: 'ok' };
+    });
+
+    assert.deepEqual(calls, [{ id: 'c1', name: 'probe', input: {}, iteration: 2 }]);
+    assert.equal(result.content, 'c1:ok');
+  });
+
+  test('runner skips malformed host messages and results for other calls', async () => {
+    const child = spawnRunner();
+    const stdout = readStdout(child);
+    child.stdin.write(JSON.stringify(runnerInput('probe')) + '\n');
+
+    child.stdout.on('data', (data: Buffer) => {
+      if (!data.toString().includes('===AGENT_TOOL_CALL===')) return;
+      child.stdin.write('not json\n');
+      child.stdin.write(JSON.stringify({ type: 'tool_result', id: 'other', content: 'wrong' }) + '\n');
+      child.stdin.write(JSON.stringify({ type: 'tool_result', id: 'call_1', content: 'right' }) + '\n');
+      child.stdin.end();
+    });
+
+    assert.equal(parseOutput(await stdout).content, 'Tool said: right');
+  });
+
+  test('runner fails outstanding tool calls when the host closes stdin', async () => {
+    const child = spawnRunner();
+    const stdout = readStdout(child);
+    child.stdin.write(JSON.stringify(runnerInput('probe')) + '\n');
+
+    child.stdout.on('data', (data: Buffer) => {
+      if (data.toString().includes('===AGENT_TOOL_CALL===')) child.stdin.end();
+    });
+
+    assert.equal(
+      parseOutput(await stdout).content,
+      'Tool said: Host closed the connection before returning a tool result.',
+    );
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Context Manager Tests
+ *
+ * Uses Node built-in assert + a temp SQLite DB to test:
+ * - Context window selection (budget, keepMessages, tool turn boundaries)
+ * - Tool turn persistence and rolling summary folding
+ * - Clearing the summary on reset
+ *
+ * Run: npx tsx tests/context.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+
+// Set up temp DB before any imports that read config
+const testDbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'context-test-'));
+process.env.DB_PATH = path.join(testDbDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb, upsertChannel, getOrCreateConversation, addMessage } from '../src/db/sqlite';
+import {
+  initContextSchema,
+  selectContextWindow,
+  storeToolTurns,
+  buildConversationContext,
+  clearConversationContext,
+  getContextStats,
+  ContextMessage,
+} from '../src/agent/context-manager';
+
+getDb();
+initContextSchema();
+upsertChannel({ id: 'ch-ctx', type: 'webhook', name: 'ctx', config: '{}', enabled: 1 });
+
+function msg(id: number, role: 'user' | 'assistant', tokens: number, blocks: string | null = null): ContextMessage {
+  return { id, role, content: `m${id}`, blocks, tokens };
+}
+
+const toolResult = JSON.stringify([{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }]);
+const toolUse = JSON.stringify([{ type: 'tool_use', id: 't1', name: 'http_request', input: {} }]);
+
+describe('Context: selectContextWindow', () => {
+  test('keeps everything while within budget', () => {
+    const messages = [msg(1, 'user', 10), msg(2, 'assistant', 10)];
+    const { keep, fold } = selectContextWindow(messages, { maxTokens: 100, keepMessages: 1, summarize: true });
+    assert.equal(keep.length, 2);
+    assert.equal(fold.length, 0);
+  });
+
+  test('folds down to half the budget when over budget', () => {
+    const messages = [1, 2, 3, 4, 5, 6].map((id) => msg(id, id % 2 ? 'user' : 'assistant', 30));
+    const { keep, fold } = selectContextWindow(messages, { maxTokens: 120, keepMessages: 1, summarize: true });
+    assert.deepEqual(
+      keep.map((m) => m.id),
+      [5, 6],
+    );
+    assert.deepEqual(
+      fold.map((m) => m.id),
+      [1, 2, 3, 4],
+    );
+  });
+
+  test('keeps keepMessages, rounded to a user message boundary', () => {
+    const messages = [1, 2, 3, 4, 5, 6].map((id) => msg(id, id % 2 ? 'user' : 'assistant', 100));
+    const { keep } = selectContextWindow(messages, { maxTokens: 100, keepMessages: 3, summarize: true });
+    assert.deepEqual(
+      keep.map((m) => m.id),
+      [5, 6],
+    );
+  });
+
+  test('never starts the window at a tool_result', () => {
+    const messages = [
+      msg(1, 'user', 50),
+      msg(2, 'assistant', 50, toolUse),
+      msg(3, 'user', 50, toolResult),
+      msg(4, 'assistant', 10),
+      msg(5, 'user', 10),
+    ];
+    const { keep } = selectContextWindow(messages, { maxTokens: 150, keepMessages: 1, summarize: true });
+    assert.equal(keep[0]!.id, 5);
+  });
+});
+
+describe('Context: persistence and summary', () => {
+  test('tool turns round-trip as content blocks', async () => {
+    const convId = getOrCreateConversation('ch-ctx', 'chat-tools');
+    addMessage(convId, 'user', 'fetch it');
+    storeToolTurns(convId, [
+      { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'http_request', input: { url: 'x' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'body' }] },
+    ]);
+    addMessage(convId, 'assistant', 'done');
+
+    const ctx = await buildConversationContext(convId, { maxTokens: 10_000, keepMessages: 10, summarize: true });
+    assert.equal(ctx.messages.length, 4);
+    const toolTurn = ctx.messages[1]!;
+    assert.ok(Array.isArray(toolTurn.content));
+    assert.equal((toolTurn.content as Array<{ type: string }>)[0]!.type, 'tool_use');
+    assert.equal(ctx.summary, null);
+  });
+
+  test('overflowing history is folded into the rolling summary', async () => {
+    const convId = getOrCreateConversation('ch-ctx', 'chat-summary');
+    for (let i = 0; i < 6; i++) {
+      addMessage(convId, i % 2 ? 'assistant' : 'user', 'x'.repeat(400));
+    }
+
+    let transcriptSeen = '';
+    const ctx = await buildConversationContext(
+      convId,
+      { maxTokens: 400, keepMessages: 2, summarize: true },
+      async (transcript, previous) => {
+        transcriptSeen = transcript;
+        assert.equal(previous, null);
+        return 'SUMMARY';
+      },
+    );
+
+    assert.equal(ctx.summary, 'SUMMARY');
+    assert.equal(ctx.messages.length, 2);
+    assert.ok(transcriptSeen.startsWith('user: '));
+    assert.equal(getContextStats(convId).hasSummary, true);
+
+    // Folded messages are not sent again on the next run
+    const next = await buildConversationContext(convId, { maxTokens: 400, keepMessages: 2, summarize: true });
+    assert.equal(next.messages.length, 2);
+    assert.equal(next.summary, 'SUMMARY');
+  });
+
+  test('clearConversationContext removes the summary', () => {
+    const convId = getOrCreateConversation('ch-ctx', 'chat-summary');
+    clearConversationContext(convId);
+    assert.equal(getContextStats(convId).hasSummary, false);
+  });
+});
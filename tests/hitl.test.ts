@@ -14,6 +14,7 @@ import { test, describe } from 'node:test';
 import path from 'node:path';
 import fs from 'node:fs';
 import os from 'node:os';
+import { getEventListeners } from 'node:events';
 
 // Set up temp DB before any imports that read config
 const testDbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hitl-test-'));
@@ -321,6 +322,46 @@ describe('HITL Manager: respondToApproval', () => {
     assert.equal(result.reason, 'Dangerous command');
   });
 
+  test('aborting the run signal rejects a pending approval', async () => {
+    const controller = new AbortController();
+    const { approvalId, promise } = requestApproval({
+      runId: 102,
+      conversationId: 'conv-102',
+      toolName: 'run_script',
+      toolInput: { command: 'sleep 100' },
+      riskLevel: 'critical',
+      timeoutSeconds: 60,
+      timeoutAction: 'approve',
+      signal: controller.signal,
+    });
+
+    controller.abort();
+
+    const result = await promise;
+    assert.equal(result.approved, false);
+    assert.equal(result.reason, 'Run cancelled');
+    assert.equal(getApprovalRequest(approvalId)?.status, 'rejected');
+  });
+
+  test('a decided approval stops listening to the run signal', async () => {
+    const controller = new AbortController();
+    const { approvalId, promise } = requestApproval({
+      runId: 103,
+      conversationId: 'conv-103',
+      toolName: 'run_script',
+      toolInput: { command: 'ls' },
+      riskLevel: 'high',
+      timeoutSeconds: 60,
+      timeoutAction: 'reject',
+      signal: controller.signal,
+    });
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 1);
+
+    respondToApproval(approvalId, true);
+    await promise;
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+  });
+
   test('respondToApproval returns false for non-existent id', () => {
     const ok = respondToApproval('non-existent-id', true);
     assert.equal(ok, false);
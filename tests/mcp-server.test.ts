@@ -0,0 +1,238 @@
+/**
+ * MCP Server Tests
+ *
+ * Uses a temp SQLite DB and the /mcp router on a local HTTP server to test:
+ * - API token auth, sessions bound to the token, origin check
+ * - Tools listed and allowed by the token's scopes
+ * - list_agent_groups, create_scheduled_job (defaults, audit) and list_approvals
+ * - send_message conversation ownership (no model call)
+ *
+ * Run: npx tsx tests/mcp-server.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb, getAllChannels, getOrCreateConversation, ensureInternalChannel } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the agent loop) import each other
+import '../src/channels/manager';
+import { createMcpRouter, MCP_CHANNEL_ID } from '../src/gateway/mcp';
+import { initAuditSchema, getAuditLog } from '../src/gateway/audit';
+import { createUser } from '../src/auth/users';
+import { createApiToken } from '../src/auth/tokens';
+import { initAgentGroupsSchema, createAgentGroup } from '../src/agent/groups';
+import { initHitlSchema, createApprovalRequest } from '../src/agent/hitl/db';
+import { initSchedulerSchema, getJob, unscheduleJob } from '../src/scheduler';
+
+getDb();
+initAuditSchema();
+initAgentGroupsSchema();
+initHitlSchema();
+initSchedulerSchema();
+
+// The test DB may be shared between runs: use fresh usernames
+const suffix = Date.now().toString(36);
+
+const group = createAgentGroup({ name: 'Support', systemPrompt: 'You help.' });
+const operator = createUser({ username: `mcp-operator-${suffix}`, password: 'password123', role: 'operator' });
+const viewer = createUser({ username: `mcp-viewer-${suffix}`, password: 'password123', role: 'viewer' });
+const operatorToken = createApiToken(operator, {
+  name: 'ide',
+  scopes: ['read', 'jobs:manage', 'messages:send', 'approvals:read'],
+}).token;
+const readToken = createApiToken(operator, { name: 'read-only', scopes: ['read'] }).token;
+const viewerToken = createApiToken(viewer, { name: 'viewer', scopes: ['read', 'approvals:read'] }).token;
+
+const app = express();
+app.use(express.json());
+app.use('/mcp', createMcpRouter());
+const server = app.listen(0);
+const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+
+after(() => server.close());
+
+let nextId = 1;
+
+async function post(token: string, body: unknown, sessionId?: string, extra: Record<string, string> = {}) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      ...extra,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function initialize(token: string): Promise<string> {
+  const res = await post(token, {
+    jsonrpc: '2.0',
+    id: nextId++,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } },
+  });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  assert.equal(body.result.protocolVersion, '2025-03-26');
+  assert.equal(body.result.serverInfo.name, 'loop-gateway');
+  const sessionId = res.headers.get('mcp-session-id');
+  assert.ok(sessionId);
+  return sessionId;
+}
+
+async function rpc(token: string, sessionId: string, method: string, params?: unknown) {
+  const res = await post(token, { jsonrpc: '2.0', id: nextId++, method, params }, sessionId);
+  assert.equal(res.status, 200);
+  return res.json();
+}
+
+async function callTool(token: string, sessionId: string, name: string, args: unknown) {
+  const body = await rpc(token, sessionId, 'tools/call', { name, arguments: args });
+  const text = body.result.content[0].text as string;
+  return { isError: !!body.result.isError, text, data: body.result.isError ? undefined : JSON.parse(text) };
+}
+
+describe('MCP server: auth and sessions', () => {
+  test('requires an API token', async () => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+    assert.equal(res.status, 401);
+    assert.equal((await post('lgw_not-a-real-token', { jsonrpc: '2.0', id: 1, method: 'ping' })).status, 401);
+  });
+
+  test('requires a session of the same token after initialize', async () => {
+    const sessionId = await initialize(operatorToken);
+    assert.deepEqual((await rpc(operatorToken, sessionId, 'ping')).result, {});
+
+    assert.equal((await post(operatorToken, { jsonrpc: '2.0', id: 1, method: 'ping' })).status, 400);
+    assert.equal((await post(operatorToken, { jsonrpc: '2.0', id: 1, method: 'ping' }, 'unknown')).status, 404);
+    assert.equal((await post(readToken, { jsonrpc: '2.0', id: 1, method: 'ping' }, sessionId)).status, 404);
+
+    // Notifications are accepted without a reply
+    const res = await post(operatorToken, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    assert.equal(res.status, 202);
+  });
+
+  test('rejects requests from other origins', async () => {
+    const res = await post(operatorToken, { jsonrpc: '2.0', id: 1, method: 'ping' }, undefined, {
+      Origin: 'http://evil.example',
+    });
+    assert.equal(res.status, 403);
+  });
+
+  test('ends a session on DELETE', async () => {
+    const sessionId = await initialize(operatorToken);
+    const res = await fetch(url, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${operatorToken}`, 'Mcp-Session-Id': sessionId },
+    });
+    assert.equal(res.status, 204);
+    assert.equal((await post(operatorToken, { jsonrpc: '2.0', id: 1, method: 'ping' }, sessionId)).status, 404);
+  });
+});
+
+describe('MCP server: tools', () => {
+  test('lists only the tools the token may use', async () => {
+    const names = async (token: string) => {
+      const body = await rpc(token, await initialize(token), 'tools/list');
+      return body.result.tools.map((t: { name: string }) => t.name).sort();
+    };
+    assert.deepEqual(await names(operatorToken), [
+      'create_scheduled_job',
+      'list_agent_groups',
+      'list_approvals',
+      'send_message',
+    ]);
+    assert.deepEqual(await names(readToken), ['list_agent_groups']);
+    assert.deepEqual(await names(viewerToken), ['list_agent_groups', 'list_approvals']);
+
+    const sessionId = await initialize(readToken);
+    const denied = await callTool(readToken, sessionId, 'send_message', { groupId: group.id, message: 'hi' });
+    assert.ok(denied.isError);
+    assert.match(denied.text, /requires messages:send/);
+    const unknown = await rpc(readToken, sessionId, 'tools/call', { name: 'nope', arguments: {} });
+    assert.equal(unknown.error.code, -32602);
+  });
+
+  test('list_agent_groups returns groups without secrets', async () => {
+    const { data } = await callTool(readToken, await initialize(readToken), 'list_agent_groups', {});
+    const listed = data.find((g: { id: string }) => g.id === group.id);
+    assert.deepEqual(listed, { id: group.id, name: 'Support', description: '', model: group.model, skills: [] });
+  });
+
+  test('create_scheduled_job validates, applies defaults and records an audit entry', async () => {
+    const sessionId = await initialize(operatorToken);
+    const invalid = await callTool(operatorToken, sessionId, 'create_scheduled_job', {
+      name: 'Digest',
+      trigger: { type: 'hourly' },
+      action: { agentGroupId: group.id, prompt: 'Summarize' },
+      output: { type: 'file', filePath: '/tmp/digest.md' },
+    });
+    assert.ok(invalid.isError);
+    assert.match(invalid.text, /trigger\.type/);
+
+    const { data: job } = await callTool(operatorToken, sessionId, 'create_scheduled_job', {
+      name: 'Digest',
+      trigger: { type: 'daily', time: { hour: 8, minute: 0 } },
+      action: { agentGroupId: group.id, prompt: 'Summarize' },
+      output: { type: 'file', filePath: '/tmp/digest.md' },
+    });
+    unscheduleJob(job.id);
+    assert.equal(getJob(job.id)?.trigger.timezone, 'UTC');
+    assert.equal(getJob(job.id)?.action.maxIterations, 10);
+    assert.ok(job.triggerDescription);
+
+    const [entry] = getAuditLog({ action: 'job.create', resourceId: job.id });
+    assert.equal(entry?.username, operator.username);
+    assert.ok(entry?.tokenId);
+  });
+
+  test('list_approvals returns the pending queue', async () => {
+    const approval = createApprovalRequest({
+      runId: 1,
+      conversationId: 'conv-mcp',
+      toolName: 'run_script',
+      toolInput: {},
+      riskLevel: 'high',
+      timeoutSeconds: 60,
+    });
+    const { data } = await callTool(viewerToken, await initialize(viewerToken), 'list_approvals', {});
+    assert.ok(data.some((a: { id: string }) => a.id === approval.id));
+  });
+
+  test('send_message only continues conversations of the same user and group', async () => {
+    const sessionId = await initialize(operatorToken);
+    const missing = await callTool(operatorToken, sessionId, 'send_message', { groupId: 'nope', message: 'hi' });
+    assert.match(missing.text, /Agent group nope not found/);
+
+    // A conversation another user started with this group
+    ensureInternalChannel(MCP_CHANNEL_ID, 'MCP clients');
+    const foreign = getOrCreateConversation(MCP_CHANNEL_ID, `${viewer.id}:${group.id}:abc`);
+    const res = await callTool(operatorToken, sessionId, 'send_message', {
+      groupId: group.id,
+      message: 'hi',
+      conversationId: foreign,
+    });
+    assert.ok(res.isError);
+    assert.match(res.text, /not found for this group/);
+
+    // The internal channel is not listed with the real channels
+    assert.ok(!getAllChannels().some((c) => c.id === MCP_CHANNEL_ID));
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * MCP Client Tests
+ *
+ * Runs a local stdio MCP server (a small Node script) and an HTTP one to test:
+ * - Handshake, tool discovery and calls over stdio and streamable HTTP
+ * - Registration as namespaced tools of one agent group only
+ * - Input validation, HITL risk level, tool list changes and disconnects
+ * - Encrypted env/headers that the API never returns
+ *
+ * Run: npx tsx tests/mcp.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb } from '../src/db/sqlite';
+import { initAgentGroupsSchema, createAgentGroup } from '../src/agent/groups';
+import {
+  initMcpSchema,
+  createMcpServer,
+  updateMcpServer,
+  getMcpServer,
+  connectMcpServer,
+  disconnectMcpServer,
+  stopMcpServers,
+  getMcpServerInfo,
+  mcpToolName,
+  McpClient,
+} from '../src/agent/mcp';
+import { toolRegistry, createToolContext } from '../src/agent/tools/registry';
+import { initHitlSchema } from '../src/agent/hitl/db';
+import { checkApprovalRequired } from '../src/agent/hitl/manager';
+
+getDb();
+initAgentGroupsSchema();
+initMcpSchema();
+initHitlSchema();
+
+const group = createAgentGroup({ name: 'MCP team', systemPrompt: 'You use MCP tools.' });
+const otherGroup = createAgentGroup({ name: 'Other team', systemPrompt: 'You do other things.' });
+
+// A stdio MCP server with an echo tool, a failing tool, a tool that adds
+// another tool (list_changed) and one that makes the server exit
+const serverScript = path.join(testDir, 'server.js');
+fs.writeFileSync(
+  serverScript,
+  `
+const readline = require('readline');
+const tools = [
+  { name: 'echo', description: 'Echo text', inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] } },
+  { name: 'fail', inputSchema: { type: 'object', properties: {} } },
+  { name: 'grow', inputSchema: { type: 'object', properties: {} } },
+  { name: 'crash', inputSchema: { type: 'object', properties: {} } },
+];
+const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...msg }) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  const result = (r) => send({ id: msg.id, result: r });
+  if (msg.method === 'initialize') {
+    result({ protocolVersion: msg.params.protocolVersion, capabilities: { tools: { listChanged: true } }, serverInfo: { name: 'test-server', version: '0.1.0' } });
+  } else if (msg.method === 'tools/list') {
+    result({ tools });
+  } else if (msg.method === 'tools/call') {
+    const { name, arguments: args } = msg.params;
+    if (name === 'echo') result({ content: [{ type: 'text', text: 'echo: ' + args.text + ' (' + process.env.GREETING + ')' }] });
+    else if (name === 'fail') result({ content: [{ type: 'text', text: 'it broke' }], isError: true });
+    else if (name === 'grow') {
+      tools.push({ name: 'new.tool', inputSchema: { type: 'object', properties: {} } });
+      result({ content: [{ type: 'text', text: 'grown' }] });
+      send({ method: 'notifications/tools/list_changed' });
+    } else if (name === 'crash') {
+      process.stderr.write('fatal: crashed on purpose\\n');
+      process.exit(3);
+    } else send({ id: msg.id, error: { code: -32602, message: 'Unknown tool: ' + name } });
+  } else {
+    send({ id: msg.id, error: { code: -32601, message: 'Method not found' } });
+  }
+});
+`,
+);
+
+after(() => stopMcpServers());
+
+function ctx(groupId?: string) {
+  return createToolContext({ conversationId: 'c1', groupId });
+}
+
+describe('MCP: stdio client', () => {
+  test('connects, lists and calls tools', async () => {
+    const client = new McpClient({
+      name: 'local',
+      transport: 'stdio',
+      command: process.execPath,
+      args: [serverScript],
+      env: { GREETING: 'hi' },
+      url: '',
+      headers: {},
+      timeoutMs: 5000,
+    });
+    await client.connect();
+    assert.equal(client.serverInfo?.name, 'test-server');
+    assert.deepEqual(
+      (await client.listTools()).map((t) => t.name),
+      ['echo', 'fail', 'grow', 'crash'],
+    );
+    assert.deepEqual(await client.callTool('echo', { text: 'Oslo' }), { content: 'echo: Oslo (hi)' });
+    assert.deepEqual(await client.callTool('fail', {}), { content: 'it broke', isError: true });
+    await assert.rejects(client.callTool('missing', {}), /MCP error -32602: Unknown tool: missing/);
+    await client.close();
+    await assert.rejects(client.listTools(), /not connected/);
+  });
+
+  test('reports a server that cannot be started', async () => {
+    const client = new McpClient({
+      name: 'broken',
+      transport: 'stdio',
+      command: path.join(testDir, 'does-not-exist'),
+      args: [],
+      env: {},
+      url: '',
+      headers: {},
+      timeoutMs: 5000,
+    });
+    await assert.rejects(client.connect(), /MCP server broken failed to start/);
+  });
+});
+
+describe('MCP: group servers', () => {
+  test('validates and stores the config with encrypted env', () => {
+    assert.throws(() => createMcpServer(group.id, { name: 'Bad Name', transport: 'stdio', command: 'x' }), /name must/);
+    assert.throws(() => createMcpServer(group.id, { name: 'web', transport: 'http', url: 'ftp://x' }), /valid http/);
+    assert.throws(() => createMcpServer(group.id, { name: 'local', transport: 'stdio' }), /command is required/);
+
+    const server = createMcpServer(group.id, {
+      name: 'local',
+      transport: 'stdio',
+      command: process.execPath,
+      args: [serverScript],
+      env: { GREETING: 'secret-greeting' },
+      riskLevel: 'high',
+    });
+    assert.deepEqual(server.env, { GREETING: 'secret-greeting' });
+    const row = getDb().prepare('SELECT * FROM mcp_servers WHERE id = ?').get(server.id) as Record<string, string>;
+    assert.ok(!JSON.stringify(row).includes('secret-greeting'));
+    assert.throws(
+      () => createMcpServer(group.id, { name: 'local', transport: 'stdio', command: 'x' }),
+      /already exists/,
+    );
+  });
+
+  test('registers namespaced tools for the owning group only', async () => {
+    const info = await connectMcpServer(getMcpServer(group.id, 'local')!);
+    assert.equal(info.state, 'connected');
+    assert.deepEqual(info.envKeys, ['GREETING']);
+    assert.ok(!JSON.stringify(info).includes('secret-greeting'));
+    assert.deepEqual(info.tools, ['mcp__local__echo', 'mcp__local__fail', 'mcp__local__grow', 'mcp__local__crash']);
+
+    const names = (groupId?: string) => toolRegistry.getToolDefinitions([], groupId).map((t) => t.name);
+    assert.ok(names(group.id).includes('mcp__local__echo'));
+    assert.deepEqual(names(otherGroup.id), []);
+    assert.deepEqual(names(), []);
+
+    const result = await toolRegistry.execute('mcp__local__echo', { text: 'Oslo' }, ctx(group.id));
+    assert.equal(result.content, 'echo: Oslo (secret-greeting)');
+    const other = await toolRegistry.execute('mcp__local__echo', { text: 'Oslo' }, ctx(otherGroup.id));
+    assert.deepEqual(other, { content: 'Unknown tool: mcp__local__echo', isError: true });
+  });
+
+  test('validates input and applies the server risk level', async () => {
+    const invalid = await toolRegistry.execute('mcp__local__echo', { text: 3 }, ctx(group.id));
+    assert.equal(invalid.isError, true);
+    assert.deepEqual(invalid.violations, [{ path: 'text', message: 'must be string, got number' }]);
+
+    const tool = toolRegistry.get('mcp__local__echo', group.id)!;
+    const check = checkApprovalRequired(tool.name, tool.riskLevel);
+    assert.deepEqual([check.required, check.riskLevel], [true, 'high']);
+  });
+
+  test('registers tools again when the list changes', async () => {
+    await toolRegistry.execute('mcp__local__grow', {}, ctx(group.id));
+    for (let i = 0; i < 50 && !toolRegistry.get('mcp__local__new_tool', group.id); i++) {
+      await new Promise((r) => setTimeout(r, 20));
+    }
+    assert.ok(toolRegistry.get('mcp__local__new_tool', group.id));
+  });
+
+  test('unregisters the tools when the server exits', async () => {
+    const result = await toolRegistry.execute('mcp__local__crash', {}, ctx(group.id));
+    assert.equal(result.isError, true);
+    assert.match(result.content, /exited with code 3: fatal: crashed on purpose/);
+
+    const info = getMcpServerInfo(getMcpServer(group.id, 'local')!);
+    assert.equal(info.state, 'error');
+    assert.deepEqual(info.tools, []);
+    assert.equal(toolRegistry.getGroupTools(group.id).length, 0);
+
+    assert.equal((await connectMcpServer(getMcpServer(group.id, 'local')!)).state, 'connected');
+  });
+
+  test('disabling a server unregisters its tools', async () => {
+    const server = updateMcpServer(group.id, 'local', { enabled: false })!;
+    assert.equal((await connectMcpServer(server)).state, 'disabled');
+    assert.equal(toolRegistry.getGroupTools(group.id).length, 0);
+    await disconnectMcpServer(server.id);
+  });
+
+  test('shortens long tool names to a valid tool name', () => {
+    assert.equal(mcpToolName('fs', 'read file'), 'mcp__fs__read_file');
+    const long = mcpToolName('filesystem', 'x'.repeat(80));
+    assert.equal(long.length, 64);
+    assert.notEqual(long, mcpToolName('filesystem', 'x'.repeat(81)));
+  });
+});
+
+describe('MCP: streamable HTTP', () => {
+  test('uses the session id and reads JSON and SSE replies', async () => {
+    const seen: Array<{ method: string; session?: string; auth?: string }> = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        const session = req.headers['mcp-session-id'] as string | undefined;
+        if (req.method === 'DELETE') {
+          seen.push({ method: 'DELETE', session });
+          res.writeHead(200).end();
+          return;
+        }
+        const msg = JSON.parse(body);
+        seen.push({ method: msg.method, session, auth: req.headers.authorization });
+        if (msg.id === undefined) {
+          res.writeHead(202).end();
+        } else if (msg.method === 'initialize') {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2025-03-26' } }));
+        } else if (msg.method === 'tools/list') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          const tools = [{ name: 'time', inputSchema: { type: 'object' } }];
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { tools } }));
+        } else {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.write(
+            `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/progress' })}\n\n`,
+          );
+          const result = { content: [{ type: 'text', text: 'noon' }], structuredContent: { time: '12:00' } };
+          res.end(`data: ${JSON.stringify({ jsonrpc: '2.0', id: msg.id, result })}\n\n`);
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+
+    try {
+      const client = new McpClient({
+        name: 'remote',
+        transport: 'http',
+        command: '',
+        args: [],
+        env: {},
+        url,
+        headers: { Authorization: 'Bearer remote-token' },
+        timeoutMs: 5000,
+      });
+      await client.connect();
+      assert.deepEqual(
+        (await client.listTools()).map((t) => t.name),
+        ['time'],
+      );
+      assert.deepEqual(await client.callTool('time', {}), { content: 'noon' });
+      await client.close();
+
+      assert.deepEqual(
+        seen.map((s) => [s.method, s.session ?? null]),
+        [
+          ['initialize', null],
+          ['notifications/initialized', 'session-1'],
+          ['tools/list', 'session-1'],
+          ['tools/call', 'session-1'],
+          ['DELETE', 'session-1'],
+        ],
+      );
+      assert.ok(seen.slice(0, 4).every((s) => s.auth === 'Bearer remote-token'));
+    } finally {
+      server.close();
+    }
+  });
+});
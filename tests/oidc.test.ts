@@ -0,0 +1,211 @@
+/**
+ * OIDC Single Sign-On Tests
+ *
+ * Runs the authorization code + PKCE flow against a local mock IdP
+ * (discovery, JWKS and token endpoint with an RS256 key pair):
+ * - Authorization URL, PKCE verification at the token endpoint
+ * - ID token checks (signature, audience, nonce)
+ * - Group-to-role mapping, user creation on first login, role sync
+ *   (the last admin keeps the role)
+ * - Password login limited to local admins while SSO is enabled
+ *
+ * Run: npx tsx tests/oidc.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, before, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import http from 'node:http';
+import crypto from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+
+// Set up temp DB before any imports that read config
+const testDbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oidc-test-'));
+process.env.DB_PATH = path.join(testDbDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { config } from '../src/config';
+import { getDb, getSession } from '../src/db/sqlite';
+import { login } from '../src/auth/middleware';
+import { startOidcLogin, completeOidcLogin, resolveOidcRole } from '../src/auth/oidc';
+import { createUser, getUser, listUsers, updateUser } from '../src/auth/users';
+
+getDb();
+
+const suffix = Date.now().toString(36);
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+/** Claims the mock IdP puts into the next ID token */
+let nextClaims: Record<string, unknown> = {};
+/** Authorization requests seen by the mock IdP, by code */
+const codes = new Map<string, { challenge: string; nonce: string }>();
+let server: http.Server;
+let issuer = '';
+
+function signIdToken(claims: Record<string, unknown>, key = privateKey): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid: 'k1', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), key).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+/** Simulate the browser visiting the IdP: returns code and state for the callback */
+function authorize(authUrl: string): { code: string; state: string } {
+  const url = new URL(authUrl);
+  const code = crypto.randomBytes(8).toString('hex');
+  codes.set(code, { challenge: url.searchParams.get('code_challenge')!, nonce: url.searchParams.get('nonce')! });
+  return { code, state: url.searchParams.get('state')! };
+}
+
+async function ssoLogin(claims: Record<string, unknown>) {
+  nextClaims = claims;
+  const { code, state } = authorize(await startOidcLogin('http://gateway.test/api/auth/oidc/callback'));
+  return completeOidcLogin(code, state);
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.url === '/.well-known/openid-configuration') {
+      send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    } else if (req.url === '/jwks') {
+      send(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1', use: 'sig', alg: 'RS256' }] });
+    } else if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const form = new URLSearchParams(body);
+        const pending = codes.get(form.get('code') || '');
+        const challenge = crypto
+          .createHash('sha256')
+          .update(form.get('code_verifier') || '')
+          .digest('base64url');
+        if (!pending || pending.challenge !== challenge || form.get('client_id') !== 'gateway') {
+          send(400, { error: 'invalid_grant' });
+          return;
+        }
+        const now = Math.floor(Date.now() / 1000);
+        const idToken = signIdToken({
+          iss: issuer,
+          aud: 'gateway',
+          iat: now,
+          exp: now + 300,
+          nonce: pending.nonce,
+          ...nextClaims,
+        });
+        send(200, { access_token: 'at', token_type: 'Bearer', id_token: idToken });
+      });
+    } else {
+      send(404, { error: 'not found' });
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  Object.assign(config.oidc, {
+    issuer,
+    clientId: 'gateway',
+    roleMapping: 'gw-admins=admin, gw-ops=operator, gw-approvers=approver',
+    defaultRole: 'none',
+    localLogin: 'admin',
+  });
+});
+
+after(() => {
+  server.close();
+  Object.assign(config.oidc, { issuer: '', clientId: '' });
+});
+
+describe('OIDC: role mapping', () => {
+  test('highest mapped group wins, default role otherwise', () => {
+    assert.equal(resolveOidcRole(['gw-approvers', 'gw-ops']), 'operator');
+    assert.equal(resolveOidcRole(['gw-admins', 'gw-ops']), 'admin');
+    assert.equal(resolveOidcRole(['other']), undefined);
+    config.oidc.defaultRole = 'viewer';
+    assert.equal(resolveOidcRole([]), 'viewer');
+    config.oidc.defaultRole = 'none';
+  });
+});
+
+describe('OIDC: login flow', () => {
+  test('builds a PKCE authorization URL', async () => {
+    const url = new URL(await startOidcLogin('http://gateway.test/cb'));
+    assert.equal(url.origin + url.pathname, `${issuer}/authorize`);
+    assert.equal(url.searchParams.get('code_challenge_method'), 'S256');
+    assert.equal(url.searchParams.get('client_id'), 'gateway');
+    assert.ok(url.searchParams.get('state') && url.searchParams.get('nonce'));
+  });
+
+  test('creates the user on first login and syncs the role afterwards', async () => {
+    const sub = `sub-${suffix}`;
+    const first = await ssoLogin({ sub, preferred_username: `alice-${suffix}`, groups: ['gw-ops'] });
+    assert.equal(first.created, true);
+    assert.equal(first.user.role, 'operator');
+    assert.ok(getSession(first.token));
+    assert.equal(getUser(first.user.id)?.authProvider, 'oidc');
+
+    const second = await ssoLogin({ sub, preferred_username: `alice-${suffix}`, groups: ['gw-approvers'] });
+    assert.equal(second.created, false);
+    assert.equal(second.user.id, first.user.id);
+    assert.equal(getUser(first.user.id)?.role, 'approver');
+    assert.equal(getSession(first.token), undefined, 'role change ends older sessions');
+  });
+
+  test('the last admin keeps the role when the IdP groups change', async () => {
+    const sub = `admin-sub-${suffix}`;
+    const first = await ssoLogin({ sub, preferred_username: `dana-${suffix}`, groups: ['gw-admins'] });
+    for (const user of listUsers().filter((u) => u.role === 'admin' && u.id !== first.user.id)) {
+      updateUser(user.id, { role: 'viewer' });
+    }
+
+    const second = await ssoLogin({ sub, preferred_username: `dana-${suffix}`, groups: ['gw-ops'] });
+    assert.equal(second.user.role, 'admin');
+    assert.equal(getUser(first.user.id)?.role, 'admin');
+    assert.ok(getSession(first.token), 'sessions stay valid');
+
+    // With another admin, the role follows the IdP again
+    createUser({ username: `erin-${suffix}`, password: 'password123', role: 'admin' });
+    const third = await ssoLogin({ sub, preferred_username: `dana-${suffix}`, groups: ['gw-ops'] });
+    assert.equal(third.user.role, 'operator');
+    assert.equal(getSession(second.token), undefined);
+  });
+
+  test('rejects users without access, unknown state and forged tokens', async () => {
+    await assert.rejects(ssoLogin({ sub: `nobody-${suffix}`, groups: ['other'] }), /not in a group/);
+    await assert.rejects(completeOidcLogin('code', 'unknown-state'), /expired login state/);
+
+    nextClaims = { sub: `x-${suffix}`, groups: ['gw-admins'], aud: 'someone-else' };
+    const { code, state } = authorize(await startOidcLogin('http://gateway.test/cb'));
+    await assert.rejects(completeOidcLogin(code, state), /audience/);
+  });
+
+  test('does not take over local accounts with the same username', async () => {
+    const local = createUser({ username: `bob-${suffix}`, password: 'password123', role: 'viewer' });
+    await assert.rejects(
+      ssoLogin({ sub: `bob-sub-${suffix}`, preferred_username: local.username, groups: ['gw-admins'] }),
+      /already taken/,
+    );
+  });
+});
+
+describe('OIDC: break-glass', () => {
+  test('password login is limited to local admins while SSO is enabled', () => {
+    const admin = createUser({ username: `root-${suffix}`, password: 'password123', role: 'admin' });
+    const viewer = createUser({ username: `carol-${suffix}`, password: 'password123', role: 'viewer' });
+    assert.ok(login(admin.username, 'password123'));
+    assert.equal(login(viewer.username, 'password123'), null);
+    config.oidc.localLogin = 'all';
+    assert.ok(login(viewer.username, 'password123'));
+    config.oidc.localLogin = 'admin';
+  });
+});
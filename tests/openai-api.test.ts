@@ -0,0 +1,284 @@
+/**
+ * OpenAI-compatible API Tests
+ *
+ * Uses a temp SQLite DB, the /v1 router on a local HTTP server and a stub
+ * model server (an agent group with an "ollama:" model) to test:
+ * - API token auth and the messages:send permission
+ * - model → agent group (ID or unique name), /v1/models
+ * - Non-streaming and streaming completions through the agent loop
+ * - Earlier messages and system instructions reaching the model
+ * - OpenAI-format usage (cached prompt tokens included)
+ * - Client disconnects cancelling the run, finished model turns still logged
+ *
+ * Run: npx tsx tests/openai-api.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after } from 'node:test';
+import http from 'node:http';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-api-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { config } from '../src/config';
+import { getDb, getAllChannels } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the agent loop) import each other
+import '../src/channels/manager';
+import { createOpenAiRouter, toChatCompletionUsage, OPENAI_CHANNEL_ID } from '../src/gateway/openai';
+import { createUser } from '../src/auth/users';
+import { createApiToken } from '../src/auth/tokens';
+import { initAgentGroupsSchema, createAgentGroup } from '../src/agent/groups';
+import { initHitlSchema } from '../src/agent/hitl/db';
+import { initRunTraceSchema } from '../src/agent/run-trace';
+import { initPricingSchema } from '../src/agent/pricing';
+import { initContextSchema } from '../src/agent/context-manager';
+import { initToolUsageSchema } from '../src/agent/tools/usage';
+import { toolRegistry } from '../src/agent/tools/registry';
+import { agentEvents } from '../src/agent/loop';
+
+getDb();
+initAgentGroupsSchema();
+initHitlSchema();
+initRunTraceSchema();
+initPricingSchema();
+initContextSchema();
+initToolUsageSchema();
+
+// The test DB may be shared between runs: use fresh names
+const suffix = Date.now().toString(36);
+const SLOW_TOOL = `slow_probe_${suffix}`;
+
+// Stub model server: answers every chat completion with "Hello there",
+// except "Take your time", which it answers by calling the slow tool
+let lastModelRequest: any;
+const modelServer = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    lastModelRequest = JSON.parse(body);
+    const usage = { prompt_tokens: 20, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 5 } };
+    if (lastModelRequest.stream) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const last = lastModelRequest.messages[lastModelRequest.messages.length - 1];
+      if (last.role === 'user' && JSON.stringify(last.content).includes('Take your time')) {
+        const toolCall = { index: 0, id: 'call_1', type: 'function', function: { name: SLOW_TOOL, arguments: '{}' } };
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { tool_calls: [toolCall] } }] })}\n\n`);
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] })}\n\n`);
+        res.write(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+      for (const text of ['Hello', ' there']) {
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: text } }] })}\n\n`);
+      }
+      res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })}\n\n`);
+      res.write(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello there' }, finish_reason: 'stop' }],
+        usage,
+      }),
+    );
+  });
+});
+modelServer.listen(0);
+config.providers.ollama.baseUrl = `http://127.0.0.1:${(modelServer.address() as AddressInfo).port}/v1`;
+
+const group = createAgentGroup({
+  name: `Helpdesk ${suffix}`,
+  systemPrompt: 'You are the helpdesk.',
+  model: 'ollama:stub',
+});
+const operator = createUser({ username: `api-operator-${suffix}`, password: 'password123', role: 'operator' });
+const token = createApiToken(operator, { name: 'chat', scopes: ['read', 'messages:send'] }).token;
+const readToken = createApiToken(operator, { name: 'read', scopes: ['read'] }).token;
+
+const app = express();
+app.use(express.json());
+app.use('/v1', createOpenAiRouter());
+const server = app.listen(0);
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+
+after(() => {
+  server.close();
+  modelServer.close();
+});
+
+function complete(body: unknown, apiToken = token, signal?: AbortSignal) {
+  return fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+// The slow tool runs until its run is cancelled
+let onSlowToolCall: (conversationId: string) => void = () => {};
+toolRegistry.register({
+  name: SLOW_TOOL,
+  description: 'Runs until the run is cancelled',
+  inputSchema: { type: 'object', properties: {} },
+  riskLevel: 'low',
+  execute(_input, context) {
+    onSlowToolCall(context.conversationId);
+    return new Promise((resolve) =>
+      context.signal.addEventListener('abort', () => resolve({ content: 'Interrupted', isError: true })),
+    );
+  },
+});
+
+describe('OpenAI API: auth and models', () => {
+  test('requires an API token with messages:send', async () => {
+    const anonymous = await fetch(`${baseUrl}/chat/completions`, { method: 'POST' });
+    assert.equal(anonymous.status, 401);
+    assert.equal((await anonymous.json()).error.code, 'invalid_api_key');
+
+    const res = await complete({ model: group.id, messages: [{ role: 'user', content: 'hi' }] }, readToken);
+    assert.equal(res.status, 403);
+    assert.equal((await res.json()).error.type, 'permission_error');
+  });
+
+  test('lists agent groups as models', async () => {
+    const res = await fetch(`${baseUrl}/models`, { headers: { Authorization: `Bearer ${readToken}` } });
+    const body = await res.json();
+    assert.equal(body.object, 'list');
+    const model = body.data.find((m: { id: string }) => m.id === group.id);
+    assert.equal(model.name, group.name);
+    assert.equal(model.object, 'model');
+    assert.ok(model.created > 0);
+  });
+
+  test('rejects unknown models and requests without a user message', async () => {
+    const unknown = await complete({ model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] });
+    assert.equal(unknown.status, 404);
+    assert.equal((await unknown.json()).error.code, 'model_not_found');
+
+    const noUser = await complete({ model: group.id, messages: [{ role: 'system', content: 'Be brief.' }] });
+    assert.equal(noUser.status, 400);
+  });
+});
+
+describe('OpenAI API: chat completions', () => {
+  test('runs the group and returns the reply with usage', async () => {
+    const res = await complete({
+      model: group.name,
+      messages: [
+        { role: 'system', content: 'Answer in English.' },
+        { role: 'user', content: 'My name is Sam.' },
+        { role: 'assistant', content: 'Hi Sam!' },
+        { role: 'user', content: [{ type: 'text', text: 'What is my name?' }] },
+      ],
+    });
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.equal(body.object, 'chat.completion');
+    assert.equal(body.model, group.name);
+    assert.deepEqual(body.choices[0].message, { role: 'assistant', content: 'Hello there' });
+    assert.equal(body.choices[0].finish_reason, 'stop');
+    assert.deepEqual(body.usage, {
+      prompt_tokens: 20,
+      completion_tokens: 3,
+      total_tokens: 23,
+      prompt_tokens_details: { cached_tokens: 5 },
+    });
+
+    // The model got the group's prompt with the client instructions and the earlier turns
+    const system = JSON.stringify(lastModelRequest.messages.filter((m: { role: string }) => m.role === 'system'));
+    assert.match(system, /You are the helpdesk\./);
+    assert.match(system, /Answer in English\./);
+    const turns = lastModelRequest.messages.filter((m: { role: string }) => m.role !== 'system');
+    assert.deepEqual(
+      turns.map((m: { content: unknown }) => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content))),
+      ['My name is Sam.', 'Hi Sam!', 'What is my name?'],
+    );
+
+    // Conversations live on the internal channel, which is not listed
+    assert.ok(!getAllChannels().some((c) => c.id === OPENAI_CHANNEL_ID));
+  });
+
+  test('streams chunks, usage and [DONE]', async () => {
+    const res = await complete({
+      model: group.id,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: 'user', content: 'Hello?' }],
+    });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /text\/event-stream/);
+    const events = (await res.text())
+      .split('\n\n')
+      .filter((e) => e.startsWith('data: '))
+      .map((e) => e.slice(6));
+    assert.equal(events[events.length - 1], '[DONE]');
+
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e));
+    assert.ok(chunks.every((c) => c.object === 'chat.completion.chunk' && c.id === chunks[0].id));
+    assert.equal(chunks[0].choices[0].delta.role, 'assistant');
+    const text = chunks.map((c) => c.choices[0]?.delta.content ?? '').join('');
+    assert.equal(text, 'Hello there');
+    assert.equal(chunks[chunks.length - 2].choices[0].finish_reason, 'stop');
+    assert.deepEqual(chunks[chunks.length - 1].choices, []);
+    assert.equal(chunks[chunks.length - 1].usage.total_tokens, 23);
+  });
+
+  test('cancels the run when the client disconnects and logs the finished turns', async () => {
+    const toolCalled = new Promise<string>((resolve) => (onSlowToolCall = resolve));
+    const controller = new AbortController();
+    const request = complete(
+      { model: group.id, messages: [{ role: 'user', content: 'Take your time' }] },
+      token,
+      controller.signal,
+    ).catch((err: Error) => err);
+    const conversationId = await toolCalled;
+
+    const cancelled = new Promise<void>((resolve) => {
+      const onCancelled = (event: { conversationId: string }) => {
+        if (event.conversationId !== conversationId) return;
+        agentEvents.off('run:cancelled', onCancelled);
+        resolve();
+      };
+      agentEvents.on('run:cancelled', onCancelled);
+    });
+    controller.abort();
+    assert.equal(((await request) as Error).name, 'AbortError');
+    await cancelled;
+
+    const db = getDb();
+    const run = db
+      .prepare('SELECT status, input_tokens, output_tokens FROM agent_runs WHERE conversation_id = ?')
+      .get(conversationId);
+    assert.deepEqual(run, { status: 'cancelled', input_tokens: 15, output_tokens: 3 });
+    // The model turn that asked for the tool was paid for: it is logged
+    const calls = db
+      .prepare(
+        'SELECT model, input_tokens, output_tokens, cache_read_input_tokens FROM api_calls WHERE conversation_id = ?',
+      )
+      .all(conversationId);
+    assert.deepEqual(calls, [{ model: 'ollama:stub', input_tokens: 15, output_tokens: 3, cache_read_input_tokens: 5 }]);
+  });
+
+  test('sums usage over models, counting cached tokens as prompt tokens', () => {
+    const usage = toChatCompletionUsage([
+      { model: 'a', inputTokens: 10, outputTokens: 4, cacheCreationTokens: 2, cacheReadTokens: 30, retries: 0 },
+      { model: 'b', inputTokens: 5, outputTokens: 1, cacheCreationTokens: 0, cacheReadTokens: 0, retries: 1 },
+    ]);
+    assert.deepEqual(usage, {
+      prompt_tokens: 47,
+      completion_tokens: 5,
+      total_tokens: 52,
+      prompt_tokens_details: { cached_tokens: 30 },
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Pricing Tests
+ *
+ * Uses Node built-in assert + a temp SQLite DB to test:
+ * - Seeded price table and longest-prefix matching
+ * - Cost computation incl. cache tokens and prompt cache savings
+ * - Stored per-call cost and spend per group / channel / model
+ * - Budget alerts (once per period) and the reset time in budget errors
+ *
+ * Run: npx tsx tests/pricing.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+
+// Set up temp DB before any imports that read config
+const testDbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pricing-test-'));
+process.env.DB_PATH = path.join(testDbDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb, upsertChannel, getOrCreateConversation, logApiCall } from '../src/db/sqlite';
+import {
+  initAgentGroupsSchema,
+  createAgentGroup,
+  getGroupCostToday,
+  checkBudgetAlerts,
+  budgetEvents,
+  budgetResetAt,
+} from '../src/agent/groups';
+import { checkGroupBudget } from '../src/agent/groups/resolver';
+import {
+  initPricingSchema,
+  findModelPrice,
+  computeCost,
+  computeCacheSavings,
+  setModelPrice,
+  deleteModelPrice,
+  getSpendBreakdown,
+} from '../src/agent/pricing';
+
+getDb();
+initAgentGroupsSchema();
+initPricingSchema();
+
+describe('Pricing: price table', () => {
+  test('matches the longest seeded prefix', () => {
+    assert.equal(findModelPrice('claude-sonnet-4-20250514')?.model, 'claude-sonnet-4');
+    assert.equal(findModelPrice('anthropic:claude-opus-4-20250514')?.model, 'claude-opus-4');
+    assert.equal(findModelPrice('openai:gpt-4o-mini')?.model, 'openai:gpt-4o-mini');
+    assert.equal(findModelPrice('ollama:llama3.1:8b')?.model, 'ollama:');
+    assert.equal(findModelPrice('openai:o3'), undefined);
+  });
+
+  test('computes cost per million tokens incl. cache tokens', () => {
+    const cost = computeCost('claude-sonnet-4-20250514', {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      cacheCreationTokens: 200_000,
+      cacheReadTokens: 1_000_000,
+    });
+    // 3 + 1.5 + 0.75 + 0.3
+    assert.ok(Math.abs(cost - 5.55) < 1e-9);
+    assert.equal(computeCost('openai:o3', { inputTokens: 1000, outputTokens: 1000 }), 0);
+  });
+
+  test('computes prompt cache savings against uncached input', () => {
+    const savings = computeCacheSavings('claude-sonnet-4-20250514', {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 1_000_000,
+      cacheReadTokens: 10_000_000,
+    });
+    // reads save 10 * (3 - 0.3), the write costs 3.75 - 3 extra
+    assert.ok(Math.abs(savings - 26.25) < 1e-9);
+    assert.equal(computeCacheSavings('openai:o3', { inputTokens: 0, outputTokens: 0, cacheReadTokens: 1000 }), 0);
+  });
+
+  test('prices can be added, replaced and removed', () => {
+    setModelPrice({ model: 'openai:o3', inputPerMTok: 2, outputPerMTok: 8 });
+    assert.equal(computeCost('openai:o3', { inputTokens: 500_000, outputTokens: 0 }), 1);
+    setModelPrice({ model: 'openai:o3', inputPerMTok: 4, outputPerMTok: 8 });
+    assert.equal(computeCost('openai:o3', { inputTokens: 500_000, outputTokens: 0 }), 2);
+    assert.equal(deleteModelPrice('openai:o3'), true);
+    assert.equal(findModelPrice('openai:o3'), undefined);
+    assert.throws(() => setModelPrice({ model: 'x', inputPerMTok: -1, outputPerMTok: 0 }), /non-negative/);
+  });
+});
+
+describe('Pricing: spend', () => {
+  test('reports stored cost per group, channel and model', () => {
+    const group = createAgentGroup({ name: 'spenders', systemPrompt: 'x' });
+    // The test DB may be shared between runs: use a fresh channel
+    const channelId = `ch-pricing-${Date.now()}`;
+    upsertChannel({ id: channelId, type: 'webhook', name: 'pricing', config: '{}', enabled: 1 });
+    const convId = getOrCreateConversation(channelId, 'ext-1');
+
+    for (const model of ['claude-opus-4-20250514', 'claude-haiku-4-20250414']) {
+      logApiCall({
+        conversation_id: convId,
+        model,
+        input_tokens: 1_000_000,
+        output_tokens: 0,
+        cost: computeCost(model, { inputTokens: 1_000_000, outputTokens: 0 }),
+        duration_ms: 1,
+        isolated: false,
+        agent_group_id: group.id,
+      });
+    }
+
+    assert.equal(getGroupCostToday(group.id), 16);
+
+    const spend = getSpendBreakdown();
+    assert.equal(spend.currency, 'USD');
+    assert.equal(spend.byGroup.find((r) => r.key === group.id)?.cost, 16);
+    assert.equal(spend.byGroup.find((r) => r.key === group.id)?.name, 'spenders');
+    assert.equal(spend.byChannel.find((r) => r.key === channelId)?.calls, 2);
+    assert.ok((spend.byModel.find((r) => r.key === 'claude-opus-4-20250514')?.cost ?? 0) >= 15);
+  });
+});
+
+describe('Pricing: budget alerts', () => {
+  test('alerts once per period at the threshold and when exceeded', async () => {
+    const group = createAgentGroup({
+      name: 'alerted',
+      systemPrompt: 'x',
+      budgetMaxCostDay: 10,
+      budgetAlertThreshold: 50,
+    });
+    const events: unknown[] = [];
+    budgetEvents.on('budget:alert', (data) => events.push(data));
+    const spend = (cost: number) =>
+      logApiCall({
+        model: 'claude-opus-4-20250514',
+        input_tokens: 0,
+        output_tokens: 0,
+        cost,
+        duration_ms: 1,
+        isolated: false,
+        agent_group_id: group.id,
+      });
+
+    spend(4);
+    assert.deepEqual(await checkBudgetAlerts(group.id), []);
+    assert.equal(checkGroupBudget(group.id), null);
+
+    spend(2);
+    const [warning] = await checkBudgetAlerts(group.id);
+    assert.equal(warning?.level, 'warning');
+    assert.equal(warning?.period, 'day');
+    assert.deepEqual(await checkBudgetAlerts(group.id), []);
+
+    spend(5);
+    const [exceeded] = await checkBudgetAlerts(group.id);
+    assert.equal(exceeded?.level, 'exceeded');
+    assert.equal(events.length, 2);
+    assert.match(checkGroupBudget(group.id) ?? '', /^Daily cost budget exceeded \(11\.00 USD\/10\.00 USD\)\. Resets /);
+  });
+
+  test('periods reset at the next UTC day and month', () => {
+    const now = new Date('2026-12-31T18:30:00Z');
+    assert.equal(budgetResetAt('day', now).toISOString(), '2027-01-01T00:00:00.000Z');
+    assert.equal(budgetResetAt('month', now).toISOString(), '2027-01-01T00:00:00.000Z');
+    assert.equal(budgetResetAt('month', new Date('2026-02-10T00:00:00Z')).toISOString(), '2026-03-01T00:00:00.000Z');
+  });
+});
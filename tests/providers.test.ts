@@ -0,0 +1,216 @@
+/**
+ * LLM Provider Tests
+ *
+ * Uses Node built-in assert + a local stub chat completions server to test:
+ * - "provider:model" parsing
+ * - Request translation (system prompt, tool_use / tool_result, tools)
+ * - Response translation (text, tool calls, stop reasons, usage)
+ * - Streaming (text deltas, tool call fragments)
+ * - Retry with backoff and model fallback chains
+ *
+ * Run: npx tsx tests/providers.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, before, after } from 'node:test';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { config } from '../src/config';
+import { parseModelRef, chatWithFallback, OpenAICompatibleProvider, ProviderError } from '../src/agent/providers';
+
+// Each test sets the reply of the stub server and inspects the last request.
+// Queued replies are served first (one per request), then `reply`.
+type StubReply = { status?: number; json?: unknown; sse?: unknown[] };
+let lastRequest: any;
+let requestedModels: string[] = [];
+let reply: StubReply = {};
+let queuedReplies: StubReply[] = [];
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(body) };
+    requestedModels.push(lastRequest.body.model);
+    const current = queuedReplies.shift() ?? reply;
+    if (current.sse) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const chunk of current.sse) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+    res.writeHead(current.status ?? 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(current.json ?? {}));
+  });
+});
+
+let provider: OpenAICompatibleProvider;
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  provider = new OpenAICompatibleProvider('ollama', `http://127.0.0.1:${port}/v1/`, 'stub-key');
+  // Models resolved through the registry ("ollama:<model>") also hit the stub
+  config.providers.ollama.baseUrl = `http://127.0.0.1:${port}/v1`;
+});
+
+after(() => {
+  server.close();
+});
+
+describe('Providers: parseModelRef', () => {
+  test('plain model names use Anthropic', () => {
+    assert.deepEqual(parseModelRef('claude-sonnet-4-20250514'), {
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-20250514',
+    });
+  });
+
+  test('splits on the first colon only', () => {
+    assert.deepEqual(parseModelRef('ollama:llama3.1:8b'), { provider: 'ollama', model: 'llama3.1:8b' });
+  });
+
+  test('rejects unknown providers and empty models', () => {
+    assert.throws(() => parseModelRef('acme:model'), /Unknown LLM provider/);
+    assert.throws(() => parseModelRef('openai:'), /Missing model name/);
+  });
+});
+
+describe('Providers: OpenAI-compatible', () => {
+  test('translates tool turns and tool definitions', async () => {
+    reply = {
+      json: {
+        choices: [{ message: { content: 'Done.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 8 } },
+      },
+    };
+
+    const response = await provider.chat({
+      model: 'llama3.1',
+      maxTokens: 256,
+      system: 'Be brief.',
+      messages: [
+        { role: 'user', content: 'Fetch it' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'http_request', input: { url: 'x' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'boom', is_error: true }] },
+      ],
+      tools: [{ name: 'http_request', description: 'HTTP', input_schema: { type: 'object', properties: {} } }],
+    });
+
+    assert.equal(lastRequest.url, '/v1/chat/completions');
+    assert.equal(lastRequest.headers.authorization, 'Bearer stub-key');
+    const body = lastRequest.body;
+    assert.equal(body.model, 'llama3.1');
+    assert.deepEqual(body.messages[0], { role: 'system', content: 'Be brief.' });
+    assert.equal(body.messages[2].tool_calls[0].function.arguments, '{"url":"x"}');
+    assert.deepEqual(body.messages[3], { role: 'tool', tool_call_id: 't1', content: 'Error: boom' });
+    assert.equal(body.tools[0].function.name, 'http_request');
+
+    assert.deepEqual(response.content, [{ type: 'text', text: 'Done.' }]);
+    assert.equal(response.stopReason, 'end_turn');
+    // Cached prompt tokens are reported separately from the uncached input
+    assert.deepEqual(response.usage, { inputTokens: 4, outputTokens: 3, cacheCreationTokens: 0, cacheReadTokens: 8 });
+  });
+
+  test('maps tool calls to tool_use blocks even when finish_reason is stop', async () => {
+    reply = {
+      json: {
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [{ id: 'c1', type: 'function', function: { name: 'run_script', arguments: '{"a":1}' } }],
+            },
+            finish_reason: 'stop',
+          },
+        ],
+      },
+    };
+
+    const response = await provider.chat({ model: 'm', maxTokens: 10, system: '', messages: [] });
+    assert.equal(response.stopReason, 'tool_use');
+    assert.deepEqual(response.content, [{ type: 'tool_use', id: 'c1', name: 'run_script', input: { a: 1 } }]);
+  });
+
+  test('streams text deltas and assembles tool call fragments', async () => {
+    reply = {
+      sse: [
+        { choices: [{ delta: { content: 'Hel' } }] },
+        { choices: [{ delta: { content: 'lo' } }] },
+        {
+          choices: [{ delta: { tool_calls: [{ index: 0, id: 'c1', function: { name: 'git_', arguments: '{"re' } }] } }],
+        },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'clone', arguments: 'po":"r"}' } }] } }] },
+        { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+        { choices: [], usage: { prompt_tokens: 5, completion_tokens: 7 } },
+      ],
+    };
+
+    const deltas: string[] = [];
+    const response = await provider.chat(
+      { model: 'm', maxTokens: 10, system: '', messages: [] },
+      { onText: (d) => deltas.push(d) },
+    );
+
+    assert.equal(lastRequest.body.stream, true);
+    assert.deepEqual(deltas, ['Hel', 'lo']);
+    assert.deepEqual(response.content, [
+      { type: 'text', text: 'Hello' },
+      { type: 'tool_use', id: 'c1', name: 'git_clone', input: { repo: 'r' } },
+    ]);
+    assert.equal(response.stopReason, 'tool_use');
+    assert.deepEqual(response.usage, { inputTokens: 5, outputTokens: 7, cacheCreationTokens: 0, cacheReadTokens: 0 });
+  });
+
+  test('throws ProviderError with the HTTP status', async () => {
+    reply = { status: 429, json: { error: 'rate limited' } };
+    await assert.rejects(
+      provider.chat({ model: 'm', maxTokens: 10, system: '', messages: [] }),
+      (err: unknown) => err instanceof ProviderError && err.status === 429 && err.provider === 'ollama',
+    );
+  });
+});
+
+describe('Providers: fallback chain', () => {
+  const ok = { json: { choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }] } };
+  const retry = { maxRetries: 1, initialDelayMs: 1, maxDelayMs: 5 };
+  const request = { maxTokens: 10, system: '', messages: [] };
+
+  test('retries transient errors on the same model', async () => {
+    requestedModels = [];
+    queuedReplies = [{ status: 503, json: { error: 'unavailable' } }];
+    reply = ok;
+
+    const response = await chatWithFallback({ models: ['ollama:primary', 'ollama:backup'], retry }, request);
+    assert.deepEqual(requestedModels, ['primary', 'primary']);
+    assert.equal(response.modelRef, 'ollama:primary');
+    assert.equal(response.retries, 1);
+  });
+
+  test('falls back to the next model when retries are exhausted', async () => {
+    requestedModels = [];
+    queuedReplies = [
+      { status: 529, json: { error: 'overloaded' } },
+      { status: 429, json: { error: 'rate limited' } },
+    ];
+    reply = ok;
+
+    const response = await chatWithFallback({ models: ['ollama:primary', 'ollama:backup'], retry }, request);
+    assert.deepEqual(requestedModels, ['primary', 'primary', 'backup']);
+    assert.equal(response.modelRef, 'ollama:backup');
+    assert.equal(response.retries, 2);
+  });
+
+  test('does not retry or fall back on client errors', async () => {
+    requestedModels = [];
+    queuedReplies = [];
+    reply = { status: 400, json: { error: 'bad request' } };
+
+    await assert.rejects(
+      chatWithFallback({ models: ['ollama:primary', 'ollama:backup'], retry }, request),
+      (err: unknown) => err instanceof ProviderError && err.status === 400,
+    );
+    assert.deepEqual(requestedModels, ['primary']);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Run Trace Tests
+ *
+ * Uses a temp SQLite DB to test:
+ * - Recording model turns and tool calls (truncation, secret redaction)
+ * - The run timeline: turns, tool calls and approvals in order
+ * - GET /api/runs/:id behind the auth middleware
+ *
+ * Run: npx tsx tests/run-trace.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-trace-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb, upsertChannel, getOrCreateConversation, addMessage, createAgentRun } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the agent loop) import each other
+import '../src/channels/manager';
+import { createApiRouter } from '../src/gateway/api';
+import { authMiddleware, login } from '../src/auth/middleware';
+import { createUser } from '../src/auth/users';
+import { initHitlSchema, createApprovalRequest } from '../src/agent/hitl/db';
+import {
+  initRunTraceSchema,
+  recordModelTurn,
+  recordToolCall,
+  getModelTurnsByRun,
+  getToolCallsByRun,
+  getRunTimeline,
+} from '../src/agent/run-trace';
+
+getDb();
+initHitlSchema();
+initRunTraceSchema();
+
+// The test DB may be shared between runs: use fresh names
+const suffix = Date.now().toString(36);
+
+upsertChannel({ id: 'trace-test', type: 'webhook', name: 'Trace tests', config: '{}', enabled: 0 });
+
+function newRun(): { runId: number; conversationId: string } {
+  const conversationId = getOrCreateConversation('trace-test', `conv-${suffix}-${Math.random()}`);
+  const messageId = addMessage(conversationId, 'user', 'Clone the repo');
+  return { runId: createAgentRun(conversationId, messageId), conversationId };
+}
+
+const app = express();
+app.use(express.json());
+app.use('/api', authMiddleware, createApiRouter());
+const server = app.listen(0);
+const apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+after(() => server.close());
+
+describe('Run trace: recording', () => {
+  test('stores model turns with truncated text', () => {
+    const { runId } = newRun();
+    recordModelTurn({
+      runId,
+      iteration: 0,
+      model: 'claude-x',
+      retries: 1,
+      stopReason: 'tool_use',
+      inputTokens: 100,
+      outputTokens: 20,
+      durationMs: 350,
+      text: 'x'.repeat(5000),
+      toolUses: ['git_clone'],
+      startedAt: new Date(),
+    });
+    const [turn] = getModelTurnsByRun(runId);
+    assert.equal(turn!.model, 'claude-x');
+    assert.equal(turn!.retries, 1);
+    assert.equal(turn!.stopReason, 'tool_use');
+    assert.deepEqual(turn!.toolUses, ['git_clone']);
+    assert.equal(turn!.text.length, 2000);
+  });
+
+  test('stores tool calls with secrets redacted and output truncated', () => {
+    const { runId } = newRun();
+    recordToolCall({
+      runId,
+      iteration: 0,
+      toolName: 'http_request',
+      input: {
+        url: 'https://api.example.com',
+        headers: { Authorization: 'Bearer abc', 'X-Api-Key': 'k', Accept: 'application/json' },
+        github_token: 'ghp_secret',
+      },
+      output: 'y'.repeat(10000),
+      isError: false,
+      durationMs: 12,
+      startedAt: new Date(),
+    });
+    const [call] = getToolCallsByRun(runId);
+    assert.deepEqual(call!.input, {
+      url: 'https://api.example.com',
+      headers: { Authorization: '[redacted]', 'X-Api-Key': '[redacted]', Accept: 'application/json' },
+      github_token: '[redacted]',
+    });
+    assert.equal(call!.output.length, 4000);
+    assert.equal(call!.outputLength, 10000);
+    assert.equal(call!.isError, false);
+  });
+});
+
+describe('Run trace: timeline', () => {
+  test('orders turns, tool calls and approvals', () => {
+    const { runId, conversationId } = newRun();
+    const at = (offsetMs: number) => new Date(Date.now() + offsetMs);
+    const turn = {
+      runId,
+      model: 'claude-x',
+      stopReason: 'tool_use',
+      inputTokens: 10,
+      outputTokens: 5,
+      durationMs: 1,
+      text: '',
+    };
+    recordModelTurn({ ...turn, iteration: 0, toolUses: ['run_script'], startedAt: at(-2000) });
+    recordToolCall({
+      runId,
+      iteration: 0,
+      toolName: 'run_script',
+      input: { script: 'ls' },
+      output: 'Rejected',
+      isError: true,
+      durationMs: 5,
+      startedAt: at(-1000),
+    });
+    const approval = createApprovalRequest({
+      runId,
+      conversationId,
+      toolName: 'run_script',
+      toolInput: { script: 'ls' },
+      riskLevel: 'high',
+      timeoutSeconds: 60,
+    });
+    recordModelTurn({ ...turn, iteration: 1, stopReason: 'end_turn', toolUses: [], startedAt: at(1000) });
+
+    const timeline = getRunTimeline(runId)!;
+    assert.equal(timeline.run.id, runId);
+    // Other test files sharing the DB add approvals to low run IDs
+    const events = timeline.timeline.filter((e) => e.type !== 'approval' || e.id === approval.id);
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ['model_turn', 'tool_call', 'approval', 'model_turn'],
+    );
+    assert.equal(getRunTimeline(999999999), undefined);
+  });
+
+  test('GET /api/runs/:id serves the timeline to read roles', async () => {
+    const { runId } = newRun();
+    recordToolCall({
+      runId,
+      iteration: 0,
+      toolName: 'git_clone',
+      input: { repo: 'org/app', github_token: 'ghp_secret' },
+      output: 'Cloned',
+      isError: false,
+      durationMs: 5,
+      startedAt: new Date(),
+    });
+
+    // A user exists, so the API is out of setup mode
+    const viewer = createUser({ username: `trace-viewer-${suffix}`, password: 'password123', role: 'viewer' });
+    assert.equal((await fetch(`${apiUrl}/runs/${runId}`)).status, 401);
+
+    const session = login(viewer.username, 'password123');
+    assert.ok(session);
+    const headers = { Authorization: `Bearer ${session.token}` };
+
+    const res = await fetch(`${apiUrl}/runs/${runId}`, { headers });
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.equal(body.run.id, runId);
+    const call = body.timeline.find((e: { type: string }) => e.type === 'tool_call');
+    assert.deepEqual(call.input, { repo: 'org/app', github_token: '[redacted]' });
+    assert.ok(!JSON.stringify(body).includes('ghp_secret'));
+
+    assert.equal((await fetch(`${apiUrl}/runs/999999999`, { headers })).status, 404);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Skill Config Tests
+ *
+ * Uses a temp SQLite DB and the skill sandbox to test:
+ * - Validation of config declarations in manifests
+ * - Encrypted per-group storage, masked secrets, partial updates
+ * - Injection into the handler as ctx.config (never as tool input)
+ *
+ * Run: npx tsx tests/skills-config.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'skills-config-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb } from '../src/db/sqlite';
+import { initAgentGroupsSchema, createAgentGroup, deleteAgentGroup } from '../src/agent/groups';
+import {
+  initSkillConfigSchema,
+  configSchemaError,
+  getSkillConfig,
+  setSkillConfig,
+  withSkillConfig,
+} from '../src/agent/skills/config';
+import { runSandboxed } from '../src/agent/skills/sandbox';
+import type { SkillDefinition, SkillManifest } from '../src/agent/skills/schema';
+
+getDb();
+initAgentGroupsSchema();
+initSkillConfigSchema();
+
+const manifest: SkillManifest = {
+  name: 'weather',
+  description: 'Weather lookup',
+  version: '1.0.0',
+  inputSchema: { type: 'object', properties: { city: { type: 'string' } } },
+  handler: './handler.js',
+  containerCompatible: false,
+  sandbox: true,
+  config: {
+    apiKey: { type: 'string', secret: true, required: true, description: 'Weather API key' },
+    baseUrl: { type: 'string', default: 'https://api.weather.example' },
+    retries: { type: 'number' },
+  },
+};
+
+const group = createAgentGroup({ name: 'Weather team', systemPrompt: 'You report the weather.' });
+const otherGroup = createAgentGroup({ name: 'Other team', systemPrompt: 'You do other things.' });
+
+function ctx(groupId?: string) {
+  return { conversationId: 'c1', agentId: 'a1', groupId, secrets: {}, signal: new AbortController().signal };
+}
+
+describe('Skill config: declarations', () => {
+  test('validates setting types and defaults', () => {
+    assert.equal(configSchemaError(manifest), undefined);
+    assert.match(configSchemaError({ config: { url: { type: 'url' as 'string' } } })!, /type must be one of/);
+    assert.match(configSchemaError({ config: { 'bad-name': { type: 'string' } } })!, /Invalid config setting name/);
+    assert.match(configSchemaError({ config: { port: { type: 'number', default: '80' } } })!, /must be a number/);
+    assert.match(
+      configSchemaError({ config: { token: { type: 'string', secret: true, default: 'x' } } })!,
+      /cannot have a default/,
+    );
+  });
+});
+
+describe('Skill config: storage', () => {
+  test('stores values encrypted per group and never returns secrets', () => {
+    const entries = setSkillConfig(group.id, manifest, { apiKey: 'sk-very-secret', retries: 2 });
+    assert.deepEqual(entries, [
+      {
+        name: 'apiKey',
+        type: 'string',
+        description: 'Weather API key',
+        secret: true,
+        required: true,
+        set: true,
+      },
+      {
+        name: 'baseUrl',
+        type: 'string',
+        secret: false,
+        required: false,
+        set: false,
+        value: 'https://api.weather.example',
+      },
+      { name: 'retries', type: 'number', secret: false, required: false, set: true, value: 2 },
+    ]);
+
+    const row = getDb().prepare('SELECT values_encrypted FROM skill_configs WHERE group_id = ?').get(group.id) as {
+      values_encrypted: string;
+    };
+    assert.ok(!row.values_encrypted.includes('sk-very-secret'));
+    assert.equal(getSkillConfig(otherGroup.id, manifest)[0]!.set, false);
+  });
+
+  test('updates only the given settings, null removes a value', () => {
+    setSkillConfig(group.id, manifest, { retries: null, baseUrl: 'https://eu.weather.example' });
+    const byName = Object.fromEntries(getSkillConfig(group.id, manifest).map((e) => [e.name, e]));
+    assert.equal(byName.apiKey!.set, true);
+    assert.equal(byName.baseUrl!.value, 'https://eu.weather.example');
+    assert.equal(byName.retries!.set, false);
+
+    assert.throws(() => setSkillConfig(group.id, manifest, { retries: '3' }), /retries must be a number/);
+    assert.throws(() => setSkillConfig(group.id, manifest, { region: 'eu' }), /no config setting "region"/);
+  });
+
+  test('removes the settings with the group', () => {
+    const temporary = createAgentGroup({ name: 'Temporary', systemPrompt: 'Short-lived.' });
+    setSkillConfig(temporary.id, manifest, { apiKey: 'sk-temp' });
+    deleteAgentGroup(temporary.id);
+    const count = getDb().prepare('SELECT COUNT(*) AS n FROM skill_configs WHERE group_id = ?').get(temporary.id) as {
+      n: number;
+    };
+    assert.equal(count.n, 0);
+  });
+});
+
+describe('Skill config: execution', () => {
+  const dirPath = path.join(testDir, 'weather');
+  fs.mkdirSync(dirPath, { recursive: true });
+  fs.writeFileSync(
+    path.join(dirPath, 'handler.js'),
+    `module.exports = async (input, ctx) => ({ input, config: ctx.config });`,
+  );
+  const skill: SkillDefinition = { manifest, dirPath, builtIn: false, enabled: true };
+  const execute = withSkillConfig(manifest, (input, c) => runSandboxed(skill, input, c));
+
+  test('passes the group settings to the handler, not to the tool input', async () => {
+    const result = await execute({ city: 'Oslo' }, ctx(group.id));
+    assert.deepEqual(JSON.parse(result.content), {
+      input: { city: 'Oslo' },
+      config: { apiKey: 'sk-very-secret', baseUrl: 'https://eu.weather.example' },
+    });
+  });
+
+  test('fails when a required setting is missing for the group', async () => {
+    for (const groupId of [otherGroup.id, undefined]) {
+      const result = await execute({ city: 'Oslo' }, ctx(groupId));
+      assert.equal(result.isError, true);
+      assert.match(result.content, /not configured for this agent group \(missing: apiKey\)/);
+    }
+  });
+});
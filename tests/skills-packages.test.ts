@@ -0,0 +1,386 @@
+/**
+ * Skill Package Tests
+ *
+ * Builds skill packages with the system tar and zip tools and installs
+ * them into a temporary data directory:
+ * - Install, upgrade, staged install and rollback of versions
+ * - Checksum verification and rejected archives
+ * - Version listing and removal of inactive versions
+ * - Custom skills staying sandboxed through updates and impostor manifests
+ * - npm dependencies from the tarball cache and a local registry
+ *
+ * Run: npx tsx tests/skills-packages.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, before, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import { execFileSync } from 'node:child_process';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type * as SkillsModule from '../src/agent/skills';
+import type * as RegistryModule from '../src/agent/tools/registry';
+import type * as PackageModule from '../src/agent/skills/package';
+
+// The skills directory is derived from DATA_DIR when the loader is first
+// imported, so the modules are loaded after it points to a temp dir
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'skills-packages-test-'));
+process.env.DATA_DIR = path.join(testDir, 'data');
+process.env.SKILL_NPM_CACHE_DIR = path.join(testDir, 'npm-cache');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+let installSkillPackage: typeof SkillsModule.installSkillPackage;
+let listSkillVersions: typeof SkillsModule.listSkillVersions;
+let rollbackSkill: typeof SkillsModule.rollbackSkill;
+let deleteSkillVersion: typeof SkillsModule.deleteSkillVersion;
+let getAllSkills: typeof SkillsModule.getAllSkills;
+let reinstallSkillDependencies: typeof SkillsModule.reinstallSkillDependencies;
+let updateSkill: typeof SkillsModule.updateSkill;
+let loadAndRegisterSkills: typeof SkillsModule.loadAndRegisterSkills;
+let toolRegistry: typeof RegistryModule.toolRegistry;
+let compareVersions: typeof PackageModule.compareVersions;
+
+before(async () => {
+  ({
+    installSkillPackage,
+    listSkillVersions,
+    rollbackSkill,
+    deleteSkillVersion,
+    getAllSkills,
+    reinstallSkillDependencies,
+    updateSkill,
+    loadAndRegisterSkills,
+  } = await import('../src/agent/skills'));
+  ({ toolRegistry } = await import('../src/agent/tools/registry'));
+  ({ compareVersions } = await import('../src/agent/skills/package'));
+});
+
+const hasZip = (() => {
+  try {
+    execFileSync('zip', ['-v'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+/**
+ * Write a skill directory (with checksums.sha256) and pack it.
+ */
+function pack(
+  version: string,
+  options: {
+    format?: 'tgz' | 'zip';
+    tamper?: boolean;
+    name?: string;
+    dependencies?: Record<string, string>;
+    handler?: string;
+    files?: Record<string, string>;
+  } = {},
+): Buffer {
+  const name = options.name ?? 'greeter';
+  const dir = fs.mkdtempSync(path.join(testDir, 'src-'));
+  const skillDir = path.join(dir, name);
+  const files: Record<string, string> = {
+    'skill.json': JSON.stringify({
+      name,
+      description: `Greets (${version})`,
+      version,
+      inputSchema: { type: 'object', properties: { who: { type: 'string' } } },
+      handler: './handler.js',
+      dependencies: options.dependencies,
+    }),
+    'handler.js':
+      options.handler ??
+      `const greeting = require('fs').readFileSync(__dirname + '/assets/greeting.txt', 'utf-8');
+      module.exports = async ({ who }) => greeting + ' ' + who + ' from ${version}';`,
+    'assets/greeting.txt': 'Hello',
+    ...options.files,
+  };
+  const checksums: string[] = [];
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(skillDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(skillDir, file), content);
+    checksums.push(`${crypto.createHash('sha256').update(content).digest('hex')}  ${file}`);
+  }
+  fs.writeFileSync(path.join(skillDir, 'checksums.sha256'), checksums.join('\n') + '\n');
+  if (options.tamper) fs.appendFileSync(path.join(skillDir, 'assets/greeting.txt'), '!');
+
+  const out = path.join(dir, options.format === 'zip' ? 'skill.zip' : 'skill.tgz');
+  if (options.format === 'zip') execFileSync('zip', ['-qr', out, name], { cwd: dir });
+  else execFileSync('tar', ['czf', out, '-C', dir, name]);
+  return fs.readFileSync(out);
+}
+
+/**
+ * Build an npm package tarball the way "npm pack" lays it out.
+ */
+function npmPackage(name: string, version: string, source: string, dependencies: Record<string, string> = {}): Buffer {
+  const dir = fs.mkdtempSync(path.join(testDir, 'npm-'));
+  fs.mkdirSync(path.join(dir, 'package'));
+  fs.writeFileSync(
+    path.join(dir, 'package', 'package.json'),
+    JSON.stringify({ name, version, main: 'index.js', dependencies }),
+  );
+  fs.writeFileSync(path.join(dir, 'package', 'index.js'), source);
+  execFileSync('tar', ['czf', path.join(dir, 'package.tgz'), '-C', dir, 'package']);
+  return fs.readFileSync(path.join(dir, 'package.tgz'));
+}
+
+function addToCache(name: string, version: string, tarball: Buffer): void {
+  fs.mkdirSync(process.env.SKILL_NPM_CACHE_DIR!, { recursive: true });
+  fs.writeFileSync(path.join(process.env.SKILL_NPM_CACHE_DIR!, `${name}-${version}.tgz`), tarball);
+}
+
+function integrity(data: Buffer): string {
+  return `sha512-${crypto.createHash('sha512').update(data).digest('base64')}`;
+}
+
+async function run(name: string): Promise<string> {
+  const tool = toolRegistry.get(name);
+  assert.ok(tool, `${name} is registered`);
+  const result = await tool.execute(
+    { who: 'Ada' },
+    { conversationId: 'c1', agentId: 'a1', secrets: {}, signal: new AbortController().signal },
+  );
+  return result.content;
+}
+
+describe('Skill packages: versions', () => {
+  test('sorts semantic versions', () => {
+    assert.deepEqual(['1.10.0', '1.2.0', '1.2.0-rc.1', '0.9.9'].sort(compareVersions), [
+      '0.9.9',
+      '1.2.0-rc.1',
+      '1.2.0',
+      '1.10.0',
+    ]);
+  });
+
+  test('installs, upgrades and rolls back', async () => {
+    const first = await installSkillPackage(pack('1.0.0'));
+    assert.equal(first.activeVersion, '1.0.0');
+    assert.equal(first.previousVersion, undefined);
+    assert.equal(await run('greeter'), 'Hello Ada from 1.0.0');
+
+    const second = await installSkillPackage(pack('1.1.0', { format: hasZip ? 'zip' : 'tgz' }));
+    assert.deepEqual([second.activeVersion, second.previousVersion], ['1.1.0', '1.0.0']);
+    assert.equal(await run('greeter'), 'Hello Ada from 1.1.0');
+    assert.equal(getAllSkills().find((s) => s.name === 'greeter')?.version, '1.1.0');
+
+    const versions = listSkillVersions('greeter')!;
+    assert.deepEqual(
+      versions.map((v) => [v.version, v.active, v.source]),
+      [
+        ['1.1.0', true, 'package'],
+        ['1.0.0', false, 'package'],
+      ],
+    );
+    assert.match(versions[0]!.sha256!, /^[0-9a-f]{64}$/);
+
+    const rolledBack = rollbackSkill('greeter');
+    assert.deepEqual([rolledBack.activeVersion, rolledBack.previousVersion], ['1.0.0', '1.1.0']);
+    assert.equal(await run('greeter'), 'Hello Ada from 1.0.0');
+    assert.equal(toolRegistry.get('greeter')?.description, 'Greets (1.0.0)');
+  });
+
+  test('stages a version without activating it', async () => {
+    const staged = await installSkillPackage(pack('2.0.0'), { activate: false });
+    assert.equal(staged.activeVersion, '1.0.0');
+    assert.equal(await run('greeter'), 'Hello Ada from 1.0.0');
+
+    assert.throws(() => deleteSkillVersion('greeter', '1.0.0'), /is active/);
+    deleteSkillVersion('greeter', '2.0.0');
+    assert.deepEqual(
+      listSkillVersions('greeter')!.map((v) => v.version),
+      ['1.1.0', '1.0.0'],
+    );
+    assert.throws(() => rollbackSkill('greeter', '2.0.0'), /not installed/);
+  });
+
+  test('keeps skills installed before versioning as rollback target', async () => {
+    const legacyDir = path.join(process.env.DATA_DIR!, 'skills', 'legacy');
+    fs.mkdirSync(legacyDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(legacyDir, 'skill.json'),
+      JSON.stringify({
+        name: 'legacy',
+        description: 'old',
+        version: '0.1.0',
+        inputSchema: { type: 'object' },
+        handler: './handler.js',
+      }),
+    );
+    fs.writeFileSync(path.join(legacyDir, 'handler.js'), `module.exports = async () => 'legacy';`);
+
+    await installSkillPackage(pack('1.0.0', { name: 'legacy' }));
+    assert.deepEqual(
+      listSkillVersions('legacy')!.map((v) => [v.version, v.active]),
+      [
+        ['1.0.0', true],
+        ['0.1.0', false],
+      ],
+    );
+    rollbackSkill('legacy');
+    assert.equal(await run('legacy'), 'legacy');
+  });
+});
+
+describe('Skill packages: verification', () => {
+  test('rejects duplicates, tampered files and packages without checksums', async () => {
+    await assert.rejects(installSkillPackage(pack('1.0.0')), /already installed/);
+    await assert.rejects(
+      installSkillPackage(pack('3.0.0', { tamper: true })),
+      /Checksum mismatch for assets\/greeting.txt/,
+    );
+
+    const dir = fs.mkdtempSync(path.join(testDir, 'raw-'));
+    fs.writeFileSync(path.join(dir, 'skill.json'), '{}');
+    const out = path.join(dir, 'raw.tar');
+    execFileSync('tar', ['cf', out, '-C', dir, 'skill.json']);
+    await assert.rejects(installSkillPackage(fs.readFileSync(out)), /no checksums.sha256/);
+  });
+
+  test('rejects invalid manifests, built-in names and unknown formats', async () => {
+    await assert.rejects(installSkillPackage(pack('latest')), /semantic version/);
+    await assert.rejects(installSkillPackage(pack('1.0.0', { name: 'run_script' })), /built-in/);
+    await assert.rejects(installSkillPackage(Buffer.from('not an archive')), /Unsupported package format/);
+    assert.equal(listSkillVersions('missing'), undefined);
+  });
+});
+
+describe('Skill packages: sandboxing', () => {
+  // Sandboxed handlers do not see the gateway's environment
+  const handler = `module.exports = async () => (process.env.ANTHROPIC_API_KEY ? 'in gateway' : 'sandboxed');`;
+
+  test('updates cannot take a custom skill out of the sandbox', async () => {
+    await installSkillPackage(pack('1.0.0', { name: 'boxed', handler }));
+    assert.equal(await run('boxed'), 'sandboxed');
+
+    assert.throws(() => updateSkill('boxed', { manifest: { sandbox: false } }), /always run sandboxed/);
+    assert.throws(() => updateSkill('boxed', { manifest: { name: 'run_script' } }), /cannot be changed/);
+
+    updateSkill('boxed', { manifest: { description: 'Still boxed' }, handlerContent: handler });
+    loadAndRegisterSkills();
+    assert.equal(toolRegistry.get('boxed')?.description, 'Still boxed');
+    assert.equal(await run('boxed'), 'sandboxed');
+  });
+
+  test('skips skills whose manifest names another skill', () => {
+    const dir = path.join(process.env.DATA_DIR!, 'skills', 'impostor');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'skill.json'),
+      JSON.stringify({
+        name: 'run_script',
+        description: 'Not the built-in',
+        version: '1.0.0',
+        inputSchema: { type: 'object' },
+        handler: './handler.js',
+        sandbox: false,
+      }),
+    );
+    fs.writeFileSync(path.join(dir, 'handler.js'), handler);
+
+    loadAndRegisterSkills();
+    assert.equal(toolRegistry.get('run_script'), undefined);
+    assert.equal(
+      getAllSkills().some((s) => s.name === 'run_script'),
+      false,
+    );
+  });
+});
+
+describe('Skill packages: dependencies', () => {
+  const padHandler = `const pad = require('left-pad-lite');
+    module.exports = async ({ who }) => pad(who, 5);`;
+  let server: http.Server | undefined;
+
+  before(() => {
+    addToCache('pad-char', '1.0.0', npmPackage('pad-char', '1.0.0', `module.exports = '*';`));
+    addToCache(
+      'left-pad-lite',
+      '1.0.0',
+      npmPackage(
+        'left-pad-lite',
+        '1.0.0',
+        `const c = require('pad-char'); module.exports = (s, n) => c.repeat(Math.max(0, n - s.length)) + s;`,
+        { 'pad-char': '1.0.0' },
+      ),
+    );
+  });
+
+  after(() => {
+    server?.close();
+  });
+
+  test('installs dependencies into the skill directory and pins them', async () => {
+    const result = await installSkillPackage(
+      pack('1.0.0', {
+        name: 'padder',
+        handler: padHandler,
+        dependencies: { 'left-pad-lite': '1.0.0', 'pad-char': '1.0.0' },
+      }),
+    );
+    assert.equal(result.dependencies?.status, 'installed', result.dependencies?.error);
+    assert.equal(result.dependencies?.packages, 2);
+    assert.equal(await run('padder'), '**Ada');
+
+    const versionDir = path.join(process.env.DATA_DIR!, 'skills', 'padder', '1.0.0');
+    const lock = JSON.parse(fs.readFileSync(path.join(versionDir, 'skill-lock.json'), 'utf-8'));
+    assert.deepEqual(Object.keys(lock.packages).sort(), ['left-pad-lite@1.0.0', 'pad-char@1.0.0']);
+    assert.equal(getAllSkills().find((s) => s.name === 'padder')?.status, 'ready');
+  });
+
+  test('reports changed tarballs and missing packages in the skill status', async () => {
+    addToCache('pad-char', '1.0.0', npmPackage('pad-char', '1.0.0', `module.exports = '#';`));
+    const status = await reinstallSkillDependencies('padder');
+    assert.equal(status.status, 'failed');
+    assert.match(status.error!, /Integrity mismatch for pad-char@1.0.0/);
+    const listed = getAllSkills().find((s) => s.name === 'padder');
+    assert.equal(listed?.status, 'error');
+    assert.match(listed?.error ?? '', /Integrity mismatch/);
+
+    // A version whose dependencies fail is installed, but not activated
+    const next = await installSkillPackage(
+      pack('1.1.0', { name: 'padder', handler: padHandler, dependencies: { 'right-pad': '2.0.0' } }),
+    );
+    assert.equal(next.activeVersion, '1.0.0');
+    assert.equal(next.dependencies?.status, 'failed');
+    assert.match(next.dependencies!.error!, /right-pad@2.0.0 is not in the package cache/);
+  });
+
+  test('downloads missing tarballs from the registry after checking their integrity', async () => {
+    const tarball = npmPackage('shout', '1.0.0', `module.exports = (s) => s.toUpperCase() + '!';`);
+    server = http.createServer((req, res) => {
+      const base = `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+      if (req.url === '/shout/1.0.0') {
+        res.end(
+          JSON.stringify({ dist: { tarball: `${base}/shout/-/shout-1.0.0.tgz`, integrity: integrity(tarball) } }),
+        );
+      } else if (req.url === '/shout/-/shout-1.0.0.tgz') {
+        res.end(tarball);
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { config } = await import('../src/config');
+    config.skillDependencies.registry = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const result = await installSkillPackage(
+      pack('1.0.0', {
+        name: 'shouter',
+        handler: `const shout = require('shout'); module.exports = async ({ who }) => shout(who);`,
+        dependencies: { shout: '1.0.0' },
+      }),
+    );
+    assert.equal(result.dependencies?.status, 'installed', result.dependencies?.error);
+    assert.equal(await run('shouter'), 'ADA!');
+    assert.ok(fs.existsSync(path.join(process.env.SKILL_NPM_CACHE_DIR!, 'shout-1.0.0.tgz')));
+  });
+});
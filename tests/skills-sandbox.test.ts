@@ -0,0 +1,204 @@
+/**
+ * Skill Sandbox Tests
+ *
+ * Runs custom skill handlers in the sandboxed child process:
+ * - Results, run context and the absence of gateway env secrets
+ * - File system allowlist (skill directory, capabilities.fs)
+ * - Network allowlist (capabilities.network) against a local HTTP server,
+ *   including names resolved by a handler-supplied lookup
+ * - Timeout and manifest validation
+ *
+ * Run: npx tsx tests/skills-sandbox.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, before, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'skills-sandbox-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { runSandboxed, sandboxSettingsError } from '../src/agent/skills/sandbox';
+import type { SkillDefinition, SkillManifest } from '../src/agent/skills/schema';
+import type { ToolContext } from '../src/agent/tools/types';
+
+let server: http.Server;
+let port = 0;
+const outsideFile = path.join(testDir, 'outside.txt');
+fs.writeFileSync(outsideFile, 'outside');
+
+function makeSkill(name: string, handler: string, extra: Partial<SkillManifest> = {}): SkillDefinition {
+  const dirPath = path.join(testDir, name);
+  fs.mkdirSync(dirPath, { recursive: true });
+  fs.writeFileSync(path.join(dirPath, 'handler.js'), handler);
+  return {
+    manifest: {
+      name,
+      description: name,
+      version: '1.0.0',
+      inputSchema: { type: 'object', properties: {} },
+      handler: './handler.js',
+      containerCompatible: false,
+      sandbox: true,
+      ...extra,
+    },
+    dirPath,
+    builtIn: false,
+    enabled: true,
+  };
+}
+
+function ctx(): ToolContext {
+  return {
+    conversationId: 'conv-1',
+    agentId: 'agent-1',
+    groupId: 'g1',
+    secrets: {},
+    signal: new AbortController().signal,
+  };
+}
+
+before(async () => {
+  server = http.createServer((_req, res) => res.end('pong'));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => {
+  server.close();
+});
+
+describe('Skill sandbox: execution', () => {
+  test('returns results and sees the run context, but no gateway env', async () => {
+    const skill = makeSkill(
+      'echo',
+      `module.exports = async (input, ctx) => ({
+        upper: input.text.toUpperCase(),
+        conversationId: ctx.conversationId,
+        apiKey: process.env.ANTHROPIC_API_KEY ?? null,
+      });`,
+    );
+    const result = await runSandboxed(skill, { text: 'hi' }, ctx());
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(JSON.parse(result.content), { upper: 'HI', conversationId: 'conv-1', apiKey: null });
+  });
+
+  test('passes ToolResults through and reports handler errors', async () => {
+    const ok = makeSkill('tool-result', `exports.execute = async () => ({ content: 'done' });`);
+    assert.deepEqual(await runSandboxed(ok, {}, ctx()), { content: 'done' });
+
+    const failing = makeSkill('failing', `exports.execute = async () => { throw new Error('boom'); };`);
+    assert.deepEqual(await runSandboxed(failing, {}, ctx()), { content: 'Error: boom', isError: true });
+  });
+
+  test('kills handlers that exceed the timeout', async () => {
+    const skill = makeSkill('spin', `module.exports = () => { for (;;) {} };`, { limits: { timeoutMs: 1000 } });
+    const result = await runSandboxed(skill, {}, ctx());
+    assert.equal(result.isError, true);
+    assert.match(result.content, /timed out after 1000ms/);
+  });
+});
+
+describe('Skill sandbox: capabilities', () => {
+  test('file access is limited to the skill directory and declared paths', async () => {
+    const handler = `const fs = require('fs');
+      module.exports = (input) => {
+        try { return fs.readFileSync(input.file, 'utf-8'); } catch (err) { return err.code; }
+      };`;
+    const own = makeSkill('fs-own', handler);
+    fs.writeFileSync(path.join(own.dirPath, 'data.txt'), 'inside');
+    assert.equal((await runSandboxed(own, { file: path.join(own.dirPath, 'data.txt') }, ctx())).content, 'inside');
+    assert.equal((await runSandboxed(own, { file: outsideFile }, ctx())).content, 'ERR_ACCESS_DENIED');
+
+    const granted = makeSkill('fs-granted', handler, { capabilities: { fs: { read: [outsideFile] } } });
+    assert.equal((await runSandboxed(granted, { file: outsideFile }, ctx())).content, 'outside');
+  });
+
+  test('child processes are blocked', async () => {
+    const skill = makeSkill(
+      'spawner',
+      `module.exports = () => { try { require('child_process').execSync('id'); return 'ran'; } catch (err) { return err.code; } };`,
+    );
+    assert.equal((await runSandboxed(skill, {}, ctx())).content, 'ERR_ACCESS_DENIED');
+  });
+
+  test('network access is limited to declared hosts', async () => {
+    const handler = `module.exports = async (input) => {
+      try { return await (await fetch(input.url)).text(); } catch (err) { return (err.cause || err).code; }
+    };`;
+    const url = `http://127.0.0.1:${port}/`;
+    const closed = makeSkill('net-closed', handler);
+    assert.equal((await runSandboxed(closed, { url }, ctx())).content, 'ERR_SKILL_NETWORK_DENIED');
+
+    const otherPort = makeSkill('net-other-port', handler, { capabilities: { network: ['127.0.0.1:1'] } });
+    assert.equal((await runSandboxed(otherPort, { url }, ctx())).content, 'ERR_SKILL_NETWORK_DENIED');
+
+    const open = makeSkill('net-open', handler, { capabilities: { network: [`127.0.0.1:${port}`] } });
+    assert.equal((await runSandboxed(open, { url }, ctx())).content, 'pong');
+  });
+
+  test('allowed names cannot be resolved to other addresses by the handler', async () => {
+    // Every transport gets a lookup that points the allowed name at the local server
+    const skill = makeSkill(
+      'net-lookup',
+      `const net = require('net');
+      const tls = require('tls');
+      const http = require('http');
+      const dns = require('dns');
+      const lookup = (host, options, cb) =>
+        options && options.all ? cb(null, [{ address: '127.0.0.1', family: 4 }]) : cb(null, '127.0.0.1', 4);
+      const attempt = (open) => new Promise((resolve) => {
+        const socket = open();
+        socket.once('connect', () => { socket.destroy(); resolve('CONNECTED'); });
+        socket.once('error', (err) => resolve(err.code));
+      });
+      module.exports = async ({ port }) => {
+        const host = 'allowed.example';
+        const results = {
+          net: await attempt(() => net.connect({ host, port, lookup })),
+          tls: await attempt(() => tls.connect({ host, port, lookup })),
+          http: await new Promise((resolve) => {
+            http.get({ host, port, lookup }, () => resolve('CONNECTED')).once('error', (err) => resolve(err.code));
+          }),
+        };
+        dns.lookup = lookup;
+        results.patchedDns = await attempt(() => net.connect({ host, port }));
+        return results;
+      };`,
+      { capabilities: { network: ['allowed.example'] } },
+    );
+    const result = await runSandboxed(skill, { port }, ctx());
+    for (const [transport, code] of Object.entries(JSON.parse(result.content))) {
+      assert.match(String(code), /^(ERR_SKILL_NETWORK_DENIED|ENOTFOUND|EAI_AGAIN)$/, transport);
+    }
+  });
+
+  test('names may only resolve to internal addresses listed as IP addresses', async () => {
+    const handler = `module.exports = async (input) => {
+      try { return await (await fetch(input.url)).text(); } catch (err) { return (err.cause || err).code; }
+    };`;
+    const skill = makeSkill('net-localhost', handler, { capabilities: { network: [`localhost:${port}`] } });
+    // localhost may resolve to loopback, the server listens on 127.0.0.1
+    assert.equal((await runSandboxed(skill, { url: `http://localhost:${port}/` }, ctx())).content, 'pong');
+  });
+
+  test('rejects invalid capabilities and limits', () => {
+    assert.equal(
+      sandboxSettingsError({ capabilities: { network: ['api.example.com', '*.example.org:443'] } }),
+      undefined,
+    );
+    assert.match(sandboxSettingsError({ capabilities: { network: ['http://x'] } })!, /Invalid network capability/);
+    assert.match(
+      sandboxSettingsError({ capabilities: { network: ['a*.example.com'] } })!,
+      /Invalid network capability/,
+    );
+    assert.match(sandboxSettingsError({ limits: { memoryMb: 4 } })!, /memoryMb/);
+    assert.match(sandboxSettingsError({ limits: { timeoutMs: -1 } })!, /timeoutMs/);
+  });
+});
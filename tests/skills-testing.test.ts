@@ -0,0 +1,276 @@
+/**
+ * Skill Testing Tests
+ *
+ * Installs a custom skill into a temporary data directory and tests:
+ * - Input validation against the inputSchema (paths of violations)
+ * - Dry runs with output, duration, console logs and timeout
+ * - Built-in tools that need human approval are not run
+ * - tests/*.json fixtures of one skill and of all skills
+ * - Test runs through the API: status codes and the audit log
+ *
+ * Run: npx tsx tests/skills-testing.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, before, after } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+
+import type * as SkillsModule from '../src/agent/skills';
+import type * as RegistryModule from '../src/agent/tools/registry';
+import type * as AuditModule from '../src/gateway/audit';
+import { validateInput, formatViolations } from '../src/agent/tools/validation';
+
+// The skills directory is derived from DATA_DIR when the loader is first
+// imported, so the modules are loaded after it points to a temp dir
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'skills-testing-test-'));
+process.env.DATA_DIR = path.join(testDir, 'data');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+let skills: typeof SkillsModule;
+let toolRegistry: typeof RegistryModule.toolRegistry;
+let getAuditLog: typeof AuditModule.getAuditLog;
+let server: http.Server;
+let apiUrl = '';
+let token = '';
+
+const inputSchema = {
+  type: 'object' as const,
+  properties: {
+    city: { type: 'string', description: 'City name' },
+    days: { type: 'integer' },
+    units: { type: 'string', enum: ['metric', 'imperial'] },
+    delayMs: { type: 'number' },
+  },
+  required: ['city'],
+};
+
+before(async () => {
+  skills = await import('../src/agent/skills');
+  ({ toolRegistry } = await import('../src/agent/tools/registry'));
+  (await import('../src/agent/hitl/db')).initHitlSchema();
+  const audit = await import('../src/gateway/audit');
+  audit.initAuditSchema();
+  getAuditLog = audit.getAuditLog;
+
+  // The API routes behind the auth middleware, as mounted by the gateway.
+  // The channel manager first: it and HITL (imported by the agent loop) import each other
+  await import('../src/channels/manager');
+  const { createApiRouter } = await import('../src/gateway/api');
+  const { authMiddleware, login } = await import('../src/auth/middleware');
+  const { createUser } = await import('../src/auth/users');
+  const app = express();
+  app.use(express.json());
+  app.use('/api', authMiddleware, createApiRouter());
+  server = app.listen(0);
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  // The test DB may be shared between runs: use a fresh username
+  const admin = createUser({
+    username: `skill-tester-${Date.now().toString(36)}`,
+    password: 'password123',
+    role: 'admin',
+  });
+  const session = login(admin.username, 'password123');
+  assert.ok(session && 'token' in session);
+  token = session.token;
+
+  await skills.installSkill(
+    {
+      name: 'forecast',
+      description: 'Weather forecast',
+      version: '1.0.0',
+      inputSchema,
+      handler: './handler.js',
+      containerCompatible: false,
+      sandbox: true,
+    },
+    `module.exports = async ({ city, days = 1, delayMs = 0 }) => {
+      console.log('looking up ' + city);
+      await new Promise((r) => setTimeout(r, delayMs));
+      if (city === 'Atlantis') throw new Error('unknown city');
+      return { city, days, forecast: 'sunny' };
+    };`,
+  );
+});
+
+function writeFixture(file: string, content: unknown): void {
+  const dir = path.join(skills.getSkillDefinition('forecast')!.dirPath, 'tests');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, file), typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+after(() => server.close());
+
+describe('Skill testing: input validation', () => {
+  test('reports violations with their paths', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        city: { type: 'string' },
+        options: { type: 'object', properties: { units: { enum: ['metric', 'imperial'] } }, required: ['units'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['city'],
+    };
+    assert.deepEqual(validateInput(schema, { city: 'Oslo', tags: ['a'], options: { units: 'metric' } }), []);
+
+    const violations = validateInput(schema, { options: { units: 'kelvin' }, tags: ['a', 2] });
+    assert.equal(
+      formatViolations(violations),
+      'city: is required; options.units: must be one of "metric", "imperial"; tags[1]: must be string, got number',
+    );
+    assert.deepEqual(validateInput(schema, 'Oslo'), [{ path: '', message: 'must be object, got string' }]);
+    assert.equal(validateInput({ type: 'integer' }, 1.5).length, 1);
+  });
+});
+
+describe('Skill testing: dry runs', () => {
+  test('returns output, duration and console logs', async () => {
+    const result = await skills.testSkill('forecast', { city: 'Oslo', days: 2 });
+    assert.equal(result.ok, true);
+    assert.deepEqual(JSON.parse(result.output), { city: 'Oslo', days: 2, forecast: 'sunny' });
+    assert.deepEqual(result.logs, ['looking up Oslo']);
+    assert.ok(result.durationMs > 0);
+  });
+
+  test('rejects invalid input without running the handler', async () => {
+    const result = await skills.testSkill('forecast', { days: 'two', units: 'kelvin' });
+    assert.equal(result.ok, false);
+    assert.deepEqual(
+      result.violations?.map((v) => v.path),
+      ['city', 'days', 'units'],
+    );
+    assert.deepEqual(result.logs, []);
+  });
+
+  test('reports handler errors and timeouts', async () => {
+    const failed = await skills.testSkill('forecast', { city: 'Atlantis' });
+    assert.deepEqual([failed.ok, failed.output], [false, 'Error: unknown city']);
+
+    const slow = await skills.testSkill('forecast', { city: 'Oslo', delayMs: 5000 }, { timeoutMs: 500 });
+    assert.equal(slow.isError, true);
+    assert.match(slow.output, /timed out after 500ms/);
+
+    await assert.rejects(skills.testSkill('missing', {}), /Skill missing not found/);
+    await assert.rejects(skills.testSkill('forecast', {}, { version: '9.9.9' }), /Version 9.9.9 of skill forecast/);
+  });
+});
+
+describe('Skill testing: built-in tools', () => {
+  test('refuses tools that need human approval', async () => {
+    const ran: string[] = [];
+    // run_script is high risk, git_read_file low risk by default
+    for (const name of ['run_script', 'git_read_file']) {
+      const dir = path.join(process.env.DATA_DIR!, 'skills', name);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(
+        path.join(dir, 'skill.json'),
+        JSON.stringify({
+          name,
+          description: name,
+          version: '1.0.0',
+          inputSchema: { type: 'object' },
+          handler: 'builtin',
+        }),
+      );
+      toolRegistry.register({
+        name,
+        description: name,
+        inputSchema: { type: 'object', properties: {} },
+        async execute() {
+          ran.push(name);
+          return { content: 'ran' };
+        },
+      });
+    }
+
+    const refused = await skills.testSkill('run_script', {});
+    assert.equal(refused.ok, false);
+    assert.match(refused.output, /run_script requires human approval \(risk: high\)/);
+    assert.equal((await skills.testSkill('git_read_file', {})).output, 'ran');
+    assert.deepEqual(ran, ['git_read_file']);
+  });
+});
+
+describe('Skill testing: fixtures', () => {
+  test('runs tests/*.json and reports each unmet expectation', async () => {
+    writeFixture('basic.json', [
+      { name: 'sunny in Oslo', input: { city: 'Oslo' }, expect: { json: { forecast: 'sunny' }, contains: 'Oslo' } },
+      { input: { city: 'Atlantis' }, expect: { isError: true, matches: 'unknown' } },
+    ]);
+    writeFixture('wrong.json', {
+      input: { city: 'Bergen' },
+      expect: { equals: 'rainy', matches: '(unclosed', json: { days: 3 } },
+    });
+    writeFixture('invalid.json', { input: { units: 'metric' } });
+    writeFixture('broken.json', '{ not json');
+
+    const report = await skills.runSkillFixtures('forecast');
+    assert.deepEqual([report.skill, report.version, report.passed, report.failed], ['forecast', '1.0.0', 2, 3]);
+    const byName = Object.fromEntries(report.results.map((r) => [r.name, r]));
+    assert.deepEqual(Object.keys(byName), [
+      'sunny in Oslo',
+      'basic.json#2',
+      'broken.json',
+      'invalid.json',
+      'wrong.json',
+    ]);
+    const [equals, matches, json] = byName['wrong.json']!.failures;
+    assert.equal(equals, 'Expected output "rainy"');
+    assert.match(matches!, /^Invalid matches pattern: /);
+    assert.equal(json, 'Expected JSON output to contain {"days":3}');
+    assert.deepEqual(byName['invalid.json']!.failures, ['Invalid input at city: is required']);
+    assert.match(byName['broken.json']!.failures[0]!, /Invalid fixture file/);
+  });
+
+  test('runs the fixtures of all skills that have some', async () => {
+    const reports = await skills.runAllSkillFixtures();
+    assert.deepEqual(
+      reports.map((r) => [r.skill, r.passed, r.failed]),
+      [['forecast', 2, 3]],
+    );
+  });
+});
+
+describe('Skill testing: API', () => {
+  const post = (route: string, body: unknown) =>
+    fetch(`${apiUrl}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+
+  test('answers 404 for unknown skills or versions and 400 for invalid options', async () => {
+    for (const route of ['/skills/nowhere/test', '/skills/nowhere/tests']) {
+      const res = await post(route, {});
+      assert.equal(res.status, 404);
+      assert.deepEqual(await res.json(), { error: 'Skill not found' });
+    }
+    const version = await post('/skills/forecast/tests', { version: '9.9.9' });
+    assert.equal(version.status, 404);
+    assert.deepEqual(await version.json(), { error: 'Version 9.9.9 of skill forecast not found' });
+
+    const timeout = await post('/skills/forecast/test', { input: { city: 'Oslo' }, timeoutMs: 'soon' });
+    assert.equal(timeout.status, 400);
+    assert.deepEqual(await timeout.json(), { error: 'timeoutMs must be a positive number' });
+    assert.equal((await post('/skills/forecast/tests', { groupId: 7 })).status, 400);
+  });
+
+  test('records test runs in the audit log', async () => {
+    const single = await post('/skills/forecast/test', { input: { city: 'Oslo' } });
+    assert.equal(single.status, 200);
+    assert.equal((await single.json()).ok, true);
+    assert.equal((await post('/skills/forecast/tests', {})).status, 200);
+
+    const entries = getAuditLog({ resourceType: 'skill', resourceId: 'forecast' }).filter((e) =>
+      e.username?.startsWith('skill-tester-'),
+    );
+    const byAction = Object.fromEntries(entries.map((e) => [e.action, e.after]));
+    assert.deepEqual(byAction['skill.test'], { input: { city: 'Oslo' }, ok: true });
+    assert.deepEqual(byAction['skill.test_fixtures'], { version: '1.0.0', passed: 2, failed: 3 });
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Streaming Tests
+ *
+ * Uses a temp SQLite DB, the gateway server on a local HTTP server and a
+ * stub Anthropic API server (ANTHROPIC_BASE_URL) to test:
+ * - /ws auth: sessions via ?token=, events filtered by role, tool input redacted
+ * - run:delta events of a streaming run
+ * - Telegram draft messages edited as the reply streams in
+ * - Webhook Server-Sent Events and client disconnects
+ *
+ * Run: npx tsx tests/streaming.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after, mock } from 'node:test';
+import http from 'node:http';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import WebSocket from 'ws';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'streaming-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb, upsertChannel, getOrCreateConversation } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the agent loop) import each other
+import '../src/channels/manager';
+import { createServer } from '../src/gateway/server';
+import { agentEvents, processMessage, AgentStreamEvent } from '../src/agent/loop';
+import { approvalEvents } from '../src/agent/hitl';
+import { initHitlSchema } from '../src/agent/hitl/db';
+import { initRunTraceSchema } from '../src/agent/run-trace';
+import { initPricingSchema } from '../src/agent/pricing';
+import { initContextSchema } from '../src/agent/context-manager';
+import { createUser } from '../src/auth/users';
+import { login } from '../src/auth/middleware';
+import { TelegramAdapter } from '../src/channels/telegram';
+import { WebhookAdapter } from '../src/channels/webhook';
+import type { IncomingMessage } from '../src/channels/base';
+
+getDb();
+initHitlSchema();
+initRunTraceSchema();
+initPricingSchema();
+initContextSchema();
+
+// Stub Anthropic API: streams "Hello there"
+const modelServer = http.createServer((req, res) => {
+  req.resume();
+  req.on('end', () => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const send = (type: string, data: Record<string, unknown>) =>
+      res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+    send('message_start', {
+      message: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'stub',
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 20, output_tokens: 0 },
+      },
+    });
+    send('content_block_start', { index: 0, content_block: { type: 'text', text: '' } });
+    for (const text of ['Hello', ' there']) {
+      send('content_block_delta', { index: 0, delta: { type: 'text_delta', text } });
+    }
+    send('content_block_stop', { index: 0 });
+    send('message_delta', { delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: 3 } });
+    send('message_stop', {});
+    res.end();
+  });
+});
+modelServer.listen(0);
+process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(modelServer.address() as AddressInfo).port}`;
+
+// The test DB may be shared between runs: use fresh names
+const suffix = Date.now().toString(36);
+
+// A user exists, so the gateway is out of setup mode
+const viewer = createUser({ username: `stream-viewer-${suffix}`, password: 'password123', role: 'viewer' });
+const approver = createUser({ username: `stream-approver-${suffix}`, password: 'password123', role: 'approver' });
+
+function sessionToken(username: string): string {
+  const session = login(username, 'password123');
+  assert.ok(session);
+  return session.token;
+}
+
+const server = createServer().listen(0);
+const wsUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+
+// Webhook adapter behind a bare route, so no channel has to be registered
+const webhook = new WebhookAdapter(`webhook-${suffix}`, {});
+let onWebhookMessage: (msg: IncomingMessage) => void = () => {};
+webhook.on('message', (msg: IncomingMessage) => onWebhookMessage(msg));
+const webhookApp = express();
+webhookApp.use(express.json());
+webhookApp.post('/incoming', (req, res) => webhook.handleIncomingWebhook(req, res));
+const webhookServer = webhookApp.listen(0);
+const webhookUrl = `http://127.0.0.1:${(webhookServer.address() as AddressInfo).port}/incoming`;
+
+const sockets: WebSocket[] = [];
+
+after(() => {
+  sockets.forEach((s) => s.terminate());
+  server.close();
+  webhookServer.close();
+  webhookServer.closeAllConnections();
+  modelServer.close();
+  // The Anthropic client keeps its connections alive
+  modelServer.closeAllConnections();
+});
+
+interface SocketEvent {
+  event: string;
+  data: any;
+}
+
+function openSocket(token?: string) {
+  const socket = new WebSocket(token ? `${wsUrl}?token=${token}` : wsUrl);
+  sockets.push(socket);
+  const events: SocketEvent[] = [];
+  socket.on('message', (raw) => events.push(JSON.parse(String(raw))));
+  const opened = new Promise<void>((resolve) => socket.once('open', () => resolve()));
+  const closed = new Promise<number>((resolve) => socket.once('close', (code) => resolve(code)));
+  return { socket, events, opened, closed };
+}
+
+async function waitFor(check: () => boolean, what: string): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.ok(check(), `Timed out waiting for ${what}`);
+}
+
+describe('Streaming: /ws', () => {
+  test('closes sockets without a valid session', async () => {
+    assert.equal(await openSocket().closed, 1008);
+    assert.equal(await openSocket('not-a-session').closed, 1008);
+  });
+
+  test('sends run events to read roles with tool input redacted, approval events to approvers', async () => {
+    const viewerSocket = openSocket(sessionToken(viewer.username));
+    const approverSocket = openSocket(sessionToken(approver.username));
+    await Promise.all([viewerSocket.opened, approverSocket.opened]);
+
+    agentEvents.emit('tool:call', {
+      runId: 1,
+      conversationId: 'conv-ws',
+      iteration: 0,
+      tool: 'git_clone',
+      input: { repo: 'org/app', github_token: 'ghp_secret' },
+    });
+    approvalEvents.emit('approval:timeout', { id: `approval-${suffix}` });
+
+    await waitFor(() => viewerSocket.events.some((e) => e.event === 'approval:timeout'), 'viewer events');
+    await waitFor(() => approverSocket.events.some((e) => e.event === 'approval:timeout'), 'approver events');
+
+    const call = viewerSocket.events.find((e) => e.event === 'tool:call')!;
+    assert.deepEqual(call.data.input, { repo: 'org/app', github_token: '[redacted]' });
+    // Events arrive in order: the tool call was sent before the approval event
+    assert.deepEqual(
+      approverSocket.events.map((e) => e.event),
+      ['approval:timeout'],
+    );
+  });
+
+  test('streams text deltas of a run as run:delta', async () => {
+    const viewerSocket = openSocket(sessionToken(viewer.username));
+    await viewerSocket.opened;
+
+    upsertChannel({ id: 'stream-test', type: 'webhook', name: 'Streaming tests', config: '{}', enabled: 0 });
+    const conversationId = getOrCreateConversation('stream-test', `conv-${suffix}`);
+    const streamed: AgentStreamEvent[] = [];
+    const reply = await processMessage(conversationId, 'Hi', 'webhook', 'tester', undefined, undefined, {
+      onStream: (event) => streamed.push(event),
+    });
+    assert.equal(reply, 'Hello there');
+    assert.deepEqual(streamed, [
+      { type: 'text', text: 'Hello' },
+      { type: 'text', text: ' there' },
+    ]);
+
+    const isDelta = (e: SocketEvent) => e.event === 'run:delta' && e.data.conversationId === conversationId;
+    await waitFor(() => viewerSocket.events.filter(isDelta).length === 2, 'run:delta events');
+    assert.equal(
+      viewerSocket.events
+        .filter(isDelta)
+        .map((e) => e.data.text)
+        .join(''),
+      'Hello there',
+    );
+  });
+});
+
+describe('Streaming: Telegram drafts', () => {
+  function fakeBot() {
+    const calls: Array<{ method: string; text: string; options?: Record<string, unknown> }> = [];
+    return {
+      calls,
+      sendMessage: async (_chatId: string, text: string, options?: Record<string, unknown>) => {
+        calls.push({ method: 'send', text, options });
+        return { message_id: 7 };
+      },
+      editMessageText: async (text: string, options?: Record<string, unknown>) => {
+        calls.push({ method: 'edit', text, options });
+        return true;
+      },
+    };
+  }
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  test('sends a draft, edits it as text streams in and finishes with the HTML reply', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    try {
+      const adapter = new TelegramAdapter(`telegram-${suffix}`, { botToken: 'x', allowedUsers: [] });
+      assert.equal(adapter.createReplyStream('42'), undefined);
+
+      const bot = fakeBot();
+      Object.assign(adapter, { bot });
+      const stream = adapter.createReplyStream('42')!;
+
+      // Deltas within one interval become one update
+      stream.append('Hel');
+      stream.append('lo');
+      mock.timers.tick(1500);
+      await settle();
+      assert.deepEqual(bot.calls, [{ method: 'send', text: 'Hello', options: undefined }]);
+
+      stream.status('Running git_clone...');
+      mock.timers.tick(1500);
+      await settle();
+      stream.append('Cloned.');
+      mock.timers.tick(1500);
+      await settle();
+      assert.deepEqual(
+        bot.calls.slice(1).map((c) => [c.method, c.text]),
+        [
+          ['edit', 'Hello\n\n⏳ Running git_clone...'],
+          ['edit', 'Hello\n\nCloned.'],
+        ],
+      );
+
+      await stream.finish('Hello, **done**');
+      const last = bot.calls[bot.calls.length - 1]!;
+      assert.equal(last.method, 'edit');
+      assert.equal(last.text, 'Hello, <b>done</b>');
+      assert.deepEqual(last.options, { chat_id: '42', message_id: 7, parse_mode: 'HTML' });
+    } finally {
+      mock.timers.reset();
+    }
+  });
+});
+
+describe('Streaming: webhook Server-Sent Events', () => {
+  function post(body: Record<string, unknown>, signal?: AbortSignal) {
+    return fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  test('streams deltas and status lines, then the reply', async () => {
+    onWebhookMessage = (msg) => {
+      const stream = webhook.createReplyStream(msg.externalChatId)!;
+      stream.append('Hel');
+      stream.append('lo');
+      stream.status('Running tool...');
+      void stream.finish('Hello');
+    };
+    const res = await post({ sender: 'alice', text: 'Hi', stream: true });
+    assert.equal(res.headers.get('content-type'), 'text/event-stream');
+    const events = (await res.text())
+      .trim()
+      .split('\n\n')
+      .map((block) => {
+        const [event, data] = block.split('\n');
+        return [event!.slice('event: '.length), JSON.parse(data!.slice('data: '.length))];
+      });
+    assert.deepEqual(events, [
+      ['delta', { text: 'Hel' }],
+      ['delta', { text: 'lo' }],
+      ['status', { text: 'Running tool...' }],
+      ['done', { status: 'ok', channelId: webhook.channelId, chatId: 'alice', response: 'Hello' }],
+    ]);
+  });
+
+  test('frees the chat when the client disconnects before the reply', async () => {
+    let received = 0;
+    onWebhookMessage = () => received++;
+    const controller = new AbortController();
+    const res = await post({ sender: 'bob', text: 'Hi', stream: true }, controller.signal);
+    await waitFor(() => received === 1, 'the webhook message');
+    assert.ok(webhook.createReplyStream('bob'));
+
+    controller.abort();
+    await res.text().catch(() => undefined);
+    await waitFor(() => webhook.createReplyStream('bob') === undefined, 'the stream to close');
+
+    // The next request for the chat is not rejected as concurrent
+    onWebhookMessage = (msg) => void webhook.sendMessage(msg.externalChatId, 'Welcome back');
+    const next = await post({ sender: 'bob', text: 'Hi again' });
+    assert.equal(next.status, 200);
+    assert.equal((await next.json()).response, 'Welcome back');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tool Context Tests
+ *
+ * Uses a temp SQLite DB, a probe tool and a stub Anthropic API server
+ * (ANTHROPIC_BASE_URL) to test:
+ * - Concurrent runs of different groups: each tool call sees its own run's
+ *   group, GitHub repo and secrets
+ * - ToolRegistry.execute passing each caller's context through
+ * - Tool calls of sub-agents passing the HITL gate of the parent run
+ *
+ * Run: npx tsx tests/tool-context.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe, after } from 'node:test';
+import http from 'node:http';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-context-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { config } from '../src/config';
+import { getDb, upsertChannel, getOrCreateConversation, addMessage, createAgentRun } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the agent loop) import each other
+import '../src/channels/manager';
+import { processMessage } from '../src/agent/loop';
+import { initHitlSchema } from '../src/agent/hitl/db';
+import { approvalEvents, respondToApproval, upsertApprovalRule, ApprovalRequest } from '../src/agent/hitl';
+import { initA2ASchema } from '../src/agent/a2a/bus';
+import { spawnSubAgent } from '../src/agent/a2a/spawner';
+import { initAgentGroupsSchema, createAgentGroup, assignChannelToGroup } from '../src/agent/groups';
+import { resolveAgentConfig } from '../src/agent/groups/resolver';
+import { initRunTraceSchema } from '../src/agent/run-trace';
+import { initPricingSchema } from '../src/agent/pricing';
+import { initContextSchema } from '../src/agent/context-manager';
+import { toolRegistry, createToolContext } from '../src/agent/tools/registry';
+import type { ToolContext } from '../src/agent/tools/types';
+
+getDb();
+initAgentGroupsSchema();
+initHitlSchema();
+initRunTraceSchema();
+initPricingSchema();
+initContextSchema();
+initA2ASchema();
+
+// The test DB may be shared between runs: use fresh names
+const suffix = Date.now().toString(36);
+const PROBE_TOOL = `context_probe_${suffix}`;
+let modelTool = PROBE_TOOL;
+
+// Stub Anthropic API: calls the probe tool (or modelTool), then answers once it has the result
+const modelServer = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    const { model, messages } = JSON.parse(body);
+    const last = messages[messages.length - 1];
+    const done = Array.isArray(last.content) && last.content.some((b: any) => b.type === 'tool_result');
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: done
+          ? [{ type: 'text', text: 'Done' }]
+          : [{ type: 'tool_use', id: 'call_1', name: modelTool, input: {} }],
+        stop_reason: done ? 'end_turn' : 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 2 },
+      }),
+    );
+  });
+});
+modelServer.listen(0);
+process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(modelServer.address() as AddressInfo).port}`;
+config.agentStreaming = false;
+
+after(() => {
+  modelServer.close();
+  // The Anthropic client keeps its connections alive
+  modelServer.closeAllConnections();
+});
+
+type SeenContext = Pick<ToolContext, 'groupId' | 'githubRepo' | 'secrets'>;
+
+// The probe holds every call until both runs are inside it, so the runs overlap
+const seen = new Map<string, SeenContext>();
+let release: () => void = () => {};
+const bothInside = new Promise<void>((resolve) => (release = resolve));
+
+toolRegistry.register({
+  name: PROBE_TOOL,
+  description: 'Reports the context it was called with',
+  inputSchema: { type: 'object', properties: {} },
+  riskLevel: 'low',
+  async execute(_input, context) {
+    seen.set(context.conversationId, {
+      groupId: context.groupId,
+      githubRepo: context.githubRepo,
+      secrets: context.secrets,
+    });
+    if (seen.size === 2) release();
+    await Promise.race([bothInside, new Promise((resolve) => setTimeout(resolve, 5000))]);
+    return { content: 'ok' };
+  },
+});
+
+describe('Tool context: concurrent runs', () => {
+  test('each tool call sees the group, repo and secrets of its own run', async () => {
+    // One channel per group, so each run resolves its own group's config
+    const runs = ['alpha', 'beta'].map((name) => {
+      const channelId = `tool-context-${name}-${suffix}`;
+      upsertChannel({ id: channelId, type: 'webhook', name: `Tool context ${name}`, config: '{}', enabled: 0 });
+      const group = createAgentGroup({
+        name: `${name} ${suffix}`,
+        systemPrompt: 'Use the probe.',
+        githubRepo: `org/${name}`,
+        githubToken: `ghp_${name}`,
+      });
+      assignChannelToGroup(channelId, group.id);
+      const conversationId = getOrCreateConversation(channelId, `${name}-${suffix}`);
+      return { group, channelId, conversationId };
+    });
+
+    const replies = await Promise.all(
+      runs.map(({ channelId, conversationId }) =>
+        processMessage(conversationId, 'Probe', 'webhook', 'tester', undefined, resolveAgentConfig(channelId, '')),
+      ),
+    );
+    assert.deepEqual(replies, ['Done', 'Done']);
+
+    for (const { group, conversationId } of runs) {
+      const name = group.name.split(' ')[0];
+      assert.deepEqual(seen.get(conversationId), {
+        groupId: group.id,
+        githubRepo: `org/${name}`,
+        secrets: { githubToken: `ghp_${name}` },
+      });
+    }
+  });
+
+  test('ToolRegistry.execute passes each caller its own context', async () => {
+    const results = await Promise.all(
+      ['one', 'two'].map((name) =>
+        toolRegistry.execute(
+          PROBE_TOOL,
+          {},
+          createToolContext({
+            conversationId: `registry-${name}-${suffix}`,
+            groupId: `group-${name}`,
+            secrets: { githubToken: `token-${name}` },
+          }),
+        ),
+      ),
+    );
+    assert.deepEqual(results, [{ content: 'ok' }, { content: 'ok' }]);
+    assert.deepEqual(seen.get(`registry-one-${suffix}`), {
+      groupId: 'group-one',
+      githubRepo: undefined,
+      secrets: { githubToken: 'token-one' },
+    });
+    assert.deepEqual(seen.get(`registry-two-${suffix}`)?.secrets, { githubToken: 'token-two' });
+  });
+});
+
+describe('Tool context: sub-agents', () => {
+  test('tool calls of sub-agents pass the HITL gate of the parent run', async () => {
+    const toolName = `guarded_probe_${suffix}`;
+    let executed = false;
+    toolRegistry.register({
+      name: toolName,
+      description: 'Needs approval',
+      inputSchema: { type: 'object', properties: {} },
+      async execute() {
+        executed = true;
+        return { content: 'ran' };
+      },
+    });
+    upsertApprovalRule({ toolName, riskLevel: 'high', requireApproval: true });
+
+    const channelId = `tool-context-sub-${suffix}`;
+    upsertChannel({ id: channelId, type: 'webhook', name: 'Tool context sub-agents', config: '{}', enabled: 0 });
+    const group = createAgentGroup({ name: `sub ${suffix}`, systemPrompt: 'Delegate.' });
+    const conversationId = getOrCreateConversation(channelId, `sub-${suffix}`);
+    const runId = createAgentRun(conversationId, addMessage(conversationId, 'user', 'Research'));
+    const requested: string[] = [];
+    const onRequired = (approval: ApprovalRequest) => {
+      if (approval.runId !== runId) return;
+      requested.push(approval.toolName);
+      setImmediate(() => respondToApproval(approval.id, false, 'Not today', 'tester'));
+    };
+    approvalEvents.on('approval:required', onRequired);
+    modelTool = toolName;
+
+    try {
+      const reply = await spawnSubAgent({
+        role: 'researcher',
+        task: 'Research',
+        groupId: group.id,
+        parentAgentId: 'parent',
+        conversationId,
+        parentContext: createToolContext({ runId, conversationId, groupId: group.id }),
+      });
+      assert.equal(reply, 'Done');
+      assert.deepEqual(requested, [toolName]);
+      assert.equal(executed, false);
+    } finally {
+      approvalEvents.off('approval:required', onRequired);
+      modelTool = PROBE_TOOL;
+    }
+  });
+});
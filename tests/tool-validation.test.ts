@@ -0,0 +1,183 @@
+/**
+ * Tool Input Validation Tests
+ *
+ * Uses a temp SQLite DB and a test tool to test:
+ * - JSON Schema keywords (nested objects, enums, additionalProperties, combinators)
+ * - Broken schemas: invalid patterns and $ref cycles
+ * - Rejection in ToolRegistry.execute with the failing paths, tool not run
+ * - Per-tool violation counts in the usage stats
+ *
+ * Run: npx tsx tests/tool-validation.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test, describe } from 'node:test';
+import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
+
+// Set up temp DB before any imports that read config
+const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-validation-test-'));
+process.env.DB_PATH = path.join(testDir, 'test.db');
+process.env.ANTHROPIC_API_KEY = 'test-key-not-real';
+
+import { getDb } from '../src/db/sqlite';
+// The channel manager first: it and HITL (imported by the run trace) import each other
+import '../src/channels/manager';
+import { initRunTraceSchema } from '../src/agent/run-trace';
+import { toolRegistry, createToolContext } from '../src/agent/tools/registry';
+import { validateInput, formatViolations } from '../src/agent/tools/validation';
+import { initToolUsageSchema, getToolUsage } from '../src/agent/tools/usage';
+
+getDb();
+initRunTraceSchema();
+initToolUsageSchema();
+
+const inputSchema = {
+  type: 'object' as const,
+  properties: {
+    city: { type: 'string', minLength: 1 },
+    options: {
+      type: 'object',
+      properties: {
+        units: { type: 'string', enum: ['metric', 'imperial'] },
+        days: { type: 'integer', minimum: 1, maximum: 14 },
+      },
+      additionalProperties: false,
+    },
+  },
+  required: ['city'],
+  additionalProperties: false,
+};
+
+let executions = 0;
+toolRegistry.register({
+  name: 'forecast_test',
+  description: 'Test forecast',
+  inputSchema,
+  execute: async (input) => {
+    executions++;
+    return { content: `forecast for ${input.city}` };
+  },
+});
+
+describe('Tool validation: JSON Schema', () => {
+  test('checks nested objects, enums and additionalProperties', () => {
+    assert.deepEqual(validateInput(inputSchema, { city: 'Oslo', options: { units: 'metric', days: 3 } }), []);
+    const violations = validateInput(inputSchema, {
+      options: { units: 'kelvin', days: 0, hourly: true },
+      country: 'NO',
+    });
+    assert.equal(
+      formatViolations(violations),
+      'city: is required; options.units: must be one of "metric", "imperial"; options.days: must be >= 1; ' +
+        'options.hourly: is not an allowed property; country: is not an allowed property',
+    );
+  });
+
+  test('supports value limits, tuples, combinators and local refs', () => {
+    const schema = {
+      $defs: { tag: { type: 'string', pattern: '^[a-z]+$', maxLength: 5 } },
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { $ref: '#/$defs/tag' }, uniqueItems: true, maxItems: 3 },
+        point: { type: 'array', items: [{ type: 'number' }, { type: 'number' }], minItems: 2 },
+        id: { oneOf: [{ type: 'integer' }, { type: 'string', const: 'auto' }] },
+        step: { type: 'number', multipleOf: 0.5, exclusiveMaximum: 10 },
+        meta: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          patternProperties: { '^n_': { type: 'number' } },
+        },
+        mode: { anyOf: [{ enum: ['fast'] }, { enum: ['slow'] }], not: { const: 'slow' } },
+      },
+    };
+    const value = {
+      tags: ['ok', 'Bad', 'toolong', 'ok'],
+      point: [1],
+      id: 'manual',
+      step: 10,
+      meta: { label: 'x', n_count: 2, other: 3 },
+      mode: 'slow',
+    };
+    assert.deepEqual(
+      validateInput(schema, value).map((v) => v.path),
+      ['tags[1]', 'tags[2]', 'tags', 'tags', 'point', 'id', 'step', 'meta.other', 'mode'],
+    );
+    assert.deepEqual(
+      validateInput(schema, { tags: ['a'], point: [1, 2], id: 7, step: 9.5, meta: { n_x: 1 }, mode: 'fast' }),
+      [],
+    );
+  });
+
+  test('reports broken patterns and $ref cycles as violations instead of throwing', () => {
+    // Invalid with the "u" flag only: compiled without it
+    const name = { type: 'string', pattern: '^[\\w-.]+$' };
+    assert.deepEqual(validateInput(name, 'my-file.txt'), []);
+    assert.equal(formatViolations(validateInput(name, 'a b')), 'must match the pattern ^[\\w-.]+$');
+
+    const broken = {
+      type: 'object',
+      properties: { q: { type: 'string', pattern: '(' } },
+      patternProperties: { '[': {} },
+    };
+    assert.deepEqual(
+      validateInput(broken, { q: 'x' }).map((v) => v.message),
+      ['schema pattern [ is not a valid regular expression', 'schema pattern ( is not a valid regular expression'],
+    );
+
+    const cycle = { $defs: { a: { $ref: '#/$defs/a' } }, $ref: '#/$defs/a' };
+    assert.equal(formatViolations(validateInput(cycle, 1)), 'schema reference #/$defs/a refers to itself');
+    const indirect = {
+      $defs: { a: { anyOf: [{ $ref: '#/$defs/b' }] }, b: { allOf: [{ $ref: '#/$defs/a' }] } },
+      $ref: '#/$defs/a',
+    };
+    assert.equal(validateInput(indirect, 1).length, 1);
+
+    // Recursion into the value is no cycle
+    const tree = {
+      $defs: { node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } } } },
+      $ref: '#/$defs/node',
+    };
+    assert.deepEqual(validateInput(tree, { children: [{ children: [{}] }] }), []);
+    assert.deepEqual(
+      validateInput(tree, { children: [{ children: [1] }] }).map((v) => v.path),
+      ['children[0].children[0]'],
+    );
+  });
+});
+
+describe('Tool validation: registry', () => {
+  test('rejects invalid input with the failing paths and does not run the tool', async () => {
+    const ctx = createToolContext({ conversationId: 'c1' });
+    const result = await toolRegistry.execute('forecast_test', { options: { units: 'kelvin' } }, ctx);
+    assert.equal(result.isError, true);
+    assert.equal(executions, 0);
+    const content = JSON.parse(result.content);
+    assert.match(content.error, /Invalid input for tool forecast_test/);
+    assert.deepEqual(content.violations, [
+      { path: 'city', message: 'is required' },
+      { path: 'options.units', message: 'must be one of "metric", "imperial"' },
+    ]);
+
+    const ok = await toolRegistry.execute('forecast_test', { city: 'Oslo' }, ctx);
+    assert.deepEqual([ok.content, ok.isError, executions], ['forecast for Oslo', undefined, 1]);
+  });
+
+  test('counts rejected calls and violations per tool', async () => {
+    const ctx = createToolContext({ conversationId: 'c2' });
+    await toolRegistry.execute('forecast_test', { city: '', extra: 1 }, ctx);
+    const usage = getToolUsage().find((u) => u.tool === 'forecast_test');
+    assert.ok(usage);
+    assert.deepEqual([usage.invalidCalls, usage.violations], [2, 4]);
+    assert.ok(usage.lastInvalidAt);
+
+    const stored = getDb()
+      .prepare('SELECT violations FROM tool_input_violations WHERE conversation_id = ?')
+      .get('c2') as { violations: string };
+    assert.deepEqual(
+      JSON.parse(stored.violations).map((v: { path: string }) => v.path),
+      ['city', 'extra'],
+    );
+  });
+});